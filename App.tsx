@@ -1,49 +1,247 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import Input from './components/Input';
 import Button from './components/Button';
 import BuildingVisualizer from './components/BuildingVisualizer';
 import InteractivePlanDisplay from './components/InteractivePlanDisplay';
-import { calculateAPPlacement } from './services/optimizationService';
-import type { OptimizationResult, APCoordinate, BuildingDimensions } from './types';
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import Select from './components/Select';
+import CoverageMetricsPanel from './components/CoverageMetricsPanel';
+import PropagationSettingsPanel, { initialPropagationFormState, toPropagationSettings } from './components/PropagationSettingsPanel';
+import ObstacleEditor, { initialObstacleDrawingState } from './components/ObstacleEditor';
+import type { ObstacleDrawingState } from './components/ObstacleEditor';
+import type { PlanDrawMode } from './components/InteractivePlanDisplay';
+import BuildingOutlineEditor, { initialOutlineFormState, parseOutlineForm } from './components/BuildingOutlineEditor';
+import FloorTabs from './components/FloorTabs';
+import ChannelPlanPanel from './components/ChannelPlanPanel';
+import ChannelAssignmentTable from './components/ChannelAssignmentTable';
+import CapacityPanel, { createCapacityZone, initialCapacityFormState, toCapacitySettings } from './components/CapacityPanel';
+import CapacitySummaryPanel from './components/CapacitySummaryPanel';
+import PlanningZonesPanel from './components/PlanningZonesPanel';
+import ZoneCompliancePanel, { zoneRequirement } from './components/ZoneCompliancePanel';
+import MountingPanel, { initialCablingFormState, initialMountingFormState, toCablingSettings, toMountingSettings } from './components/MountingPanel';
+import CableRunsPanel from './components/CableRunsPanel';
+import ApCatalogPanel from './components/ApCatalogPanel';
+import ApBillPanel from './components/ApBillPanel';
+import ApModelSelect from './components/ApModelSelect';
+import PlanCalibrationPanel from './components/PlanCalibrationPanel';
+import type { CalibrationStep } from './components/PlanCalibrationPanel';
+import ProjectToolbar from './components/ProjectToolbar';
+import RecentProjectsPanel from './components/RecentProjectsPanel';
+import HistoryControls from './components/HistoryControls';
+import PlacementExchangePanel, { initialGeoAnchorFormState, toGeoAnchor } from './components/PlacementExchangePanel';
+import PlacementExportButtons from './components/PlacementExportButtons';
+import { renderBuildingSvg } from './components/BuildingSvg';
+import { renderPlanSvg } from './components/PlanSvg';
+import ReportBuilderPanel from './components/ReportBuilderPanel';
+import AiProviderPanel from './components/AiProviderPanel';
+import AiDiagnosticsPanel from './components/AiDiagnosticsPanel';
+import AiRefinementHistoryPanel from './components/AiRefinementHistoryPanel';
+import PlacementComparisonPanel from './components/PlacementComparisonPanel';
+import PlacementRefinementPanel from './components/PlacementRefinementPanel';
+import type { RefinementRun } from './components/PlacementRefinementPanel';
+import type { ComparisonVariant } from './components/PlacementComparisonPanel';
+import { DEFAULT_ANALYSIS_RESOLUTION } from './services/coverageAnalysisService';
+import { startOptimizationJob, useCoverageAnalysis, useZoneCompliance } from './services/optimizationWorkerClient';
+import type { JobHandle } from './services/optimizationWorkerClient';
+import { computeSignalHeatmap, thresholdDistance } from './services/propagationService';
+import { MATERIAL_COLORS } from './services/obstacleService';
+import { createFloor, getAdjacentFloorSources } from './services/floorService';
+import { assignChannels, DEFAULT_CHANNEL_PLAN_SETTINGS } from './services/channelPlanningService';
+import { evaluateCapacity } from './services/capacityService';
+import { createPlanningZone, isMountAllowed, PLANNING_ZONE_COLORS, priorityZoneModelRadii, priorityZoneRadii, rectangleFromCorners, zonePolygons } from './services/planningZoneService';
+import { countOffMount, createMountAllocator, isMountingActive, MOUNTING_MODE_LABELS, snapPlacement, snapResult, snapToMount } from './services/mountingService';
+import { estimateCableRuns, ETHERNET_MAX_RUN_M } from './services/cablingService';
+import { applyApModel, carryApModels, DEFAULT_AP_CATALOG_SETTINGS, findApModel, formatPrice, modelCoverageRadii, modelPropagationSettings, resolveApModels, setApModel, summarizeApBill } from './services/apCatalogService';
+import type { PlanningZoneContext } from './services/planningZoneService';
+import { createProjectFile, parseProjectFile, projectFileName, serializeProject } from './services/projectFileService';
+import { DEFAULT_AI_RESPONSE_OPTIONS, getAiPlacementSuggestions } from './services/aiPlacementService';
+import { DEFAULT_REFINEMENT_SETTINGS } from './services/placementRefinementService';
+import { DEFAULT_AI_REFINEMENT_SETTINGS, refineAiPlacements, resultForRound } from './services/aiRefinementService';
+import { aiProviderSettingsError, createAiProvider, DEFAULT_AI_PROVIDER_SETTINGS } from './services/aiProviders';
+import { buildBillOfMaterials, buildReportPdf, DEFAULT_REPORT_OPTIONS, REPORT_SOURCE_LABELS } from './services/reportService';
+import type { ReportOptions, ReportPlacement, ReportZoneCompliance } from './services/reportService';
+import { PLACEMENT_SOURCE_LABELS } from './services/placementExchangeService';
+import { AUTOSAVE_DELAY_MS, autosaveProject, deleteRecentProjects, isEmptyProject, listRecentProjects, loadRecentProject } from './services/autosaveService';
+import { createId } from './utils/id';
+import { downloadTextFile } from './utils/download';
+import { rasterizeSvg } from './utils/svgExport';
+import { EMPTY_HISTORY, pushCommand, stepBack, stepForward } from './utils/editHistory';
+import type { EditHistory } from './utils/editHistory';
+import { formatVertexList, isInsideBuilding } from './utils/geometry';
+import { metersToPlanPixel, planPixelToMeters, resolvePlanTransform, rotationFromPoints } from './utils/planTransform';
+import type { OptimizationResult, APCoordinate, BuildingDimensions, AlgorithmMode, GridLattice, Wall, BuildingOutline, OutlineFormState, FloorSnapshot, ChannelPlanSettings, CapacityZone, PlanCalibration, PropagationFormState, CapacityFormState, ProjectSettings, ProjectFile, RecentProjectSummary, GeoAnchorFormState, PlacementSource, DesignOfRecord, AiProviderSettings, AiResponseOptions, AiRefinementSettings, CoverageMetrics, RefinementOutcome, RefinementSettings, SearchProgress, PlanningZone, PlanningZoneKind, ZoneCompliance, MountingFormState, CablingFormState, CableRunSummary, ApBill, ApCatalogSettings, ApModel } from './types';
+
+
+// What a click sequence on the uploaded plan is currently drawing, if anything.
+type PlanDrawTarget = 'obstacle' | 'outline' | 'hole' | 'capacityZone' | 'planningZoneRectangle' | 'planningZonePolygon' | 'mountPoints' | 'idf' | 'calibrationScale' | 'calibrationOrigin' | 'calibrationAxis';
+
+const CALIBRATION_DRAW_TARGETS: Record<CalibrationStep, PlanDrawTarget> = {
+  scale: 'calibrationScale',
+  origin: 'calibrationOrigin',
+  axis: 'calibrationAxis',
+};
+
+const ALGORITHM_MODE_LABELS: Record<AlgorithmMode, string> = {
+  grid: 'Cuadrícula (rápido)',
+  setCover: 'Cobertura exacta (combinatorio)',
+};
+
+const GRID_LATTICE_LABELS: Record<GridLattice, string> = {
+  square: 'Cuadrada',
+  hex: 'Hexagonal',
+};
+
+// Which download button asked for the report being generated: a single placement source or the report builder.
+type ReportRequestKey = PlacementSource | 'custom';
+
+const PDF_IMAGE_DPI = 200; // Visualizations are rasterized from SVG at this resolution for the PDF reports
+const OPTIMIZATION_TIMEOUT_MS = 60000; // Worker runs stop here and keep the best result found so far
+const REFINEMENT_IMAGE_DPI = 96; // Coverage drawings sent to the AI during refinement; small keeps requests light
+
+// Settings applied to anything a project file or stored session does not specify.
+const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  coverageArea: '',
+  algorithmMode: 'grid',
+  gridLattice: 'square',
+  analysisResolution: String(DEFAULT_ANALYSIS_RESOLUTION),
+  propagation: initialPropagationFormState,
+  channelPlan: DEFAULT_CHANNEL_PLAN_SETTINGS,
+  capacity: initialCapacityFormState,
+  geoAnchor: initialGeoAnchorFormState,
+  cabling: initialCablingFormState,
+  apCatalog: DEFAULT_AP_CATALOG_SETTINGS,
+};
+
+const defaultProjectName = () => `Proyecto ${new Date().toLocaleDateString('es')}`;
+
+// Inputs that are toggled or clicked rather than typed in have no undo of their own.
+const NON_TEXT_INPUT_TYPES = ['checkbox', 'radio', 'button', 'submit', 'reset', 'file', 'range', 'color'];
 
-// Declare html2canvas to inform TypeScript about global variable from CDN
-declare var html2canvas: any;
+const isTextEntryTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  return target instanceof HTMLInputElement && !NON_TEXT_INPUT_TYPES.includes(target.type);
+};
 
 const App: React.FC = () => {
   const initialCoverageArea = '200'; // Used for fallback in calculatedRadiusForViz
   const [coverageAreaInput, setCoverageAreaInput] = useState<string>('');
   const [buildingLength, setBuildingLength] = useState<string>('');
   const [buildingWidth, setBuildingWidth] = useState<string>('');
+  const [algorithmMode, setAlgorithmMode] = useState<AlgorithmMode>('grid');
+  const [gridLattice, setGridLattice] = useState<GridLattice>('square');
+  const [analysisResolutionInput, setAnalysisResolutionInput] = useState<string>(String(DEFAULT_ANALYSIS_RESOLUTION));
+  const [propagationForm, setPropagationForm] = useState<PropagationFormState>(initialPropagationFormState);
+  const enteredPropagationSettings = useMemo(() => toPropagationSettings(propagationForm), [propagationForm]);
+  // The deployed AP model, when one is chosen, sets the EIRP and with it the coverage radius
+  const [apCatalog, setApCatalog] = useState<ApCatalogSettings>(DEFAULT_AP_CATALOG_SETTINGS);
+  const defaultApModel = useMemo(() => findApModel(apCatalog.models, apCatalog.defaultModelId), [apCatalog]);
+  const propagationSettings = useMemo(() => applyApModel(enteredPropagationSettings, defaultApModel), [enteredPropagationSettings, defaultApModel]);
+  // APs with a model of their own transmit, and so reach, as that model does
+  const modelPropagation = useMemo(() => modelPropagationSettings(apCatalog, enteredPropagationSettings), [apCatalog, enteredPropagationSettings]);
+  const modelRadii = useMemo(() => modelCoverageRadii(modelPropagation), [modelPropagation]);
+  const [channelPlanSettings, setChannelPlanSettings] = useState<ChannelPlanSettings>(DEFAULT_CHANNEL_PLAN_SETTINGS);
+  const [capacityForm, setCapacityForm] = useState<CapacityFormState>(initialCapacityFormState);
+  const capacitySettings = useMemo(() => toCapacitySettings(capacityForm), [capacityForm]);
+  const [geoAnchorForm, setGeoAnchorForm] = useState<GeoAnchorFormState>(initialGeoAnchorFormState);
+  const geoAnchor = useMemo(() => toGeoAnchor(geoAnchorForm), [geoAnchorForm]);
+  const [projectStatus, setProjectStatus] = useState<{ kind: 'info' | 'error'; message: string } | null>(null);
+
+  // Browser autosave: the current project's id in storage, the recent list and the restore offer shown at startup
+  const [projectId, setProjectId] = useState<string>(() => createId('project'));
+  const [projectName, setProjectName] = useState<string>(defaultProjectName);
+  const [recentProjects, setRecentProjects] = useState<RecentProjectSummary[]>([]);
+  const [sessionOffer, setSessionOffer] = useState<RecentProjectSummary | null>(null);
+  const [lastAutosaveAt, setLastAutosaveAt] = useState<Date | null>(null);
   
   // Algorithmic Optimization State
   const [results, setResults] = useState<OptimizationResult | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [algorithmProgress, setAlgorithmProgress] = useState<SearchProgress<OptimizationResult> | null>(null);
+  const algorithmJobRef = useRef<JobHandle<OptimizationResult> | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [isDownloadingPdf, setIsDownloadingPdf] = useState<boolean>(false);
 
   // AI Optimization State
   const [aiResults, setAiResults] = useState<OptimizationResult | null>(null);
   const [isAiOptimizing, setIsAiOptimizing] = useState<boolean>(false);
   const [aiError, setAiError] = useState<string | null>(null);
-  const [isDownloadingAiPdf, setIsDownloadingAiPdf] = useState<boolean>(false);
+  const [aiProviderSettings, setAiProviderSettings] = useState<AiProviderSettings>(DEFAULT_AI_PROVIDER_SETTINGS);
+  const [aiResponseOptions, setAiResponseOptions] = useState<AiResponseOptions>(DEFAULT_AI_RESPONSE_OPTIONS);
+  const [aiRefinementSettings, setAiRefinementSettings] = useState<AiRefinementSettings>(DEFAULT_AI_REFINEMENT_SETTINGS);
+  const [aiRefinementProgress, setAiRefinementProgress] = useState<{ round: number; coveragePercent: number } | null>(null);
+
+  // The placement chosen for deployment on the active floor
+  const [designOfRecord, setDesignOfRecord] = useState<DesignOfRecord | null>(null);
+
+  // Local-search refinement of one placement source; the id discards runs overtaken by a new run or floor
+  const [refinementSettings, setRefinementSettings] = useState<RefinementSettings>(DEFAULT_REFINEMENT_SETTINGS);
+  const [refinementRun, setRefinementRun] = useState<RefinementRun | null>(null);
+  const refinementJobRef = useRef<JobHandle<RefinementOutcome> | null>(null);
+
+  // PDF report: the builder's choices and which button is generating one
+  const [reportOptions, setReportOptions] = useState<ReportOptions>(DEFAULT_REPORT_OPTIONS);
+  const [generatingReport, setGeneratingReport] = useState<ReportRequestKey | null>(null);
 
   // Manual Placement State
-  const [isDownloadingManualPdf, setIsDownloadingManualPdf] = useState<boolean>(false);
   const [uploadedPlanNaturalDimensions, setUploadedPlanNaturalDimensions] = useState<{width: number, height: number} | null>(null);
+  const [planCalibration, setPlanCalibration] = useState<PlanCalibration | null>(null);
+  const [calibrationScalePoints, setCalibrationScalePoints] = useState<APCoordinate[] | null>(null);
 
 
   const [calculatedRadiusForViz, setCalculatedRadiusForViz] = useState<number>(() => Math.sqrt(parseFloat(initialCoverageArea) / 2));
 
+  // Floors, bottom to top. The active floor is edited through the states below; the others are kept as snapshots.
+  const [floors, setFloors] = useState<FloorSnapshot[]>(() => [createFloor('Planta 1')]);
+  const [activeFloorId, setActiveFloorId] = useState<string>(() => floors[0].id);
+
   // State for manual AP placement on plan
-  const [uploadedPlanImage, setUploadedPlanImage] = useState<File | null>(null);
   const [uploadedPlanImageDataUrl, setUploadedPlanImageDataUrl] = useState<string | null>(null);
   const [manualAPs, setManualAPs] = useState<APCoordinate[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Effect to update calculatedRadiusForViz when coverageAreaInput changes
+  // Walls, doors and windows, stored in building meters
+  const [walls, setWalls] = useState<Wall[]>([]);
+  const [obstacleDrawing, setObstacleDrawing] = useState<ObstacleDrawingState>(initialObstacleDrawingState);
+  const [planDrawTarget, setPlanDrawTarget] = useState<PlanDrawTarget | null>(null);
+
+  // High-density zones of the active floor, in building meters
+  const [capacityZones, setCapacityZones] = useState<CapacityZone[]>([]);
+
+  // No-mount, no-coverage and priority zones of the active floor, in building meters
+  const [planningZones, setPlanningZones] = useState<PlanningZone[]>([]);
+  const [newPlanningZoneKind, setNewPlanningZoneKind] = useState<PlanningZoneKind>('noMount');
+
+  // Where APs may be mounted and where their cables run to, per floor; cable slack is project-wide
+  const [mountingForm, setMountingForm] = useState<MountingFormState>(initialMountingFormState);
+  const [idfLocation, setIdfLocation] = useState<APCoordinate | null>(null);
+  const [cablingForm, setCablingForm] = useState<CablingFormState>(initialCablingFormState);
+  const mountingSettings = useMemo(() => toMountingSettings(mountingForm), [mountingForm]);
+  const cablingSettings = useMemo(() => toCablingSettings(cablingForm), [cablingForm]);
+
+  // Building outline (rectangle by default, or a polygon with optional holes)
+  const [outlineForm, setOutlineForm] = useState<OutlineFormState>(initialOutlineFormState);
+  const parsedOutline = useMemo(
+    () => parseOutlineForm(outlineForm, parseFloat(buildingLength) || 0, parseFloat(buildingWidth) || 0),
+    [outlineForm, buildingLength, buildingWidth]
+  );
+  const buildingOutline: BuildingOutline | undefined = parsedOutline.outline && !parsedOutline.error ? parsedOutline.outline : undefined;
+
+  // Undo/redo of plan edits and parameter changes. Cleared whenever a different floor or project is loaded.
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const dragGestureRef = useRef<{ before: APCoordinate[]; after: APCoordinate[] } | null>(null);
+
+  // Applies a change to one piece of state and records it as an undoable command.
+  const recordEdit = useCallback(<T,>(label: string, setter: (value: T) => void, before: T, after: T, mergeKey?: string) => {
+    setter(after);
+    setEditHistory(history => pushCommand(history, { label, mergeKey, timestamp: Date.now(), undo: () => setter(before), redo: () => setter(after) }));
+  }, []);
+
+  // Effect to update calculatedRadiusForViz when coverageAreaInput or the propagation model changes
   useEffect(() => {
+    if (propagationSettings.enabled) {
+      setCalculatedRadiusForViz(thresholdDistance(propagationSettings));
+      return;
+    }
     const area = parseFloat(coverageAreaInput);
     if (!isNaN(area) && area > 0) {
       setCalculatedRadiusForViz(Math.sqrt(area / 2));
@@ -51,13 +249,14 @@ const App: React.FC = () => {
       // Fallback if input is invalid or empty, using initial area constant
       setCalculatedRadiusForViz(Math.sqrt(parseFloat(initialCoverageArea) / 2));
     }
-  }, [coverageAreaInput, initialCoverageArea]);
+  }, [coverageAreaInput, initialCoverageArea, propagationSettings]);
 
   const clearPlan = useCallback(() => {
-    setUploadedPlanImage(null);
     setUploadedPlanImageDataUrl(null);
     setManualAPs([]);
     setUploadedPlanNaturalDimensions(null);
+    setPlanCalibration(null);
+    setCalibrationScalePoints(null);
     if(fileInputRef.current) fileInputRef.current.value = "";
   }, []);
 
@@ -69,10 +268,230 @@ const App: React.FC = () => {
     setError(null);
     setAiResults(null);
     setAiError(null);
+    setDesignOfRecord(null);
+    refinementJobRef.current?.cancel();
+    refinementJobRef.current = null;
+    setRefinementRun(null);
+    setPropagationForm(initialPropagationFormState);
+    setChannelPlanSettings(DEFAULT_CHANNEL_PLAN_SETTINGS);
+    setCapacityForm(initialCapacityFormState);
+    setGeoAnchorForm(initialGeoAnchorFormState);
+    setCapacityZones([]);
+    setPlanningZones([]);
+    setMountingForm(initialMountingFormState);
+    setIdfLocation(null);
+    setCablingForm(initialCablingFormState);
+    setApCatalog(DEFAULT_AP_CATALOG_SETTINGS);
+    setWalls([]);
+    setPlanDrawTarget(null);
+    setOutlineForm(initialOutlineFormState);
     clearPlan();
+    const firstFloor = createFloor('Planta 1');
+    setFloors([firstFloor]);
+    setActiveFloorId(firstFloor.id);
+    setProjectStatus(null);
+    setEditHistory(EMPTY_HISTORY);
+    // Start a new stored session; the previous one stays in the recent list.
+    setProjectId(createId('project'));
+    setProjectName(defaultProjectName());
+    setLastAutosaveAt(null);
     // calculatedRadiusForViz will be updated by its useEffect due to coverageAreaInput change
   }, [clearPlan]);
 
+  // The active floor with its live, per-floor state written back into the snapshot.
+  const captureActiveFloor = useCallback((floor: FloorSnapshot): FloorSnapshot => ({
+    ...floor,
+    buildingLength,
+    buildingWidth,
+    outlineForm,
+    planImageDataUrl: uploadedPlanImageDataUrl,
+    planNaturalDimensions: uploadedPlanNaturalDimensions,
+    planCalibration,
+    manualAPs,
+    walls,
+    capacityZones,
+    planningZones,
+    mountingForm,
+    idfLocation,
+    results,
+    aiResults,
+    designOfRecord,
+  }), [buildingLength, buildingWidth, outlineForm, uploadedPlanImageDataUrl, uploadedPlanNaturalDimensions, planCalibration, manualAPs, walls, capacityZones, planningZones, mountingForm, idfLocation, results, aiResults, designOfRecord]);
+
+  const floorsWithActive = useMemo(
+    () => floors.map(floor => (floor.id === activeFloorId ? captureActiveFloor(floor) : floor)),
+    [floors, activeFloorId, captureActiveFloor]
+  );
+  const activeFloorIndex = floorsWithActive.findIndex(floor => floor.id === activeFloorId);
+  const activeFloor = floorsWithActive[activeFloorIndex];
+
+  const loadFloor = useCallback((floor: FloorSnapshot) => {
+    setBuildingLength(floor.buildingLength);
+    setBuildingWidth(floor.buildingWidth);
+    setOutlineForm(floor.outlineForm);
+    setUploadedPlanImageDataUrl(floor.planImageDataUrl);
+    setUploadedPlanNaturalDimensions(floor.planNaturalDimensions);
+    setPlanCalibration(floor.planCalibration);
+    setCalibrationScalePoints(null);
+    setManualAPs(floor.manualAPs);
+    setWalls(floor.walls);
+    setCapacityZones(floor.capacityZones);
+    setPlanningZones(floor.planningZones);
+    setMountingForm(floor.mountingForm);
+    setIdfLocation(floor.idfLocation);
+    setResults(floor.results);
+    setAiResults(floor.aiResults);
+    setDesignOfRecord(floor.designOfRecord);
+    refinementJobRef.current?.cancel();
+    refinementJobRef.current = null;
+    setRefinementRun(null);
+    setError(null);
+    setAiError(null);
+    setPlanDrawTarget(null);
+    setEditHistory(EMPTY_HISTORY);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  }, []);
+
+  const switchFloor = useCallback((id: string) => {
+    if (id === activeFloorId) return;
+    const target = floorsWithActive.find(floor => floor.id === id);
+    if (!target) return;
+    setFloors(floorsWithActive);
+    setActiveFloorId(id);
+    loadFloor(target);
+  }, [activeFloorId, floorsWithActive, loadFloor]);
+
+  // New floors go on top and start with the dimensions and slab settings of the current floor.
+  const handleAddFloor = useCallback(() => {
+    const newFloor = createFloor(`Planta ${floorsWithActive.length + 1}`, activeFloor);
+    setFloors([...floorsWithActive, newFloor]);
+    setActiveFloorId(newFloor.id);
+    loadFloor(newFloor);
+  }, [floorsWithActive, activeFloor, loadFloor]);
+
+  const handleDeleteFloor = useCallback((id: string) => {
+    if (floorsWithActive.length <= 1) return;
+    const index = floorsWithActive.findIndex(floor => floor.id === id);
+    const remaining = floorsWithActive.filter(floor => floor.id !== id);
+    setFloors(remaining);
+    if (id === activeFloorId) {
+      const next = remaining[Math.max(0, index - 1)];
+      setActiveFloorId(next.id);
+      loadFloor(next);
+    }
+  }, [floorsWithActive, activeFloorId, loadFloor]);
+
+  const handleUpdateFloor = useCallback((id: string, changes: Partial<Pick<FloorSnapshot, 'name' | 'floorHeightM' | 'slabAttenuationDb'>>) => {
+    setFloors(prevFloors => prevFloors.map(floor => (floor.id === id ? { ...floor, ...changes } : floor)));
+  }, []);
+
+  const projectSettings = useMemo<ProjectSettings>(() => ({
+    coverageArea: coverageAreaInput,
+    algorithmMode,
+    gridLattice,
+    analysisResolution: analysisResolutionInput,
+    propagation: propagationForm,
+    channelPlan: channelPlanSettings,
+    capacity: capacityForm,
+    geoAnchor: geoAnchorForm,
+    cabling: cablingForm,
+    apCatalog,
+  }), [coverageAreaInput, algorithmMode, gridLattice, analysisResolutionInput, propagationForm, channelPlanSettings, capacityForm, geoAnchorForm, cablingForm, apCatalog]);
+
+  const handleSaveProject = useCallback(() => {
+    downloadTextFile(projectFileName(projectName), serializeProject(createProjectFile(projectSettings, floorsWithActive, activeFloorId)), 'application/json');
+    setProjectStatus({ kind: 'info', message: 'Proyecto guardado.' });
+  }, [projectSettings, floorsWithActive, activeFloorId, projectName]);
+
+  const applyProject = useCallback((project: ProjectFile) => {
+    setCoverageAreaInput(project.settings.coverageArea);
+    setAlgorithmMode(project.settings.algorithmMode);
+    setGridLattice(project.settings.gridLattice);
+    setAnalysisResolutionInput(project.settings.analysisResolution);
+    setPropagationForm(project.settings.propagation);
+    setChannelPlanSettings(project.settings.channelPlan);
+    setCapacityForm(project.settings.capacity);
+    setGeoAnchorForm(project.settings.geoAnchor);
+    setCablingForm(project.settings.cabling);
+    setApCatalog(project.settings.apCatalog);
+    setFloors(project.floors);
+    setActiveFloorId(project.activeFloorId);
+    loadFloor(project.floors.find(floor => floor.id === project.activeFloorId) ?? project.floors[0]);
+  }, [loadFloor]);
+
+  const handleOpenProject = useCallback(async (file: File) => {
+    try {
+      const project = parseProjectFile(await file.text(), DEFAULT_PROJECT_SETTINGS);
+      applyProject(project);
+      setProjectId(createId('project'));
+      setProjectName(file.name.replace(/\.json$/i, ''));
+      setLastAutosaveAt(null);
+      setProjectStatus({ kind: 'info', message: `Proyecto "${file.name}" abierto (${project.floors.length} planta(s)).` });
+    } catch (e: any) {
+      setProjectStatus({ kind: 'error', message: e.message || 'No se pudo abrir el proyecto.' });
+    }
+  }, [applyProject]);
+
+  // Look for stored sessions once, at startup.
+  useEffect(() => {
+    listRecentProjects()
+      .then(projects => {
+        setRecentProjects(projects);
+        setSessionOffer(projects[0] ?? null);
+      })
+      .catch(e => console.error("Autosave unavailable:", e));
+  }, []);
+
+  // Debounced autosave of the whole project, plan images included. Empty projects are not stored.
+  useEffect(() => {
+    const project = createProjectFile(projectSettings, floorsWithActive, activeFloorId);
+    if (isEmptyProject(project)) return;
+    const timer = window.setTimeout(() => {
+      autosaveProject(projectId, projectName, { ...project, savedAt: new Date().toISOString() })
+        .then(projects => {
+          setRecentProjects(projects);
+          setLastAutosaveAt(new Date());
+        })
+        .catch(e => console.error("Autosave failed:", e));
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [projectSettings, floorsWithActive, activeFloorId, projectId, projectName]);
+
+  const handleRestoreRecent = useCallback(async (id: string) => {
+    const summary = recentProjects.find(project => project.id === id);
+    try {
+      // Store pending edits of the current project before leaving it.
+      const current = createProjectFile(projectSettings, floorsWithActive, activeFloorId);
+      if (!isEmptyProject(current)) await autosaveProject(projectId, projectName, current);
+      const project = await loadRecentProject(id, DEFAULT_PROJECT_SETTINGS);
+      applyProject(project);
+      setProjectId(id);
+      setProjectName(summary?.name ?? defaultProjectName());
+      setSessionOffer(null);
+      setLastAutosaveAt(null);
+      setProjectStatus({ kind: 'info', message: `Proyecto "${summary?.name ?? ''}" restaurado.` });
+    } catch (e: any) {
+      setProjectStatus({ kind: 'error', message: e.message || 'No se pudo restaurar el proyecto.' });
+    }
+  }, [recentProjects, projectSettings, floorsWithActive, activeFloorId, projectId, projectName, applyProject]);
+
+  const handleDeleteRecent = useCallback(async (id: string) => {
+    try {
+      await deleteRecentProjects([id]);
+      setRecentProjects(await listRecentProjects());
+      setSessionOffer(offer => (offer?.id === id ? null : offer));
+    } catch (e: any) {
+      setProjectStatus({ kind: 'error', message: e.message || 'No se pudo eliminar el proyecto.' });
+    }
+  }, []);
+
+
+  // No-coverage zones are left out of every coverage figure.
+  const analysisResolution = parseFloat(analysisResolutionInput) > 0 ? parseFloat(analysisResolutionInput) : DEFAULT_ANALYSIS_RESOLUTION;
+  const coverageOptions = useMemo(
+    () => ({ resolution: analysisResolution, walls, pathLossExponent: propagationSettings.pathLossExponent, excludedAreas: zonePolygons(planningZones, 'noCoverage'), modelRadii }),
+    [analysisResolution, walls, propagationSettings.pathLossExponent, planningZones, modelRadii]
+  );
 
   const handleSubmit = useCallback(async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -83,23 +502,74 @@ const App: React.FC = () => {
     const area_m2 = parseFloat(coverageAreaInput);
     const l = parseFloat(buildingLength);
     const w = parseFloat(buildingWidth);
+    // With the propagation model enabled the coverage area input is not used.
+    const usesAreaInput = !propagationSettings.enabled;
 
-    if (isNaN(area_m2) || isNaN(l) || isNaN(w)) {
+    if ((usesAreaInput && isNaN(area_m2)) || isNaN(l) || isNaN(w)) {
       setError('Por favor, ingrese valores numéricos válidos.');
       setIsLoading(false);
       return;
     }
-    if (area_m2 <= 0 || l <= 0 || w <= 0) {
+    if ((usesAreaInput && area_m2 <= 0) || l <= 0 || w <= 0) {
       setError('Los valores de área y dimensiones deben ser positivos.');
       setIsLoading(false);
       return;
     }
 
-    const rParamForAlgorithm = Math.sqrt(area_m2 / 2);
-    
-    // Directly call the calculation, it can be synchronous and potentially long
-    const optimizationData = calculateAPPlacement(rParamForAlgorithm, l, w);
+    if (parsedOutline.error) {
+      setError(parsedOutline.error);
+      setIsLoading(false);
+      return;
+    }
+
+    const rParamForAlgorithm = usesAreaInput ? Math.sqrt(area_m2 / 2) : thresholdDistance(propagationSettings);
+    if (rParamForAlgorithm <= 0) {
+      setError('El modelo de propagación produce una distancia umbral inválida. Revise la potencia, el exponente y el umbral.');
+      setIsLoading(false);
+      return;
+    }
     
+    // The search runs in a worker; the final count is the larger of the coverage and the capacity need inside
+    // each high-density zone, then the planning zones are enforced and the APs moved onto mount points.
+    const job = startOptimizationJob({
+      kind: 'placement',
+      algorithmMode,
+      gridLattice,
+      radius: rParamForAlgorithm,
+      length: l,
+      width: w,
+      outline: buildingOutline,
+      capacity: capacityForm.enabled ? { zones: capacityZones, settings: capacitySettings } : null,
+      planning: planningZones.length > 0 ? {
+        zones: planningZones,
+        context: {
+          building: { length: l, width: w, outline: buildingOutline },
+          coverageRadius: rParamForAlgorithm,
+          zoneRadii: priorityZoneRadii(planningZones, rParamForAlgorithm, propagationSettings),
+          coverageOptions,
+        },
+      } : null,
+      mounting: isMountingActive(mountingSettings) ? mountingSettings : null,
+    }, { onProgress: setAlgorithmProgress, timeoutMs: OPTIMIZATION_TIMEOUT_MS });
+    algorithmJobRef.current = job;
+    let optimizationData: OptimizationResult;
+    try {
+      const outcome = await job.promise;
+      if (outcome.status === 'completed') {
+        optimizationData = outcome.result!;
+      } else {
+        const why = outcome.status === 'cancelled' ? 'Cálculo cancelado' : `Cálculo detenido tras ${OPTIMIZATION_TIMEOUT_MS / 1000} s`;
+        optimizationData = outcome.result
+          ? { ...outcome.result, message: `${why}. Se muestra la mejor solución encontrada hasta entonces, que cubre todo el edificio pero podría no ser mínima.` }
+          : { nAP: 0, coordinates: [], message: `${why} antes de encontrar una solución.` };
+      }
+    } catch (e: any) {
+      optimizationData = { nAP: 0, coordinates: [], message: e.message || 'Ocurrió un error durante el cálculo.' };
+    } finally {
+      algorithmJobRef.current = null;
+      setAlgorithmProgress(null);
+    }
+
     if (optimizationData.message && optimizationData.coordinates.length === 0) {
         setError(optimizationData.message);
     } else if (optimizationData.message) {
@@ -112,96 +582,9 @@ const App: React.FC = () => {
     }
     setIsLoading(false);
 
-  }, [coverageAreaInput, buildingLength, buildingWidth]);
-
-  const getAiPlacementSuggestions = async (
-      length: number,
-      width: number,
-      coverageArea: number,
-      planImageFile: File | null,
-  ): Promise<OptimizationResult> => {
-    if (!process.env.API_KEY) {
-        throw new Error("La clave API de Google GenAI no está configurada en el entorno.");
-    }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const modelName = 'gemini-2.5-flash-preview-04-17';
-
-    let promptText = `Eres un experto en planificación de redes Wi-Fi. Para un edificio de ${length}m de largo por ${width}m de ancho, y donde cada AP cubre aproximadamente ${coverageArea}m², sugiere coordenadas X,Y óptimas para los Puntos de Acceso.
-El origen (0,0) es la esquina superior izquierda del edificio.
-Las coordenadas X deben estar entre 0 y ${length}.
-Las coordenadas Y deben estar entre 0 y ${width}.
-IMPORTANTE: Devuelve tu respuesta ÚNICAMENTE como un array JSON de objetos, donde cada objeto es {"x": number, "y": number}. No incluyas ninguna otra explicación o texto fuera del array JSON. Ejemplo: [{"x": 10.5, "y": 20.0}, {"x": 30.2, "y": 15.7}]`;
-
-    const requestPayload: any = { 
-      model: modelName,
-      config: { 
-        responseMimeType: "application/json",
-      }
-    };
-
-    let imagePart = null;
-    if (planImageFile) {
-      promptText += "\nSe proporciona una imagen del plano. Considera el diseño visual, los posibles obstáculos y los espacios abiertos para refinar las ubicaciones de los AP para una cobertura óptima y una interferencia mínima. Coloca los AP en ubicaciones sensatas según la información visual.";
-      
-      const base64Data = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-          reader.onerror = reject;
-          reader.readAsDataURL(planImageFile);
-      });
-
-      imagePart = {
-        inlineData: {
-          mimeType: planImageFile.type || 'image/png',
-          data: base64Data,
-        },
-      };
-      requestPayload.contents = { parts: [imagePart, { text: promptText }] };
-    } else {
-      requestPayload.contents = promptText;
-    }
-    
-    try {
-      const response: GenerateContentResponse = await ai.models.generateContent(requestPayload);
-      if (!response.text) {
-        throw new Error("La respuesta de la IA no contiene texto.");
-      }
-      let jsonStr = response.text.trim();
-      
-      const fenceRegex = /^```(?:json)?\s*\n?(.*?)\n?\s*```$/s;
-      const match = jsonStr.match(fenceRegex);
-      if (match && match[2]) {
-        jsonStr = match[2].trim();
-      }
+  }, [coverageAreaInput, buildingLength, buildingWidth, algorithmMode, gridLattice, propagationSettings, parsedOutline, buildingOutline, capacityForm.enabled, capacityZones, capacitySettings, planningZones, coverageOptions, mountingSettings]);
 
-      const parsedData = JSON.parse(jsonStr);
-
-      if (Array.isArray(parsedData) && parsedData.every(item => typeof item.x === 'number' && typeof item.y === 'number')) {
-        const validatedCoordinates = parsedData
-          .map(ap => ({
-            x: parseFloat(ap.x.toFixed(2)), 
-            y: parseFloat(ap.y.toFixed(2)),
-          }))
-          .filter(ap => 
-            !isNaN(ap.x) && !isNaN(ap.y) &&
-            ap.x >= 0 && ap.x <= length && 
-            ap.y >= 0 && ap.y <= width
-          );
-        
-        if (validatedCoordinates.length === 0 && parsedData.length > 0) {
-           return { nAP: 0, coordinates: [], message: "La IA devolvió coordenadas, pero ninguna era válida o estaba dentro de los límites del edificio después del formateo." };
-        }
-        return { nAP: validatedCoordinates.length, coordinates: validatedCoordinates, message: validatedCoordinates.length > 0 ? undefined : "La IA no devolvió coordenadas válidas." };
-      } else {
-        throw new Error("La respuesta de la IA no tiene el formato esperado (array de objetos {x, y}).");
-      }
-    } catch (e: any) {
-      console.error("Error processing AI response:", e);
-      const errorMessage = e.message || "Error desconocido al procesar la respuesta de la IA.";
-      const rawText = e.response?.text || (e.toString ? e.toString() : "");
-      throw new Error(`${errorMessage} Raw: ${rawText.substring(0,300)}`);
-    }
-  };
+  const handleCancelOptimization = () => algorithmJobRef.current?.cancel();
 
   const handleAiOptimize = async () => {
     setIsAiOptimizing(true);
@@ -210,7 +593,10 @@ IMPORTANTE: Devuelve tu respuesta ÚNICAMENTE como un array JSON de objetos, don
 
     const l = parseFloat(buildingLength);
     const w = parseFloat(buildingWidth);
-    const area = parseFloat(coverageAreaInput);
+    // The model's threshold radius is expressed as the equivalent area used elsewhere (R = sqrt(area / 2)).
+    const area = propagationSettings.enabled
+      ? parseFloat((2 * Math.pow(thresholdDistance(propagationSettings), 2)).toFixed(1))
+      : parseFloat(coverageAreaInput);
 
     if (isNaN(l) || isNaN(w) || isNaN(area) || l <= 0 || w <= 0 || area <= 0) {
       setAiError('Por favor, ingrese valores numéricos válidos y positivos para dimensiones y área de cobertura.');
@@ -218,36 +604,78 @@ IMPORTANTE: Devuelve tu respuesta ÚNICAMENTE como un array JSON de objetos, don
       return;
     }
     
-    if (!process.env.API_KEY) {
-        setAiError("La clave API de Google GenAI no está configurada. La optimización con IA no está disponible.");
+    const providerError = aiProviderSettingsError(aiProviderSettings);
+    if (providerError) {
+        setAiError(providerError);
         setIsAiOptimizing(false);
         return;
     }
 
     try {
-      const aiData = await getAiPlacementSuggestions(l, w, area, uploadedPlanImage);
-      
-      if (aiData.coordinates.length === 0 && !aiData.message) {
-          setAiResults({ ...aiData, message: "La IA no sugirió ninguna ubicación de AP."});
-      } else {
-          setAiResults(aiData);
+      if (parsedOutline.error) {
+        setAiError(parsedOutline.error);
+        setIsAiOptimizing(false);
+        return;
       }
+      const provider = createAiProvider(aiProviderSettings);
+      const request = {
+        building: { length: l, width: w, outline: buildingOutline },
+        coverageArea: area,
+        planImageDataUrl: uploadedPlanImageDataUrl,
+        obstacles: walls,
+      };
+      const aiData = aiRefinementSettings.enabled
+        ? await refineAiPlacements(provider, request, aiResponseOptions, aiRefinementSettings, {
+            coverageRadius: calculatedRadiusForViz,
+            coverageOptions: { ...coverageOptions, externalSources: aiFloorSources },
+            renderCoverageImage: renderRefinementImage,
+            onRound: round => setAiRefinementProgress({ round: round.round, coveragePercent: round.coveragePercent }),
+          })
+        : await getAiPlacementSuggestions(provider, request, aiResponseOptions);
+      setAiResults(snapResult(aiData, mountingSettings, canMountAt));
     } catch (e: any) {
       setAiError(e.message || 'Ocurrió un error durante la optimización con IA.');
     } finally {
       setIsAiOptimizing(false);
+      setAiRefinementProgress(null);
     }
   };
 
+  // The drawing attached to refinement feedback: the round's APs and coverage over the plan, at screen resolution.
+  const renderRefinementImage = async (aps: APCoordinate[], coverage: CoverageMetrics): Promise<string> => {
+    const visualization = renderBuildingSvg({
+      idPrefix: 'ai-refinement',
+      building: currentBuildingDimensions,
+      aps,
+      coverageRadius: calculatedRadiusForViz,
+      modelRadii,
+      planImageUrl: uploadedPlanImageDataUrl,
+      planTransform,
+      planNaturalSize: uploadedPlanNaturalDimensions,
+      coverageMetrics: coverage,
+      walls,
+    });
+    if (!visualization) throw new Error('No se pudo dibujar la cobertura para enviarla a la IA.');
+    return rasterizeSvg(visualization, REFINEMENT_IMAGE_DPI);
+  };
+
+  const handleSelectAiRound = (round: number) => {
+    if (!aiResults?.aiRefinement) return;
+    const selected = snapResult(resultForRound(aiResults.aiRefinement, round), mountingSettings, canMountAt);
+    recordEdit(`Usar la ronda ${round} de la IA`, setAiResults, aiResults, { ...selected, coordinates: carryApModels(aiResults.coordinates, selected.coordinates) });
+  };
+
   const handlePlanImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      setUploadedPlanImage(file);
       const reader = new FileReader();
       reader.onloadend = () => {
         const dataUrl = reader.result as string;
         setUploadedPlanImageDataUrl(dataUrl);
+        setPlanCalibration(null); // A new image needs its own calibration
+        setCalibrationScalePoints(null);
         setManualAPs([]); // Clear APs on new plan upload
+        setEditHistory(EMPTY_HISTORY); // Earlier AP edits refer to the previous image's pixels
         // Get natural dimensions
         const img = new Image();
         img.onload = () => {
@@ -261,10 +689,10 @@ IMPORTANTE: Devuelve tu respuesta ÚNICAMENTE como un array JSON de objetos, don
       };
       reader.readAsDataURL(file);
     } else {
-      setUploadedPlanImage(null);
       setUploadedPlanImageDataUrl(null);
       setManualAPs([]);
       setUploadedPlanNaturalDimensions(null);
+      setEditHistory(EMPTY_HISTORY);
     }
   };
 
@@ -277,243 +705,598 @@ IMPORTANTE: Devuelve tu respuesta ÚNICAMENTE como un array JSON de objetos, don
     });
 
     if (!isTooCloseToExisting) {
-      setManualAPs(prevAPs => [...prevAPs, coords]);
+      recordEdit('Añadir AP', setManualAPs, manualAPs, [...manualAPs, coords]);
     } else {
       // Optionally, provide user feedback that the AP was not added because it's too close.
       console.log("AP not added: too close to an existing AP.");
     }
-  }, [manualAPs]);
+  }, [manualAPs, recordEdit]);
 
-  const clearManualAPs = useCallback(() => setManualAPs([]),[]);
+  const clearManualAPs = useCallback(() => recordEdit('Limpiar marcas', setManualAPs, manualAPs, []), [manualAPs, recordEdit]);
 
   const handleDeleteManualAp = useCallback((index: number) => {
-    setManualAPs(prevAPs => prevAPs.filter((_, i) => i !== index));
-  },[]);
+    recordEdit('Eliminar AP', setManualAPs, manualAPs, manualAPs.filter((_, i) => i !== index));
+  }, [manualAPs, recordEdit]);
 
+  // Each mouse move of a drag updates the AP directly; the whole gesture is recorded once, when it ends.
   const handleMoveManualAp = useCallback((index: number, newCoords: APCoordinate) => {
-    setManualAPs(prevAPs => prevAPs.map((ap, i) => (i === index ? newCoords : ap)));
-  },[]);
+    const gesture = dragGestureRef.current ?? { before: manualAPs, after: manualAPs };
+    gesture.after = gesture.after.map((ap, i) => (i === index ? { ...ap, x: newCoords.x, y: newCoords.y } : ap));
+    dragGestureRef.current = gesture;
+    setManualAPs(gesture.after);
+  }, [manualAPs]);
+
+  const handleMoveManualApEnd = useCallback(() => {
+    const gesture = dragGestureRef.current;
+    if (!gesture) return;
+    dragGestureRef.current = null;
+    recordEdit('Mover AP', setManualAPs, gesture.before, gesture.after);
+  }, [recordEdit]);
+
+  const handleUndo = useCallback(() => {
+    const command = editHistory.past[editHistory.past.length - 1];
+    if (!command) return;
+    command.undo();
+    setEditHistory(stepBack);
+  }, [editHistory]);
+
+  const handleRedo = useCallback(() => {
+    const command = editHistory.future[0];
+    if (!command) return;
+    command.redo();
+    setEditHistory(stepForward);
+  }, [editHistory]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) anywhere on the page, except while typing in a field: there the browser
+  // undoes the typing, and fields that record history pick the restored value up through their onChange.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      if (isTextEntryTarget(event.target)) return;
+      event.preventDefault();
+      if (event.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
   
-  const currentBuildingDimensions: BuildingDimensions = {
+  const currentBuildingDimensions: BuildingDimensions = useMemo(() => ({
     length: parseFloat(buildingLength) || 0,
     width: parseFloat(buildingWidth) || 0,
-  };
+    outline: buildingOutline,
+  }), [buildingLength, buildingWidth, buildingOutline]);
+
+  // Pixel <-> meter mapping of the uploaded plan: the two-point calibration, or the width = length fallback.
+  const planTransform: PlanCalibration | null = useMemo(
+    () => (uploadedPlanNaturalDimensions ? resolvePlanTransform(planCalibration, uploadedPlanNaturalDimensions.width, parseFloat(buildingLength)) : null),
+    [uploadedPlanNaturalDimensions, planCalibration, buildingLength]
+  );
 
-  const handleDownloadPdf = async (isAiPdf: boolean) => {
-    const sourceResults = isAiPdf ? aiResults : results;
-    const visualizerId = isAiPdf ? 'ai-building-visualization-for-pdf' : 'algorithmic-building-visualization-for-pdf';
-    const pdfFileName = isAiPdf ? 'ap_ai_optimization_results.pdf' : 'ap_optimization_results.pdf';
-    const reportTitle = isAiPdf ? "Reporte de Optimización de APs (IA)" : "Reporte de Optimización de APs (Algoritmo)";
-    const numApsLabel = isAiPdf ? "Número de APs Sugeridos por IA" : "Número de APs Optimizados";
+  // Manual APs are stored in original-image pixels; coverage analysis needs them in meters.
+  const manualAPsInMeters: APCoordinate[] | null = useMemo(() => {
+    if (!planTransform) return null;
+    return manualAPs.map(ap => planPixelToMeters(ap, planTransform)!);
+  }, [manualAPs, planTransform]);
+
+  const planDrawMode: PlanDrawMode | null = useMemo(() => {
+    switch (planDrawTarget) {
+      case 'obstacle':
+        return { shape: 'polyline', color: MATERIAL_COLORS[obstacleDrawing.material] };
+      case 'outline':
+        return { shape: 'polygon', color: '#2563eb' };
+      case 'hole':
+        return { shape: 'polygon', color: '#9333ea' };
+      case 'capacityZone':
+        return { shape: 'polygon', color: '#ea580c' };
+      case 'planningZoneRectangle':
+        return { shape: 'polyline', color: PLANNING_ZONE_COLORS[newPlanningZoneKind], maxPoints: 2 };
+      case 'planningZonePolygon':
+        return { shape: 'polygon', color: PLANNING_ZONE_COLORS[newPlanningZoneKind] };
+      case 'mountPoints':
+        return { shape: 'polyline', color: '#0891b2' };
+      case 'idf':
+        return { shape: 'polyline', color: '#7c3aed', maxPoints: 1 };
+      case 'calibrationScale':
+      case 'calibrationAxis':
+        return { shape: 'polyline', color: '#db2777', maxPoints: 2 };
+      case 'calibrationOrigin':
+        return { shape: 'polyline', color: '#db2777', maxPoints: 1 };
+      default:
+        return null;
+    }
+  }, [planDrawTarget, obstacleDrawing.material, newPlanningZoneKind]);
+
+  const togglePlanDrawTarget = useCallback((target: PlanDrawTarget) => {
+    setPlanDrawTarget(prev => (prev === target ? null : target));
+  }, []);
 
-    if (!sourceResults || !sourceResults.coordinates || sourceResults.coordinates.length === 0) {
-      alert(`No hay resultados ${isAiPdf ? '(IA)' : '(Algoritmo)'} para descargar o no se generaron coordenadas.`);
+  const handlePlanDrawComplete = useCallback((pointsInPixels: APCoordinate[]) => {
+    // Calibration points stay in image pixels.
+    if (planDrawTarget === 'calibrationScale' || planDrawTarget === 'calibrationOrigin' || planDrawTarget === 'calibrationAxis') {
+      const base: PlanCalibration = planCalibration ?? { pixelsPerMeter: 0, originPx: { x: 0, y: 0 }, rotationDeg: 0, calibrated: false };
+      if (planDrawTarget === 'calibrationScale') {
+        setCalibrationScalePoints(pointsInPixels);
+      } else if (planDrawTarget === 'calibrationOrigin') {
+        recordEdit('Fijar origen', setPlanCalibration, planCalibration, { ...base, originPx: pointsInPixels[0] });
+      } else {
+        recordEdit('Alinear eje X', setPlanCalibration, planCalibration, { ...base, rotationDeg: parseFloat(rotationFromPoints(pointsInPixels[0], pointsInPixels[1]).toFixed(2)) });
+      }
+      setPlanDrawTarget(null);
       return;
     }
 
-    if (isAiPdf) setIsDownloadingAiPdf(true); else setIsDownloadingPdf(true);
+    if (!planTransform) return;
+    const pointsInMeters = pointsInPixels.map(p => planPixelToMeters(p, planTransform)!);
+
+    if (planDrawTarget === 'obstacle') {
+      const lossDb = parseFloat(obstacleDrawing.lossDb);
+      const wall: Wall = {
+        id: createId('wall'),
+        kind: obstacleDrawing.kind,
+        material: obstacleDrawing.material,
+        lossDb: isNaN(lossDb) || lossDb < 0 ? 0 : lossDb,
+        points: pointsInMeters,
+      };
+      recordEdit('Añadir muro', setWalls, walls, [...walls, wall]);
+    } else if (planDrawTarget === 'outline') {
+      recordEdit('Dibujar contorno', setOutlineForm, outlineForm, { ...outlineForm, shape: 'polygon', outer: formatVertexList(pointsInMeters) });
+      setPlanDrawTarget(null);
+    } else if (planDrawTarget === 'hole') {
+      recordEdit('Dibujar hueco', setOutlineForm, outlineForm, { ...outlineForm, holes: [outlineForm.holes.trim(), formatVertexList(pointsInMeters)].filter(l => l.length > 0).join('\n') });
+    } else if (planDrawTarget === 'capacityZone') {
+      recordEdit('Añadir zona', setCapacityZones, capacityZones, [...capacityZones, createCapacityZone(`Zona ${capacityZones.length + 1}`, pointsInMeters)]);
+      setPlanDrawTarget(null);
+    } else if (planDrawTarget === 'planningZoneRectangle' || planDrawTarget === 'planningZonePolygon') {
+      const polygon = planDrawTarget === 'planningZoneRectangle' ? rectangleFromCorners(pointsInMeters[0], pointsInMeters[1]) : pointsInMeters;
+      recordEdit('Añadir zona de planificación', setPlanningZones, planningZones, [...planningZones, createPlanningZone(`Zona ${planningZones.length + 1}`, polygon, newPlanningZoneKind)]);
+      setPlanDrawTarget(null);
+    } else if (planDrawTarget === 'mountPoints') {
+      recordEdit('Marcar puntos de montaje', setMountingForm, mountingForm, { ...mountingForm, points: [mountingForm.points.trim(), formatVertexList(pointsInMeters)].filter(l => l.length > 0).join('; ') });
+      setPlanDrawTarget(null);
+    } else if (planDrawTarget === 'idf') {
+      recordEdit('Ubicar IDF', setIdfLocation, idfLocation, pointsInMeters[0]);
+      setPlanDrawTarget(null);
+    }
+  }, [planTransform, planCalibration, planDrawTarget, obstacleDrawing, walls, outlineForm, capacityZones, planningZones, newPlanningZoneKind, mountingForm, idfLocation, recordEdit]);
+
+  // Mount points must be inside the building and outside no-mount zones.
+  const canMountAt = useCallback(
+    (point: APCoordinate) => isInsideBuilding(point, currentBuildingDimensions) && isMountAllowed(point, planningZones),
+    [currentBuildingDimensions, planningZones]
+  );
+
+  // Manual APs are clicked and dragged in plan pixels; with mounting constrained they jump to the nearest mount,
+  // and a point with no mount nearby is refused (null).
+  const snapPlanPixel = useCallback((pixel: APCoordinate): APCoordinate | null => {
+    if (!planTransform || !isMountingActive(mountingSettings)) return pixel;
+    const mount = snapToMount(planPixelToMeters(pixel, planTransform)!, mountingSettings, canMountAt);
+    return mount && metersToPlanPixel(mount, planTransform);
+  }, [planTransform, mountingSettings, canMountAt]);
+
+  // Layouts made before the mounting settings changed keep their positions until they are snapped here, as one edit.
+  const offMountAPs = useMemo(
+    () => countOffMount([...(results?.coordinates ?? []), ...(aiResults?.coordinates ?? []), ...(manualAPsInMeters ?? [])], mountingSettings),
+    [results, aiResults, manualAPsInMeters, mountingSettings]
+  );
+
+  const handleSnapExistingLayouts = useCallback(() => {
+    const before = { results, aiResults, manualAPs };
+    const after = {
+      results: results && snapResult(results, mountingSettings, canMountAt),
+      aiResults: aiResults && snapResult(aiResults, mountingSettings, canMountAt),
+      manualAPs: planTransform && manualAPsInMeters
+        ? snapPlacement(manualAPsInMeters, mountingSettings, canMountAt).map(ap => metersToPlanPixel(ap, planTransform))
+        : manualAPs,
+    };
+    recordEdit('Ajustar APs a los puntos de montaje', (layouts: typeof before) => {
+      setResults(layouts.results);
+      setAiResults(layouts.aiResults);
+      setManualAPs(layouts.manualAPs);
+    }, before, after);
+  }, [results, aiResults, manualAPs, manualAPsInMeters, planTransform, mountingSettings, canMountAt, recordEdit]);
+
+  const handleDeleteWall = useCallback((id: string) => {
+    recordEdit('Eliminar muro', setWalls, walls, walls.filter(wall => wall.id !== id));
+  }, [walls, recordEdit]);
+
+  // Imported coordinates are building meters; the manual layer stores plan pixels. With mounting constrained each
+  // imported AP takes a mount not already used by the APs it joins. Returns how many APs were placed.
+  const handleImportManualAPs = useCallback((pointsInMeters: APCoordinate[], replace: boolean): number => {
+    if (!planTransform) return 0;
+    const place = createMountAllocator(mountingSettings, canMountAt);
+    if (!replace) manualAPsInMeters?.forEach(place);
+    const imported = pointsInMeters
+      .map(place)
+      .filter((point): point is APCoordinate => point !== null)
+      .map(point => metersToPlanPixel(point, planTransform));
+    recordEdit('Importar APs', setManualAPs, manualAPs, replace ? imported : [...manualAPs, ...imported]);
+    return imported.length;
+  }, [planTransform, manualAPs, manualAPsInMeters, mountingSettings, canMountAt, recordEdit]);
+
+  // Bleed-through from the floors directly below and above, matched by placement source.
+  const algorithmFloorSources = useMemo(() => getAdjacentFloorSources(floorsWithActive, activeFloorIndex, 'algorithm'), [floorsWithActive, activeFloorIndex]);
+  const aiFloorSources = useMemo(() => getAdjacentFloorSources(floorsWithActive, activeFloorIndex, 'ai'), [floorsWithActive, activeFloorIndex]);
+  const manualFloorSources = useMemo(() => getAdjacentFloorSources(floorsWithActive, activeFloorIndex, 'manual'), [floorsWithActive, activeFloorIndex]);
+
+  const showSignalHeatmap = propagationForm.showHeatmap;
+  const algorithmHeatmap = useMemo(
+    () => (showSignalHeatmap && results ? computeSignalHeatmap(currentBuildingDimensions, results.coordinates, propagationSettings, analysisResolution, walls, algorithmFloorSources, modelPropagation) : null),
+    [showSignalHeatmap, results, currentBuildingDimensions, propagationSettings, analysisResolution, walls, algorithmFloorSources, modelPropagation]
+  );
+  const aiHeatmap = useMemo(
+    () => (showSignalHeatmap && aiResults ? computeSignalHeatmap(currentBuildingDimensions, aiResults.coordinates, propagationSettings, analysisResolution, walls, aiFloorSources, modelPropagation) : null),
+    [showSignalHeatmap, aiResults, currentBuildingDimensions, propagationSettings, analysisResolution, walls, aiFloorSources, modelPropagation]
+  );
+  const manualHeatmap = useMemo(
+    () => (showSignalHeatmap && manualAPsInMeters ? computeSignalHeatmap(currentBuildingDimensions, manualAPsInMeters, propagationSettings, analysisResolution, walls, manualFloorSources, modelPropagation) : null),
+    [showSignalHeatmap, manualAPsInMeters, currentBuildingDimensions, propagationSettings, analysisResolution, walls, manualFloorSources, modelPropagation]
+  );
+
+  // Coverage is analysed in the optimization worker; each source counts the APs of its own layer on adjacent floors.
+  const algorithmCoverageOptions = useMemo(() => ({ ...coverageOptions, externalSources: algorithmFloorSources }), [coverageOptions, algorithmFloorSources]);
+  const aiCoverageOptions = useMemo(() => ({ ...coverageOptions, externalSources: aiFloorSources }), [coverageOptions, aiFloorSources]);
+  const manualCoverageOptions = useMemo(() => ({ ...coverageOptions, externalSources: manualFloorSources }), [coverageOptions, manualFloorSources]);
+  const algorithmCoverage = useCoverageAnalysis(currentBuildingDimensions, results?.coordinates, calculatedRadiusForViz, algorithmCoverageOptions);
+  const aiCoverage = useCoverageAnalysis(currentBuildingDimensions, aiResults?.coordinates, calculatedRadiusForViz, aiCoverageOptions);
+  const manualCoverage = useCoverageAnalysis(currentBuildingDimensions, manualAPsInMeters, calculatedRadiusForViz, manualCoverageOptions);
+
+  // Every layout is checked against the planning zones, whichever source produced it.
+  const zoneRadii = useMemo(
+    () => priorityZoneRadii(planningZones, calculatedRadiusForViz, propagationSettings),
+    [planningZones, calculatedRadiusForViz, propagationSettings]
+  );
+  const zoneModelRadii = useMemo(
+    () => priorityZoneModelRadii(planningZones, modelRadii, modelPropagation),
+    [planningZones, modelRadii, modelPropagation]
+  );
+  const zoneContext = useCallback((options: PlanningZoneContext['coverageOptions']): PlanningZoneContext => ({
+    building: currentBuildingDimensions,
+    coverageRadius: calculatedRadiusForViz,
+    zoneRadii,
+    zoneModelRadii,
+    coverageOptions: options,
+  }), [currentBuildingDimensions, calculatedRadiusForViz, zoneRadii, zoneModelRadii]);
+  const algorithmZoneContext = useMemo(() => zoneContext(algorithmCoverageOptions), [zoneContext, algorithmCoverageOptions]);
+  const aiZoneContext = useMemo(() => zoneContext(aiCoverageOptions), [zoneContext, aiCoverageOptions]);
+  const manualZoneContext = useMemo(() => zoneContext(manualCoverageOptions), [zoneContext, manualCoverageOptions]);
+  const algorithmZoneCompliance = useZoneCompliance(planningZones, results?.coordinates, algorithmZoneContext);
+  const aiZoneCompliance = useZoneCompliance(planningZones, aiResults?.coordinates, aiZoneContext);
+  const manualZoneCompliance = useZoneCompliance(planningZones, manualAPsInMeters, manualZoneContext);
+
+  const channelGraphOptions = useMemo(
+    () => ({ propagation: propagationSettings, walls, modelRadii, modelPropagation }),
+    [propagationSettings, walls, modelRadii, modelPropagation]
+  );
+  const algorithmChannels = useMemo(
+    () => (channelPlanSettings.enabled && results ? assignChannels(results.coordinates, calculatedRadiusForViz, channelPlanSettings, channelGraphOptions) : null),
+    [channelPlanSettings, results, calculatedRadiusForViz, channelGraphOptions]
+  );
+  const aiChannels = useMemo(
+    () => (channelPlanSettings.enabled && aiResults ? assignChannels(aiResults.coordinates, calculatedRadiusForViz, channelPlanSettings, channelGraphOptions) : null),
+    [channelPlanSettings, aiResults, calculatedRadiusForViz, channelGraphOptions]
+  );
+  const manualChannels = useMemo(
+    () => (channelPlanSettings.enabled && manualAPsInMeters ? assignChannels(manualAPsInMeters, calculatedRadiusForViz, channelPlanSettings, channelGraphOptions) : null),
+    [channelPlanSettings, manualAPsInMeters, calculatedRadiusForViz, channelGraphOptions]
+  );
+
+  const algorithmCables = useMemo(
+    () => (idfLocation && results ? estimateCableRuns(results.coordinates, idfLocation, cablingSettings) : null),
+    [idfLocation, results, cablingSettings]
+  );
+  const aiCables = useMemo(
+    () => (idfLocation && aiResults ? estimateCableRuns(aiResults.coordinates, idfLocation, cablingSettings) : null),
+    [idfLocation, aiResults, cablingSettings]
+  );
+  const manualCables = useMemo(
+    () => (idfLocation && manualAPsInMeters ? estimateCableRuns(manualAPsInMeters, idfLocation, cablingSettings) : null),
+    [idfLocation, manualAPsInMeters, cablingSettings]
+  );
+
+  // APs of each source as stored (manual ones in plan pixels), each carrying its model if it has its own.
+  const storedAps = useMemo<Record<PlacementSource, APCoordinate[]>>(() => ({
+    algorithm: results?.coordinates ?? [],
+    ai: aiResults?.coordinates ?? [],
+    manual: manualAPs,
+  }), [results, aiResults, manualAPs]);
+  const apModels = useMemo<Record<PlacementSource, (ApModel | null)[]>>(() => ({
+    algorithm: resolveApModels(storedAps.algorithm, apCatalog),
+    ai: resolveApModels(storedAps.ai, apCatalog),
+    manual: resolveApModels(storedAps.manual, apCatalog),
+  }), [storedAps, apCatalog]);
+  const algorithmBill = useMemo(() => summarizeApBill(apModels.algorithm), [apModels]);
+  const aiBill = useMemo(() => summarizeApBill(apModels.ai), [apModels]);
+  const manualBill = useMemo(() => summarizeApBill(apModels.manual), [apModels]);
+
+  const handleApModelChange = useCallback((source: PlacementSource, index: number, modelId: string | null) => {
+    if (source === 'algorithm' && results) recordEdit('Modelo de AP', setResults, results, { ...results, coordinates: setApModel(results.coordinates, index, modelId) });
+    if (source === 'ai' && aiResults) recordEdit('Modelo de AP', setAiResults, aiResults, { ...aiResults, coordinates: setApModel(aiResults.coordinates, index, modelId) });
+    if (source === 'manual') recordEdit('Modelo de AP', setManualAPs, manualAPs, setApModel(manualAPs, index, modelId));
+  }, [results, aiResults, manualAPs, recordEdit]);
+
+  const apModelCell = (source: PlacementSource, index: number) => (
+    <ApModelSelect
+      models={apCatalog.models}
+      defaultModel={defaultApModel}
+      value={storedAps[source][index]?.modelId}
+      onChange={(modelId) => handleApModelChange(source, index, modelId)}
+      label={`Modelo del AP ${index + 1}`}
+    />
+  );
+
+  // AI and manual layouts are only checked against the zones; extra APs are added to algorithm results alone.
+  const aiCapacity = useMemo(
+    () => (capacityForm.enabled && capacityZones.length > 0 && aiResults ? evaluateCapacity(aiResults.coordinates, capacityZones, capacitySettings) : null),
+    [capacityForm.enabled, capacityZones, capacitySettings, aiResults]
+  );
+  const manualCapacity = useMemo(
+    () => (capacityForm.enabled && capacityZones.length > 0 && manualAPsInMeters ? evaluateCapacity(manualAPsInMeters, capacityZones, capacitySettings) : null),
+    [capacityForm.enabled, capacityZones, capacitySettings, manualAPsInMeters]
+  );
 
+  const comparisonVariants = useMemo<ComparisonVariant[]>(() => {
+    const variants: ComparisonVariant[] = [];
+    if (results && results.coordinates.length > 0) variants.push({ source: 'algorithm', aps: results.coordinates, coverage: algorithmCoverage });
+    if (aiResults && aiResults.coordinates.length > 0) variants.push({ source: 'ai', aps: aiResults.coordinates, coverage: aiCoverage });
+    if (manualAPsInMeters && manualAPsInMeters.length > 0) variants.push({ source: 'manual', aps: manualAPsInMeters, coverage: manualCoverage });
+    return variants;
+  }, [results, aiResults, manualAPsInMeters, algorithmCoverage, aiCoverage, manualCoverage]);
+
+  const handlePromoteDesign = useCallback((source: PlacementSource) => {
+    const variant = comparisonVariants.find(v => v.source === source);
+    if (!variant) return;
+    recordEdit('Promover diseño de referencia', setDesignOfRecord, designOfRecord, { source, aps: variant.aps, promotedAt: new Date().toISOString() });
+  }, [comparisonVariants, designOfRecord, recordEdit]);
+
+  const handleStartRefinement = async (source: PlacementSource) => {
+    const variant = comparisonVariants.find(v => v.source === source);
+    if (!variant) return;
+    const job = startOptimizationJob({
+      kind: 'refinement',
+      initial: variant.aps,
+      context: {
+        building: currentBuildingDimensions,
+        coverageRadius: calculatedRadiusForViz,
+        coverageOptions: { ...coverageOptions, externalSources: getAdjacentFloorSources(floorsWithActive, activeFloorIndex, source) },
+        forbiddenAreas: zonePolygons(planningZones, 'noMount'),
+        mounting: isMountingActive(mountingSettings) ? mountingSettings : undefined,
+      },
+      settings: refinementSettings,
+    }, {
+      onProgress: progress => setRefinementRun(run => (run && run.outcome === null ? { ...run, progress } : run)),
+      timeoutMs: OPTIMIZATION_TIMEOUT_MS,
+    });
+    refinementJobRef.current?.cancel();
+    refinementJobRef.current = job;
+    setRefinementRun({ source, progress: null, outcome: null, status: null });
     try {
-      const doc = new window.jspdf.jsPDF();
-      doc.setFontSize(18);
-      doc.text(reportTitle, 14, 22);
-      doc.setFontSize(11);
-      doc.setTextColor(100);
-      doc.text(`Fecha de generación: ${new Date().toLocaleDateString()}`, 14, 30);
-
-      doc.setFontSize(12);
-      doc.setTextColor(0);
-      doc.text("Parámetros de Entrada:", 14, 45);
-      doc.setFontSize(10);
-      const paramsStartY = 52;
-      const lineHeight = 7;
-      doc.text(`- Largo del Edificio: ${buildingLength} m`, 14, paramsStartY);
-      doc.text(`- Ancho del Edificio: ${buildingWidth} m`, 14, paramsStartY + lineHeight);
-      doc.text(`- Área de Cobertura por AP: ${coverageAreaInput} m²`, 14, paramsStartY + 2 * lineHeight);
-      doc.text(`- Radio de Cobertura Visualizado: ${calculatedRadiusForViz.toFixed(2)} m`, 14, paramsStartY + 3 * lineHeight);
-      doc.text(`- ${numApsLabel}: ${sourceResults.nAP}`, 14, paramsStartY + 4 * lineHeight);
-      
-      let currentY = paramsStartY + 5 * lineHeight + 10;
-
-      doc.setFontSize(12);
-      doc.text(`Coordenadas de APs ${isAiPdf ? '(IA)' : '(Optimizadas)'}:`, 14, currentY);
-      currentY += 6;
-
-      const tableColumn = [`AP # ${isAiPdf ? '(IA)' : ''}`, "Coordenada X (m)", "Coordenada Y (m)"];
-      const tableRows = sourceResults.coordinates.map((ap, index) => [
-        index + 1,
-        ap.x.toFixed(2),
-        ap.y.toFixed(2)
-      ]);
-
-      (doc as any).autoTable({
-        head: [tableColumn],
-        body: tableRows,
-        startY: currentY,
-        theme: 'grid',
-        headStyles: { fillColor: isAiPdf ? [67, 56, 202] : [22, 160, 133] }, 
-        margin: { top: 10, right: 14, bottom: 10, left: 14 },
-      });
-      
-      currentY = (doc as any).lastAutoTable.finalY + 15;
-
-      const visualizerElement = document.getElementById(visualizerId);
-      if (visualizerElement) {
-        const pageHeight = doc.internal.pageSize.height;
-        const imageRenderHeight = 100; 
-        if (currentY + imageRenderHeight > pageHeight - 20) {
-            doc.addPage();
-            currentY = 20;
-        }
-        
-        doc.setFontSize(12);
-        doc.text("Visualización del Edificio y APs:", 14, currentY);
-        currentY += 8;
-
-        const canvas = await html2canvas(visualizerElement, { 
-            scale: 2, useCORS: true, logging: false, backgroundColor: '#ffffff',
-        });
-        const imgData = canvas.toDataURL('image/png');
-        
-        const imgProps = doc.getImageProperties(imgData);
-        const pdfPageWidth = doc.internal.pageSize.getWidth() - 28;
-        const imgWidth = pdfPageWidth;
-        const imgHeight = (imgProps.height * imgWidth) / imgProps.width;
-
-        doc.addImage(imgData, 'PNG', 14, currentY, imgWidth, imgHeight);
-      } else {
-         doc.text(`No se pudo capturar la visualización (${visualizerId}).`, 14, currentY + 10);
+      const { status, result } = await job.promise;
+      if (refinementJobRef.current !== job) return; // Overtaken by another run, a floor change or Clear All
+      setRefinementRun(run => run && (result ? { ...run, outcome: result, status } : null));
+    } catch (e: any) {
+      if (refinementJobRef.current === job) {
+        setRefinementRun(null);
+        setError(e.message || 'Ocurrió un error durante el refinamiento.');
       }
-      doc.save(pdfFileName);
-    } catch (e) {
-      console.error(`Error generating ${isAiPdf ? 'AI ' : ''}PDF:`, e);
-      alert(`Hubo un error al generar el PDF ${isAiPdf ? 'de resultados de IA' : 'de resultados'}.`);
     } finally {
-      if (isAiPdf) setIsDownloadingAiPdf(false); else setIsDownloadingPdf(false);
+      if (refinementJobRef.current === job) refinementJobRef.current = null;
     }
   };
 
-  const handleDownloadManualPdf = async () => {
-    if (!uploadedPlanImageDataUrl || manualAPs.length === 0) {
-      alert("Por favor, cargue un plano y marque al menos un AP para generar el PDF.");
-      return;
+  // Replaces the refined source's layout; undoable like any other edit.
+  const handleApplyRefinement = () => {
+    const outcome = refinementRun?.outcome;
+    if (!outcome) return;
+    const refined: OptimizationResult = { nAP: outcome.aps.length, coordinates: outcome.aps };
+    if (refinementRun.source === 'algorithm') recordEdit('Aplicar refinamiento (algoritmo)', setResults, results, refined);
+    if (refinementRun.source === 'ai') recordEdit('Aplicar refinamiento (IA)', setAiResults, aiResults, refined);
+    if (refinementRun.source === 'manual' && planTransform) {
+      recordEdit('Aplicar refinamiento (manual)', setManualAPs, manualAPs, outcome.aps.map(ap => metersToPlanPixel(ap, planTransform)));
     }
-    setIsDownloadingManualPdf(true);
+    setRefinementRun(null);
+  };
 
-    try {
-      const doc = new window.jspdf.jsPDF();
-      doc.setFontSize(18);
-      doc.text("Reporte de Ubicaciones Manuales de APs", 14, 22);
-      doc.setFontSize(11);
-      doc.setTextColor(100);
-      doc.text(`Fecha de generación: ${new Date().toLocaleDateString()}`, 14, 30);
-
-      doc.setFontSize(12);
-      doc.setTextColor(0);
-      doc.text("Parámetros Relevantes:", 14, 45);
-      doc.setFontSize(10);
-      const paramsStartY = 52;
-      const lineHeight = 7;
-      doc.text(`- Largo del Edificio (para escala): ${buildingLength} m`, 14, paramsStartY);
-      doc.text(`- Área de Cobertura por AP (visualización): ${coverageAreaInput} m²`, 14, paramsStartY + lineHeight);
-      doc.text(`- Radio de Cobertura Visualizado: ${calculatedRadiusForViz.toFixed(2)} m`, 14, paramsStartY + 2 * lineHeight);
-      doc.text(`- Número de APs Marcados: ${manualAPs.length}`, 14, paramsStartY + 3 * lineHeight);
-      
-      let currentY = paramsStartY + 4 * lineHeight + 10;
-
-      const visualizerElement = document.getElementById('manual-plan-visualization-for-pdf');
-      if (visualizerElement) {
-        const pageHeight = doc.internal.pageSize.height;
-        const imageRenderHeight = 120; // Estimate height for plan image
-        if (currentY + imageRenderHeight > pageHeight - 20) { // Check if image fits
-            doc.addPage();
-            currentY = 20;
-        }
-        
-        doc.setFontSize(12);
-        doc.text("Plano con APs Marcados:", 14, currentY);
-        currentY += 8;
-
-        const canvas = await html2canvas(visualizerElement, { 
-            scale: 1.5, // Adjusted scale for potentially larger display
-            useCORS: true, 
-            logging: false, 
-            backgroundColor: '#ffffff',
-            scrollX: 0, // Ensure capture starts from the top-left of the element
-            scrollY: 0,
-            windowWidth: visualizerElement.scrollWidth, // Capture full scrollable width
-            windowHeight: visualizerElement.scrollHeight, // Capture full scrollable height
-        });
-        const imgData = canvas.toDataURL('image/png');
-        
-        const imgProps = doc.getImageProperties(imgData);
-        const pdfPageWidth = doc.internal.pageSize.getWidth() - 28; // Page width - margins
-        let imgWidth = pdfPageWidth;
-        let imgHeight = (imgProps.height * imgWidth) / imgProps.width;
-        const maxImgHeight = pageHeight - currentY - 20; // Max height available on current page
-        
-        if (imgHeight > maxImgHeight) {
-            imgHeight = maxImgHeight;
-            imgWidth = (imgProps.width * imgHeight) / imgProps.height;
-        }
-        if (imgWidth > pdfPageWidth) { // Recalculate if constrained by height
-            imgWidth = pdfPageWidth;
-            imgHeight = (imgProps.height * imgWidth) / imgProps.width;
-        }
+  const reportAvailableSources = useMemo<Record<PlacementSource, boolean>>(() => ({
+    algorithm: Boolean(results && results.coordinates.length > 0),
+    ai: Boolean(aiResults && aiResults.coordinates.length > 0),
+    manual: Boolean(uploadedPlanImageDataUrl && manualAPs.length > 0),
+  }), [results, aiResults, uploadedPlanImageDataUrl, manualAPs]);
 
+  const reportZoneCompliance = (compliance: ZoneCompliance[] | null): ReportZoneCompliance[] | null =>
+    compliance && compliance.map(entry => {
+      const zone = planningZones.find(z => z.id === entry.zoneId);
+      return { ...entry, requirement: zone ? zoneRequirement(zone) : '-' };
+    });
 
-        doc.addImage(imgData, 'PNG', 14, currentY, imgWidth, imgHeight);
-        currentY += imgHeight + 10;
-      } else {
-         doc.text("No se pudo capturar la visualización del plano manual.", 14, currentY + 10);
-         currentY += 20;
-      }
+  const cableCell = (cables: CableRunSummary, index: number) =>
+    `${cables.runs[index].lengthM.toFixed(1)}${cables.runs[index].overLimit ? ` (> ${ETHERNET_MAX_RUN_M})` : ''}`;
+
+  const billSummary = (bill: ApBill): string[] =>
+    bill.lines.some(line => line.model) ? [`Coste estimado de los APs: ${formatPrice(bill.totalCost)}, presupuesto PoE ${bill.totalPoeW.toFixed(1)} W`] : [];
+
+  // One placement source of the active floor as a report section: summary lines, AP table and rasterized drawing.
+  const buildReportPlacement = async (source: PlacementSource): Promise<ReportPlacement | null> => {
+    if (source === 'manual') {
+      if (!uploadedPlanImageDataUrl || manualAPs.length === 0) return null;
+      const metersLabel = planTransform?.calibrated ? '' : ' Est.';
+      const manualModelled = apModels.manual.some(Boolean);
+      const visualization = uploadedPlanNaturalDimensions ? renderPlanSvg({
+        imageDataUrl: uploadedPlanImageDataUrl,
+        naturalSize: uploadedPlanNaturalDimensions,
+        manualAPs,
+        coverageRadiusMeters: calculatedRadiusForViz,
+        modelRadii,
+        planTransform,
+        signalHeatmap: manualHeatmap,
+        signalThresholdDbm: propagationSettings.thresholdDbm,
+        walls,
+        buildingOutline,
+        channelAssignment: manualChannels,
+        capacityZones,
+        planningZones,
+      }) : null;
+      return {
+        source,
+        apCount: manualAPs.length,
+        summary: [
+          `Número de APs marcados: ${manualAPs.length}`,
+          planTransform?.calibrated
+            ? `Escala calibrada: ${planTransform.pixelsPerMeter.toFixed(2)} px/m, origen (${planTransform.originPx.x.toFixed(0)}, ${planTransform.originPx.y.toFixed(0)}) px, rotación ${planTransform.rotationDeg.toFixed(1)}°`
+            : `Escala estimada a partir del largo del edificio (${buildingLength} m)`,
+          ...billSummary(manualBill),
+        ],
+        table: {
+          head: ["AP #", "Pixel X", "Pixel Y", `X (m)${metersLabel}`, `Y (m)${metersLabel}`, ...(manualChannels ? ["Canal", "Vecinos co-canal"] : []), ...(manualCables ? ["Cable (m)"] : []), ...(manualModelled ? ["Modelo"] : [])],
+          body: manualAPs.map((ap, index) => {
+            const apMeters = planPixelToMeters(ap, planTransform);
+            return [
+              index + 1,
+              ap.x.toFixed(0),
+              ap.y.toFixed(0),
+              apMeters ? apMeters.x.toFixed(2) : 'N/A',
+              apMeters ? apMeters.y.toFixed(2) : 'N/A',
+              ...(manualChannels ? [manualChannels.channels[index], manualChannels.coChannelNeighbours[index]] : []),
+              ...(manualCables ? [cableCell(manualCables, index)] : []),
+              ...(manualModelled ? [apModels.manual[index]?.name ?? '-'] : [])
+            ];
+          }),
+        },
+        image: visualization ? { dataUrl: await rasterizeSvg(visualization, PDF_IMAGE_DPI), width: visualization.width, height: visualization.height } : null,
+        imageCaption: "Plano con APs marcados",
+        coverage: manualCoverage,
+        capacity: manualCapacity,
+        zoneCompliance: reportZoneCompliance(manualZoneCompliance),
+        cabling: manualCables,
+      };
+    }
 
-      if (currentY > doc.internal.pageSize.height - 40) { // Check space for table
-        doc.addPage();
-        currentY = 20;
+    const isAi = source === 'ai';
+    const sourceResults = isAi ? aiResults : results;
+    const sourceChannels = isAi ? aiChannels : algorithmChannels;
+    const sourceCables = isAi ? aiCables : algorithmCables;
+    const sourceModelled = apModels[source].some(Boolean);
+    if (!sourceResults || sourceResults.coordinates.length === 0) return null;
+    const summary = [`${isAi ? 'Número de APs sugeridos por IA' : 'Número de APs optimizados'}: ${sourceResults.nAP}`, ...billSummary(isAi ? aiBill : algorithmBill)];
+    if (!isAi) {
+      summary.push(`Modo del algoritmo: ${ALGORITHM_MODE_LABELS[algorithmMode]}`);
+      if (sourceResults.latticeComparison) {
+        const { squareAPs, hexAPs } = sourceResults.latticeComparison;
+        summary.push(`Retícula ${GRID_LATTICE_LABELS[gridLattice]}. APs con retícula cuadrada: ${squareAPs}, hexagonal: ${hexAPs}`);
       }
+    }
+    const visualization = renderBuildingSvg({
+      idPrefix: `${source}-report`,
+      building: currentBuildingDimensions,
+      aps: sourceResults.coordinates,
+      coverageRadius: calculatedRadiusForViz,
+      modelRadii,
+      planImageUrl: uploadedPlanImageDataUrl,
+      planTransform,
+      planNaturalSize: uploadedPlanNaturalDimensions,
+      coverageMetrics: isAi ? aiCoverage : algorithmCoverage,
+      signalHeatmap: isAi ? aiHeatmap : algorithmHeatmap,
+      signalThresholdDbm: propagationSettings.thresholdDbm,
+      walls,
+      channelAssignment: sourceChannels,
+      capacityZones,
+      planningZones,
+    });
+    return {
+      source,
+      apCount: sourceResults.coordinates.length,
+      summary,
+      table: {
+        head: ["AP #", "Coordenada X (m)", "Coordenada Y (m)", ...(sourceChannels ? ["Canal", "Vecinos co-canal"] : []), ...(sourceCables ? ["Cable (m)"] : []), ...(sourceModelled ? ["Modelo"] : [])],
+        body: sourceResults.coordinates.map((ap, index) => [
+          index + 1,
+          ap.x.toFixed(2),
+          ap.y.toFixed(2),
+          ...(sourceChannels ? [sourceChannels.channels[index], sourceChannels.coChannelNeighbours[index]] : []),
+          ...(sourceCables ? [cableCell(sourceCables, index)] : []),
+          ...(sourceModelled ? [apModels[source][index]?.name ?? '-'] : [])
+        ]),
+      },
+      image: visualization ? { dataUrl: await rasterizeSvg(visualization, PDF_IMAGE_DPI), width: visualization.width, height: visualization.height } : null,
+      imageCaption: "Visualización del edificio y APs",
+      coverage: isAi ? aiCoverage : algorithmCoverage,
+      capacity: isAi ? aiCapacity : (sourceResults.capacity ?? null),
+      zoneCompliance: reportZoneCompliance(isAi ? aiZoneCompliance : algorithmZoneCompliance),
+      cabling: sourceCables,
+    };
+  };
 
-      doc.setFontSize(12);
-      doc.text("Coordenadas de APs Marcados Manualmente:", 14, currentY);
-      currentY += 6;
+  // `key` only tells which button shows the spinner; the options decide what goes in the report.
+  const handleDownloadReport = async (options: ReportOptions, key: ReportRequestKey) => {
+    const sources = (Object.keys(options.sources) as PlacementSource[]).filter(source => options.sources[source] && reportAvailableSources[source]);
+    setGeneratingReport(key);
+    try {
+      const placements: ReportPlacement[] = [];
+      if (options.sections.placements || options.sections.coverage) {
+        for (const source of sources) {
+          const placement = await buildReportPlacement(source);
+          if (placement) placements.push(placement);
+        }
+      }
 
-      let pixelsPerMeterScaleManual = 0;
-      if (uploadedPlanNaturalDimensions && uploadedPlanNaturalDimensions.width > 0 && parseFloat(buildingLength) > 0) {
-        pixelsPerMeterScaleManual = uploadedPlanNaturalDimensions.width / parseFloat(buildingLength);
+      const site: [string, string][] = [
+        ["Proyecto", projectName],
+        ["Plantas", floorsWithActive.map(floor => floor.name).join(', ')],
+        ["Planta del informe", floorsWithActive.length > 1 ? `${activeFloor.name} (${activeFloorIndex + 1} de ${floorsWithActive.length})` : activeFloor.name],
+        ["Dimensiones", `${buildingLength || '?'} m × ${buildingWidth || '?'} m`],
+      ];
+      if (designOfRecord) site.push(["Diseño de referencia", `${REPORT_SOURCE_LABELS[designOfRecord.source]}, ${designOfRecord.aps.length} APs (${new Date(designOfRecord.promotedAt).toLocaleDateString('es')})`]);
+      if (geoAnchor) site.push(["Georreferencia", `${geoAnchor.latitude.toFixed(6)}, ${geoAnchor.longitude.toFixed(6)}, eje X a ${geoAnchor.bearingDeg}° del norte`]);
+
+      const parameters: [string, string][] = [
+        ["Largo del edificio", `${buildingLength} m`],
+        ["Ancho del edificio", `${buildingWidth} m`],
+        ["Área de cobertura por AP", `${coverageAreaInput} m²`],
+        ["Radio de cobertura visualizado", `${calculatedRadiusForViz.toFixed(2)} m`],
+        ["Modo del algoritmo", ALGORITHM_MODE_LABELS[algorithmMode]],
+      ];
+      if (floorsWithActive.length > 1) parameters.push(["Señal de plantas contiguas", "Incluida en cobertura y mapa de calor"]);
+      if (channelPlanSettings.enabled) {
+        parameters.push(["Plan de canales", `${channelPlanSettings.band} GHz, ${channelPlanSettings.channelWidthMhz} MHz${channelPlanSettings.band === '5' ? (channelPlanSettings.allowDfs ? ', con DFS' : ', sin DFS') : ''}`]);
+      }
+      if (defaultApModel) {
+        parameters.push(["Modelo de AP", `${defaultApModel.name}, PIRE ${propagationSettings.txPowerDbm.toFixed(1)} dBm en ${propagationSettings.band} GHz`]);
+      }
+      if (propagationSettings.enabled) {
+        parameters.push(["Modelo de propagación", `${propagationSettings.txPowerDbm} dBm, ${propagationSettings.band} GHz, n=${propagationSettings.pathLossExponent}, PL(1 m)=${propagationSettings.referenceLossDb} dB, umbral ${propagationSettings.thresholdDbm} dBm`]);
+      }
+      if (capacityForm.enabled && capacityZones.length > 0) parameters.push(["Zonas de capacidad", String(capacityZones.length)]);
+      if (planningZones.length > 0) parameters.push(["Zonas de planificación", String(planningZones.length)]);
+      if (isMountingActive(mountingSettings)) {
+        parameters.push(["Montaje de APs", mountingSettings.mode === 'grid'
+          ? `${MOUNTING_MODE_LABELS.grid}: ${mountingSettings.gridSpacingM} m, desfase (${mountingSettings.gridOffset.x}, ${mountingSettings.gridOffset.y}) m`
+          : `${MOUNTING_MODE_LABELS.points}: ${mountingSettings.points.length}`]);
+      }
+      if (idfLocation) {
+        parameters.push(["Cuarto de comunicaciones (IDF)", `(${idfLocation.x.toFixed(2)}, ${idfLocation.y.toFixed(2)}) m`]);
+        parameters.push(["Cableado", `Manhattan + ${cablingSettings.slackPercent} % + ${cablingSettings.serviceLoopM} m por tramo, límite ${ETHERNET_MAX_RUN_M} m`]);
       }
 
-      const tableColumn = ["AP #", "Pixel X", "Pixel Y", "X (m) Est.", "Y (m) Est."];
-      const tableRows = manualAPs.map((ap, index) => {
-        const x_m = pixelsPerMeterScaleManual > 0 ? (ap.x / pixelsPerMeterScaleManual).toFixed(2) : 'N/A';
-        const y_m = pixelsPerMeterScaleManual > 0 ? (ap.y / pixelsPerMeterScaleManual).toFixed(2) : 'N/A'; // Simplistic Y scale
-        return [
-            index + 1,
-            ap.x.toFixed(0),
-            ap.y.toFixed(0),
-            x_m,
-            y_m
-        ];
-      });
-
-      (doc as any).autoTable({
-        head: [tableColumn],
-        body: tableRows,
-        startY: currentY,
-        theme: 'grid',
-        headStyles: { fillColor: [34, 197, 94] }, // Green theme for manual
-        margin: { top: 10, right: 14, bottom: 10, left: 14 },
-      });
-      
-      doc.save('ap_manual_placement_results.pdf');
+      const doc = buildReportPdf({
+        projectName,
+        generatedAt: new Date(),
+        site,
+        parameters,
+        placements,
+        billOfMaterials: buildBillOfMaterials(floorsWithActive, sources, cablingSettings, apCatalog),
+      }, options);
+      doc.save(projectFileName(projectName).replace(/\.json$/, sources.length === 1 ? `_${PLACEMENT_SOURCE_LABELS[sources[0]]}.pdf` : '_informe.pdf'));
     } catch (e) {
-      console.error("Error generating Manual PDF:", e);
-      alert("Hubo un error al generar el PDF de ubicaciones manuales.");
+      console.error("Error generating PDF report:", e);
+      alert("Hubo un error al generar el informe PDF.");
     } finally {
-      setIsDownloadingManualPdf(false);
+      setGeneratingReport(null);
     }
   };
 
+  const downloadSourceReport = (source: PlacementSource) =>
+    handleDownloadReport({ ...reportOptions, sources: { algorithm: false, ai: false, manual: false, [source]: true } }, source);
+
   const spinner = (
     <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -546,22 +1329,150 @@ IMPORTANTE: Devuelve tu respuesta ÚNICAMENTE como un array JSON de objetos, don
            <p className="text-sm text-gray-600 mb-4">
             Ingrese los parámetros del edificio para la optimización. Estos se usarán para todos los métodos.
           </p>
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+            <ProjectToolbar
+              projectName={projectName}
+              onProjectNameChange={setProjectName}
+              onSave={handleSaveProject}
+              onOpen={handleOpenProject}
+              status={projectStatus}
+              disabled={isLoading || isAiOptimizing}
+            />
+            <HistoryControls history={editHistory} onUndo={handleUndo} onRedo={handleRedo} disabled={isLoading || isAiOptimizing} />
+          </div>
+          <RecentProjectsPanel
+            projects={recentProjects}
+            currentProjectId={projectId}
+            sessionOffer={sessionOffer}
+            onRestore={handleRestoreRecent}
+            onDelete={handleDeleteRecent}
+            onDismissOffer={() => setSessionOffer(null)}
+            lastAutosaveAt={lastAutosaveAt}
+            disabled={isLoading || isAiOptimizing}
+          />
+          <FloorTabs
+            floors={floorsWithActive}
+            activeFloorId={activeFloorId}
+            onSelectFloor={switchFloor}
+            onAddFloor={handleAddFloor}
+            onDeleteFloor={handleDeleteFloor}
+            onUpdateFloor={handleUpdateFloor}
+            disabled={isLoading || isAiOptimizing}
+          />
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            <Input label="Área de Cobertura por AP (m²)" id="coverageArea" type="number" value={coverageAreaInput} onChange={(e) => setCoverageAreaInput(e.target.value)} placeholder="Ej: 200" min="1" step="1" required aria-describedby="coverageAreaHelp"/>
-            <Input label="Largo del Edificio (m)" id="buildingLength" type="number" value={buildingLength} onChange={(e) => setBuildingLength(e.target.value)} placeholder="Ej: 50" min="1" step="0.1" required aria-describedby="lengthHelp"/>
-            <Input label="Ancho del Edificio (m)" id="buildingWidth" type="number" value={buildingWidth} onChange={(e) => setBuildingWidth(e.target.value)} placeholder="Ej: 30" min="1" step="0.1" required aria-describedby="widthHelp"/>
+            <Input label="Área de Cobertura por AP (m²)" id="coverageArea" type="number" value={coverageAreaInput} onChange={(e) => recordEdit('Área de cobertura', setCoverageAreaInput, coverageAreaInput, e.target.value, 'coverageArea')} placeholder="Ej: 200" min="1" step="1" required={!propagationSettings.enabled} disabled={propagationSettings.enabled} aria-describedby="coverageAreaHelp"/>
+            <Input label="Largo del Edificio (m)" id="buildingLength" type="number" value={buildingLength} onChange={(e) => recordEdit('Largo del edificio', setBuildingLength, buildingLength, e.target.value, 'buildingLength')} placeholder="Ej: 50" min="1" step="0.1" required aria-describedby="lengthHelp"/>
+            <Input label="Ancho del Edificio (m)" id="buildingWidth" type="number" value={buildingWidth} onChange={(e) => recordEdit('Ancho del edificio', setBuildingWidth, buildingWidth, e.target.value, 'buildingWidth')} placeholder="Ej: 30" min="1" step="0.1" required aria-describedby="widthHelp"/>
           </div>
-          <div id="coverageAreaHelp" className="text-xs text-gray-500 mt-1">Área cuadrada que se espera cubrir por cada AP. El radio se calcula internamente.</div>
-          <div id="lengthHelp" className="text-xs text-gray-500 mt-1">Dimensión más larga del edificio. Usada para escalar radios en el plano.</div>
+          <div id="coverageAreaHelp" className="text-xs text-gray-500 mt-1">Área cuadrada que se espera cubrir por cada AP. El radio se calcula internamente (o se deriva del modelo de AP elegido o del modelo de propagación si está activado).</div>
+          <div id="lengthHelp" className="text-xs text-gray-500 mt-1">Dimensión más larga del edificio. Si el plano no está calibrado, se usa para escalarlo (ancho de la imagen = largo).</div>
           <div id="widthHelp" className="text-xs text-gray-500 mt-1">Dimensión más corta del edificio.</div>
 
+          <BuildingOutlineEditor
+            form={outlineForm}
+            onChange={(form) => recordEdit('Contorno del edificio', setOutlineForm, outlineForm, form, 'outlineForm')}
+            parsed={parsedOutline}
+            buildingLength={parseFloat(buildingLength) || 0}
+            buildingWidth={parseFloat(buildingWidth) || 0}
+            onFitDimensions={(length, width) => recordEdit(
+              'Ajustar dimensiones',
+              ([newLength, newWidth]: [string, string]) => { setBuildingLength(newLength); setBuildingWidth(newWidth); },
+              [buildingLength, buildingWidth],
+              [String(length), String(width)]
+            )}
+            canDrawOnPlan={planTransform !== null}
+            drawTarget={planDrawTarget === 'outline' || planDrawTarget === 'hole' ? planDrawTarget : null}
+            onToggleDraw={togglePlanDrawTarget}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <Select
+              label="Modo del Algoritmo"
+              id="algorithmMode"
+              value={algorithmMode}
+              onChange={(e) => recordEdit('Algoritmo', setAlgorithmMode, algorithmMode, e.target.value as AlgorithmMode)}
+              options={(Object.keys(ALGORITHM_MODE_LABELS) as AlgorithmMode[]).map(mode => ({ value: mode, label: ALGORITHM_MODE_LABELS[mode] }))}
+              aria-describedby="algorithmModeHelp"
+            />
+            {algorithmMode === 'grid' && (
+              <Select
+                label="Retícula de la Cuadrícula"
+                id="gridLattice"
+                value={gridLattice}
+                onChange={(e) => recordEdit('Retícula', setGridLattice, gridLattice, e.target.value as GridLattice)}
+                options={(Object.keys(GRID_LATTICE_LABELS) as GridLattice[]).map(lattice => ({ value: lattice, label: GRID_LATTICE_LABELS[lattice] }))}
+              />
+            )}
+            <Input label="Resolución del Análisis (m)" id="analysisResolution" type="number" value={analysisResolutionInput} onChange={(e) => recordEdit('Resolución del análisis', setAnalysisResolutionInput, analysisResolutionInput, e.target.value, 'analysisResolution')} placeholder="Ej: 1" min="0.1" step="0.1" aria-describedby="analysisResolutionHelp"/>
+          </div>
+          <div id="algorithmModeHelp" className="text-xs text-gray-500 mt-1">
+            'Cobertura exacta' muestrea el edificio en puntos de prueba y busca el menor subconjunto de APs candidatos que cubre todos los puntos. Puede tardar más en edificios grandes.
+            La retícula hexagonal cubre el edificio con celdas hexagonales de radio R y suele requerir menos APs que la cuadrada.
+          </div>
+          <div id="analysisResolutionHelp" className="text-xs text-gray-500 mt-1">Tamaño de celda usado para medir el porcentaje de cobertura, el solapamiento y los huecos de cada resultado.</div>
+
+          <ApCatalogPanel catalog={apCatalog} onChange={(catalog) => recordEdit('Catálogo de APs', setApCatalog, apCatalog, catalog, 'apCatalog')} propagation={enteredPropagationSettings} />
+
+          <PropagationSettingsPanel form={propagationForm} onChange={(form) => recordEdit('Modelo de propagación', setPropagationForm, propagationForm, form, 'propagationForm')} apModelName={defaultApModel?.name} />
+
+          <ChannelPlanPanel settings={channelPlanSettings} onChange={(settings) => recordEdit('Plan de canales', setChannelPlanSettings, channelPlanSettings, settings, 'channelPlan')} />
+
+          <CapacityPanel
+            form={capacityForm}
+            onChange={(form) => recordEdit('Parámetros de capacidad', setCapacityForm, capacityForm, form, 'capacityForm')}
+            zones={capacityZones}
+            onZonesChange={(zones) => recordEdit('Zonas de capacidad', setCapacityZones, capacityZones, zones, 'capacityZones')}
+            canDrawOnPlan={planTransform !== null}
+            isDrawing={planDrawTarget === 'capacityZone'}
+            onToggleDraw={() => togglePlanDrawTarget('capacityZone')}
+          />
+
+          <PlanningZonesPanel
+            zones={planningZones}
+            onZonesChange={(zones) => recordEdit('Zonas de planificación', setPlanningZones, planningZones, zones, 'planningZones')}
+            newZoneKind={newPlanningZoneKind}
+            onNewZoneKindChange={setNewPlanningZoneKind}
+            canDrawOnPlan={planTransform !== null}
+            drawingShape={planDrawTarget === 'planningZoneRectangle' ? 'rectangle' : planDrawTarget === 'planningZonePolygon' ? 'polygon' : null}
+            onToggleDraw={(shape) => togglePlanDrawTarget(shape === 'rectangle' ? 'planningZoneRectangle' : 'planningZonePolygon')}
+          />
+
+          <MountingPanel
+            form={mountingForm}
+            onChange={(form) => recordEdit('Puntos de montaje', setMountingForm, mountingForm, form, 'mountingForm')}
+            cablingForm={cablingForm}
+            onCablingChange={(form) => recordEdit('Parámetros de cableado', setCablingForm, cablingForm, form, 'cablingForm')}
+            idfLocation={idfLocation}
+            onIdfLocationChange={(location) => recordEdit('Ubicar IDF', setIdfLocation, idfLocation, location)}
+            canDrawOnPlan={planTransform !== null}
+            drawing={planDrawTarget === 'mountPoints' || planDrawTarget === 'idf' ? planDrawTarget : null}
+            onToggleDraw={togglePlanDrawTarget}
+            offMountAPs={offMountAPs}
+            onSnapExisting={handleSnapExistingLayouts}
+          />
+
+          <AiProviderPanel settings={aiProviderSettings} onChange={setAiProviderSettings} responseOptions={aiResponseOptions} onResponseOptionsChange={setAiResponseOptions} refinementSettings={aiRefinementSettings} onRefinementSettingsChange={setAiRefinementSettings} />
+
           <div className="flex flex-col md:flex-row justify-between items-center pt-4 space-y-3 md:space-y-0 md:space-x-3">
             <div className="flex flex-col md:flex-row md:items-center space-y-3 md:space-y-0 md:space-x-3 w-full md:w-auto">
               <Button type="submit" disabled={isLoading || isAiOptimizing} className="w-full md:w-auto">
-                {isLoading ? <div className="flex items-center justify-center">{spinner} Calculando...</div> : 'Calcular (Algoritmo)'}
+                {isLoading ? (
+                  <div className="flex items-center justify-center">
+                    {spinner} {algorithmProgress ? `Calculando... ${algorithmProgress.iterations} iteraciones${algorithmProgress.bestScore !== null ? `, mejor: ${algorithmProgress.bestScore} APs` : ''}` : 'Calculando...'}
+                  </div>
+                ) : 'Calcular (Algoritmo)'}
               </Button>
+              {isLoading && (
+                <Button type="button" onClick={handleCancelOptimization} variant="secondary" className="w-full md:w-auto">
+                  Cancelar
+                </Button>
+              )}
               <Button type="button" onClick={handleAiOptimize} disabled={isAiOptimizing || isLoading} variant="secondary" className="w-full md:w-auto">
-                {isAiOptimizing ? <div className="flex items-center justify-center">{secondarySpinner} Optimizando IA...</div> : 'Optimizar con IA'}
+                {isAiOptimizing ? (
+                  <div className="flex items-center justify-center">
+                    {secondarySpinner} {aiRefinementProgress ? `Ronda ${aiRefinementProgress.round}: ${aiRefinementProgress.coveragePercent.toFixed(1)} %...` : 'Optimizando IA...'}
+                  </div>
+                ) : 'Optimizar con IA'}
               </Button>
             </div>
             <Button type="button" onClick={handleClearAll} disabled={isLoading || isAiOptimizing} variant="secondary" className="w-full md:w-auto order-first md:order-last mt-3 md:mt-0">
@@ -589,24 +1500,42 @@ IMPORTANTE: Devuelve tu respuesta ÚNICAMENTE como un array JSON de objetos, don
             <div className="flex justify-between items-center mb-4">
                  <h2 className="text-2xl font-semibold text-gray-800">Resultados (Algoritmo)</h2>
                  {results.coordinates.length > 0 && (
-                    <Button onClick={() => handleDownloadPdf(false)} disabled={isDownloadingPdf} variant="secondary" size="sm">
-                        {isDownloadingPdf ? <div className="flex items-center">{secondarySpinner} Descargando...</div> : 'Descargar PDF (Algoritmo)'}
+                    <Button onClick={() => downloadSourceReport('algorithm')} disabled={generatingReport !== null} variant="secondary" size="sm">
+                        {generatingReport === 'algorithm' ? <div className="flex items-center">{secondarySpinner} Descargando...</div> : 'Descargar PDF (Algoritmo)'}
                     </Button>
                  )}
             </div>
             {results.coordinates.length > 0 ? (
                 <>
+                    <div className="mb-3">
+                      <PlacementExportButtons aps={results.coordinates} meta={{ floorName: activeFloor.name, source: 'algorithm', geoAnchor, channels: algorithmChannels?.channels }} />
+                    </div>
                     <p className="text-gray-700 mb-1"><span className="font-medium">Número estimado de APs:</span> {results.nAP}</p>
+                    {results.latticeComparison && (
+                      <p className="text-gray-700 mb-1">
+                        <span className="font-medium">Comparación de retículas:</span> cuadrada {results.latticeComparison.squareAPs} APs, hexagonal {results.latticeComparison.hexAPs} APs
+                        {' '}({results.latticeComparison.squareAPs - results.latticeComparison.hexAPs >= 0
+                          ? `la hexagonal requiere ${results.latticeComparison.squareAPs - results.latticeComparison.hexAPs} APs menos`
+                          : `la hexagonal requiere ${results.latticeComparison.hexAPs - results.latticeComparison.squareAPs} APs más`})
+                      </p>
+                    )}
+                    {results.unmountedAPs ? <p className="text-amber-700 text-sm mb-2">{results.unmountedAPs} AP(s) quedaron fuera por no haber un punto de montaje libre cerca; añada puntos de montaje o revise la retícula.</p> : null}
                     <p className="text-gray-700 mb-4"><span className="font-medium">Coordenadas (X, Y) en metros:</span></p>
                     <div className="overflow-x-auto">
                     <table className="min-w-full divide-y divide-gray-200 mb-6">
-                        <thead className="bg-gray-50"><tr><th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">AP #</th><th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">X</th><th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Y</th></tr></thead>
+                        <thead className="bg-gray-50"><tr><th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">AP #</th><th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">X</th><th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Y</th>{apCatalog.models.length > 0 && <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Modelo</th>}</tr></thead>
                         <tbody className="bg-white divide-y divide-gray-200">
-                        {results.coordinates.map((ap, index) => (<tr key={`opt-ap-${index}`} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}><td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{index + 1}</td><td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{ap.x.toFixed(2)}</td><td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{ap.y.toFixed(2)}</td></tr>))}
+                        {results.coordinates.map((ap, index) => (<tr key={`opt-ap-${index}`} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}><td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{index + 1}</td><td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{ap.x.toFixed(2)}</td><td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{ap.y.toFixed(2)}</td>{apCatalog.models.length > 0 && <td className="px-6 py-2 whitespace-nowrap">{apModelCell('algorithm', index)}</td>}</tr>))}
                         </tbody>
                     </table>
                     </div>
-                    <BuildingVisualizer visualizationId="algorithmic-building-visualization-for-pdf" building={currentBuildingDimensions} aps={results.coordinates} coverageRadius={calculatedRadiusForViz} planImageUrl={uploadedPlanImageDataUrl} />
+                    <CoverageMetricsPanel metrics={algorithmCoverage} />
+                    <ZoneCompliancePanel compliance={algorithmZoneCompliance} zones={planningZones} />
+                    <CableRunsPanel summary={algorithmCables} />
+                    <ApBillPanel bill={algorithmBill} />
+                    <CapacitySummaryPanel summary={results.capacity} />
+                    <ChannelAssignmentTable assignment={algorithmChannels} band={channelPlanSettings.band} />
+                    <BuildingVisualizer visualizationId="algorithm-building-visualization" building={currentBuildingDimensions} aps={results.coordinates} coverageRadius={calculatedRadiusForViz} modelRadii={modelRadii} planImageUrl={uploadedPlanImageDataUrl} planTransform={planTransform} planNaturalSize={uploadedPlanNaturalDimensions} coverageMetrics={algorithmCoverage} signalHeatmap={algorithmHeatmap} signalThresholdDbm={propagationSettings.thresholdDbm} walls={walls} channelAssignment={algorithmChannels} capacityZones={capacityZones} planningZones={planningZones} idfLocation={idfLocation} />
                 </>
             ) : (
                  <p className="text-gray-600">{results.message || 'No se pudieron generar ubicaciones de AP con el algoritmo.'}</p>
@@ -620,27 +1549,42 @@ IMPORTANTE: Devuelve tu respuesta ÚNICAMENTE como un array JSON de objetos, don
             <div className="flex justify-between items-center mb-4">
                  <h2 className="text-2xl font-semibold text-indigo-700">Resultados (IA)</h2>
                  {aiResults.coordinates.length > 0 && (
-                    <Button onClick={() => handleDownloadPdf(true)} disabled={isDownloadingAiPdf} variant="secondary" size="sm" className="bg-indigo-100 hover:bg-indigo-200 text-indigo-700">
-                        {isDownloadingAiPdf ? <div className="flex items-center">{secondarySpinner} Descargando...</div> : 'Descargar PDF (IA)'}
+                    <Button onClick={() => downloadSourceReport('ai')} disabled={generatingReport !== null} variant="secondary" size="sm" className="bg-indigo-100 hover:bg-indigo-200 text-indigo-700">
+                        {generatingReport === 'ai' ? <div className="flex items-center">{secondarySpinner} Descargando...</div> : 'Descargar PDF (IA)'}
                     </Button>
                  )}
             </div>
              {aiResults.coordinates.length > 0 ? (
                 <>
+                    <div className="mb-3">
+                      <PlacementExportButtons aps={aiResults.coordinates} meta={{ floorName: activeFloor.name, source: 'ai', geoAnchor, channels: aiChannels?.channels }} />
+                    </div>
                     <p className="text-gray-700 mb-1"><span className="font-medium">Número de APs sugeridos por IA:</span> {aiResults.nAP}</p>
+                    {aiResults.unmountedAPs ? <p className="text-amber-700 text-sm mb-2">{aiResults.unmountedAPs} AP(s) quedaron fuera por no haber un punto de montaje libre cerca; añada puntos de montaje o revise la retícula.</p> : null}
                     <p className="text-gray-700 mb-4"><span className="font-medium">Coordenadas (X, Y) en metros:</span></p>
                     <div className="overflow-x-auto">
                     <table className="min-w-full divide-y divide-gray-200 mb-6">
-                        <thead className="bg-indigo-50"><tr><th scope="col" className="px-6 py-3 text-left text-xs font-medium text-indigo-700 uppercase tracking-wider">AP # (IA)</th><th scope="col" className="px-6 py-3 text-left text-xs font-medium text-indigo-700 uppercase tracking-wider">X</th><th scope="col" className="px-6 py-3 text-left text-xs font-medium text-indigo-700 uppercase tracking-wider">Y</th></tr></thead>
+                        <thead className="bg-indigo-50"><tr><th scope="col" className="px-6 py-3 text-left text-xs font-medium text-indigo-700 uppercase tracking-wider">AP # (IA)</th><th scope="col" className="px-6 py-3 text-left text-xs font-medium text-indigo-700 uppercase tracking-wider">X</th><th scope="col" className="px-6 py-3 text-left text-xs font-medium text-indigo-700 uppercase tracking-wider">Y</th>{apCatalog.models.length > 0 && <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-indigo-700 uppercase tracking-wider">Modelo</th>}</tr></thead>
                         <tbody className="bg-white divide-y divide-gray-200">
-                        {aiResults.coordinates.map((ap, index) => (<tr key={`ai-ap-${index}`} className={index % 2 === 0 ? 'bg-white' : 'bg-indigo-50'}><td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{index + 1}</td><td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{ap.x.toFixed(2)}</td><td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{ap.y.toFixed(2)}</td></tr>))}
+                        {aiResults.coordinates.map((ap, index) => (<tr key={`ai-ap-${index}`} className={index % 2 === 0 ? 'bg-white' : 'bg-indigo-50'}><td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{index + 1}</td><td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{ap.x.toFixed(2)}</td><td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{ap.y.toFixed(2)}</td>{apCatalog.models.length > 0 && <td className="px-6 py-2 whitespace-nowrap">{apModelCell('ai', index)}</td>}</tr>))}
                         </tbody>
                     </table>
                     </div>
-                    <BuildingVisualizer visualizationId="ai-building-visualization-for-pdf" building={currentBuildingDimensions} aps={aiResults.coordinates} coverageRadius={calculatedRadiusForViz} planImageUrl={uploadedPlanImageDataUrl} />
+                    <AiDiagnosticsPanel diagnostics={aiResults.aiDiagnostics} />
+                    <AiRefinementHistoryPanel history={aiResults.aiRefinement} onSelectRound={handleSelectAiRound} />
+                    <CoverageMetricsPanel metrics={aiCoverage} />
+                    <ZoneCompliancePanel compliance={aiZoneCompliance} zones={planningZones} />
+                    <CableRunsPanel summary={aiCables} />
+                    <ApBillPanel bill={aiBill} />
+                    <CapacitySummaryPanel summary={aiCapacity} />
+                    <ChannelAssignmentTable assignment={aiChannels} band={channelPlanSettings.band} />
+                    <BuildingVisualizer visualizationId="ai-building-visualization" building={currentBuildingDimensions} aps={aiResults.coordinates} coverageRadius={calculatedRadiusForViz} modelRadii={modelRadii} planImageUrl={uploadedPlanImageDataUrl} planTransform={planTransform} planNaturalSize={uploadedPlanNaturalDimensions} coverageMetrics={aiCoverage} signalHeatmap={aiHeatmap} signalThresholdDbm={propagationSettings.thresholdDbm} walls={walls} channelAssignment={aiChannels} capacityZones={capacityZones} planningZones={planningZones} idfLocation={idfLocation} />
                 </>
             ) : (
-                <p className="text-gray-600">{aiResults.message || 'La IA no generó ubicaciones de AP válidas.'}</p>
+                <>
+                  <p className="text-gray-600">{aiResults.message || 'La IA no generó ubicaciones de AP válidas.'}</p>
+                  <AiDiagnosticsPanel diagnostics={aiResults.aiDiagnostics} />
+                </>
             )}
           </div>
         )}
@@ -651,8 +1595,8 @@ IMPORTANTE: Devuelve tu respuesta ÚNICAMENTE como un array JSON de objetos, don
           <div className="flex flex-wrap justify-between items-center mb-1">
             <h2 className="text-2xl font-semibold text-gray-800">Plano y Ubicaciones Manuales</h2>
             {uploadedPlanImageDataUrl && manualAPs.length > 0 && (
-                 <Button onClick={handleDownloadManualPdf} disabled={isDownloadingManualPdf} variant="secondary" size="sm" className="bg-green-100 hover:bg-green-200 text-green-700 mt-2 sm:mt-0">
-                    {isDownloadingManualPdf ? <div className="flex items-center">{secondarySpinner} Descargando...</div> : 'Descargar PDF (Manual)'}
+                 <Button onClick={() => downloadSourceReport('manual')} disabled={generatingReport !== null} variant="secondary" size="sm" className="bg-green-100 hover:bg-green-200 text-green-700 mt-2 sm:mt-0">
+                    {generatingReport === 'manual' ? <div className="flex items-center">{secondarySpinner} Descargando...</div> : 'Descargar PDF (Manual)'}
                 </Button>
             )}
           </div>
@@ -673,20 +1617,77 @@ IMPORTANTE: Devuelve tu respuesta ÚNICAMENTE como un array JSON de objetos, don
 
           {uploadedPlanImageDataUrl && (
             <InteractivePlanDisplay 
-                visualizationId="manual-plan-visualization-for-pdf"
+                visualizationId="manual-plan-visualization"
                 imageDataUrl={uploadedPlanImageDataUrl} 
                 manualAPs={manualAPs} 
-                onImageClick={handlePlanClick} 
+                onImageClick={(coords) => {
+                  const snapped = snapPlanPixel(coords);
+                  if (snapped) handlePlanClick(snapped);
+                }}
                 coverageRadiusMeters={calculatedRadiusForViz} 
-                buildingLengthMeters={parseFloat(buildingLength) || 0}
+                modelRadii={modelRadii}
+                planTransform={planTransform}
                 onDeleteAp={handleDeleteManualAp}
-                onMoveAp={handleMoveManualAp}
+                onMoveAp={(index, coords) => {
+                  const snapped = snapPlanPixel(coords);
+                  if (snapped) handleMoveManualAp(index, snapped);
+                }}
+                onMoveApEnd={handleMoveManualApEnd}
+                signalHeatmap={manualHeatmap}
+                signalThresholdDbm={propagationSettings.thresholdDbm}
+                walls={walls}
+                buildingOutline={buildingOutline}
+                onDeleteWall={handleDeleteWall}
+                drawMode={planDrawMode}
+                onDrawComplete={handlePlanDrawComplete}
+                channelAssignment={manualChannels}
+                capacityZones={capacityZones}
+                planningZones={planningZones}
+                idfLocation={idfLocation}
+            />
+          )}
+
+          {uploadedPlanImageDataUrl && (
+            <PlanCalibrationPanel
+                calibration={planCalibration}
+                transform={planTransform}
+                onChange={(calibration) => recordEdit('Calibración del plano', setPlanCalibration, planCalibration, calibration, 'planCalibration')}
+                activeStep={(Object.keys(CALIBRATION_DRAW_TARGETS) as CalibrationStep[]).find(step => CALIBRATION_DRAW_TARGETS[step] === planDrawTarget) ?? null}
+                onToggleStep={(step) => togglePlanDrawTarget(CALIBRATION_DRAW_TARGETS[step])}
+                scalePoints={calibrationScalePoints}
+                onDiscardScalePoints={() => setCalibrationScalePoints(null)}
+            />
+          )}
+
+          {uploadedPlanImageDataUrl && (
+            <ObstacleEditor
+                drawing={obstacleDrawing}
+                onDrawingChange={setObstacleDrawing}
+                isDrawing={planDrawTarget === 'obstacle'}
+                onToggleDrawing={() => togglePlanDrawTarget('obstacle')}
+                walls={walls}
+                onDeleteWall={handleDeleteWall}
+                onClearWalls={() => recordEdit('Eliminar muros', setWalls, walls, [])}
+                canDraw={planTransform !== null}
             />
           )}
 
+          <PlacementExchangePanel
+            geoAnchorForm={geoAnchorForm}
+            onGeoAnchorChange={(form) => recordEdit('Georreferencia', setGeoAnchorForm, geoAnchorForm, form, 'geoAnchor')}
+            building={currentBuildingDimensions}
+            canImport={uploadedPlanImageDataUrl !== null && planTransform !== null}
+            onImport={handleImportManualAPs}
+          />
+
           {uploadedPlanImageDataUrl && manualAPs.length > 0 && (
             <div className="mt-6">
               <div className="flex justify-between items-center mb-3"><h3 className="text-lg font-semibold text-gray-800">APs Marcados Manualmente ({manualAPs.length})</h3><Button onClick={clearManualAPs} variant="secondary" size="sm" type="button">Limpiar Marcas</Button></div>
+              {manualAPsInMeters && (
+                <div className="mb-3">
+                  <PlacementExportButtons aps={manualAPsInMeters} meta={{ floorName: activeFloor.name, source: 'manual', geoAnchor, channels: manualChannels?.channels }} />
+                </div>
+              )}
               <div className="overflow-x-auto max-h-60 border border-gray-200 rounded-md">
                 <table className="min-w-full divide-y divide-gray-200">
                     <thead className="bg-gray-50 sticky top-0">
@@ -694,39 +1695,90 @@ IMPORTANTE: Devuelve tu respuesta ÚNICAMENTE como un array JSON de objetos, don
                             <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">AP #</th>
                             <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pixel X</th>
                             <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pixel Y</th>
-                            <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">X (m) Est.</th>
-                            <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Y (m) Est.</th>
+                            <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">X (m){planTransform?.calibrated ? '' : ' Est.'}</th>
+                            <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Y (m){planTransform?.calibrated ? '' : ' Est.'}</th>
+                            {apCatalog.models.length > 0 && <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Modelo</th>}
                         </tr>
                     </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {(() => {
-                        let pixelsPerMeterScaleManual = 0;
-                        if (uploadedPlanNaturalDimensions && uploadedPlanNaturalDimensions.width > 0 && parseFloat(buildingLength) > 0) {
-                            pixelsPerMeterScaleManual = uploadedPlanNaturalDimensions.width / parseFloat(buildingLength);
-                        }
-                        return manualAPs.map((ap, index) => {
-                            const x_m = pixelsPerMeterScaleManual > 0 ? (ap.x / pixelsPerMeterScaleManual).toFixed(2) : 'N/A';
-                            const y_m = pixelsPerMeterScaleManual > 0 ? (ap.y / pixelsPerMeterScaleManual).toFixed(2) : 'N/A'; // Simple Y scaling
-                            return (
-                                <tr key={`manual-ap-${index}`} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
-                                    <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{index + 1}</td>
-                                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{ap.x.toFixed(0)}</td>
-                                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{ap.y.toFixed(0)}</td>
-                                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{x_m}</td>
-                                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{y_m}</td>
-                                </tr>
-                            );
-                        });
-                    })()}
+                    {manualAPs.map((ap, index) => {
+                        const apMeters = manualAPsInMeters ? manualAPsInMeters[index] : null;
+                        const x_m = apMeters ? apMeters.x.toFixed(2) : 'N/A';
+                        const y_m = apMeters ? apMeters.y.toFixed(2) : 'N/A';
+                        return (
+                            <tr key={`manual-ap-${index}`} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-gray-900">{index + 1}</td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{ap.x.toFixed(0)}</td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{ap.y.toFixed(0)}</td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{x_m}</td>
+                                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{y_m}</td>
+                                {apCatalog.models.length > 0 && <td className="px-4 py-1 whitespace-nowrap">{apModelCell('manual', index)}</td>}
+                            </tr>
+                        );
+                    })}
                   </tbody>
                 </table>
               </div>
-              <p className="mt-2 text-xs text-gray-500">Coordenadas en píxeles son relativas a la imagen original. Coordenadas métricas (Est.) se calculan usando el 'Largo del Edificio' y el ancho de la imagen como referencia de escala.</p>
+              <p className="mt-2 text-xs text-gray-500">Coordenadas en píxeles son relativas a la imagen original. {planTransform?.calibrated ? 'Las coordenadas métricas usan la calibración del plano (escala, origen y rotación).' : "Coordenadas métricas (Est.) se calculan usando el 'Largo del Edificio' y el ancho de la imagen como referencia de escala; calibre el plano para obtener valores exactos."}</p>
+              <CoverageMetricsPanel metrics={manualCoverage} />
+              <ZoneCompliancePanel compliance={manualZoneCompliance} zones={planningZones} />
+              <CableRunsPanel summary={manualCables} />
+              <ApBillPanel bill={manualBill} />
+              <CapacitySummaryPanel summary={manualCapacity} />
+              <ChannelAssignmentTable assignment={manualChannels} band={channelPlanSettings.band} />
+              {manualAPsInMeters && manualCoverage && (
+                <BuildingVisualizer visualizationId="manual-building-visualization" building={currentBuildingDimensions} aps={manualAPsInMeters} coverageRadius={calculatedRadiusForViz} modelRadii={modelRadii} planImageUrl={uploadedPlanImageDataUrl} planTransform={planTransform} planNaturalSize={uploadedPlanNaturalDimensions} coverageMetrics={manualCoverage} signalHeatmap={manualHeatmap} signalThresholdDbm={propagationSettings.thresholdDbm} walls={walls} channelAssignment={manualChannels} capacityZones={capacityZones} planningZones={planningZones} idfLocation={idfLocation} />
+              )}
             </div>
           )}
           {uploadedPlanImageDataUrl && manualAPs.length === 0 && (<p className="mt-4 text-sm text-gray-600">Haga clic en el plano para marcar un AP.</p>)}
         </div>
 
+        {comparisonVariants.length > 0 && (
+          <PlacementComparisonPanel
+            variants={comparisonVariants}
+            designOfRecord={designOfRecord}
+            onPromote={handlePromoteDesign}
+            building={currentBuildingDimensions}
+            coverageRadius={calculatedRadiusForViz}
+            modelRadii={modelRadii}
+            planImageUrl={uploadedPlanImageDataUrl}
+            planTransform={planTransform}
+            planNaturalSize={uploadedPlanNaturalDimensions}
+            walls={walls}
+            capacityZones={capacityZones}
+            planningZones={planningZones}
+          />
+        )}
+
+        {comparisonVariants.length > 0 && (
+          <PlacementRefinementPanel
+            variants={comparisonVariants}
+            settings={refinementSettings}
+            onSettingsChange={setRefinementSettings}
+            run={refinementRun}
+            onStart={handleStartRefinement}
+            onApply={handleApplyRefinement}
+            onCancel={() => refinementJobRef.current?.cancel()}
+            onDiscard={() => setRefinementRun(null)}
+            building={currentBuildingDimensions}
+            coverageRadius={calculatedRadiusForViz}
+            modelRadii={modelRadii}
+            planImageUrl={uploadedPlanImageDataUrl}
+            planTransform={planTransform}
+            planNaturalSize={uploadedPlanNaturalDimensions}
+            walls={walls}
+          />
+        )}
+
+        <ReportBuilderPanel
+          options={reportOptions}
+          onChange={setReportOptions}
+          availableSources={reportAvailableSources}
+          onGenerate={() => handleDownloadReport(reportOptions, 'custom')}
+          isGenerating={generatingReport !== null}
+        />
+
       </div>
       <footer className="mt-12 text-center text-slate-400 text-sm">
         <p>&copy; {new Date().getFullYear()} AP Placement Optimizer.</p>
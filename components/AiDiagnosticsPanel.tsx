@@ -0,0 +1,70 @@
+import React from 'react';
+import type { AiResponseDiagnostics } from '../types';
+
+interface AiDiagnosticsPanelProps {
+  diagnostics: AiResponseDiagnostics | undefined;
+}
+
+const STATUS_LABELS = {
+  accepted: 'Aceptado',
+  snapped: 'Ajustado',
+  rejected: 'Descartado',
+};
+
+// How the AI answer was obtained: failed attempts, then every point that was not taken as suggested.
+const AiDiagnosticsPanel: React.FC<AiDiagnosticsPanelProps> = ({ diagnostics }) => {
+  if (!diagnostics) {
+    return null;
+  }
+
+  const count = (status: keyof typeof STATUS_LABELS) => diagnostics.points.filter(point => point.status === status).length;
+  const failedAttempts = diagnostics.attempts.filter(attempt => attempt.error);
+  const adjustedPoints = diagnostics.points.filter(point => point.status !== 'accepted');
+  const formatPoint = (point: { x: number; y: number } | undefined) => (point ? `(${point.x.toFixed(2)}, ${point.y.toFixed(2)})` : '-');
+
+  return (
+    <details className="my-4 p-4 border border-gray-200 rounded-lg bg-gray-50" open={failedAttempts.length > 0 || count('rejected') > 0}>
+      <summary className="text-md font-semibold text-gray-800 cursor-pointer">
+        Diagnóstico de la respuesta ({diagnostics.provider})
+      </summary>
+      <p className="text-sm text-gray-700 mt-2">
+        {diagnostics.attempts.length} intento(s). Puntos: {count('accepted')} aceptados, {count('snapped')} ajustados al borde, {count('rejected')} descartados.
+      </p>
+      {failedAttempts.length > 0 && (
+        <ul className="text-sm text-gray-700 mt-2 list-disc list-inside">
+          {failedAttempts.map(attempt => (
+            <li key={attempt.attempt}>Intento {attempt.attempt}: {attempt.error}</li>
+          ))}
+        </ul>
+      )}
+      {adjustedPoints.length > 0 && (
+        <div className="overflow-x-auto mt-3">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Elemento</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Estado</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sugerido</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ajustado</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Motivo</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {adjustedPoints.map(point => (
+                <tr key={point.index}>
+                  <td className="px-4 py-1 whitespace-nowrap text-gray-900">{point.index + 1}</td>
+                  <td className={`px-4 py-1 whitespace-nowrap font-medium ${point.status === 'rejected' ? 'text-red-700' : 'text-orange-700'}`}>{STATUS_LABELS[point.status]}</td>
+                  <td className="px-4 py-1 whitespace-nowrap text-gray-700">{formatPoint(point.original)}</td>
+                  <td className="px-4 py-1 whitespace-nowrap text-gray-700">{formatPoint(point.adjusted)}</td>
+                  <td className="px-4 py-1 text-gray-700">{point.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </details>
+  );
+};
+
+export default AiDiagnosticsPanel;
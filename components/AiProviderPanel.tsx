@@ -0,0 +1,129 @@
+import React from 'react';
+import Input from './Input';
+import Select from './Select';
+import type { AiProviderKind, AiProviderSettings, AiRefinementSettings, AiResponseOptions, OutOfBoundsMode } from '../types';
+import { AI_PROVIDER_LABELS, DEFAULT_AI_MODELS, aiProviderSettingsError } from '../services/aiProviders';
+
+const OUT_OF_BOUNDS_LABELS: Record<OutOfBoundsMode, string> = {
+  reject: 'Descartarlos',
+  snap: 'Ajustarlos al borde',
+};
+
+const SNAP_TOLERANCES_M = [0.5, 1, 2, 5];
+const MAX_ATTEMPT_OPTIONS = [1, 2, 3, 5];
+const TARGET_COVERAGE_OPTIONS = [80, 90, 95, 98, 100];
+const MAX_ROUND_OPTIONS = [2, 3, 4, 6, 8];
+
+interface AiProviderPanelProps {
+  settings: AiProviderSettings;
+  onChange: (settings: AiProviderSettings) => void;
+  responseOptions: AiResponseOptions;
+  onResponseOptionsChange: (options: AiResponseOptions) => void;
+  refinementSettings: AiRefinementSettings;
+  onRefinementSettingsChange: (settings: AiRefinementSettings) => void;
+}
+
+const AiProviderPanel: React.FC<AiProviderPanelProps> = ({ settings, onChange, responseOptions, onResponseOptionsChange, refinementSettings, onRefinementSettingsChange }) => {
+  const update = (changes: Partial<AiProviderSettings>) => onChange({ ...settings, ...changes });
+  const updateResponse = (changes: Partial<AiResponseOptions>) => onResponseOptionsChange({ ...responseOptions, ...changes });
+  const updateRefinement = (changes: Partial<AiRefinementSettings>) => onRefinementSettingsChange({ ...refinementSettings, ...changes });
+  const settingsError = aiProviderSettingsError(settings);
+
+  return (
+    <fieldset className="border border-gray-200 rounded-lg p-4">
+      <legend className="px-2 text-sm font-semibold text-gray-700">Proveedor de IA</legend>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6">
+        <Select
+          label="Proveedor"
+          id="aiProviderKind"
+          value={settings.kind}
+          onChange={(e) => {
+            const kind = e.target.value as AiProviderKind;
+            update({ kind, model: DEFAULT_AI_MODELS[kind] });
+          }}
+          options={(Object.keys(AI_PROVIDER_LABELS) as AiProviderKind[]).map(kind => ({ value: kind, label: AI_PROVIDER_LABELS[kind] }))}
+        />
+        {settings.kind !== 'mock' && (
+          <Input label="Modelo" id="aiProviderModel" value={settings.model} onChange={(e) => update({ model: e.target.value })} placeholder={DEFAULT_AI_MODELS[settings.kind]} />
+        )}
+        {settings.kind !== 'mock' && (
+          <Input
+            label={settings.kind === 'gemini' ? 'Clave API (opcional si la compilación la incluye)' : 'Clave API (opcional)'}
+            id="aiProviderApiKey"
+            type="password"
+            autoComplete="off"
+            value={settings.apiKey}
+            onChange={(e) => update({ apiKey: e.target.value })}
+          />
+        )}
+        {settings.kind === 'openai' && (
+          <Input label="URL Base" id="aiProviderBaseUrl" value={settings.baseUrl} onChange={(e) => update({ baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" />
+        )}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6">
+        <Select
+          label="APs fuera del edificio"
+          id="aiOutOfBounds"
+          value={responseOptions.outOfBounds}
+          onChange={(e) => updateResponse({ outOfBounds: e.target.value as OutOfBoundsMode })}
+          options={(Object.keys(OUT_OF_BOUNDS_LABELS) as OutOfBoundsMode[]).map(mode => ({ value: mode, label: OUT_OF_BOUNDS_LABELS[mode] }))}
+        />
+        <Select
+          label="Distancia máxima de ajuste"
+          id="aiSnapTolerance"
+          value={String(responseOptions.snapToleranceM)}
+          disabled={responseOptions.outOfBounds !== 'snap'}
+          onChange={(e) => updateResponse({ snapToleranceM: parseFloat(e.target.value) })}
+          options={SNAP_TOLERANCES_M.map(tolerance => ({ value: String(tolerance), label: `${tolerance} m` }))}
+        />
+        <Select
+          label="Intentos si la respuesta no es válida"
+          id="aiMaxAttempts"
+          value={String(responseOptions.maxAttempts)}
+          onChange={(e) => updateResponse({ maxAttempts: parseInt(e.target.value, 10) })}
+          options={MAX_ATTEMPT_OPTIONS.map(attempts => ({ value: String(attempts), label: attempts === 1 ? 'Sin reintentos' : `Hasta ${attempts}` }))}
+        />
+      </div>
+      <label className="flex items-center mb-4 text-sm text-gray-700">
+        <input type="checkbox" className="mr-2" checked={refinementSettings.enabled} onChange={(e) => updateRefinement({ enabled: e.target.checked })} />
+        Refinar en varias rondas con la cobertura calculada
+      </label>
+      {refinementSettings.enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6">
+          <Select
+            label="Cobertura objetivo"
+            id="aiRefinementTarget"
+            value={String(refinementSettings.targetCoveragePercent)}
+            onChange={(e) => updateRefinement({ targetCoveragePercent: parseFloat(e.target.value) })}
+            options={TARGET_COVERAGE_OPTIONS.map(target => ({ value: String(target), label: `${target} %` }))}
+          />
+          <Select
+            label="Rondas como máximo"
+            id="aiRefinementRounds"
+            value={String(refinementSettings.maxRounds)}
+            onChange={(e) => updateRefinement({ maxRounds: parseInt(e.target.value, 10) })}
+            options={MAX_ROUND_OPTIONS.map(rounds => ({ value: String(rounds), label: String(rounds) }))}
+          />
+          <label className="flex items-center mb-4 text-sm text-gray-700 md:mt-6">
+            <input type="checkbox" className="mr-2" checked={refinementSettings.sendCoverageImage} onChange={(e) => updateRefinement({ sendCoverageImage: e.target.checked })} />
+            Adjuntar un dibujo de la cobertura
+          </label>
+        </div>
+      )}
+      {settingsError ? (
+        <p className="text-sm text-red-600">{settingsError}</p>
+      ) : (
+        <p className="text-xs text-gray-500">
+          {settings.kind === 'mock'
+            ? 'Devuelve siempre la misma cuadrícula para los mismos datos, sin conexión. Útil para demostraciones y pruebas.'
+            : settings.kind === 'openai'
+              ? 'Se envía una petición a /chat/completions. El plano se adjunta como imagen si hay uno cargado; use un modelo con visión.'
+              : 'El plano cargado se envía junto con la descripción del edificio.'}
+          {' '}Las respuestas mal formadas se reintentan indicando al modelo qué corregir. La clave API no se guarda en los proyectos.
+        </p>
+      )}
+    </fieldset>
+  );
+};
+
+export default AiProviderPanel;
@@ -0,0 +1,74 @@
+import React from 'react';
+import Button from './Button';
+import type { AiRefinementHistory } from '../types';
+
+interface AiRefinementHistoryPanelProps {
+  history: AiRefinementHistory | undefined;
+  onSelectRound: (round: number) => void;
+}
+
+const STOP_REASON_LABELS: Record<AiRefinementHistory['stopReason'], string> = {
+  target: 'se alcanzó la cobertura objetivo',
+  maxRounds: 'se agotaron las rondas',
+  failed: 'la IA dejó de devolver ubicaciones válidas',
+};
+
+// Every round of an iterative AI run with its metrics, so the progression can be inspected and any round used.
+const AiRefinementHistoryPanel: React.FC<AiRefinementHistoryPanelProps> = ({ history, onSelectRound }) => {
+  if (!history) {
+    return null;
+  }
+
+  return (
+    <details className="my-4 p-4 border border-gray-200 rounded-lg bg-gray-50" open>
+      <summary className="text-md font-semibold text-gray-800 cursor-pointer">
+        Refinamiento por rondas ({history.rounds.length})
+      </summary>
+      <p className="text-sm text-gray-700 mt-2">
+        Objetivo: {history.targetCoveragePercent} % de cobertura. Terminó porque {STOP_REASON_LABELS[history.stopReason]}. Se muestra la ronda {history.selectedRound}.
+      </p>
+      <div className="overflow-x-auto mt-3">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ronda</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">APs</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cobertura</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sin cobertura</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Solape medio</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Grupos densos</th>
+              <th scope="col" className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {history.rounds.map(round => (
+              <tr key={round.round} className={round.round === history.selectedRound ? 'bg-indigo-50' : undefined}>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-900">{round.round}</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{round.coordinates.length}</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{round.coveragePercent.toFixed(1)} %</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{round.uncoveredArea.toFixed(1)} m²</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{round.meanOverlapDepth.toFixed(2)}</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{round.clusters.length}</td>
+                <td className="px-4 py-1 whitespace-nowrap text-right">
+                  {round.round === history.selectedRound ? (
+                    <span className="text-xs font-semibold text-indigo-700">En uso</span>
+                  ) : (
+                    <Button type="button" size="sm" variant="secondary" onClick={() => onSelectRound(round.round)}>Usar esta ronda</Button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {history.rounds.filter(round => round.feedback).map(round => (
+        <details key={round.round} className="mt-2 text-sm text-gray-700">
+          <summary className="cursor-pointer">Observaciones enviadas tras la ronda {round.round}</summary>
+          <pre className="whitespace-pre-wrap mt-1 p-2 bg-white border border-gray-200 rounded text-xs">{round.feedback}</pre>
+        </details>
+      ))}
+    </details>
+  );
+};
+
+export default AiRefinementHistoryPanel;
@@ -0,0 +1,57 @@
+import React from 'react';
+import type { ApBill } from '../types';
+import { AP_ENVIRONMENT_LABELS, formatPrice } from '../services/apCatalogService';
+
+interface ApBillPanelProps {
+  bill: ApBill | null;
+}
+
+const ApBillPanel: React.FC<ApBillPanelProps> = ({ bill }) => {
+  if (!bill || bill.apCount === 0) {
+    return null;
+  }
+
+  return (
+    <details className="my-4 p-4 border border-gray-200 rounded-lg bg-gray-50">
+      <summary className="text-md font-semibold text-gray-800 cursor-pointer">
+        Lista de materiales: {bill.apCount} APs, {formatPrice(bill.totalCost)} en total, presupuesto PoE {bill.totalPoeW.toFixed(1)} W
+      </summary>
+      <div className="overflow-x-auto mt-3">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Modelo</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Entorno</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cantidad</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Precio unitario</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Importe</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">PoE</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {bill.lines.map(line => (
+              <tr key={line.model?.id ?? 'none'}>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-900">{line.model ? line.model.name : 'Sin modelo asignado'}</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{line.model ? AP_ENVIRONMENT_LABELS[line.model.environment] : '—'}</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{line.count}</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{line.model ? formatPrice(line.model.unitPrice) : '—'}</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{line.model ? formatPrice(line.subtotal) : '—'}</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{line.model ? `Clase ${line.model.poeClass} (${line.poeW.toFixed(1)} W)` : '—'}</td>
+              </tr>
+            ))}
+            <tr className="font-semibold">
+              <td className="px-4 py-1 whitespace-nowrap text-gray-900">Total</td>
+              <td className="px-4 py-1" />
+              <td className="px-4 py-1 whitespace-nowrap text-gray-900">{bill.apCount}</td>
+              <td className="px-4 py-1" />
+              <td className="px-4 py-1 whitespace-nowrap text-gray-900">{formatPrice(bill.totalCost)}</td>
+              <td className="px-4 py-1 whitespace-nowrap text-gray-900">{bill.totalPoeW.toFixed(1)} W</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+};
+
+export default ApBillPanel;
@@ -0,0 +1,201 @@
+import React, { useRef, useState } from 'react';
+import Button from './Button';
+import Input from './Input';
+import Select from './Select';
+import type { ApCatalogSettings, ApEnvironment, ApModel, FrequencyBand, PropagationSettings } from '../types';
+import {
+  AP_ENVIRONMENT_LABELS,
+  applyApModel,
+  createApModel,
+  DEFAULT_AP_CATALOG,
+  findApModel,
+  formatPrice,
+  modelBand,
+  modelEirp,
+  parseApCatalog,
+  POE_CLASS_POWER_W,
+  serializeApCatalog,
+} from '../services/apCatalogService';
+import { thresholdDistance } from '../services/propagationService';
+import { downloadTextFile } from '../utils/download';
+
+const BANDS: FrequencyBand[] = ['2.4', '5', '6'];
+
+export const apModelLabel = (model: ApModel): string => `${model.name} (${AP_ENVIRONMENT_LABELS[model.environment]})`;
+
+interface ApCatalogPanelProps {
+  catalog: ApCatalogSettings;
+  onChange: (catalog: ApCatalogSettings) => void;
+  propagation: PropagationSettings; // As entered in the propagation form, before the model is applied
+}
+
+const ApCatalogPanel: React.FC<ApCatalogPanelProps> = ({ catalog, onChange, propagation }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const selected = findApModel(catalog.models, catalog.defaultModelId);
+  const editing = findApModel(catalog.models, editingId) ?? catalog.models[0] ?? null;
+
+  const updateModel = (changes: Partial<ApModel>) => {
+    if (!editing) return;
+    onChange({ ...catalog, models: catalog.models.map(model => (model.id === editing.id ? { ...model, ...changes } : model)) });
+  };
+
+  const toggleBand = (band: FrequencyBand, checked: boolean) => {
+    if (!editing) return;
+    const bands = BANDS.filter(b => (b === band ? checked : editing.bands.includes(b)));
+    if (bands.length === 0) return; // A model radiates in at least one band
+    const maxTxPowerDbm = { ...editing.maxTxPowerDbm };
+    if (checked && maxTxPowerDbm[band] === undefined) maxTxPowerDbm[band] = 20;
+    if (!checked) delete maxTxPowerDbm[band];
+    updateModel({ bands, maxTxPowerDbm });
+  };
+
+  const addModel = (template?: ApModel) => {
+    const model = template
+      ? { ...template, id: createApModel(template.name).id, name: `${template.name} (copia)` }
+      : createApModel(`Modelo ${catalog.models.length + 1}`);
+    onChange({ ...catalog, models: [...catalog.models, model] });
+    setEditingId(model.id);
+  };
+
+  const removeModel = (id: string) => {
+    onChange({
+      models: catalog.models.filter(model => model.id !== id),
+      defaultModelId: catalog.defaultModelId === id ? null : catalog.defaultModelId,
+    });
+    setEditingId(null);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const models = parseApCatalog(await file.text());
+      onChange({ models, defaultModelId: models.some(model => model.id === catalog.defaultModelId) ? catalog.defaultModelId : null });
+      setEditingId(null);
+      setImportError(null);
+    } catch (e: any) {
+      setImportError(e.message || 'No se pudo leer el catálogo.');
+    }
+  };
+
+  const num = (value: string) => (isNaN(parseFloat(value)) ? 0 : parseFloat(value));
+  const applied = selected ? applyApModel(propagation, selected) : null;
+
+  return (
+    <fieldset className="border border-gray-200 rounded-lg p-4">
+      <legend className="px-2 text-sm font-semibold text-gray-700">Modelo de AP</legend>
+      <Select
+        label="Modelo desplegado"
+        id="apModel"
+        value={catalog.defaultModelId ?? ''}
+        onChange={(e) => onChange({ ...catalog, defaultModelId: e.target.value || null })}
+        options={[{ value: '', label: 'Sin modelo (usar la potencia del modelo de propagación)' }, ...catalog.models.map(model => ({ value: model.id, label: apModelLabel(model) }))]}
+      />
+      {selected && applied && (
+        <p className="-mt-2 mb-3 text-sm text-gray-700">
+          PIRE {modelEirp(selected, propagation.band).toFixed(1)} dBm en {applied.band} GHz
+          ({selected.maxTxPowerDbm[applied.band]} dBm + {selected.antennaGainDbi} dBi): radio de cobertura <span className="font-semibold">{thresholdDistance(applied).toFixed(2)} m</span>.
+          {modelBand(selected, propagation.band) !== propagation.band && (
+            <span className="text-amber-700"> El modelo no opera en {propagation.band} GHz; se usa su banda de {applied.band} GHz.</span>
+          )}
+        </p>
+      )}
+
+      <details className="mt-2">
+        <summary className="text-sm font-medium text-gray-700 cursor-pointer">Catálogo ({catalog.models.length} modelos)</summary>
+        <div className="mt-3">
+          <div className="flex flex-col md:flex-row md:items-end gap-2">
+            <div className="flex-grow">
+              <Select
+                label="Modelo a editar"
+                id="apCatalogEditing"
+                value={editing?.id ?? ''}
+                onChange={(e) => setEditingId(e.target.value)}
+                options={catalog.models.map(model => ({ value: model.id, label: apModelLabel(model) }))}
+                disabled={catalog.models.length === 0}
+              />
+            </div>
+            <div className="flex flex-wrap gap-2 mb-4">
+              <Button type="button" size="sm" variant="secondary" onClick={() => addModel()}>Añadir</Button>
+              {editing && <Button type="button" size="sm" variant="secondary" onClick={() => addModel(editing)}>Duplicar</Button>}
+              {editing && <Button type="button" size="sm" variant="secondary" onClick={() => removeModel(editing.id)}>Eliminar</Button>}
+            </div>
+          </div>
+
+          {editing && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-x-6">
+                <Input label="Nombre" id="apModelName" value={editing.name} onChange={(e) => updateModel({ name: e.target.value })} />
+                <Select
+                  label="Entorno"
+                  id="apModelEnvironment"
+                  value={editing.environment}
+                  onChange={(e) => updateModel({ environment: e.target.value as ApEnvironment })}
+                  options={(Object.keys(AP_ENVIRONMENT_LABELS) as ApEnvironment[]).map(environment => ({ value: environment, label: AP_ENVIRONMENT_LABELS[environment] }))}
+                />
+                <Select
+                  label="Clase PoE"
+                  id="apModelPoeClass"
+                  value={String(editing.poeClass)}
+                  onChange={(e) => updateModel({ poeClass: parseInt(e.target.value, 10) })}
+                  options={Object.keys(POE_CLASS_POWER_W).map(poeClass => ({ value: poeClass, label: `Clase ${poeClass} (${POE_CLASS_POWER_W[Number(poeClass)]} W)` }))}
+                />
+                <Input label="Precio unitario" id="apModelPrice" type="number" min="0" step="0.01" value={String(editing.unitPrice)} onChange={(e) => updateModel({ unitPrice: Math.max(0, num(e.target.value)) })} />
+                <Input label="Ganancia de antena (dBi)" id="apModelGain" type="number" step="0.5" value={String(editing.antennaGainDbi)} onChange={(e) => updateModel({ antennaGainDbi: num(e.target.value) })} />
+                {BANDS.map(band => (
+                  <div key={band} className="mb-4">
+                    <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                      <input type="checkbox" className="mr-2" checked={editing.bands.includes(band)} onChange={(e) => toggleBand(band, e.target.checked)} />
+                      {band} GHz: potencia máx. (dBm)
+                    </label>
+                    <input
+                      aria-label={`Potencia máxima en ${band} GHz`}
+                      type="number"
+                      step="0.5"
+                      disabled={!editing.bands.includes(band)}
+                      value={editing.maxTxPowerDbm[band] === undefined ? '' : String(editing.maxTxPowerDbm[band])}
+                      onChange={(e) => updateModel({ maxTxPowerDbm: { ...editing.maxTxPowerDbm, [band]: num(e.target.value) } })}
+                      className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm sm:text-sm disabled:bg-gray-100"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="-mt-2 mb-3 text-xs text-gray-500">
+                {apModelLabel(editing)}: {editing.bands.map(band => `${band} GHz ${modelEirp(editing, band).toFixed(1)} dBm PIRE`).join(', ')}; PoE {POE_CLASS_POWER_W[editing.poeClass]} W; {formatPrice(editing.unitPrice)} por unidad.
+              </p>
+            </>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" size="sm" variant="secondary" onClick={() => downloadTextFile('catalogo_aps.json', serializeApCatalog(catalog.models), 'application/json')}>Exportar JSON</Button>
+            <Button type="button" size="sm" variant="secondary" onClick={() => importInputRef.current?.click()}>Importar JSON</Button>
+            <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} aria-label="Archivo de catálogo" />
+            <Button
+              type="button"
+              size="sm"
+              variant="secondary"
+              onClick={() => {
+                onChange({ models: DEFAULT_AP_CATALOG, defaultModelId: DEFAULT_AP_CATALOG.some(model => model.id === catalog.defaultModelId) ? catalog.defaultModelId : null });
+                setEditingId(null);
+              }}
+            >
+              Restaurar catálogo genérico
+            </Button>
+          </div>
+          {importError && <p className="mt-2 text-sm text-red-600">{importError}</p>}
+        </div>
+      </details>
+      <p className="mt-3 text-xs text-gray-500">
+        Con un modelo elegido, el radio de cobertura, los mapas de calor y los optimizadores usan su PIRE (potencia máxima de la banda más la ganancia de antena)
+        en lugar de la potencia del modelo de propagación, y el radio se deriva siempre del modelo de propagación aunque su casilla estuviera desactivada.
+        Cada AP de los resultados puede usar otro modelo: su PIRE fija el radio de ese AP en el análisis de cobertura, los mapas de calor, el plan de canales
+        y los dibujos, y la lista de materiales suma unidades, importe y presupuesto PoE.
+      </p>
+    </fieldset>
+  );
+};
+
+export default ApCatalogPanel;
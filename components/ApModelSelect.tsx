@@ -0,0 +1,26 @@
+import React from 'react';
+import type { ApModel } from '../types';
+import { apModelLabel } from './ApCatalogPanel';
+
+interface ApModelSelectProps {
+  models: ApModel[];
+  defaultModel: ApModel | null;
+  value: string | undefined; // The AP's own model, if any
+  onChange: (modelId: string | null) => void;
+  label: string;
+}
+
+// Compact per-AP model picker for the result tables; the empty option follows the project model.
+const ApModelSelect: React.FC<ApModelSelectProps> = ({ models, defaultModel, value, onChange, label }) => (
+  <select
+    aria-label={label}
+    value={value && models.some(model => model.id === value) ? value : ''}
+    onChange={(e) => onChange(e.target.value || null)}
+    className="px-2 py-1 bg-white border border-gray-300 rounded-md text-sm"
+  >
+    <option value="">{defaultModel ? `Proyecto: ${defaultModel.name}` : 'Sin modelo'}</option>
+    {models.map(model => <option key={model.id} value={model.id}>{apModelLabel(model)}</option>)}
+  </select>
+);
+
+export default ApModelSelect;
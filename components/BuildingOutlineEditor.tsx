@@ -0,0 +1,150 @@
+import React from 'react';
+import Button from './Button';
+import Select from './Select';
+import type { BuildingOutline, OutlineFormState, OutlineShape } from '../types';
+import { parseVertexList, formatVertexList, outlineBounds, outlineArea, rectangleOutline } from '../utils/geometry';
+
+export const initialOutlineFormState: OutlineFormState = {
+  shape: 'rectangle',
+  outer: '',
+  holes: '',
+};
+
+export interface ParsedOutline {
+  outline: BuildingOutline | null;
+  error: string | null;
+}
+
+// Validates the polygon against the building rectangle (length x width), which stays the reference frame.
+export const parseOutlineForm = (form: OutlineFormState, length: number, width: number): ParsedOutline => {
+  if (form.shape === 'rectangle') {
+    return { outline: null, error: null };
+  }
+  const outer = parseVertexList(form.outer);
+  if (!outer || outer.length < 3) {
+    return { outline: null, error: 'El contorno exterior necesita al menos 3 vértices con formato "x,y; x,y; x,y".' };
+  }
+  const holes = [];
+  for (const line of form.holes.split('\n').map(l => l.trim()).filter(l => l.length > 0)) {
+    const hole = parseVertexList(line);
+    if (!hole || hole.length < 3) {
+      return { outline: null, error: `Hueco inválido: "${line}". Cada hueco necesita al menos 3 vértices.` };
+    }
+    holes.push(hole);
+  }
+  const outline: BuildingOutline = { outer, holes };
+  const bounds = outlineBounds(outline);
+  if (bounds.minX < -1e-6 || bounds.minY < -1e-6 || bounds.maxX > length + 1e-6 || bounds.maxY > width + 1e-6) {
+    return { outline, error: `Los vértices deben estar entre 0 y ${length} m (X) y entre 0 y ${width} m (Y). Ajuste el largo y ancho al contorno.` };
+  }
+  if (outlineArea(outline) <= 0) {
+    return { outline: null, error: 'El contorno no encierra ningún área.' };
+  }
+  return { outline, error: null };
+};
+
+interface BuildingOutlineEditorProps {
+  form: OutlineFormState;
+  onChange: (form: OutlineFormState) => void;
+  parsed: ParsedOutline;
+  buildingLength: number;
+  buildingWidth: number;
+  onFitDimensions: (length: number, width: number) => void;
+  canDrawOnPlan: boolean;
+  drawTarget: 'outline' | 'hole' | null;
+  onToggleDraw: (target: 'outline' | 'hole') => void;
+}
+
+const BuildingOutlineEditor: React.FC<BuildingOutlineEditorProps> = ({
+  form,
+  onChange,
+  parsed,
+  buildingLength,
+  buildingWidth,
+  onFitDimensions,
+  canDrawOnPlan,
+  drawTarget,
+  onToggleDraw,
+}) => {
+  const update = (changes: Partial<OutlineFormState>) => onChange({ ...form, ...changes });
+
+  const fillFromRectangle = () => {
+    if (buildingLength > 0 && buildingWidth > 0) {
+      update({ outer: formatVertexList(rectangleOutline(buildingLength, buildingWidth).outer) });
+    }
+  };
+
+  return (
+    <fieldset className="border border-gray-200 rounded-lg p-4">
+      <legend className="px-2 text-sm font-semibold text-gray-700">Contorno del Edificio</legend>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6">
+        <Select
+          label="Forma"
+          id="outlineShape"
+          value={form.shape}
+          onChange={(e) => update({ shape: e.target.value as OutlineShape })}
+          options={[
+            { value: 'rectangle', label: 'Rectángulo (Largo × Ancho)' },
+            { value: 'polygon', label: 'Polígono (con huecos opcionales)' },
+          ]}
+        />
+      </div>
+      {form.shape === 'polygon' && (
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="outlineOuter" className="block text-sm font-medium text-gray-700 mb-1">Vértices del contorno (m)</label>
+            <textarea
+              id="outlineOuter"
+              rows={2}
+              value={form.outer}
+              onChange={(e) => update({ outer: e.target.value })}
+              placeholder="Ej: 0,0; 50,0; 50,20; 20,20; 20,30; 0,30"
+              className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm font-mono"
+            />
+          </div>
+          <div>
+            <label htmlFor="outlineHoles" className="block text-sm font-medium text-gray-700 mb-1">Huecos (un polígono por línea)</label>
+            <textarea
+              id="outlineHoles"
+              rows={2}
+              value={form.holes}
+              onChange={(e) => update({ holes: e.target.value })}
+              placeholder="Ej: 10,5; 15,5; 15,10; 10,10"
+              className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm font-mono"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" size="sm" variant="secondary" onClick={fillFromRectangle} disabled={!(buildingLength > 0 && buildingWidth > 0)}>Desde el rectángulo</Button>
+            <Button type="button" size="sm" variant={drawTarget === 'outline' ? 'primary' : 'secondary'} onClick={() => onToggleDraw('outline')} disabled={!canDrawOnPlan}>
+              {drawTarget === 'outline' ? 'Cancelar dibujo' : 'Dibujar contorno en el plano'}
+            </Button>
+            <Button type="button" size="sm" variant={drawTarget === 'hole' ? 'primary' : 'secondary'} onClick={() => onToggleDraw('hole')} disabled={!canDrawOnPlan}>
+              {drawTarget === 'hole' ? 'Cancelar dibujo' : 'Dibujar hueco en el plano'}
+            </Button>
+            {parsed.outline && (
+              <Button
+                type="button"
+                size="sm"
+                variant="secondary"
+                onClick={() => {
+                  const bounds = outlineBounds(parsed.outline!);
+                  onFitDimensions(parseFloat(bounds.maxX.toFixed(2)), parseFloat(bounds.maxY.toFixed(2)));
+                }}
+              >
+                Ajustar Largo/Ancho al contorno
+              </Button>
+            )}
+          </div>
+          {parsed.error ? (
+            <p className="text-sm text-red-600">{parsed.error}</p>
+          ) : parsed.outline && (
+            <p className="text-sm text-gray-600">Área del polígono: {outlineArea(parsed.outline).toFixed(1)} m² ({parsed.outline.holes.length} hueco(s)).</p>
+          )}
+          {!canDrawOnPlan && <p className="text-xs text-gray-500">Cargue un plano e ingrese el largo del edificio para dibujar el contorno sobre la imagen.</p>}
+        </div>
+      )}
+    </fieldset>
+  );
+};
+
+export default BuildingOutlineEditor;
@@ -0,0 +1,322 @@
+import React, { useMemo } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import type { APCoordinate, ApLayer, BuildingDimensions, CapacityZone, ChannelAssignment, CoverageMetrics, PlanCalibration, PlanningZone, SignalHeatmap, Wall } from '../types';
+import type { SvgImage } from '../utils/svgExport';
+import { renderHeatmapDataUrl } from '../utils/heatmapImage';
+import { MATERIAL_COLORS } from '../services/obstacleService';
+import { channelColor } from '../services/channelPlanningService';
+import { apCoverageRadius } from '../services/coverageAnalysisService';
+import { PLANNING_ZONE_COLORS } from '../services/planningZoneService';
+import { outlineToSvgPath } from '../utils/geometry';
+import SignalLegendSvg from './SignalLegendSvg';
+
+export interface BuildingSvgProps {
+  idPrefix: string; // Keeps clip-path ids unique when several drawings share a page
+  building: BuildingDimensions;
+  aps: APCoordinate[];
+  layers?: ApLayer[]; // Drawn instead of `aps` when given, each set in its own colour
+  coverageRadius: number;
+  modelRadii?: Record<string, number>; // Radius of APs that carry their own model, by model id
+  planImageUrl?: string | null;
+  coverageMetrics?: CoverageMetrics | null;
+  signalHeatmap?: SignalHeatmap | null;
+  signalThresholdDbm?: number;
+  walls?: Wall[];
+  channelAssignment?: ChannelAssignment | null;
+  capacityZones?: CapacityZone[];
+  planningZones?: PlanningZone[];
+  idfLocation?: APCoordinate | null;
+  planTransform?: PlanCalibration | null;
+  planNaturalSize?: { width: number; height: number } | null;
+  showLegend?: boolean; // Draws the RSSI legend inside the image (for exports; on screen it is HTML)
+  className?: string;
+}
+
+const VIEWBOX_WIDTH = 800; // Building length in SVG units, whatever its size in meters
+const PADDING = 20;
+const LEGEND_HEIGHT = 30;
+
+// Merges horizontally adjacent uncovered cells into runs so large holes render as a few rectangles.
+const mergeUncoveredRuns = (metrics: CoverageMetrics): { x: number; y: number; width: number }[] => {
+  const runs: { x: number; y: number; width: number }[] = [];
+  for (const cell of metrics.uncoveredCells) {
+    const last = runs[runs.length - 1];
+    if (last && Math.abs(last.y - cell.y) < 1e-9 && Math.abs(last.x + last.width - cell.x) < 1e-9) {
+      last.width += metrics.cellWidth;
+    } else {
+      runs.push({ x: cell.x, y: cell.y, width: metrics.cellWidth });
+    }
+  }
+  return runs;
+};
+
+const svgSize = (building: BuildingDimensions, withLegend: boolean) => {
+  const buildingHeight = building.width * (VIEWBOX_WIDTH / building.length);
+  return { width: VIEWBOX_WIDTH + 2 * PADDING, height: buildingHeight + 2 * PADDING + (withLegend ? LEGEND_HEIGHT : 0) };
+};
+
+// The building drawing of BuildingVisualizer as a self-contained SVG (presentation attributes only, no CSS
+// classes), so the same element renders on screen and exports as a file.
+const BuildingSvg: React.FC<BuildingSvgProps> = ({ idPrefix, building, aps, layers, coverageRadius, modelRadii = {}, planImageUrl, coverageMetrics, signalHeatmap, signalThresholdDbm = -67, walls = [], channelAssignment = null, capacityZones = [], planningZones = [], idfLocation = null, planTransform = null, planNaturalSize = null, showLegend = false, className }) => {
+  const scaleFactor = VIEWBOX_WIDTH / building.length;
+  const viewBoxHeight = building.width * scaleFactor;
+  const heatmapDataUrl = useMemo(
+    () => (signalHeatmap ? renderHeatmapDataUrl(signalHeatmap, signalThresholdDbm) : null),
+    [signalHeatmap, signalThresholdDbm]
+  );
+  const { width, height } = svgSize(building, showLegend && heatmapDataUrl !== null);
+
+  const scale = (ap: APCoordinate) => ({ x: ap.x * scaleFactor + PADDING, y: ap.y * scaleFactor + PADDING });
+  const scaledRadius = (ap: APCoordinate) => apCoverageRadius(ap, coverageRadius, modelRadii) * scaleFactor;
+  const placesCalibratedPlan = Boolean(planImageUrl && planTransform?.calibrated && planNaturalSize);
+  const uncoveredRuns = coverageMetrics ? mergeUncoveredRuns(coverageMetrics) : [];
+
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${width} ${height}`}
+      width={className ? undefined : width}
+      height={className ? undefined : height}
+      preserveAspectRatio="xMidYMid meet"
+      className={className}
+      fontFamily="Inter, sans-serif"
+    >
+      {/* Building Background: Image or Rectangle */}
+      {placesCalibratedPlan ? (
+        <>
+          <defs>
+            <clipPath id={`${idPrefix}-building-clip`}>
+              <rect x={PADDING} y={PADDING} width={VIEWBOX_WIDTH} height={viewBoxHeight} />
+            </clipPath>
+          </defs>
+          {/* Inverse of the calibration: image pixels -> building meters -> SVG units */}
+          <g clipPath={`url(#${idPrefix}-building-clip)`}>
+            <g transform={`translate(${PADDING} ${PADDING}) scale(${scaleFactor / planTransform!.pixelsPerMeter}) rotate(${-planTransform!.rotationDeg}) translate(${-planTransform!.originPx.x} ${-planTransform!.originPx.y})`}>
+              <image href={planImageUrl!} x={0} y={0} width={planNaturalSize!.width} height={planNaturalSize!.height} />
+            </g>
+          </g>
+        </>
+      ) : planImageUrl ? (
+        <image
+          href={planImageUrl}
+          x={PADDING}
+          y={PADDING}
+          width={VIEWBOX_WIDTH}
+          height={viewBoxHeight}
+          preserveAspectRatio="none" // Stretch image to fill building dimensions
+        />
+      ) : building.outline ? (
+        <rect
+          x={PADDING}
+          y={PADDING}
+          width={VIEWBOX_WIDTH}
+          height={viewBoxHeight}
+          fill="none"
+          stroke="#cbd5e1"
+          strokeWidth="1"
+          strokeDasharray="4 4"
+        />
+      ) : (
+        <rect
+          x={PADDING}
+          y={PADDING}
+          width={VIEWBOX_WIDTH}
+          height={viewBoxHeight}
+          fill="rgba(191, 219, 254, 0.5)"
+          stroke="#60a5fa"
+          strokeWidth="2"
+        />
+      )}
+
+      {/* Polygonal building outline (holes are left unfilled) */}
+      {building.outline && (
+        <path
+          d={outlineToSvgPath(building.outline, p => ({ x: p.x * scaleFactor + PADDING, y: p.y * scaleFactor + PADDING }))}
+          fillRule="evenodd"
+          fill={planImageUrl ? 'none' : 'rgba(191, 219, 254, 0.5)'}
+          stroke="#2563eb"
+          strokeWidth="2"
+        />
+      )}
+
+      {/* Signal strength heatmap */}
+      {heatmapDataUrl && (
+        <image
+          href={heatmapDataUrl}
+          x={PADDING}
+          y={PADDING}
+          width={VIEWBOX_WIDTH}
+          height={viewBoxHeight}
+          preserveAspectRatio="none"
+          style={{ imageRendering: 'pixelated' }}
+        />
+      )}
+
+      {/* Uncovered cells from the coverage analysis */}
+      {coverageMetrics && uncoveredRuns.map((run, index) => (
+        <rect
+          key={`uncovered-${idPrefix}-${index}`}
+          x={run.x * scaleFactor + PADDING}
+          y={run.y * scaleFactor + PADDING}
+          width={run.width * scaleFactor}
+          height={coverageMetrics.cellHeight * scaleFactor}
+          fill="rgba(239, 68, 68, 0.35)"
+          stroke="none"
+        />
+      ))}
+
+      {/* Walls, doors and windows */}
+      {walls.map(wall => (
+        <polyline
+          key={`wall-${idPrefix}-${wall.id}`}
+          points={wall.points.map(p => `${p.x * scaleFactor + PADDING},${p.y * scaleFactor + PADDING}`).join(' ')}
+          fill="none"
+          stroke={MATERIAL_COLORS[wall.material]}
+          strokeWidth={wall.kind === 'wall' ? 4 : 3}
+          strokeDasharray={wall.kind === 'door' ? '8 4' : wall.kind === 'window' ? '2 3' : undefined}
+          strokeLinecap="round"
+        />
+      ))}
+
+      {/* Planning zones: no-mount, no-coverage and priority */}
+      {planningZones.map(zone => (
+        <React.Fragment key={`pzone-${idPrefix}-${zone.id}`}>
+          <polygon
+            points={zone.polygon.map(p => `${p.x * scaleFactor + PADDING},${p.y * scaleFactor + PADDING}`).join(' ')}
+            fill={PLANNING_ZONE_COLORS[zone.kind]}
+            fillOpacity={0.12}
+            stroke={PLANNING_ZONE_COLORS[zone.kind]}
+            strokeWidth="2"
+            strokeDasharray={zone.kind === 'priority' ? undefined : '4 4'}
+          />
+          <text
+            x={zone.polygon[0].x * scaleFactor + PADDING + 4}
+            y={zone.polygon[0].y * scaleFactor + PADDING + 14}
+            fontSize="12"
+            fill={PLANNING_ZONE_COLORS[zone.kind]}
+            fontWeight="600"
+          >
+            {zone.name}
+          </text>
+        </React.Fragment>
+      ))}
+
+      {/* High-density capacity zones */}
+      {capacityZones.map(zone => (
+        <React.Fragment key={`zone-${idPrefix}-${zone.id}`}>
+          <polygon
+            points={zone.polygon.map(p => `${p.x * scaleFactor + PADDING},${p.y * scaleFactor + PADDING}`).join(' ')}
+            fill="rgba(249, 115, 22, 0.12)"
+            stroke="#ea580c"
+            strokeWidth="2"
+            strokeDasharray="6 3"
+          />
+          <text
+            x={zone.polygon[0].x * scaleFactor + PADDING + 4}
+            y={zone.polygon[0].y * scaleFactor + PADDING + 14}
+            fontSize="12"
+            fill="#9a3412"
+            fontWeight="600"
+          >
+            {zone.name}
+          </text>
+        </React.Fragment>
+      ))}
+
+      {/* Comms room the AP cables run to */}
+      {idfLocation && (
+        <g>
+          <rect x={scale(idfLocation).x - 7} y={scale(idfLocation).y - 7} width="14" height="14" fill="#7c3aed" stroke="#ffffff" strokeWidth="1.5" />
+          <text x={scale(idfLocation).x + 10} y={scale(idfLocation).y + 5} fontSize="14" fill="#7c3aed" stroke="#ffffff" strokeWidth="0.5px" paintOrder="stroke" fontWeight="700">
+            IDF
+          </text>
+        </g>
+      )}
+
+      {/* APs and Coverage Circles */}
+      {layers ? layers.map(layer => (
+        <g key={`layer-${idPrefix}-${layer.id}`}>
+          {layer.aps.map(scale).map((ap, index) => (
+            <React.Fragment key={`ap-vis-${idPrefix}-${layer.id}-${index}`}>
+              <circle cx={ap.x} cy={ap.y} r={scaledRadius(layer.aps[index])} fill={layer.color} fillOpacity="0.1" stroke={layer.color} strokeOpacity="0.6" strokeWidth="1.5" strokeDasharray="4 2" />
+              <circle cx={ap.x} cy={ap.y} r="6" fill={layer.color} stroke="#ffffff" strokeWidth="1.5" />
+              <text x={ap.x + 10} y={ap.y + 5} fontSize="14" fill={layer.color} stroke="#ffffff" strokeWidth="0.5px" paintOrder="stroke" fontWeight="600">
+                {layer.labelPrefix}{index + 1}
+              </text>
+            </React.Fragment>
+          ))}
+        </g>
+      )) : aps.map(scale).map((ap, index) => (
+        <React.Fragment key={`ap-vis-${idPrefix}-${index}`}>
+          {/* Coverage Circle */}
+          <circle
+            cx={ap.x}
+            cy={ap.y}
+            r={scaledRadius(aps[index])}
+            fill="rgba(52, 211, 153, 0.25)"
+            stroke="rgba(16, 185, 129, 0.6)"
+            strokeWidth="1.5"
+            strokeDasharray="4 2"
+          />
+          {/* AP Point */}
+          <circle
+            cx={ap.x}
+            cy={ap.y}
+            r="6"
+            fill={channelAssignment ? channelColor(channelAssignment.channels[index], channelAssignment.channelPool) : '#ef4444'}
+            stroke="#ffffff"
+            strokeWidth="1.5"
+          />
+          <text
+            x={ap.x + 10}
+            y={ap.y + 5}
+            fontSize="14"
+            fill="#1f2937"
+            stroke="#ffffff"
+            strokeWidth="0.5px"
+            paintOrder="stroke"
+            fontWeight="600"
+          >
+            AP{index + 1}{channelAssignment && ` · ch${channelAssignment.channels[index]}`}
+          </text>
+        </React.Fragment>
+      ))}
+      {/* Dimension Labels */}
+      <text
+        x={PADDING + VIEWBOX_WIDTH / 2}
+        y={PADDING - 8}
+        textAnchor="middle"
+        fontSize="12"
+        fill="#374151"
+        fontWeight="500"
+      >
+        Largo: {building.length.toFixed(2)} m
+      </text>
+      <text
+        x={PADDING - 8}
+        y={PADDING + viewBoxHeight / 2}
+        textAnchor="middle"
+        dominantBaseline="middle"
+        transform={`rotate(-90, ${PADDING - 8}, ${PADDING + viewBoxHeight / 2})`}
+        fontSize="12"
+        fill="#374151"
+        fontWeight="500"
+      >
+        Ancho: {building.width.toFixed(2)} m
+      </text>
+      {showLegend && heatmapDataUrl && (
+        <SignalLegendSvg thresholdDbm={signalThresholdDbm} x={PADDING} y={viewBoxHeight + 2 * PADDING + 4} fontSize={12} />
+      )}
+    </svg>
+  );
+};
+
+// Standalone SVG of the building drawing, legend included. Null while the building has no size.
+export const renderBuildingSvg = (props: Omit<BuildingSvgProps, 'className' | 'showLegend'>): SvgImage | null => {
+  if (!(props.building.length > 0 && props.building.width > 0)) return null;
+  const markup = renderToStaticMarkup(<BuildingSvg {...props} showLegend />);
+  const { width, height } = svgSize(props.building, Boolean(props.signalHeatmap));
+  return { markup, width, height };
+};
+
+export default BuildingSvg;
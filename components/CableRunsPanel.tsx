@@ -0,0 +1,48 @@
+import React from 'react';
+import type { CableRunSummary } from '../types';
+import { ETHERNET_MAX_RUN_M } from '../services/cablingService';
+
+interface CableRunsPanelProps {
+  summary: CableRunSummary | null;
+}
+
+const CableRunsPanel: React.FC<CableRunsPanelProps> = ({ summary }) => {
+  if (!summary || summary.runs.length === 0) {
+    return null;
+  }
+
+  return (
+    <details className="my-4 p-4 border border-gray-200 rounded-lg bg-gray-50" open={summary.overLimitCount > 0}>
+      <summary className="text-md font-semibold text-gray-800 cursor-pointer">
+        Cableado: {summary.totalM.toFixed(0)} m en total, tramo más largo {summary.longestM.toFixed(1)} m
+        {summary.overLimitCount > 0 && <span className="ml-2 text-red-700">({summary.overLimitCount} superan {ETHERNET_MAX_RUN_M} m)</span>}
+      </summary>
+      <div className="overflow-x-auto mt-3">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">AP #</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recorrido</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cable</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Estado</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {summary.runs.map((run, index) => (
+              <tr key={index} className={run.overLimit ? 'bg-red-50' : undefined}>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-900">{index + 1}</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{run.routeM.toFixed(1)} m</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{run.lengthM.toFixed(1)} m</td>
+                <td className={`px-4 py-1 whitespace-nowrap font-medium ${run.overLimit ? 'text-red-700' : 'text-green-700'}`}>
+                  {run.overLimit ? `Supera ${ETHERNET_MAX_RUN_M} m` : 'Correcto'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+};
+
+export default CableRunsPanel;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import Button from './Button';
+import Input from './Input';
+import type { CapacityFormState, CapacitySettings, CapacityZone, OccupancyMode } from '../types';
+import { DEFAULT_CAPACITY_SETTINGS, requiredAPsForClients, zoneClients } from '../services/capacityService';
+import { createId } from '../utils/id';
+import { parseVertexList, polygonArea } from '../utils/geometry';
+
+export const initialCapacityFormState: CapacityFormState = {
+  enabled: false,
+  devicesPerPerson: String(DEFAULT_CAPACITY_SETTINGS.devicesPerPerson),
+  perClientMbps: String(DEFAULT_CAPACITY_SETTINGS.perClientMbps),
+  maxClientsPerAP: String(DEFAULT_CAPACITY_SETTINGS.maxClientsPerAP),
+  apThroughputMbps: String(DEFAULT_CAPACITY_SETTINGS.apThroughputMbps),
+};
+
+// Falls back to the default for any field that is not a valid positive number.
+export const toCapacitySettings = (form: CapacityFormState): CapacitySettings => {
+  const num = (value: string, fallback: number) => (parseFloat(value) > 0 ? parseFloat(value) : fallback);
+  return {
+    devicesPerPerson: num(form.devicesPerPerson, DEFAULT_CAPACITY_SETTINGS.devicesPerPerson),
+    perClientMbps: num(form.perClientMbps, DEFAULT_CAPACITY_SETTINGS.perClientMbps),
+    maxClientsPerAP: num(form.maxClientsPerAP, DEFAULT_CAPACITY_SETTINGS.maxClientsPerAP),
+    apThroughputMbps: num(form.apThroughputMbps, DEFAULT_CAPACITY_SETTINGS.apThroughputMbps),
+  };
+};
+
+export const DEFAULT_ZONE_HEADCOUNT = 50;
+
+export const createCapacityZone = (name: string, polygon: CapacityZone['polygon']): CapacityZone => ({
+  id: createId('zone'),
+  name,
+  polygon,
+  occupancyMode: 'headcount',
+  occupancy: DEFAULT_ZONE_HEADCOUNT,
+});
+
+interface CapacityPanelProps {
+  form: CapacityFormState;
+  onChange: (form: CapacityFormState) => void;
+  zones: CapacityZone[];
+  onZonesChange: (zones: CapacityZone[]) => void;
+  canDrawOnPlan: boolean;
+  isDrawing: boolean;
+  onToggleDraw: () => void;
+}
+
+const CapacityPanel: React.FC<CapacityPanelProps> = ({ form, onChange, zones, onZonesChange, canDrawOnPlan, isDrawing, onToggleDraw }) => {
+  const [vertexInput, setVertexInput] = useState('');
+  const [vertexError, setVertexError] = useState<string | null>(null);
+  const settings = toCapacitySettings(form);
+
+  const update = (changes: Partial<CapacityFormState>) => onChange({ ...form, ...changes });
+  const updateZone = (id: string, changes: Partial<CapacityZone>) => onZonesChange(zones.map(zone => (zone.id === id ? { ...zone, ...changes } : zone)));
+
+  const addZoneFromVertices = () => {
+    const polygon = parseVertexList(vertexInput);
+    if (!polygon || polygon.length < 3 || polygonArea(polygon) <= 0) {
+      setVertexError('La zona necesita al menos 3 vértices con formato "x,y; x,y; x,y".');
+      return;
+    }
+    onZonesChange([...zones, createCapacityZone(`Zona ${zones.length + 1}`, polygon)]);
+    setVertexInput('');
+    setVertexError(null);
+  };
+
+  return (
+    <fieldset className="border border-gray-200 rounded-lg p-4">
+      <legend className="px-2 text-sm font-semibold text-gray-700">Dimensionamiento por Capacidad</legend>
+      <label className="flex items-center mb-4 text-sm text-gray-700">
+        <input type="checkbox" className="mr-2" checked={form.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+        Considerar la capacidad de las zonas de alta densidad
+      </label>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-x-6">
+        <Input label="Dispositivos por Persona" id="devicesPerPerson" type="number" min="0.1" step="0.1" value={form.devicesPerPerson} onChange={(e) => update({ devicesPerPerson: e.target.value })} />
+        <Input label="Throughput por Cliente (Mbps)" id="perClientMbps" type="number" min="0.1" step="0.5" value={form.perClientMbps} onChange={(e) => update({ perClientMbps: e.target.value })} />
+        <Input label="Máx. Clientes por AP" id="maxClientsPerAP" type="number" min="1" step="1" value={form.maxClientsPerAP} onChange={(e) => update({ maxClientsPerAP: e.target.value })} />
+        <Input label="Throughput Útil por AP (Mbps)" id="apThroughputMbps" type="number" min="1" step="10" value={form.apThroughputMbps} onChange={(e) => update({ apThroughputMbps: e.target.value })} />
+      </div>
+
+      {zones.length > 0 && (
+        <div className="overflow-x-auto mb-3">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Zona</th>
+                <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ocupación</th>
+                <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Área</th>
+                <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Clientes / APs</th>
+                <th scope="col" className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {zones.map(zone => {
+                const clients = zoneClients(zone, settings);
+                return (
+                  <tr key={zone.id}>
+                    <td className="px-3 py-1">
+                      <input aria-label="Nombre de la zona" className="w-full px-2 py-1 border border-gray-300 rounded-md" value={zone.name} onChange={(e) => updateZone(zone.id, { name: e.target.value })} />
+                    </td>
+                    <td className="px-3 py-1 whitespace-nowrap">
+                      <input
+                        aria-label="Ocupación"
+                        type="number"
+                        min="0"
+                        step={zone.occupancyMode === 'density' ? '0.05' : '1'}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-md mr-1"
+                        value={zone.occupancy}
+                        onChange={(e) => updateZone(zone.id, { occupancy: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      />
+                      <select
+                        aria-label="Tipo de ocupación"
+                        className="px-2 py-1 border border-gray-300 rounded-md"
+                        value={zone.occupancyMode}
+                        onChange={(e) => updateZone(zone.id, { occupancyMode: e.target.value as OccupancyMode })}
+                      >
+                        <option value="headcount">personas</option>
+                        <option value="density">personas/m²</option>
+                      </select>
+                    </td>
+                    <td className="px-3 py-1 whitespace-nowrap text-gray-600">{polygonArea(zone.polygon).toFixed(1)} m²</td>
+                    <td className="px-3 py-1 whitespace-nowrap text-gray-600">{Math.round(clients)} / {requiredAPsForClients(clients, settings)}</td>
+                    <td className="px-3 py-1 text-right">
+                      <button type="button" className="text-xs text-red-600 hover:underline" onClick={() => onZonesChange(zones.filter(z => z.id !== zone.id))}>Eliminar</button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row md:items-end gap-2">
+        <div className="flex-grow">
+          <label htmlFor="zoneVertices" className="block text-sm font-medium text-gray-700 mb-1">Nueva zona: vértices (m)</label>
+          <input
+            id="zoneVertices"
+            value={vertexInput}
+            onChange={(e) => setVertexInput(e.target.value)}
+            placeholder="Ej: 0,0; 15,0; 15,10; 0,10"
+            className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm sm:text-sm font-mono"
+          />
+        </div>
+        <Button type="button" size="sm" variant="secondary" onClick={addZoneFromVertices}>Agregar zona</Button>
+        <Button type="button" size="sm" variant={isDrawing ? 'primary' : 'secondary'} onClick={onToggleDraw} disabled={!canDrawOnPlan}>
+          {isDrawing ? 'Cancelar dibujo' : 'Dibujar zona en el plano'}
+        </Button>
+      </div>
+      {vertexError && <p className="mt-1 text-sm text-red-600">{vertexError}</p>}
+      <p className="mt-2 text-xs text-gray-500">
+        Cada zona necesita max(clientes / máx. clientes por AP, clientes × throughput por cliente / throughput por AP) APs.
+        Si la distribución por cobertura deja menos APs dentro de una zona, se añaden los que faltan repartidos dentro de ella.
+      </p>
+    </fieldset>
+  );
+};
+
+export default CapacityPanel;
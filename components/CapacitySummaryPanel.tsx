@@ -0,0 +1,52 @@
+import React from 'react';
+import type { CapacitySummary } from '../types';
+
+interface CapacitySummaryPanelProps {
+  summary: CapacitySummary | null | undefined;
+}
+
+const CapacitySummaryPanel: React.FC<CapacitySummaryPanelProps> = ({ summary }) => {
+  if (!summary || summary.zones.length === 0) {
+    return null;
+  }
+
+  const bindingLabel = summary.binding === 'capacity' ? 'Capacidad' : 'Cobertura';
+  return (
+    <div className="my-4 p-4 border border-gray-200 rounded-lg bg-gray-50">
+      <div className="flex justify-between items-baseline mb-2">
+        <h4 className="text-md font-semibold text-gray-800">Capacidad vs. Cobertura</h4>
+        <span className={`text-sm font-semibold ${summary.binding === 'capacity' ? 'text-orange-700' : 'text-green-700'}`}>Restricción determinante: {bindingLabel}</span>
+      </div>
+      <p className="text-sm text-gray-700 mb-2">
+        APs por cobertura: {summary.coverageAPs}. APs requeridos por las zonas: {summary.capacityAPs}.
+        {summary.extraAPs > 0 && ` Se añadieron ${summary.extraAPs} AP(s) dentro de las zonas de alta densidad.`}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Zona</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Clientes</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">APs requeridos</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">APs dentro</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Determina</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {summary.zones.map(zone => (
+              <tr key={zone.zoneId}>
+                <td className="px-4 py-1 whitespace-nowrap font-medium text-gray-900">{zone.name}</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{Math.round(zone.clients)}</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{zone.requiredAPs}</td>
+                <td className={`px-4 py-1 whitespace-nowrap ${zone.apsInside < zone.requiredAPs ? 'text-red-700 font-semibold' : 'text-gray-700'}`}>{zone.apsInside}</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">{zone.binding === 'capacity' ? 'Capacidad' : 'Cobertura'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CapacitySummaryPanel;
@@ -0,0 +1,56 @@
+import React from 'react';
+import type { ChannelAssignment, FrequencyBand } from '../types';
+import { channelColor, isDfsChannel } from '../services/channelPlanningService';
+
+interface ChannelAssignmentTableProps {
+  assignment: ChannelAssignment | null;
+  band: FrequencyBand;
+}
+
+const ChannelAssignmentTable: React.FC<ChannelAssignmentTableProps> = ({ assignment, band }) => {
+  if (!assignment) {
+    return null;
+  }
+
+  const usedChannels = new Set(assignment.channels).size;
+  const apsWithCoChannel = assignment.coChannelNeighbours.filter(count => count > 0).length;
+
+  return (
+    <div className="my-4 p-4 border border-gray-200 rounded-lg bg-gray-50">
+      <h4 className="text-md font-semibold text-gray-800 mb-1">Plan de Canales ({band} GHz)</h4>
+      <p className="text-sm text-gray-700 mb-2">
+        {usedChannels} de {assignment.channelPool.length} canal(es) en uso.{' '}
+        <span className={apsWithCoChannel > 0 ? 'text-yellow-700' : 'text-green-700'}>
+          {apsWithCoChannel > 0 ? `${apsWithCoChannel} AP(s) comparten canal con algún vecino.` : 'Ningún AP comparte canal con un vecino.'}
+        </span>
+      </p>
+      <div className="overflow-x-auto max-h-60">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-100 sticky top-0">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">AP #</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Canal</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vecinos co-canal</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {assignment.channels.map((channel, index) => (
+              <tr key={`channel-${index}`}>
+                <td className="px-4 py-1 whitespace-nowrap font-medium text-gray-900">{index + 1}</td>
+                <td className="px-4 py-1 whitespace-nowrap text-gray-700">
+                  <span className="inline-block w-3 h-3 mr-2 rounded-full align-middle" style={{ backgroundColor: channelColor(channel, assignment.channelPool) }} />
+                  {channel}{isDfsChannel(channel, band) ? ' (DFS)' : ''}
+                </td>
+                <td className={`px-4 py-1 whitespace-nowrap ${assignment.coChannelNeighbours[index] > 0 ? 'text-red-700 font-semibold' : 'text-gray-700'}`}>
+                  {assignment.coChannelNeighbours[index]}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ChannelAssignmentTable;
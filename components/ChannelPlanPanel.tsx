@@ -0,0 +1,63 @@
+import React from 'react';
+import Select from './Select';
+import type { ChannelPlanSettings, ChannelWidth, FrequencyBand } from '../types';
+import { CHANNEL_WIDTHS, getChannelPool } from '../services/channelPlanningService';
+
+const BAND_LABELS: Record<FrequencyBand, string> = {
+  '2.4': '2.4 GHz (canales 1/6/11)',
+  '5': '5 GHz',
+  '6': '6 GHz',
+};
+
+interface ChannelPlanPanelProps {
+  settings: ChannelPlanSettings;
+  onChange: (settings: ChannelPlanSettings) => void;
+}
+
+const ChannelPlanPanel: React.FC<ChannelPlanPanelProps> = ({ settings, onChange }) => {
+  const update = (changes: Partial<ChannelPlanSettings>) => onChange({ ...settings, ...changes });
+  const pool = getChannelPool(settings);
+
+  return (
+    <fieldset className="border border-gray-200 rounded-lg p-4">
+      <legend className="px-2 text-sm font-semibold text-gray-700">Plan de Canales</legend>
+      <label className="flex items-center mb-4 text-sm text-gray-700">
+        <input type="checkbox" className="mr-2" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+        Asignar canales automáticamente a los APs
+      </label>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6">
+        <Select
+          label="Banda del Plan"
+          id="channelBand"
+          value={settings.band}
+          onChange={(e) => {
+            const band = e.target.value as FrequencyBand;
+            update({ band, channelWidthMhz: band === '2.4' ? 20 : settings.channelWidthMhz });
+          }}
+          options={(Object.keys(BAND_LABELS) as FrequencyBand[]).map(band => ({ value: band, label: BAND_LABELS[band] }))}
+        />
+        <Select
+          label="Ancho de Canal"
+          id="channelWidth"
+          value={String(settings.channelWidthMhz)}
+          onChange={(e) => update({ channelWidthMhz: parseInt(e.target.value, 10) as ChannelWidth })}
+          disabled={settings.band === '2.4'}
+          options={CHANNEL_WIDTHS.map(width => ({ value: String(width), label: `${width} MHz` }))}
+        />
+        <label className="flex items-center mb-4 text-sm text-gray-700 self-end">
+          <input type="checkbox" className="mr-2" checked={settings.allowDfs} disabled={settings.band !== '5'} onChange={(e) => update({ allowDfs: e.target.checked })} />
+          Permitir canales DFS
+        </label>
+      </div>
+      {pool.length === 0 ? (
+        <p className="text-sm text-red-600">No hay canales disponibles con esta combinación. Active DFS o reduzca el ancho de canal.</p>
+      ) : (
+        <p className="text-xs text-gray-500">
+          {pool.length} canal(es) disponible(s): {pool.join(', ')}. Los APs cuyos círculos de cobertura se solapan, o que se oyen por encima de -82 dBm con el modelo de propagación activado, reciben canales distintos siempre que sea posible.
+        </p>
+      )}
+    </fieldset>
+  );
+};
+
+export default ChannelPlanPanel;
@@ -0,0 +1,49 @@
+import React from 'react';
+import type { CoverageMetrics } from '../types';
+
+interface CoverageMetricsPanelProps {
+  metrics: CoverageMetrics | null;
+  title?: string;
+}
+
+const CoverageMetricsPanel: React.FC<CoverageMetricsPanelProps> = ({ metrics, title = 'Calidad de Cobertura' }) => {
+  if (!metrics) {
+    return null;
+  }
+
+  const percentColor = metrics.coveragePercent >= 99 ? 'text-green-700' : metrics.coveragePercent >= 90 ? 'text-yellow-700' : 'text-red-700';
+  const rows: { label: string; value: string }[] = [
+    { label: 'Área cubierta', value: `${metrics.coveredArea.toFixed(1)} m² de ${metrics.totalArea.toFixed(1)} m²` },
+    { label: 'Área sin cobertura', value: `${metrics.uncoveredArea.toFixed(1)} m²` },
+    { label: 'Solapamiento medio', value: `${metrics.meanOverlapDepth.toFixed(2)} APs` },
+    { label: 'Solapamiento máximo', value: `${metrics.maxOverlapDepth} APs` },
+    {
+      label: 'Mayor hueco de cobertura',
+      value: metrics.largestHole
+        ? `${metrics.largestHole.area.toFixed(1)} m² cerca de (${metrics.largestHole.centroid.x.toFixed(1)}, ${metrics.largestHole.centroid.y.toFixed(1)}) m`
+        : 'Ninguno',
+    },
+  ];
+
+  return (
+    <div className="my-4 p-4 border border-gray-200 rounded-lg bg-gray-50">
+      <div className="flex justify-between items-baseline mb-2">
+        <h3 className="text-lg font-semibold text-gray-800">{title}</h3>
+        <span className={`text-2xl font-bold ${percentColor}`}>{metrics.coveragePercent.toFixed(1)}%</span>
+      </div>
+      <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+        {rows.map(row => (
+          <div key={row.label} className="flex justify-between">
+            <dt className="text-gray-600">{row.label}:</dt>
+            <dd className="text-gray-900 font-medium">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+      <p className="mt-2 text-xs text-gray-500">
+        Análisis rasterizado con celdas de {metrics.cellWidth.toFixed(2)} × {metrics.cellHeight.toFixed(2)} m. Las celdas sin cobertura se resaltan en rojo en la visualización.
+      </p>
+    </div>
+  );
+};
+
+export default CoverageMetricsPanel;
@@ -0,0 +1,100 @@
+import React from 'react';
+import Button from './Button';
+import Input from './Input';
+import type { FloorSnapshot } from '../types';
+import { getFloorAPsInMeters } from '../services/floorService';
+
+interface FloorTabsProps {
+  floors: FloorSnapshot[]; // Bottom to top, with the active floor already up to date
+  activeFloorId: string;
+  onSelectFloor: (id: string) => void;
+  onAddFloor: () => void;
+  onDeleteFloor: (id: string) => void;
+  onUpdateFloor: (id: string, changes: Partial<Pick<FloorSnapshot, 'name' | 'floorHeightM' | 'slabAttenuationDb'>>) => void;
+  disabled?: boolean;
+}
+
+const FloorTabs: React.FC<FloorTabsProps> = ({ floors, activeFloorId, onSelectFloor, onAddFloor, onDeleteFloor, onUpdateFloor, disabled }) => {
+  const activeIndex = floors.findIndex(floor => floor.id === activeFloorId);
+  const activeFloor = floors[activeIndex];
+  const counts = floors.map(floor => ({
+    algorithm: floor.results?.nAP ?? 0,
+    ai: floor.aiResults?.nAP ?? 0,
+    manual: floor.manualAPs.length,
+    manualScaled: getFloorAPsInMeters(floor, 'manual') !== null,
+  }));
+  const totals = counts.reduce((sum, c) => ({ algorithm: sum.algorithm + c.algorithm, ai: sum.ai + c.ai, manual: sum.manual + c.manual }), { algorithm: 0, ai: 0, manual: 0 });
+  const numberValue = (value: string) => (isNaN(parseFloat(value)) || parseFloat(value) < 0 ? 0 : parseFloat(value));
+
+  return (
+    <fieldset className="border border-gray-200 rounded-lg p-4">
+      <legend className="px-2 text-sm font-semibold text-gray-700">Plantas del Edificio</legend>
+      <div className="flex flex-wrap items-center gap-2 mb-4" role="tablist">
+        {floors.map(floor => (
+          <button
+            key={floor.id}
+            type="button"
+            role="tab"
+            aria-selected={floor.id === activeFloorId}
+            disabled={disabled}
+            onClick={() => onSelectFloor(floor.id)}
+            className={`px-3 py-1 rounded-md text-sm font-medium border ${floor.id === activeFloorId ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+          >
+            {floor.name || 'Sin nombre'}
+          </button>
+        ))}
+        <Button type="button" size="sm" variant="secondary" onClick={onAddFloor} disabled={disabled}>+ Agregar planta</Button>
+      </div>
+
+      {activeFloor && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6">
+          <Input label="Nombre de la Planta" id="floorName" value={activeFloor.name} onChange={(e) => onUpdateFloor(activeFloor.id, { name: e.target.value })} />
+          <Input label="Altura hasta la planta superior (m)" id="floorHeight" type="number" min="0" step="0.1" value={activeFloor.floorHeightM} onChange={(e) => onUpdateFloor(activeFloor.id, { floorHeightM: numberValue(e.target.value) })} />
+          <Input label="Atenuación de la losa superior (dB)" id="slabAttenuation" type="number" min="0" step="0.5" value={activeFloor.slabAttenuationDb} onChange={(e) => onUpdateFloor(activeFloor.id, { slabAttenuationDb: numberValue(e.target.value) })} />
+        </div>
+      )}
+      {floors.length > 1 && activeFloor && (
+        <div className="mb-3">
+          <Button type="button" size="sm" variant="secondary" onClick={() => onDeleteFloor(activeFloor.id)} disabled={disabled}>Eliminar esta planta</Button>
+        </div>
+      )}
+
+      {floors.length > 1 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Planta</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">APs Algoritmo</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">APs IA</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">APs Manuales</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {floors.map((floor, index) => (
+                <tr key={`floor-total-${floor.id}`} className={floor.id === activeFloorId ? 'bg-indigo-50' : undefined}>
+                  <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-900">{floor.name || `Planta ${index + 1}`}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-600">{counts[index].algorithm}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-600">{counts[index].ai}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-600">{counts[index].manual}{counts[index].manual > 0 && !counts[index].manualScaled ? ' (sin escala)' : ''}</td>
+                </tr>
+              ))}
+              <tr className="bg-gray-50 font-semibold">
+                <td className="px-4 py-2 whitespace-nowrap text-gray-900">Total del edificio</td>
+                <td className="px-4 py-2 whitespace-nowrap text-gray-900">{totals.algorithm}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-gray-900">{totals.ai}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-gray-900">{totals.manual}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="mt-2 text-xs text-gray-500">
+        Cada planta guarda su propio plano, dimensiones, obstáculos y APs. Las plantas se listan de abajo hacia arriba y comparten el mismo origen (0,0).
+        La cobertura de una planta incluye la señal de los APs de las plantas contiguas, atenuada por la losa y la distancia vertical.
+      </p>
+    </fieldset>
+  );
+};
+
+export default FloorTabs;
@@ -0,0 +1,42 @@
+import React from 'react';
+import Button from './Button';
+import type { EditHistory } from '../utils/editHistory';
+
+interface HistoryControlsProps {
+  history: EditHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  disabled?: boolean;
+}
+
+const HistoryControls: React.FC<HistoryControlsProps> = ({ history, onUndo, onRedo, disabled }) => {
+  const nextUndo = history.past[history.past.length - 1];
+  const nextRedo = history.future[0];
+
+  return (
+    <div className="flex gap-2" role="group" aria-label="Historial de cambios">
+      <Button
+        type="button"
+        size="sm"
+        variant="secondary"
+        onClick={onUndo}
+        disabled={disabled || !nextUndo}
+        title={nextUndo ? `Deshacer: ${nextUndo.label} (Ctrl+Z)` : 'Nada que deshacer'}
+      >
+        ↶ Deshacer
+      </Button>
+      <Button
+        type="button"
+        size="sm"
+        variant="secondary"
+        onClick={onRedo}
+        disabled={disabled || !nextRedo}
+        title={nextRedo ? `Rehacer: ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nada que rehacer'}
+      >
+        ↷ Rehacer
+      </Button>
+    </div>
+  );
+};
+
+export default HistoryControls;
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import Button from './Button';
+import type { SvgImage } from '../utils/svgExport';
+import { DEFAULT_EXPORT_DPI, EXPORT_DPI_OPTIONS, rasterizeSvg, toStandaloneSvg } from '../utils/svgExport';
+import { downloadDataUrl, downloadTextFile } from '../utils/download';
+
+interface ImageExportButtonsProps {
+  fileBaseName: string;
+  render: () => SvgImage | null; // Built on demand, so nothing is serialized until a download is asked for
+}
+
+const ImageExportButtons: React.FC<ImageExportButtonsProps> = ({ fileBaseName, render }) => {
+  const [dpi, setDpi] = useState(DEFAULT_EXPORT_DPI);
+  const [isRasterizing, setIsRasterizing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const downloadSvg = () => {
+    const image = render();
+    if (image) downloadTextFile(`${fileBaseName}.svg`, toStandaloneSvg(image), 'image/svg+xml');
+  };
+
+  const downloadPng = async () => {
+    const image = render();
+    if (!image) return;
+    setIsRasterizing(true);
+    setError(null);
+    try {
+      downloadDataUrl(`${fileBaseName}_${dpi}dpi.png`, await rasterizeSvg(image, dpi));
+    } catch (e: any) {
+      setError(e.message || 'No se pudo generar el PNG.');
+    } finally {
+      setIsRasterizing(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button type="button" size="sm" variant="secondary" onClick={downloadSvg}>SVG</Button>
+      <select
+        aria-label="Resolución del PNG"
+        className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+        value={dpi}
+        onChange={(e) => setDpi(parseInt(e.target.value, 10))}
+      >
+        {EXPORT_DPI_OPTIONS.map(option => <option key={option} value={option}>{option} ppp</option>)}
+      </select>
+      <Button type="button" size="sm" variant="secondary" onClick={downloadPng} disabled={isRasterizing}>
+        {isRasterizing ? 'Generando...' : 'PNG'}
+      </Button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+};
+
+export default ImageExportButtons;
@@ -1,6 +1,24 @@
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import type { APCoordinate } from '../types';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import type { APCoordinate, BuildingOutline, CapacityZone, ChannelAssignment, PlanCalibration, PlanningZone, SignalHeatmap, Wall } from '../types';
+import { renderHeatmapDataUrl } from '../utils/heatmapImage';
+import { MATERIAL_COLORS } from '../services/obstacleService';
+import { channelColor } from '../services/channelPlanningService';
+import { apCoverageRadius } from '../services/coverageAnalysisService';
+import { PLANNING_ZONE_COLORS } from '../services/planningZoneService';
+import SignalLegend from './SignalLegend';
+import Button from './Button';
+import ImageExportButtons from './ImageExportButtons';
+import { renderPlanSvg } from './PlanSvg';
+import { outlineToSvgPath } from '../utils/geometry';
+import { metersToPixelsSvgTransform, metersToPlanPixel } from '../utils/planTransform';
+
+// While a draw mode is active, clicks add vertices to a draft shape instead of placing APs.
+export interface PlanDrawMode {
+  shape: 'polyline' | 'polygon';
+  color: string;
+  maxPoints?: number; // The shape completes automatically once this many vertices are placed
+}
 
 interface InteractivePlanDisplayProps {
   visualizationId: string;
@@ -8,20 +26,54 @@ interface InteractivePlanDisplayProps {
   manualAPs: APCoordinate[];
   onImageClick: (coords: APCoordinate) => void;
   coverageRadiusMeters: number;
-  buildingLengthMeters: number;
+  modelRadii?: Record<string, number>; // Meters, for APs that carry their own model, by model id
+  planTransform: PlanCalibration | null; // Pixel <-> meter mapping of this plan; null while the scale is unknown
   onDeleteAp: (index: number) => void;
   onMoveAp: (index: number, newCoords: APCoordinate) => void;
+  onMoveApEnd?: () => void; // Called once when a drag ends, after any onMoveAp calls
+  signalHeatmap?: SignalHeatmap | null; // Best-RSSI raster in building meters, anchored at the image origin
+  signalThresholdDbm?: number;
+  walls?: Wall[]; // Obstacles in building meters
+  buildingOutline?: BuildingOutline | null; // Polygonal outline in building meters
+  onDeleteWall?: (id: string) => void;
+  drawMode?: PlanDrawMode | null;
+  onDrawComplete?: (points: APCoordinate[]) => void; // Vertices in original image pixels
+  channelAssignment?: ChannelAssignment | null; // Colours each manual AP by its channel
+  capacityZones?: CapacityZone[]; // High-density zones in building meters
+  planningZones?: PlanningZone[]; // No-mount, no-coverage and priority zones in building meters
+  idfLocation?: APCoordinate | null; // Comms room in building meters
 }
 
+const DRAFT_VERTEX_MIN_DISTANCE = 3; // Original image pixels; ignores the repeated clicks of a double-click
+
+const WALL_DASH_BY_KIND: Record<Wall['kind'], string | undefined> = {
+  wall: undefined,
+  door: '8 4',
+  window: '2 3',
+};
+
 const InteractivePlanDisplay: React.FC<InteractivePlanDisplayProps> = ({
   visualizationId,
   imageDataUrl,
   manualAPs,
   onImageClick,
   coverageRadiusMeters,
-  buildingLengthMeters,
+  modelRadii,
+  planTransform,
   onDeleteAp,
   onMoveAp,
+  onMoveApEnd,
+  signalHeatmap,
+  signalThresholdDbm = -67,
+  walls = [],
+  buildingOutline = null,
+  onDeleteWall,
+  drawMode = null,
+  onDrawComplete,
+  channelAssignment = null,
+  capacityZones = [],
+  planningZones = [],
+  idfLocation = null,
 }) => {
   const imageRef = useRef<HTMLImageElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -30,6 +82,40 @@ const InteractivePlanDisplay: React.FC<InteractivePlanDisplayProps> = ({
   const [draggingApIndex, setDraggingApIndex] = useState<number | null>(null);
   const [dragStartOffset, setDragStartOffset] = useState<{ x: number, y: number } | null>(null); // Offset from AP center to mouse click, in display pixels
 
+  const [draftPoints, setDraftPoints] = useState<APCoordinate[]>([]);
+
+  const minDraftPoints = drawMode?.shape === 'polygon' ? 3 : 2;
+
+  const completeDraft = useCallback((points: APCoordinate[]) => {
+    if (drawMode && points.length >= Math.min(minDraftPoints, drawMode.maxPoints ?? minDraftPoints)) {
+      onDrawComplete?.(points);
+    }
+    setDraftPoints([]);
+  }, [drawMode, minDraftPoints, onDrawComplete]);
+
+  // Discard any half-drawn shape when the draw mode changes.
+  useEffect(() => {
+    setDraftPoints([]);
+  }, [drawMode]);
+
+  useEffect(() => {
+    if (!drawMode) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setDraftPoints([]);
+      } else if (event.key === 'Enter') {
+        completeDraft(draftPoints);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [drawMode, draftPoints, completeDraft]);
+
+  const heatmapDataUrl = useMemo(
+    () => (signalHeatmap ? renderHeatmapDataUrl(signalHeatmap, signalThresholdDbm) : null),
+    [signalHeatmap, signalThresholdDbm]
+  );
+
   useEffect(() => {
     const imgElement = imageRef.current;
     if (imgElement) {
@@ -82,11 +168,32 @@ const InteractivePlanDisplay: React.FC<InteractivePlanDisplayProps> = ({
       
       const originalX = (xOnDisplayedImage / imageDisplayRect.width) * naturalWidth;
       const originalY = (yOnDisplayedImage / imageDisplayRect.height) * naturalHeight;
+
+      if (drawMode) {
+        const last = draftPoints[draftPoints.length - 1];
+        if (last && Math.hypot(last.x - originalX, last.y - originalY) < DRAFT_VERTEX_MIN_DISTANCE) return;
+        const nextPoints = [...draftPoints, { x: originalX, y: originalY }];
+        if (drawMode.maxPoints && nextPoints.length >= drawMode.maxPoints) {
+          completeDraft(nextPoints);
+        } else {
+          setDraftPoints(nextPoints);
+        }
+        return;
+      }
       
       onImageClick({ x: originalX, y: originalY });
     }
   };
 
+  const handleContainerDoubleClick = () => {
+    if (drawMode) completeDraft(draftPoints);
+  };
+
+  const handleWallDoubleClick = (event: React.MouseEvent, id: string) => {
+    event.stopPropagation();
+    onDeleteWall?.(id);
+  };
+
   const handleApMouseDown = (event: React.MouseEvent, index: number) => {
     event.stopPropagation(); // Prevent container click
     if (!imageRef.current || !imageRef.current.complete || imageRef.current.naturalWidth === 0) return;
@@ -139,8 +246,9 @@ const InteractivePlanDisplay: React.FC<InteractivePlanDisplayProps> = ({
     if (draggingApIndex !== null) {
       setDraggingApIndex(null);
       setDragStartOffset(null);
+      onMoveApEnd?.();
     }
-  }, [draggingApIndex]);
+  }, [draggingApIndex, onMoveApEnd]);
 
   useEffect(() => {
     if (draggingApIndex !== null) {
@@ -159,13 +267,29 @@ const InteractivePlanDisplay: React.FC<InteractivePlanDisplayProps> = ({
   }
   
   const apMarkerRadiusOnScreen = 6; 
-  let pixelsPerMeterScale = 0;
-  let coverageRadiusInOriginalImagePixels = 0;
+  const pixelsPerMeterScale = planTransform ? planTransform.pixelsPerMeter : 0;
 
-  if (imageRef.current && imageRef.current.naturalWidth > 0 && buildingLengthMeters > 0) {
-    pixelsPerMeterScale = imageRef.current.naturalWidth / buildingLengthMeters;
-    coverageRadiusInOriginalImagePixels = coverageRadiusMeters * pixelsPerMeterScale;
-  }
+  // Standalone drawing at the image's own resolution, independent of how the plan is displayed or scrolled.
+  const renderExport = () => {
+    const image = imageRef.current;
+    if (!image || image.naturalWidth === 0) return null;
+    return renderPlanSvg({
+      imageDataUrl,
+      naturalSize: { width: image.naturalWidth, height: image.naturalHeight },
+      manualAPs,
+      coverageRadiusMeters,
+      modelRadii,
+      planTransform,
+      signalHeatmap,
+      signalThresholdDbm,
+      walls,
+      buildingOutline,
+      channelAssignment,
+      capacityZones,
+      planningZones,
+      idfLocation,
+    });
+  };
 
 
   return (
@@ -175,21 +299,28 @@ const InteractivePlanDisplay: React.FC<InteractivePlanDisplayProps> = ({
       aria-label="Visualización interactiva del plano"
     >
       <p className="text-sm text-gray-600 mb-2">
-        Haga clic en la imagen para marcar la ubicación de un AP. Arrastre un AP para moverlo. Doble clic en un AP para eliminarlo.
+        {drawMode
+          ? 'Modo dibujo: haga clic para añadir vértices. Doble clic o Enter para terminar, Escape para cancelar.'
+          : 'Haga clic en la imagen para marcar la ubicación de un AP. Arrastre un AP para moverlo. Doble clic en un AP (o en un muro) para eliminarlo. Ctrl+Z deshace el último cambio.'}
         <br />
         <span className="text-xs">
-          La visualización de radios de cobertura se basa en el 'Largo del Edificio' y el ancho de esta imagen.
-          Asegúrese que la dimensión principal de la imagen corresponda al largo ingresado para una escala precisa.
+          {planTransform?.calibrated
+            ? `Plano calibrado: ${planTransform.pixelsPerMeter.toFixed(2)} px/m, rotación ${planTransform.rotationDeg.toFixed(1)}°.`
+            : "Plano sin calibrar: la escala supone que el ancho de la imagen corresponde al 'Largo del Edificio'. Calibre el plano con dos puntos para una escala precisa."}
         </span>
       </p>
+      <div className="mb-2">
+        <ImageExportButtons fileBaseName="plano_aps_manuales" render={renderExport} />
+      </div>
       <div
         ref={containerRef}
         className="relative w-full overflow-auto" 
         style={{ 
             maxHeight: '600px', 
-            cursor: draggingApIndex !== null ? 'grabbing' : 'crosshair' 
+            cursor: draggingApIndex !== null ? 'grabbing' : drawMode ? 'copy' : 'crosshair' 
         }} 
         onClick={handleContainerClick}
+        onDoubleClick={handleContainerDoubleClick}
         role="group" 
         aria-label="Plano del edificio. Haga clic en la imagen para añadir un AP."
       >
@@ -211,6 +342,98 @@ const InteractivePlanDisplay: React.FC<InteractivePlanDisplayProps> = ({
             viewBox={`0 0 ${displayedImageDimensions.width} ${displayedImageDimensions.height}`}
             style={{ pointerEvents: 'none' }} // SVG itself doesn't capture clicks, circles below will
           >
+            {/* Meter-based overlays: one group maps building meters onto the displayed image */}
+            {planTransform && (
+              <g transform={`scale(${displayedImageDimensions.width / imageRef.current.naturalWidth} ${displayedImageDimensions.height / imageRef.current.naturalHeight}) ${metersToPixelsSvgTransform(planTransform)}`}>
+                {heatmapDataUrl && signalHeatmap && (
+                  <image
+                    href={heatmapDataUrl}
+                    x={0}
+                    y={0}
+                    width={signalHeatmap.cols * signalHeatmap.cellWidth}
+                    height={signalHeatmap.rows * signalHeatmap.cellHeight}
+                    preserveAspectRatio="none"
+                    style={{ imageRendering: 'pixelated' }}
+                  />
+                )}
+                {buildingOutline && (
+                  <path
+                    d={outlineToSvgPath(buildingOutline, p => p)}
+                    fillRule="evenodd"
+                    fill="rgba(37, 99, 235, 0.08)"
+                    stroke="#2563eb"
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+                {planningZones.map(zone => (
+                  <polygon
+                    key={zone.id}
+                    points={zone.polygon.map(p => `${p.x},${p.y}`).join(' ')}
+                    fill={PLANNING_ZONE_COLORS[zone.kind]}
+                    fillOpacity={0.12}
+                    stroke={PLANNING_ZONE_COLORS[zone.kind]}
+                    strokeWidth={2}
+                    strokeDasharray={zone.kind === 'priority' ? undefined : '4 4'}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+                {capacityZones.map(zone => (
+                  <polygon
+                    key={zone.id}
+                    points={zone.polygon.map(p => `${p.x},${p.y}`).join(' ')}
+                    fill="rgba(249, 115, 22, 0.12)"
+                    stroke="#ea580c"
+                    strokeWidth={2}
+                    strokeDasharray="6 3"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+                {walls.map(wall => (
+                  <polyline
+                    key={wall.id}
+                    points={wall.points.map(p => `${p.x},${p.y}`).join(' ')}
+                    fill="none"
+                    stroke={MATERIAL_COLORS[wall.material]}
+                    strokeWidth={wall.kind === 'wall' ? 4 : 3}
+                    strokeDasharray={WALL_DASH_BY_KIND[wall.kind]}
+                    strokeLinecap="round"
+                    vectorEffect="non-scaling-stroke"
+                    style={{ pointerEvents: drawMode ? 'none' : 'stroke', cursor: 'pointer' }}
+                    onDoubleClick={(e) => handleWallDoubleClick(e, wall.id)}
+                  >
+                    <title>{`${wall.lossDb} dB`}</title>
+                  </polyline>
+                ))}
+              </g>
+            )}
+            {drawMode && draftPoints.length > 0 && (() => {
+              const scaleX = displayedImageDimensions.width / imageRef.current!.naturalWidth;
+              const scaleY = displayedImageDimensions.height / imageRef.current!.naturalHeight;
+              const displayPoints = draftPoints.map(p => ({ x: p.x * scaleX, y: p.y * scaleY }));
+              const pointsAttr = displayPoints.map(p => `${p.x},${p.y}`).join(' ');
+              return (
+                <g>
+                  {drawMode.shape === 'polygon'
+                    ? <polygon points={pointsAttr} fill={drawMode.color} fillOpacity={0.15} stroke={drawMode.color} strokeWidth={2} strokeDasharray="5 3" />
+                    : <polyline points={pointsAttr} fill="none" stroke={drawMode.color} strokeWidth={3} strokeDasharray="5 3" />}
+                  {displayPoints.map((p, i) => (
+                    <circle key={`draft-${i}`} cx={p.x} cy={p.y} r={4} fill={drawMode.color} stroke="#ffffff" strokeWidth={1} />
+                  ))}
+                </g>
+              );
+            })()}
+            {planTransform && idfLocation && (() => {
+              const idf = metersToPlanPixel(idfLocation, planTransform);
+              const x = idf.x * (displayedImageDimensions.width / imageRef.current!.naturalWidth);
+              const y = idf.y * (displayedImageDimensions.height / imageRef.current!.naturalHeight);
+              return (
+                <g style={{ pointerEvents: 'none' }}>
+                  <rect x={x - 6} y={y - 6} width={12} height={12} fill="#7c3aed" stroke="#ffffff" strokeWidth={1.5} />
+                  <text x={x + 9} y={y + 4} fontSize="11" fontWeight="700" fill="#7c3aed" stroke="#ffffff" strokeWidth="0.5px" paintOrder="stroke">IDF</text>
+                </g>
+              );
+            })()}
             {manualAPs.map((ap, index) => {
               // Ensure naturalWidth is available before scaling
               if (!imageRef.current || imageRef.current.naturalWidth === 0 || imageRef.current.naturalHeight === 0) return null;
@@ -223,16 +446,16 @@ const InteractivePlanDisplay: React.FC<InteractivePlanDisplayProps> = ({
               
               let coverageRadius_display = 0;
               if (pixelsPerMeterScale > 0) { // Check if scale is valid
-                 coverageRadius_display = coverageRadiusInOriginalImagePixels * displayScaleX;
+                 coverageRadius_display = apCoverageRadius(ap, coverageRadiusMeters, modelRadii) * pixelsPerMeterScale * displayScaleX;
               }
 
 
               return (
-                <g key={`manual-ap-vis-${index}`} style={{ pointerEvents: 'all', cursor: 'grab' }} 
+                <g key={`manual-ap-vis-${index}`} style={{ pointerEvents: drawMode ? 'none' : 'all', cursor: 'grab' }} 
                    onMouseDown={(e) => handleApMouseDown(e, index)}
                    onDoubleClick={(e) => handleApDoubleClick(e, index)}
                 >
-                  {coverageRadius_display > 0 && buildingLengthMeters > 0 && (
+                  {coverageRadius_display > 0 && (
                     <circle
                       cx={apCenterX_display}
                       cy={apCenterY_display}
@@ -248,16 +471,37 @@ const InteractivePlanDisplay: React.FC<InteractivePlanDisplayProps> = ({
                     cx={apCenterX_display}
                     cy={apCenterY_display}
                     r={apMarkerRadiusOnScreen + (draggingApIndex === index ? 2 : 0)} // Slightly larger when dragging
-                    fill={draggingApIndex === index ? "rgba(220, 38, 38, 0.9)" : "rgba(239, 68, 68, 0.8)"}
+                    fill={channelAssignment ? channelColor(channelAssignment.channels[index], channelAssignment.channelPool) : draggingApIndex === index ? "rgba(220, 38, 38, 0.9)" : "rgba(239, 68, 68, 0.8)"}
                     stroke="#ffffff"
                     strokeWidth="1.5"
                   />
+                  {channelAssignment && (
+                    <text
+                      x={apCenterX_display + apMarkerRadiusOnScreen + 3}
+                      y={apCenterY_display + 4}
+                      fontSize="11"
+                      fill="#1f2937"
+                      stroke="#ffffff"
+                      strokeWidth="0.5px"
+                      paintOrder="stroke"
+                      style={{ pointerEvents: 'none' }}
+                    >
+                      ch{channelAssignment.channels[index]}
+                    </text>
+                  )}
                 </g>
               );
             })}
           </svg>
         )}
       </div>
+      {drawMode && draftPoints.length > 0 && (
+        <div className="flex space-x-2 mt-2">
+          <Button type="button" size="sm" onClick={() => completeDraft(draftPoints)}>Terminar ({draftPoints.length} vértices)</Button>
+          <Button type="button" size="sm" variant="secondary" onClick={() => setDraftPoints([])}>Cancelar</Button>
+        </div>
+      )}
+      {heatmapDataUrl && <SignalLegend thresholdDbm={signalThresholdDbm} />}
     </div>
   );
 };
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import Button from './Button';
+import Input from './Input';
+import Select from './Select';
+import type { APCoordinate, CablingFormState, CablingSettings, MountingFormState, MountingMode, MountingSettings } from '../types';
+import { DEFAULT_CEILING_GRID_SPACING_M, DEFAULT_MOUNTING_SETTINGS, MOUNTING_MODE_LABELS } from '../services/mountingService';
+import { DEFAULT_CABLING_SETTINGS, ETHERNET_MAX_RUN_M } from '../services/cablingService';
+import { parseVertexList } from '../utils/geometry';
+
+export const initialMountingFormState: MountingFormState = {
+  mode: 'free',
+  gridSpacing: String(DEFAULT_CEILING_GRID_SPACING_M),
+  gridOffsetX: '0',
+  gridOffsetY: '0',
+  points: '',
+};
+
+export const initialCablingFormState: CablingFormState = {
+  slackPercent: String(DEFAULT_CABLING_SETTINGS.slackPercent),
+  serviceLoopM: String(DEFAULT_CABLING_SETTINGS.serviceLoopM),
+};
+
+// An invalid spacing falls back to the standard tile; a malformed point list allows no points.
+export const toMountingSettings = (form: MountingFormState): MountingSettings => {
+  const spacing = parseFloat(form.gridSpacing);
+  return {
+    mode: form.mode,
+    gridSpacingM: spacing > 0 ? spacing : DEFAULT_MOUNTING_SETTINGS.gridSpacingM,
+    gridOffset: { x: parseFloat(form.gridOffsetX) || 0, y: parseFloat(form.gridOffsetY) || 0 },
+    points: parseVertexList(form.points) ?? [],
+  };
+};
+
+export const toCablingSettings = (form: CablingFormState): CablingSettings => {
+  const num = (value: string, fallback: number) => (parseFloat(value) >= 0 ? parseFloat(value) : fallback);
+  return {
+    slackPercent: num(form.slackPercent, DEFAULT_CABLING_SETTINGS.slackPercent),
+    serviceLoopM: num(form.serviceLoopM, DEFAULT_CABLING_SETTINGS.serviceLoopM),
+  };
+};
+
+export type MountingDrawTarget = 'mountPoints' | 'idf';
+
+interface MountingPanelProps {
+  form: MountingFormState;
+  onChange: (form: MountingFormState) => void;
+  cablingForm: CablingFormState;
+  onCablingChange: (form: CablingFormState) => void;
+  idfLocation: APCoordinate | null;
+  onIdfLocationChange: (location: APCoordinate | null) => void;
+  canDrawOnPlan: boolean;
+  drawing: MountingDrawTarget | null;
+  onToggleDraw: (target: MountingDrawTarget) => void;
+  offMountAPs: number; // APs of the current layouts that are not on a mount point
+  onSnapExisting: () => void;
+}
+
+const MountingPanel: React.FC<MountingPanelProps> = ({ form, onChange, cablingForm, onCablingChange, idfLocation, onIdfLocationChange, canDrawOnPlan, drawing, onToggleDraw, offMountAPs, onSnapExisting }) => {
+  const [idfInput, setIdfInput] = useState('');
+  const [idfError, setIdfError] = useState<string | null>(null);
+  const update = (changes: Partial<MountingFormState>) => onChange({ ...form, ...changes });
+  const pointsInvalid = form.mode === 'points' && form.points.trim().length > 0 && parseVertexList(form.points) === null;
+
+  const setIdfFromInput = () => {
+    const points = parseVertexList(idfInput);
+    if (!points || points.length !== 1) {
+      setIdfError('Indique un único punto con formato "x,y".');
+      return;
+    }
+    onIdfLocationChange(points[0]);
+    setIdfInput('');
+    setIdfError(null);
+  };
+
+  return (
+    <fieldset className="border border-gray-200 rounded-lg p-4">
+      <legend className="px-2 text-sm font-semibold text-gray-700">Montaje y Cableado</legend>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-x-6">
+        <Select
+          label="Ubicación de los APs"
+          id="mountingMode"
+          value={form.mode}
+          onChange={(e) => update({ mode: e.target.value as MountingMode })}
+          options={(Object.keys(MOUNTING_MODE_LABELS) as MountingMode[]).map(mode => ({ value: mode, label: MOUNTING_MODE_LABELS[mode] }))}
+        />
+        {form.mode === 'grid' && (
+          <>
+            <Input label="Separación de la retícula (m)" id="mountingGridSpacing" type="number" min="0.1" step="0.1" value={form.gridSpacing} onChange={(e) => update({ gridSpacing: e.target.value })} />
+            <Input label="Desfase X (m)" id="mountingGridOffsetX" type="number" step="0.1" value={form.gridOffsetX} onChange={(e) => update({ gridOffsetX: e.target.value })} />
+            <Input label="Desfase Y (m)" id="mountingGridOffsetY" type="number" step="0.1" value={form.gridOffsetY} onChange={(e) => update({ gridOffsetY: e.target.value })} />
+          </>
+        )}
+      </div>
+      {form.mode === 'points' && (
+        <div className="flex flex-col md:flex-row md:items-end gap-2 mb-4">
+          <div className="flex-grow">
+            <label htmlFor="mountingPoints" className="block text-sm font-medium text-gray-700 mb-1">Puntos de montaje (m)</label>
+            <textarea
+              id="mountingPoints"
+              rows={2}
+              value={form.points}
+              onChange={(e) => update({ points: e.target.value })}
+              placeholder="Ej: 2,3; 8,3; 14,3"
+              className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm sm:text-sm font-mono"
+            />
+          </div>
+          <Button type="button" size="sm" variant={drawing === 'mountPoints' ? 'primary' : 'secondary'} onClick={() => onToggleDraw('mountPoints')} disabled={!canDrawOnPlan}>
+            {drawing === 'mountPoints' ? 'Terminar de marcar' : 'Marcar puntos en el plano'}
+          </Button>
+        </div>
+      )}
+      {pointsInvalid && <p className="-mt-3 mb-3 text-sm text-red-600">La lista de puntos debe tener el formato "x,y; x,y".</p>}
+      {offMountAPs > 0 && (
+        <div className="flex flex-col md:flex-row md:items-center gap-2 mb-4 text-sm text-amber-700">
+          <span className="flex-grow">{offMountAPs} AP(s) de los resultados o de las marcas manuales no están en un punto de montaje.</span>
+          <Button type="button" size="sm" variant="secondary" onClick={onSnapExisting}>Ajustar a los puntos de montaje</Button>
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row md:items-end gap-2 mb-4">
+        <div className="flex-grow">
+          <label htmlFor="idfLocation" className="block text-sm font-medium text-gray-700 mb-1">
+            Cuarto de comunicaciones (IDF): {idfLocation ? `(${idfLocation.x.toFixed(2)}, ${idfLocation.y.toFixed(2)}) m` : 'sin definir'}
+          </label>
+          <input
+            id="idfLocation"
+            value={idfInput}
+            onChange={(e) => setIdfInput(e.target.value)}
+            placeholder="Ej: 0,5"
+            className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm sm:text-sm font-mono"
+          />
+        </div>
+        <Button type="button" size="sm" variant="secondary" onClick={setIdfFromInput}>Fijar IDF</Button>
+        <Button type="button" size="sm" variant={drawing === 'idf' ? 'primary' : 'secondary'} onClick={() => onToggleDraw('idf')} disabled={!canDrawOnPlan}>
+          {drawing === 'idf' ? 'Cancelar' : 'Marcar IDF en el plano'}
+        </Button>
+        {idfLocation && <Button type="button" size="sm" variant="secondary" onClick={() => onIdfLocationChange(null)}>Quitar IDF</Button>}
+      </div>
+      {idfError && <p className="-mt-3 mb-3 text-sm text-red-600">{idfError}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-x-6">
+        <Input label="Holgura del recorrido (%)" id="cableSlackPercent" type="number" min="0" step="1" value={cablingForm.slackPercent} onChange={(e) => onCablingChange({ ...cablingForm, slackPercent: e.target.value })} />
+        <Input label="Bajadas y reserva por tramo (m)" id="cableServiceLoop" type="number" min="0" step="0.5" value={cablingForm.serviceLoopM} onChange={(e) => onCablingChange({ ...cablingForm, serviceLoopM: e.target.value })} />
+      </div>
+      <p className="text-xs text-gray-500">
+        Con una retícula o una lista de puntos, todas las ubicaciones (algoritmo, IA, refinamiento, marcas manuales e importaciones) se ajustan al punto de montaje libre más cercano;
+        una marca sin punto de montaje cerca no se añade. Las ubicaciones anteriores a un cambio de estos ajustes se ajustan con el botón que aparece entonces.
+        Cada tramo de cable se estima como la distancia Manhattan al IDF más la holgura y las bajadas; los tramos de más de {ETHERNET_MAX_RUN_M} m superan el límite de Ethernet.
+      </p>
+    </fieldset>
+  );
+};
+
+export default MountingPanel;
@@ -0,0 +1,87 @@
+import React from 'react';
+import Button from './Button';
+import Input from './Input';
+import Select from './Select';
+import type { ObstacleKind, Wall, WallMaterial } from '../types';
+import { MATERIAL_COLORS, MATERIAL_LABELS, MATERIAL_LOSS_DB, OBSTACLE_KIND_LABELS, DEFAULT_MATERIAL_BY_KIND } from '../services/obstacleService';
+
+export interface ObstacleDrawingState {
+  kind: ObstacleKind;
+  material: WallMaterial;
+  lossDb: string;
+}
+
+export const initialObstacleDrawingState: ObstacleDrawingState = {
+  kind: 'wall',
+  material: DEFAULT_MATERIAL_BY_KIND.wall,
+  lossDb: String(MATERIAL_LOSS_DB[DEFAULT_MATERIAL_BY_KIND.wall]),
+};
+
+interface ObstacleEditorProps {
+  drawing: ObstacleDrawingState;
+  onDrawingChange: (drawing: ObstacleDrawingState) => void;
+  isDrawing: boolean;
+  onToggleDrawing: () => void;
+  walls: Wall[];
+  onDeleteWall: (id: string) => void;
+  onClearWalls: () => void;
+  canDraw: boolean; // False while the plan scale (pixels per meter) is unknown
+}
+
+const ObstacleEditor: React.FC<ObstacleEditorProps> = ({ drawing, onDrawingChange, isDrawing, onToggleDrawing, walls, onDeleteWall, onClearWalls, canDraw }) => {
+  const selectMaterial = (material: WallMaterial) => onDrawingChange({ ...drawing, material, lossDb: String(MATERIAL_LOSS_DB[material]) });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex flex-wrap justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-gray-800">Muros y Obstáculos ({walls.length})</h3>
+        <div className="flex space-x-2">
+          <Button type="button" size="sm" variant={isDrawing ? 'primary' : 'secondary'} onClick={onToggleDrawing} disabled={!canDraw}>
+            {isDrawing ? 'Terminar dibujo' : 'Dibujar en el plano'}
+          </Button>
+          {walls.length > 0 && <Button type="button" size="sm" variant="secondary" onClick={onClearWalls}>Borrar obstáculos</Button>}
+        </div>
+      </div>
+      {!canDraw && <p className="text-xs text-gray-500 mb-2">Ingrese el largo del edificio para poder dibujar obstáculos en metros.</p>}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6">
+        <Select
+          label="Tipo"
+          id="obstacleKind"
+          value={drawing.kind}
+          onChange={(e) => {
+            const kind = e.target.value as ObstacleKind;
+            const material = DEFAULT_MATERIAL_BY_KIND[kind];
+            onDrawingChange({ kind, material, lossDb: String(MATERIAL_LOSS_DB[material]) });
+          }}
+          options={(Object.keys(OBSTACLE_KIND_LABELS) as ObstacleKind[]).map(kind => ({ value: kind, label: OBSTACLE_KIND_LABELS[kind] }))}
+        />
+        <Select
+          label="Material"
+          id="obstacleMaterial"
+          value={drawing.material}
+          onChange={(e) => selectMaterial(e.target.value as WallMaterial)}
+          options={(Object.keys(MATERIAL_LABELS) as WallMaterial[]).map(material => ({ value: material, label: `${MATERIAL_LABELS[material]} (${MATERIAL_LOSS_DB[material]} dB)` }))}
+        />
+        <Input label="Pérdida (dB)" id="obstacleLossDb" type="number" min="0" step="0.5" value={drawing.lossDb} onChange={(e) => onDrawingChange({ ...drawing, lossDb: e.target.value })} />
+      </div>
+      {walls.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto divide-y divide-gray-100 text-sm">
+          {walls.map((wall, index) => (
+            <li key={wall.id} className="flex justify-between items-center py-1">
+              <span className="flex items-center text-gray-700">
+                <span className="inline-block w-3 h-3 mr-2 rounded-sm" style={{ backgroundColor: MATERIAL_COLORS[wall.material] }} />
+                {OBSTACLE_KIND_LABELS[wall.kind]} {index + 1} · {MATERIAL_LABELS[wall.material]} · {wall.lossDb} dB · {wall.points.length - 1} tramo(s)
+              </span>
+              <button type="button" className="text-xs text-red-600 hover:underline" onClick={() => onDeleteWall(wall.id)}>Eliminar</button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="mt-2 text-xs text-gray-500">
+        Cada vez que la trayectoria entre un AP y un punto cruza un tramo, se resta su pérdida de la señal y de la cobertura estimadas.
+      </p>
+    </div>
+  );
+};
+
+export default ObstacleEditor;
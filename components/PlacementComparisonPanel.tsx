@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import Button from './Button';
+import BuildingVisualizer from './BuildingVisualizer';
+import type { APCoordinate, ApLayer, BuildingDimensions, CapacityZone, CoverageMetrics, DesignOfRecord, PlacementSource, PlanCalibration, PlanningZone, Wall } from '../types';
+import { minimumSpacing } from '../utils/geometry';
+
+export const COMPARISON_LAYER_STYLES: Record<PlacementSource, { label: string; color: string; labelPrefix: string }> = {
+  algorithm: { label: 'Algoritmo', color: '#0d9488', labelPrefix: 'A' },
+  ai: { label: 'IA', color: '#4f46e5', labelPrefix: 'IA' },
+  manual: { label: 'Manual', color: '#db2777', labelPrefix: 'M' },
+};
+
+export interface ComparisonVariant {
+  source: PlacementSource;
+  aps: APCoordinate[]; // Building meters
+  coverage: CoverageMetrics | null;
+}
+
+interface PlacementComparisonPanelProps {
+  variants: ComparisonVariant[]; // Only the sources that currently have APs
+  designOfRecord: DesignOfRecord | null;
+  onPromote: (source: PlacementSource) => void;
+  building: BuildingDimensions;
+  coverageRadius: number;
+  modelRadii?: Record<string, number>;
+  planImageUrl?: string | null;
+  planTransform?: PlanCalibration | null;
+  planNaturalSize?: { width: number; height: number } | null;
+  walls?: Wall[];
+  capacityZones?: CapacityZone[];
+  planningZones?: PlanningZone[];
+}
+
+const sameLayout = (a: APCoordinate[], b: APCoordinate[]) =>
+  a.length === b.length && a.every((ap, index) => Math.abs(ap.x - b[index].x) < 1e-6 && Math.abs(ap.y - b[index].y) < 1e-6);
+
+// All placements of the floor overlaid on one drawing, with their headline metrics side by side.
+const PlacementComparisonPanel: React.FC<PlacementComparisonPanelProps> = ({ variants, designOfRecord, onPromote, building, coverageRadius, modelRadii, planImageUrl, planTransform, planNaturalSize, walls, capacityZones, planningZones }) => {
+  const [hiddenSources, setHiddenSources] = useState<PlacementSource[]>([]);
+  const layers: ApLayer[] = variants
+    .filter(variant => !hiddenSources.includes(variant.source))
+    .map(variant => ({ id: variant.source, aps: variant.aps, color: COMPARISON_LAYER_STYLES[variant.source].color, labelPrefix: COMPARISON_LAYER_STYLES[variant.source].labelPrefix }));
+  const toggleLayer = (source: PlacementSource, visible: boolean) =>
+    setHiddenSources(hidden => (visible ? hidden.filter(s => s !== source) : [...hidden, source]));
+
+  return (
+    <div className="mt-10 bg-white shadow-xl rounded-lg p-6 md:p-8">
+      <h2 className="text-2xl font-semibold text-gray-800 mb-2">Comparación de Diseños</h2>
+      {designOfRecord ? (
+        <p className="text-sm text-gray-700 mb-4">
+          <span className="font-medium">Diseño de referencia:</span> {COMPARISON_LAYER_STYLES[designOfRecord.source].label}, {designOfRecord.aps.length} APs, promovido el {new Date(designOfRecord.promotedAt).toLocaleString('es')}.
+        </p>
+      ) : (
+        <p className="text-sm text-gray-600 mb-4">Ningún diseño ha sido promovido como diseño de referencia para esta planta.</p>
+      )}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Capa</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">APs</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cobertura</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Solape medio</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Espaciado mínimo</th>
+              <th scope="col" className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {variants.map(variant => {
+              const style = COMPARISON_LAYER_STYLES[variant.source];
+              const spacing = minimumSpacing(variant.aps);
+              const isRecord = designOfRecord?.source === variant.source && sameLayout(designOfRecord.aps, variant.aps);
+              return (
+                <tr key={variant.source}>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    <label className="flex items-center font-medium" style={{ color: style.color }}>
+                      <input type="checkbox" className="mr-2" checked={!hiddenSources.includes(variant.source)} onChange={(e) => toggleLayer(variant.source, e.target.checked)} />
+                      {style.label}
+                    </label>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-700">{variant.aps.length}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-700">{variant.coverage ? `${variant.coverage.coveragePercent.toFixed(1)} %` : 'N/A'}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-700">{variant.coverage ? variant.coverage.meanOverlapDepth.toFixed(2) : 'N/A'}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-700">{spacing !== null ? `${spacing.toFixed(2)} m` : 'N/A'}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right">
+                    {isRecord ? (
+                      <span className="text-xs font-semibold text-green-700">Diseño de referencia</span>
+                    ) : (
+                      <Button type="button" size="sm" variant="secondary" onClick={() => onPromote(variant.source)}>Promover</Button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <BuildingVisualizer
+        visualizationId="comparison-building-visualization"
+        building={building}
+        aps={[]}
+        layers={layers}
+        coverageRadius={coverageRadius}
+        modelRadii={modelRadii}
+        planImageUrl={planImageUrl}
+        planTransform={planTransform}
+        planNaturalSize={planNaturalSize}
+        walls={walls}
+        capacityZones={capacityZones}
+        planningZones={planningZones}
+      />
+    </div>
+  );
+};
+
+export default PlacementComparisonPanel;
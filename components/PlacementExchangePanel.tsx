@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import Button from './Button';
+import Input from './Input';
+import type { APCoordinate, BuildingDimensions, GeoAnchor, GeoAnchorFormState } from '../types';
+import type { CoordinateColumns, CsvTable, ImportedPoints } from '../services/placementExchangeService';
+import { csvToPoints, geoJsonToPoints, guessCoordinateColumns, parseCsv, partitionByBuilding } from '../services/placementExchangeService';
+
+export const initialGeoAnchorFormState: GeoAnchorFormState = {
+  latitude: '',
+  longitude: '',
+  bearingDeg: '0',
+};
+
+// Null until both latitude and longitude are valid; the bearing defaults to north.
+export const toGeoAnchor = (form: GeoAnchorFormState): GeoAnchor | null => {
+  const latitude = parseFloat(form.latitude);
+  const longitude = parseFloat(form.longitude);
+  if (!(Math.abs(latitude) <= 90) || !(Math.abs(longitude) <= 180)) return null;
+  return { latitude, longitude, bearingDeg: parseFloat(form.bearingDeg) || 0 };
+};
+
+interface PlacementExchangePanelProps {
+  geoAnchorForm: GeoAnchorFormState;
+  onGeoAnchorChange: (form: GeoAnchorFormState) => void;
+  building: BuildingDimensions;
+  canImport: boolean; // Manual APs live on the plan, so importing needs an uploaded, scaled plan
+  onImport: (pointsInMeters: APCoordinate[], replace: boolean) => number; // Returns how many APs were placed
+}
+
+type ImportSource = { kind: 'csv'; fileName: string; table: CsvTable } | { kind: 'geojson'; fileName: string; parsed: ImportedPoints };
+
+const PlacementExchangePanel: React.FC<PlacementExchangePanelProps> = ({ geoAnchorForm, onGeoAnchorChange, building, canImport, onImport }) => {
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [columns, setColumns] = useState<CoordinateColumns>({ x: 0, y: 1 });
+  const [replace, setReplace] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const updateAnchor = (changes: Partial<GeoAnchorFormState>) => onGeoAnchorChange({ ...geoAnchorForm, ...changes });
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    setImportMessage(null);
+    if (!file) return;
+    try {
+      const text = await file.text();
+      if (/\.(geo)?json$/i.test(file.name)) {
+        setSource({ kind: 'geojson', fileName: file.name, parsed: geoJsonToPoints(text) });
+      } else {
+        const table = parseCsv(text);
+        if (table.headers.length < 2) throw new Error('El CSV necesita al menos dos columnas con encabezado.');
+        setSource({ kind: 'csv', fileName: file.name, table });
+        setColumns(guessCoordinateColumns(table));
+      }
+      setFileError(null);
+    } catch (e: any) {
+      setSource(null);
+      setFileError(e.message || 'No se pudo leer el archivo.');
+    }
+  };
+
+  const parsed: ImportedPoints | null = useMemo(() => {
+    if (!source) return null;
+    return source.kind === 'csv' ? csvToPoints(source.table, columns) : source.parsed;
+  }, [source, columns]);
+  const partition = useMemo(() => (parsed ? partitionByBuilding(parsed.points, building) : null), [parsed, building]);
+
+  const handleImport = () => {
+    if (!partition || partition.inside.length === 0) return;
+    const placed = onImport(partition.inside, replace);
+    const unmounted = partition.inside.length - placed;
+    setImportMessage(`Se importaron ${placed} AP(s) a la capa manual.${unmounted > 0 ? ` ${unmounted} quedaron fuera por no haber un punto de montaje libre cerca.` : ''}`);
+    setSource(null);
+  };
+
+  const columnSelect = (axis: keyof CoordinateColumns, label: string) => source?.kind === 'csv' && (
+    <label className="text-sm text-gray-700">
+      {label}{' '}
+      <select
+        className="px-2 py-1 border border-gray-300 rounded-md"
+        value={columns[axis]}
+        onChange={(e) => setColumns({ ...columns, [axis]: parseInt(e.target.value, 10) })}
+      >
+        {source.table.headers.map((header, index) => <option key={index} value={index}>{header || `Columna ${index + 1}`}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <fieldset className="border border-gray-200 rounded-lg p-4">
+      <legend className="px-2 text-sm font-semibold text-gray-700">Importar / Georreferenciar Coordenadas</legend>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6">
+        <Input label="Latitud del origen (0,0)" id="geoLatitude" type="number" step="0.000001" value={geoAnchorForm.latitude} onChange={(e) => updateAnchor({ latitude: e.target.value })} placeholder="Ej: -34.603722" />
+        <Input label="Longitud del origen (0,0)" id="geoLongitude" type="number" step="0.000001" value={geoAnchorForm.longitude} onChange={(e) => updateAnchor({ longitude: e.target.value })} placeholder="Ej: -58.381592" />
+        <Input label="Rumbo del eje X (° desde el norte)" id="geoBearing" type="number" step="0.1" value={geoAnchorForm.bearingDeg} onChange={(e) => updateAnchor({ bearingDeg: e.target.value })} />
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Con la georreferencia configurada, las exportaciones CSV incluyen latitud y longitud y se habilita la exportación KML.
+        GeoJSON se exporta siempre en metros locales del edificio.
+      </p>
+
+      <label htmlFor="placementImport" className="block text-sm font-medium text-gray-700 mb-1">Importar APs a la capa manual (.csv, .geojson)</label>
+      <input
+        id="placementImport"
+        type="file"
+        accept=".csv,.txt,.geojson,.json"
+        onChange={handleFile}
+        disabled={!canImport}
+        className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+      />
+      {!canImport && <p className="mt-1 text-xs text-gray-500">Cargue un plano con escala conocida para importar APs manuales.</p>}
+      {fileError && <p className="mt-1 text-sm text-red-600">{fileError}</p>}
+
+      {source && parsed && partition && (
+        <div className="mt-3 space-y-2">
+          <p className="text-sm text-gray-700">
+            <span className="font-medium">{source.fileName}</span>: coordenadas en metros locales del edificio.
+          </p>
+          {source.kind === 'csv' && (
+            <div className="flex flex-wrap gap-4">
+              {columnSelect('x', 'Columna X:')}
+              {columnSelect('y', 'Columna Y:')}
+            </div>
+          )}
+          <p className="text-sm text-gray-700">
+            {partition.inside.length} punto(s) dentro del edificio
+            {partition.outside.length > 0 && <span className="text-orange-700">, {partition.outside.length} fuera de los límites (se omitirán)</span>}
+            {parsed.errors.length > 0 && <span className="text-red-700">, {parsed.errors.length} problema(s)</span>}.
+          </p>
+          {parsed.errors.length > 0 && (
+            <details className="text-xs text-red-700">
+              <summary className="cursor-pointer">Ver problemas</summary>
+              <ul className="list-disc ml-5">{parsed.errors.slice(0, 20).map((message, index) => <li key={index}>{message}</li>)}</ul>
+            </details>
+          )}
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center text-sm text-gray-700">
+              <input type="checkbox" className="mr-2" checked={replace} onChange={(e) => setReplace(e.target.checked)} />
+              Reemplazar las marcas actuales
+            </label>
+            <Button type="button" size="sm" onClick={handleImport} disabled={partition.inside.length === 0}>Importar</Button>
+            <Button type="button" size="sm" variant="secondary" onClick={() => setSource(null)}>Cancelar</Button>
+          </div>
+        </div>
+      )}
+      {importMessage && <p className="mt-2 text-sm text-green-700">{importMessage}</p>}
+    </fieldset>
+  );
+};
+
+export default PlacementExchangePanel;
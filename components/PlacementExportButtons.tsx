@@ -0,0 +1,36 @@
+import React from 'react';
+import Button from './Button';
+import type { APCoordinate } from '../types';
+import type { PlacementExportMeta } from '../services/placementExchangeService';
+import { PLACEMENT_SOURCE_LABELS, placementsToCsv, placementsToGeoJson, placementsToKml } from '../services/placementExchangeService';
+import { downloadTextFile } from '../utils/download';
+
+interface PlacementExportButtonsProps {
+  aps: APCoordinate[]; // Building meters
+  meta: PlacementExportMeta;
+}
+
+const PlacementExportButtons: React.FC<PlacementExportButtonsProps> = ({ aps, meta }) => {
+  const baseName = `aps_${PLACEMENT_SOURCE_LABELS[meta.source]}_${meta.floorName.trim().replace(/\s+/g, '_') || 'planta'}`;
+  const geoAnchor = meta.geoAnchor;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs text-gray-500">Exportar:</span>
+      <Button type="button" size="sm" variant="secondary" onClick={() => downloadTextFile(`${baseName}.csv`, placementsToCsv(aps, meta), 'text/csv')}>CSV</Button>
+      <Button type="button" size="sm" variant="secondary" onClick={() => downloadTextFile(`${baseName}.geojson`, placementsToGeoJson(aps, meta), 'application/geo+json')}>GeoJSON</Button>
+      <Button
+        type="button"
+        size="sm"
+        variant="secondary"
+        disabled={!geoAnchor}
+        title={geoAnchor ? undefined : 'Configure la georreferencia del edificio para exportar KML'}
+        onClick={() => geoAnchor && downloadTextFile(`${baseName}.kml`, placementsToKml(aps, { ...meta, geoAnchor }), 'application/vnd.google-earth.kml+xml')}
+      >
+        KML
+      </Button>
+    </div>
+  );
+};
+
+export default PlacementExportButtons;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import Button from './Button';
+import Select from './Select';
+import BuildingVisualizer from './BuildingVisualizer';
+import { COMPARISON_LAYER_STYLES } from './PlacementComparisonPanel';
+import type { ComparisonVariant } from './PlacementComparisonPanel';
+import type { BuildingDimensions, PlacementSource, PlanCalibration, RefinementOutcome, RefinementScore, RefinementSettings, SearchProgress, Wall } from '../types';
+import type { JobOutcome } from '../services/optimizationWorkerClient';
+
+const ITERATION_OPTIONS = [200, 600, 1500, 3000];
+const AP_PENALTY_OPTIONS = [0, 1, 2, 5, 10];
+const OVERLAP_PENALTY_OPTIONS = [0, 2, 5, 10, 20];
+
+export interface RefinementRun {
+  source: PlacementSource;
+  progress: SearchProgress<RefinementOutcome> | null;
+  outcome: RefinementOutcome | null; // Set when the run has finished
+  status: JobOutcome<RefinementOutcome>['status'] | null;
+}
+
+interface PlacementRefinementPanelProps {
+  variants: ComparisonVariant[]; // Sources that can be refined
+  settings: RefinementSettings;
+  onSettingsChange: (settings: RefinementSettings) => void;
+  run: RefinementRun | null;
+  onStart: (source: PlacementSource) => void;
+  onCancel: () => void; // Stops the run, keeping the best layout found so far
+  onApply: () => void;
+  onDiscard: () => void;
+  building: BuildingDimensions;
+  coverageRadius: number;
+  modelRadii?: Record<string, number>;
+  planImageUrl?: string | null;
+  planTransform?: PlanCalibration | null;
+  planNaturalSize?: { width: number; height: number } | null;
+  walls?: Wall[];
+}
+
+const METRIC_ROWS: { label: string; value: (score: RefinementScore) => number; digits: number; unit: string }[] = [
+  { label: 'Puntuación', value: s => s.score, digits: 1, unit: '' },
+  { label: 'APs', value: s => s.apCount, digits: 0, unit: '' },
+  { label: 'Cobertura', value: s => s.coveragePercent, digits: 1, unit: ' %' },
+  { label: 'Solape medio', value: s => s.meanOverlapDepth, digits: 2, unit: '' },
+];
+
+const formatDelta = (delta: number, digits: number, unit: string) => `${delta > 0 ? '+' : ''}${delta.toFixed(digits)}${unit}`;
+
+// Local search on top of any placement: runs the annealing, animates the best layout found so far and shows
+// what changed before the result replaces the source's layout.
+const PlacementRefinementPanel: React.FC<PlacementRefinementPanelProps> = ({ variants, settings, onSettingsChange, run, onStart, onCancel, onApply, onDiscard, building, coverageRadius, modelRadii, planImageUrl, planTransform, planNaturalSize, walls }) => {
+  const [selectedSource, setSelectedSource] = useState<PlacementSource | null>(null);
+  const source = variants.some(v => v.source === selectedSource) ? selectedSource! : variants[0]?.source;
+  const isRunning = Boolean(run && !run.outcome);
+  const update = (changes: Partial<RefinementSettings>) => onSettingsChange({ ...settings, ...changes });
+  const updateObjective = (changes: Partial<RefinementSettings['objective']>) => update({ objective: { ...settings.objective, ...changes } });
+  const shownAps = run?.outcome?.aps ?? run?.progress?.best?.aps ?? null;
+
+  return (
+    <div className="mt-10 bg-white shadow-xl rounded-lg p-6 md:p-8">
+      <h2 className="text-2xl font-semibold text-gray-800 mb-2">Refinamiento Local</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Mueve, añade y quita APs con recocido simulado para mejorar la puntuación: cobertura menos una penalización por AP y por solape.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-x-6">
+        <Select
+          label="Diseño de partida"
+          id="refinementSource"
+          value={source ?? ''}
+          disabled={isRunning}
+          onChange={(e) => setSelectedSource(e.target.value as PlacementSource)}
+          options={variants.map(v => ({ value: v.source, label: `${COMPARISON_LAYER_STYLES[v.source].label} (${v.aps.length} APs)` }))}
+        />
+        <Select
+          label="Iteraciones"
+          id="refinementIterations"
+          value={String(settings.iterations)}
+          disabled={isRunning}
+          onChange={(e) => update({ iterations: parseInt(e.target.value, 10) })}
+          options={ITERATION_OPTIONS.map(n => ({ value: String(n), label: String(n) }))}
+        />
+        <Select
+          label="Penalización por AP"
+          id="refinementApPenalty"
+          value={String(settings.objective.apPenalty)}
+          disabled={isRunning}
+          onChange={(e) => updateObjective({ apPenalty: parseFloat(e.target.value) })}
+          options={AP_PENALTY_OPTIONS.map(n => ({ value: String(n), label: `${n} pts de cobertura` }))}
+        />
+        <Select
+          label="Penalización por solape"
+          id="refinementOverlapPenalty"
+          value={String(settings.objective.overlapPenalty)}
+          disabled={isRunning}
+          onChange={(e) => updateObjective({ overlapPenalty: parseFloat(e.target.value) })}
+          options={OVERLAP_PENALTY_OPTIONS.map(n => ({ value: String(n), label: `${n} pts por AP extra` }))}
+        />
+      </div>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <label className="flex items-center text-sm text-gray-700">
+          <input type="checkbox" className="mr-2" checked={settings.allowAddRemove} disabled={isRunning} onChange={(e) => update({ allowAddRemove: e.target.checked })} />
+          Permitir añadir y quitar APs (si no, solo se mueven)
+        </label>
+        {isRunning ? (
+          <Button type="button" variant="secondary" onClick={onCancel}>Detener</Button>
+        ) : (
+          <Button type="button" onClick={() => source && onStart(source)} disabled={!source}>Refinar</Button>
+        )}
+      </div>
+
+      {run?.progress?.best && !run.outcome && (
+        <div className="mt-4">
+          <div className="w-full bg-gray-200 rounded h-2">
+            <div className="bg-indigo-600 h-2 rounded" style={{ width: `${(run.progress.iterations / (run.progress.totalIterations ?? settings.iterations)) * 100}%` }} />
+          </div>
+          <p className="text-sm text-gray-700 mt-2">
+            Iteración {run.progress.iterations} de {run.progress.totalIterations ?? settings.iterations}. Mejor hasta ahora: {run.progress.best.after.apCount} APs, {run.progress.best.after.coveragePercent.toFixed(1)} % de cobertura, puntuación {run.progress.best.after.score.toFixed(1)}.
+          </p>
+        </div>
+      )}
+
+      {run?.outcome && (
+        <div className="mt-4">
+          {run.status !== 'completed' && (
+            <p className="text-sm text-orange-700 mb-2">
+              {run.status === 'cancelled' ? 'Refinamiento detenido' : 'Refinamiento interrumpido por tiempo'} en la iteración {run.outcome.iterations}; se muestra la mejor distribución hasta entonces, medida con la resolución de búsqueda.
+            </p>
+          )}
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Métrica</th>
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Antes</th>
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Después</th>
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Diferencia</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {METRIC_ROWS.map(row => (
+                  <tr key={row.label}>
+                    <td className="px-4 py-2 whitespace-nowrap font-medium text-gray-900">{row.label}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-gray-700">{row.value(run.outcome!.before).toFixed(row.digits)}{row.unit}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-gray-700">{row.value(run.outcome!.after).toFixed(row.digits)}{row.unit}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-gray-700">{formatDelta(row.value(run.outcome!.after) - row.value(run.outcome!.before), row.digits, row.unit)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {run.outcome.after.score > run.outcome.before.score ? (
+            <div className="flex gap-3 mt-3">
+              <Button type="button" onClick={onApply}>Aplicar a {COMPARISON_LAYER_STYLES[run.source].label}</Button>
+              <Button type="button" variant="secondary" onClick={onDiscard}>Descartar</Button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-3 mt-3">
+              <p className="text-sm text-gray-600">No se encontró una distribución mejor que la de partida.</p>
+              <Button type="button" variant="secondary" onClick={onDiscard}>Cerrar</Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {run && shownAps && (
+        <BuildingVisualizer
+          visualizationId="refinement-building-visualization"
+          building={building}
+          aps={shownAps}
+          coverageRadius={coverageRadius}
+          modelRadii={modelRadii}
+          planImageUrl={planImageUrl}
+          planTransform={planTransform}
+          planNaturalSize={planNaturalSize}
+          walls={walls}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PlacementRefinementPanel;
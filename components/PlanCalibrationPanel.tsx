@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import Button from './Button';
+import Input from './Input';
+import type { APCoordinate, PlanCalibration } from '../types';
+import { pixelsPerMeterFromPoints } from '../utils/planTransform';
+
+export type CalibrationStep = 'scale' | 'origin' | 'axis';
+
+interface PlanCalibrationPanelProps {
+  calibration: PlanCalibration | null; // What the user has set so far
+  transform: PlanCalibration | null;   // What is actually in use (may be the uncalibrated fallback)
+  onChange: (calibration: PlanCalibration | null) => void;
+  activeStep: CalibrationStep | null;
+  onToggleStep: (step: CalibrationStep) => void;
+  scalePoints: APCoordinate[] | null; // The two points picked for the scale, in original-image pixels
+  onDiscardScalePoints: () => void;
+}
+
+const PlanCalibrationPanel: React.FC<PlanCalibrationPanelProps> = ({ calibration, transform, onChange, activeStep, onToggleStep, scalePoints, onDiscardScalePoints }) => {
+  const [distanceInput, setDistanceInput] = useState('');
+  const base: PlanCalibration = calibration ?? { pixelsPerMeter: 0, originPx: { x: 0, y: 0 }, rotationDeg: 0, calibrated: false };
+  const pixelDistance = scalePoints ? Math.hypot(scalePoints[1].x - scalePoints[0].x, scalePoints[1].y - scalePoints[0].y) : 0;
+
+  const applyScale = () => {
+    const distance = parseFloat(distanceInput);
+    if (!scalePoints || !(distance > 0)) return;
+    onChange({ ...base, pixelsPerMeter: pixelsPerMeterFromPoints(scalePoints[0], scalePoints[1], distance), calibrated: true });
+    setDistanceInput('');
+    onDiscardScalePoints();
+  };
+
+  const stepButton = (step: CalibrationStep, label: string) => (
+    <Button type="button" size="sm" variant={activeStep === step ? 'primary' : 'secondary'} onClick={() => onToggleStep(step)}>
+      {activeStep === step ? 'Cancelar' : label}
+    </Button>
+  );
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex flex-wrap justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold text-gray-800">Calibración del Plano</h3>
+        {calibration && <Button type="button" size="sm" variant="secondary" onClick={() => onChange(null)}>Restablecer calibración</Button>}
+      </div>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {stepButton('scale', 'Medir escala (2 puntos)')}
+        {stepButton('origin', 'Fijar origen (0,0)')}
+        {stepButton('axis', 'Alinear eje X (2 puntos)')}
+      </div>
+      {scalePoints && (
+        <div className="flex flex-col md:flex-row md:items-end gap-2 mb-3">
+          <div className="flex-grow">
+            <Input
+              label={`Distancia real entre los puntos (${pixelDistance.toFixed(0)} px)`}
+              id="calibrationDistance"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={distanceInput}
+              onChange={(e) => setDistanceInput(e.target.value)}
+              placeholder="Ej: 10"
+            />
+          </div>
+          <div className="flex gap-2 mb-4">
+            <Button type="button" size="sm" onClick={applyScale} disabled={!(parseFloat(distanceInput) > 0)}>Aplicar escala</Button>
+            <Button type="button" size="sm" variant="secondary" onClick={onDiscardScalePoints}>Descartar</Button>
+          </div>
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6">
+        <Input
+          label="Rotación del eje X (°)"
+          id="calibrationRotation"
+          type="number"
+          step="0.1"
+          value={base.rotationDeg}
+          onChange={(e) => onChange({ ...base, rotationDeg: parseFloat(e.target.value) || 0 })}
+        />
+        <div className="mb-4 text-sm text-gray-700 md:col-span-2 self-end">
+          {transform
+            ? <>Escala: <span className="font-semibold">{transform.pixelsPerMeter.toFixed(2)} px/m</span>{transform.calibrated ? '' : ' (supuesta a partir del largo del edificio)'} · Origen: ({transform.originPx.x.toFixed(0)}, {transform.originPx.y.toFixed(0)}) px</>
+            : 'Escala desconocida: mida dos puntos o ingrese el largo del edificio.'}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Haga clic en dos puntos cuya distancia real conozca (por ejemplo, los extremos de una cota) e ingrese esa distancia.
+        El origen es la esquina del edificio que corresponde a (0,0) y el eje X sigue la fachada indicada con dos puntos.
+        Todas las coordenadas en metros, radios de cobertura y tablas del PDF usan esta calibración.
+      </p>
+    </div>
+  );
+};
+
+export default PlanCalibrationPanel;
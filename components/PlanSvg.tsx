@@ -0,0 +1,146 @@
+import React, { useMemo } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import type { APCoordinate, BuildingOutline, CapacityZone, ChannelAssignment, PlanCalibration, PlanningZone, SignalHeatmap, Wall } from '../types';
+import type { SvgImage } from '../utils/svgExport';
+import { renderHeatmapDataUrl } from '../utils/heatmapImage';
+import { MATERIAL_COLORS } from '../services/obstacleService';
+import { channelColor } from '../services/channelPlanningService';
+import { apCoverageRadius } from '../services/coverageAnalysisService';
+import { PLANNING_ZONE_COLORS } from '../services/planningZoneService';
+import { outlineToSvgPath } from '../utils/geometry';
+import { metersToPixelsSvgTransform, metersToPlanPixel } from '../utils/planTransform';
+import SignalLegendSvg from './SignalLegendSvg';
+
+export interface PlanSvgProps {
+  imageDataUrl: string;
+  naturalSize: { width: number; height: number };
+  manualAPs: APCoordinate[]; // Original image pixels
+  coverageRadiusMeters: number;
+  modelRadii?: Record<string, number>; // Meters, for APs that carry their own model, by model id
+  planTransform: PlanCalibration | null;
+  signalHeatmap?: SignalHeatmap | null;
+  signalThresholdDbm?: number;
+  walls?: Wall[];
+  buildingOutline?: BuildingOutline | null;
+  channelAssignment?: ChannelAssignment | null;
+  capacityZones?: CapacityZone[];
+  planningZones?: PlanningZone[];
+  idfLocation?: APCoordinate | null; // Building meters
+}
+
+// Marker and text sizes follow the image size, so a 4000 px scan and a 800 px sketch export alike.
+const sizes = (naturalSize: { width: number; height: number }) => {
+  const unit = Math.max(naturalSize.width, naturalSize.height) / 800;
+  return { marker: 6 * unit, font: 12 * unit, stroke: 1.5 * unit, legend: 30 * unit };
+};
+
+// The uploaded plan with its manual APs and meter-based overlays, drawn at the image's own pixel size.
+// Unlike InteractivePlanDisplay it has no interaction, so it can be serialized to a standalone file.
+const PlanSvg: React.FC<PlanSvgProps> = ({ imageDataUrl, naturalSize, manualAPs, coverageRadiusMeters, modelRadii = {}, planTransform, signalHeatmap, signalThresholdDbm = -67, walls = [], buildingOutline = null, channelAssignment = null, capacityZones = [], planningZones = [], idfLocation = null }) => {
+  const heatmapDataUrl = useMemo(
+    () => (signalHeatmap ? renderHeatmapDataUrl(signalHeatmap, signalThresholdDbm) : null),
+    [signalHeatmap, signalThresholdDbm]
+  );
+  const size = sizes(naturalSize);
+  const height = naturalSize.height + (heatmapDataUrl ? size.legend : 0);
+  const coverageRadiusPx = (ap: APCoordinate) => (planTransform ? apCoverageRadius(ap, coverageRadiusMeters, modelRadii) * planTransform.pixelsPerMeter : 0);
+  const idfPx = planTransform && idfLocation ? metersToPlanPixel(idfLocation, planTransform) : null;
+
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox={`0 0 ${naturalSize.width} ${height}`} width={naturalSize.width} height={height} fontFamily="Inter, sans-serif">
+      <image href={imageDataUrl} x={0} y={0} width={naturalSize.width} height={naturalSize.height} />
+      {planTransform && (
+        <g transform={metersToPixelsSvgTransform(planTransform)}>
+          {heatmapDataUrl && signalHeatmap && (
+            <image
+              href={heatmapDataUrl}
+              x={0}
+              y={0}
+              width={signalHeatmap.cols * signalHeatmap.cellWidth}
+              height={signalHeatmap.rows * signalHeatmap.cellHeight}
+              preserveAspectRatio="none"
+              style={{ imageRendering: 'pixelated' }}
+            />
+          )}
+          {buildingOutline && (
+            <path d={outlineToSvgPath(buildingOutline, p => p)} fillRule="evenodd" fill="rgba(37, 99, 235, 0.08)" stroke="#2563eb" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          )}
+          {planningZones.map(zone => (
+            <polygon
+              key={zone.id}
+              points={zone.polygon.map(p => `${p.x},${p.y}`).join(' ')}
+              fill={PLANNING_ZONE_COLORS[zone.kind]}
+              fillOpacity={0.12}
+              stroke={PLANNING_ZONE_COLORS[zone.kind]}
+              strokeWidth={2}
+              strokeDasharray={zone.kind === 'priority' ? undefined : '4 4'}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {capacityZones.map(zone => (
+            <polygon
+              key={zone.id}
+              points={zone.polygon.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="rgba(249, 115, 22, 0.12)"
+              stroke="#ea580c"
+              strokeWidth={2}
+              strokeDasharray="6 3"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {walls.map(wall => (
+            <polyline
+              key={wall.id}
+              points={wall.points.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="none"
+              stroke={MATERIAL_COLORS[wall.material]}
+              strokeWidth={wall.kind === 'wall' ? 4 : 3}
+              strokeDasharray={wall.kind === 'door' ? '8 4' : wall.kind === 'window' ? '2 3' : undefined}
+              strokeLinecap="round"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </g>
+      )}
+      {idfPx && (
+        <g>
+          <rect x={idfPx.x - size.marker} y={idfPx.y - size.marker} width={2 * size.marker} height={2 * size.marker} fill="#7c3aed" stroke="#ffffff" strokeWidth={size.stroke} />
+          <text x={idfPx.x + size.marker + size.font * 0.3} y={idfPx.y + size.font * 0.35} fontSize={size.font} fontWeight="700" fill="#7c3aed" stroke="#ffffff" strokeWidth={size.font * 0.05} paintOrder="stroke">
+            IDF
+          </text>
+        </g>
+      )}
+      {manualAPs.map((ap, index) => (
+        <g key={`plan-ap-${index}`}>
+          {coverageRadiusPx(ap) > 0 && (
+            <circle cx={ap.x} cy={ap.y} r={coverageRadiusPx(ap)} fill="rgba(52, 211, 153, 0.2)" stroke="rgba(16, 185, 129, 0.5)" strokeWidth={size.stroke} strokeDasharray={`${3 * size.stroke} ${2 * size.stroke}`} />
+          )}
+          <circle
+            cx={ap.x}
+            cy={ap.y}
+            r={size.marker}
+            fill={channelAssignment ? channelColor(channelAssignment.channels[index], channelAssignment.channelPool) : 'rgba(239, 68, 68, 0.9)'}
+            stroke="#ffffff"
+            strokeWidth={size.stroke}
+          />
+          <text x={ap.x + size.marker + size.font * 0.3} y={ap.y + size.font * 0.35} fontSize={size.font} fontWeight="600" fill="#1f2937" stroke="#ffffff" strokeWidth={size.font * 0.05} paintOrder="stroke">
+            AP{index + 1}{channelAssignment && ` · ch${channelAssignment.channels[index]}`}
+          </text>
+        </g>
+      ))}
+      {heatmapDataUrl && (
+        <>
+          <rect x={0} y={naturalSize.height} width={naturalSize.width} height={size.legend} fill="#ffffff" />
+          <SignalLegendSvg thresholdDbm={signalThresholdDbm} x={size.font} y={naturalSize.height + (size.legend - size.font) / 2} fontSize={size.font} />
+        </>
+      )}
+    </svg>
+  );
+};
+
+export const renderPlanSvg = (props: PlanSvgProps): SvgImage => {
+  const height = props.naturalSize.height + (props.signalHeatmap ? sizes(props.naturalSize).legend : 0);
+  return { markup: renderToStaticMarkup(<PlanSvg {...props} />), width: props.naturalSize.width, height };
+};
+
+export default PlanSvg;
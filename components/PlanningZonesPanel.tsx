@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import Button from './Button';
+import type { PlanningZone, PlanningZoneKind } from '../types';
+import { createPlanningZone, PLANNING_ZONE_COLORS, PLANNING_ZONE_KIND_LABELS } from '../services/planningZoneService';
+import { parseVertexList, polygonArea } from '../utils/geometry';
+
+export type PlanningZoneDrawShape = 'rectangle' | 'polygon';
+
+const KIND_OPTIONS = (Object.keys(PLANNING_ZONE_KIND_LABELS) as PlanningZoneKind[]).map(kind => ({ value: kind, label: PLANNING_ZONE_KIND_LABELS[kind] }));
+
+interface PlanningZonesPanelProps {
+  zones: PlanningZone[];
+  onZonesChange: (zones: PlanningZone[]) => void;
+  newZoneKind: PlanningZoneKind; // Kind given to zones added from the vertex list or drawn on the plan
+  onNewZoneKindChange: (kind: PlanningZoneKind) => void;
+  canDrawOnPlan: boolean;
+  drawingShape: PlanningZoneDrawShape | null;
+  onToggleDraw: (shape: PlanningZoneDrawShape) => void;
+}
+
+const PlanningZonesPanel: React.FC<PlanningZonesPanelProps> = ({ zones, onZonesChange, newZoneKind, onNewZoneKindChange, canDrawOnPlan, drawingShape, onToggleDraw }) => {
+  const [vertexInput, setVertexInput] = useState('');
+  const [vertexError, setVertexError] = useState<string | null>(null);
+
+  const updateZone = (id: string, changes: Partial<PlanningZone>) => onZonesChange(zones.map(zone => (zone.id === id ? { ...zone, ...changes } : zone)));
+
+  const addZoneFromVertices = () => {
+    const polygon = parseVertexList(vertexInput);
+    if (!polygon || polygon.length < 3 || polygonArea(polygon) <= 0) {
+      setVertexError('La zona necesita al menos 3 vértices con formato "x,y; x,y; x,y".');
+      return;
+    }
+    onZonesChange([...zones, createPlanningZone(`Zona ${zones.length + 1}`, polygon, newZoneKind)]);
+    setVertexInput('');
+    setVertexError(null);
+  };
+
+  return (
+    <fieldset className="border border-gray-200 rounded-lg p-4">
+      <legend className="px-2 text-sm font-semibold text-gray-700">Zonas de Planificación</legend>
+
+      {zones.length > 0 && (
+        <div className="overflow-x-auto mb-3">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Zona</th>
+                <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tipo</th>
+                <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Área</th>
+                <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Objetivo</th>
+                <th scope="col" className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {zones.map(zone => (
+                <tr key={zone.id}>
+                  <td className="px-3 py-1">
+                    <input aria-label="Nombre de la zona" className="w-full px-2 py-1 border border-gray-300 rounded-md" value={zone.name} onChange={(e) => updateZone(zone.id, { name: e.target.value })} />
+                  </td>
+                  <td className="px-3 py-1 whitespace-nowrap">
+                    <span className="inline-block w-3 h-3 rounded-sm mr-2 align-middle" style={{ backgroundColor: PLANNING_ZONE_COLORS[zone.kind] }} />
+                    <select
+                      aria-label="Tipo de zona"
+                      className="px-2 py-1 border border-gray-300 rounded-md"
+                      value={zone.kind}
+                      onChange={(e) => updateZone(zone.id, { kind: e.target.value as PlanningZoneKind })}
+                    >
+                      {KIND_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-3 py-1 whitespace-nowrap text-gray-600">{polygonArea(zone.polygon).toFixed(1)} m²</td>
+                  <td className="px-3 py-1 whitespace-nowrap">
+                    {zone.kind === 'priority' ? (
+                      <>
+                        <input
+                          aria-label="Señal objetivo (dBm)"
+                          type="number"
+                          max="0"
+                          step="1"
+                          className="w-20 px-2 py-1 border border-gray-300 rounded-md mr-1"
+                          value={zone.targetDbm}
+                          onChange={(e) => updateZone(zone.id, { targetDbm: Math.min(0, parseFloat(e.target.value) || 0) })}
+                        />
+                        <span className="text-gray-600 mr-2">dBm en</span>
+                        <input
+                          aria-label="Cobertura objetivo (%)"
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="1"
+                          className="w-20 px-2 py-1 border border-gray-300 rounded-md mr-1"
+                          value={zone.targetCoveragePercent}
+                          onChange={(e) => updateZone(zone.id, { targetCoveragePercent: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                        />
+                        <span className="text-gray-600">%</span>
+                      </>
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-1 text-right">
+                    <button type="button" className="text-xs text-red-600 hover:underline" onClick={() => onZonesChange(zones.filter(z => z.id !== zone.id))}>Eliminar</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row md:items-end gap-2">
+        <div>
+          <label htmlFor="planningZoneKind" className="block text-sm font-medium text-gray-700 mb-1">Tipo de la nueva zona</label>
+          <select
+            id="planningZoneKind"
+            className="block px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm sm:text-sm"
+            value={newZoneKind}
+            onChange={(e) => onNewZoneKindChange(e.target.value as PlanningZoneKind)}
+          >
+            {KIND_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </div>
+        <div className="flex-grow">
+          <label htmlFor="planningZoneVertices" className="block text-sm font-medium text-gray-700 mb-1">Vértices (m)</label>
+          <input
+            id="planningZoneVertices"
+            value={vertexInput}
+            onChange={(e) => setVertexInput(e.target.value)}
+            placeholder="Ej: 0,0; 15,0; 15,10; 0,10"
+            className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm sm:text-sm font-mono"
+          />
+        </div>
+        <Button type="button" size="sm" variant="secondary" onClick={addZoneFromVertices}>Agregar zona</Button>
+        <Button type="button" size="sm" variant={drawingShape === 'rectangle' ? 'primary' : 'secondary'} onClick={() => onToggleDraw('rectangle')} disabled={!canDrawOnPlan}>
+          {drawingShape === 'rectangle' ? 'Cancelar dibujo' : 'Dibujar rectángulo'}
+        </Button>
+        <Button type="button" size="sm" variant={drawingShape === 'polygon' ? 'primary' : 'secondary'} onClick={() => onToggleDraw('polygon')} disabled={!canDrawOnPlan}>
+          {drawingShape === 'polygon' ? 'Cancelar dibujo' : 'Dibujar polígono'}
+        </Button>
+      </div>
+      {vertexError && <p className="mt-1 text-sm text-red-600">{vertexError}</p>}
+      <p className="mt-2 text-xs text-gray-500">
+        Los algoritmos no colocan APs en las zonas «Sin APs» y no intentan cubrir las zonas «Sin cobertura necesaria».
+        Cada zona prioritaria debe alcanzar su señal objetivo en el porcentaje indicado de su área; si no lo hace, se añaden APs en sus huecos.
+        El rectángulo se dibuja con dos clics en esquinas opuestas.
+      </p>
+    </fieldset>
+  );
+};
+
+export default PlanningZonesPanel;
@@ -0,0 +1,46 @@
+import React, { useRef } from 'react';
+import Button from './Button';
+
+interface ProjectToolbarProps {
+  projectName: string;
+  onProjectNameChange: (name: string) => void;
+  onSave: () => void;
+  onOpen: (file: File) => void;
+  status: { kind: 'info' | 'error'; message: string } | null;
+  disabled?: boolean;
+}
+
+const ProjectToolbar: React.FC<ProjectToolbarProps> = ({ projectName, onProjectNameChange, onSave, onOpen, status, disabled }) => {
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so that picking the same file again still fires a change.
+    event.target.value = '';
+    if (file) onOpen(file);
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row md:items-center gap-2">
+      <input
+        aria-label="Nombre del proyecto"
+        className="px-2 py-1 border border-gray-300 rounded-md text-sm md:w-64"
+        value={projectName}
+        onChange={(e) => onProjectNameChange(e.target.value)}
+        placeholder="Nombre del proyecto"
+      />
+      <div className="flex gap-2">
+        <Button type="button" size="sm" variant="secondary" onClick={onSave} disabled={disabled}>Guardar Proyecto</Button>
+        <Button type="button" size="sm" variant="secondary" onClick={() => projectInputRef.current?.click()} disabled={disabled}>Abrir Proyecto</Button>
+        <input ref={projectInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} aria-label="Archivo de proyecto" />
+      </div>
+      {status && (
+        <p className={`text-sm ${status.kind === 'error' ? 'text-red-600' : 'text-green-700'}`} role={status.kind === 'error' ? 'alert' : 'status'}>
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ProjectToolbar;
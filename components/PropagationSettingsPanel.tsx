@@ -0,0 +1,89 @@
+import React from 'react';
+import Input from './Input';
+import Select from './Select';
+import type { FrequencyBand, PropagationFormState, PropagationSettings } from '../types';
+import { DEFAULT_PROPAGATION_SETTINGS, freeSpaceReferenceLoss, thresholdDistance } from '../services/propagationService';
+
+export const initialPropagationFormState: PropagationFormState = {
+  enabled: DEFAULT_PROPAGATION_SETTINGS.enabled,
+  showHeatmap: false,
+  txPowerDbm: String(DEFAULT_PROPAGATION_SETTINGS.txPowerDbm),
+  band: DEFAULT_PROPAGATION_SETTINGS.band,
+  pathLossExponent: String(DEFAULT_PROPAGATION_SETTINGS.pathLossExponent),
+  referenceLossDb: String(DEFAULT_PROPAGATION_SETTINGS.referenceLossDb),
+  thresholdDbm: String(DEFAULT_PROPAGATION_SETTINGS.thresholdDbm),
+};
+
+// Falls back to the default for any field that is not a valid number.
+export const toPropagationSettings = (form: PropagationFormState): PropagationSettings => {
+  const num = (value: string, fallback: number) => (isNaN(parseFloat(value)) ? fallback : parseFloat(value));
+  return {
+    enabled: form.enabled,
+    txPowerDbm: num(form.txPowerDbm, DEFAULT_PROPAGATION_SETTINGS.txPowerDbm),
+    band: form.band,
+    pathLossExponent: num(form.pathLossExponent, DEFAULT_PROPAGATION_SETTINGS.pathLossExponent),
+    referenceLossDb: num(form.referenceLossDb, freeSpaceReferenceLoss(form.band)),
+    thresholdDbm: num(form.thresholdDbm, DEFAULT_PROPAGATION_SETTINGS.thresholdDbm),
+  };
+};
+
+const BAND_LABELS: Record<FrequencyBand, string> = {
+  '2.4': '2.4 GHz',
+  '5': '5 GHz',
+  '6': '6 GHz',
+};
+
+interface PropagationSettingsPanelProps {
+  form: PropagationFormState;
+  onChange: (form: PropagationFormState) => void;
+  apModelName?: string; // Set when an AP model fixes the EIRP, and so the radius
+}
+
+const PropagationSettingsPanel: React.FC<PropagationSettingsPanelProps> = ({ form, onChange, apModelName }) => {
+  const settings = toPropagationSettings(form);
+  const radius = thresholdDistance(settings);
+
+  const update = (changes: Partial<PropagationFormState>) => onChange({ ...form, ...changes });
+
+  return (
+    <fieldset className="border border-gray-200 rounded-lg p-4">
+      <legend className="px-2 text-sm font-semibold text-gray-700">Modelo de Propagación (log-distancia)</legend>
+      <div className="flex flex-col sm:flex-row sm:space-x-6 space-y-2 sm:space-y-0 mb-4 text-sm text-gray-700">
+        <label className="flex items-center">
+          <input type="checkbox" className="mr-2" checked={form.enabled || Boolean(apModelName)} disabled={Boolean(apModelName)} onChange={(e) => update({ enabled: e.target.checked })} />
+          Derivar el radio de cobertura del modelo{apModelName && ' (activado por el modelo de AP)'}
+        </label>
+        <label className="flex items-center">
+          <input type="checkbox" className="mr-2" checked={form.showHeatmap} onChange={(e) => update({ showHeatmap: e.target.checked })} />
+          Mostrar mapa de calor de señal
+        </label>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6">
+        <Input label="Potencia de Transmisión (dBm)" id="txPowerDbm" type="number" step="0.5" value={form.txPowerDbm} onChange={(e) => update({ txPowerDbm: e.target.value })} disabled={Boolean(apModelName)} />
+        <Select
+          label="Banda"
+          id="frequencyBand"
+          value={form.band}
+          onChange={(e) => {
+            const band = e.target.value as FrequencyBand;
+            update({ band, referenceLossDb: String(freeSpaceReferenceLoss(band)) });
+          }}
+          options={(Object.keys(BAND_LABELS) as FrequencyBand[]).map(band => ({ value: band, label: BAND_LABELS[band] }))}
+        />
+        <Input label="Exponente de Pérdida (n)" id="pathLossExponent" type="number" step="0.1" min="1" value={form.pathLossExponent} onChange={(e) => update({ pathLossExponent: e.target.value })} />
+        <Input label="Pérdida de Referencia a 1 m (dB)" id="referenceLossDb" type="number" step="0.1" value={form.referenceLossDb} onChange={(e) => update({ referenceLossDb: e.target.value })} />
+        <Input label="Umbral de Cobertura (dBm)" id="thresholdDbm" type="number" step="1" value={form.thresholdDbm} onChange={(e) => update({ thresholdDbm: e.target.value })} />
+        <div className="mb-4 text-sm text-gray-700 self-end">
+          {apModelName
+            ? <>Potencia y radio fijados por el modelo de AP <span className="font-semibold">{apModelName}</span></>
+            : <>Distancia umbral: <span className="font-semibold">{radius.toFixed(2)} m</span></>}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Umbrales típicos: -67 dBm para voz, -70 dBm para datos, -75 dBm para cobertura básica. Al cambiar la banda, la pérdida de referencia se reinicia a la de espacio libre.
+      </p>
+    </fieldset>
+  );
+};
+
+export default PropagationSettingsPanel;
@@ -0,0 +1,59 @@
+import React from 'react';
+import Button from './Button';
+import type { RecentProjectSummary } from '../types';
+
+interface RecentProjectsPanelProps {
+  projects: RecentProjectSummary[];
+  currentProjectId: string;
+  sessionOffer: RecentProjectSummary | null; // Last session found at startup, until restored or dismissed
+  onRestore: (id: string) => void;
+  onDelete: (id: string) => void;
+  onDismissOffer: () => void;
+  lastAutosaveAt: Date | null;
+  disabled?: boolean;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString('es');
+
+const RecentProjectsPanel: React.FC<RecentProjectsPanelProps> = ({ projects, currentProjectId, sessionOffer, onRestore, onDelete, onDismissOffer, lastAutosaveAt, disabled }) => {
+  const others = projects.filter(project => project.id !== currentProjectId);
+
+  return (
+    <div className="space-y-3">
+      {sessionOffer && (
+        <div className="p-3 bg-indigo-50 border border-indigo-200 rounded-lg flex flex-col md:flex-row md:items-center md:justify-between gap-2" role="status">
+          <p className="text-sm text-indigo-900">
+            Hay una sesión anterior guardada: <span className="font-semibold">{sessionOffer.name}</span> ({formatDate(sessionOffer.savedAt)}).
+          </p>
+          <div className="flex gap-2">
+            <Button type="button" size="sm" onClick={() => onRestore(sessionOffer.id)} disabled={disabled}>Restaurar sesión anterior</Button>
+            <Button type="button" size="sm" variant="secondary" onClick={onDismissOffer}>Descartar</Button>
+          </div>
+        </div>
+      )}
+      {others.length > 0 && (
+        <details className="border border-gray-200 rounded-lg p-3">
+          <summary className="text-sm font-semibold text-gray-700 cursor-pointer">Proyectos recientes ({others.length})</summary>
+          <ul className="mt-2 divide-y divide-gray-200">
+            {others.map(project => (
+              <li key={project.id} className="py-2 flex items-center justify-between gap-2 text-sm">
+                <span className="text-gray-800">
+                  {project.name} <span className="text-gray-500">· {project.floorCount} planta(s) · {formatDate(project.savedAt)}</span>
+                </span>
+                <span className="flex gap-3">
+                  <button type="button" className="text-xs text-indigo-600 hover:underline disabled:text-gray-400" onClick={() => onRestore(project.id)} disabled={disabled}>Abrir</button>
+                  <button type="button" className="text-xs text-red-600 hover:underline" onClick={() => onDelete(project.id)}>Eliminar</button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {lastAutosaveAt && (
+        <p className="text-xs text-gray-500">Guardado automáticamente en este navegador a las {lastAutosaveAt.toLocaleTimeString('es')}.</p>
+      )}
+    </div>
+  );
+};
+
+export default RecentProjectsPanel;
@@ -0,0 +1,66 @@
+import React from 'react';
+import Button from './Button';
+import type { PlacementSource } from '../types';
+import type { ReportOptions, ReportSectionId } from '../services/reportService';
+import { REPORT_SECTION_LABELS, REPORT_SECTION_ORDER, REPORT_SOURCE_LABELS } from '../services/reportService';
+
+interface ReportBuilderPanelProps {
+  options: ReportOptions;
+  onChange: (options: ReportOptions) => void;
+  availableSources: Record<PlacementSource, boolean>; // Sources with APs on the active floor
+  onGenerate: () => void;
+  isGenerating: boolean;
+}
+
+const ReportBuilderPanel: React.FC<ReportBuilderPanelProps> = ({ options, onChange, availableSources, onGenerate, isGenerating }) => {
+  const toggleSection = (section: ReportSectionId, checked: boolean) => onChange({ ...options, sections: { ...options.sections, [section]: checked } });
+  const toggleSource = (source: PlacementSource, checked: boolean) => onChange({ ...options, sources: { ...options.sources, [source]: checked } });
+  const sources = Object.keys(REPORT_SOURCE_LABELS) as PlacementSource[];
+  const includedSources = sources.filter(source => availableSources[source] && options.sources[source]);
+  const hasContent = REPORT_SECTION_ORDER.some(section => options.sections[section]);
+
+  return (
+    <div className="mt-10 bg-white shadow-xl rounded-lg p-6 md:p-8">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h2 className="text-2xl font-semibold text-gray-800">Informe PDF</h2>
+        <Button type="button" size="sm" onClick={onGenerate} disabled={isGenerating || !hasContent}>
+          {isGenerating ? 'Generando...' : 'Generar Informe'}
+        </Button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <fieldset>
+          <legend className="text-sm font-semibold text-gray-700 mb-2">Secciones</legend>
+          {REPORT_SECTION_ORDER.map(section => (
+            <label key={section} className="flex items-center mb-1 text-sm text-gray-700">
+              <input type="checkbox" className="mr-2" checked={options.sections[section]} onChange={(e) => toggleSection(section, e.target.checked)} />
+              {REPORT_SECTION_LABELS[section]}
+            </label>
+          ))}
+        </fieldset>
+        <fieldset>
+          <legend className="text-sm font-semibold text-gray-700 mb-2">Diseños incluidos</legend>
+          {sources.map(source => (
+            <label key={source} className={`flex items-center mb-1 text-sm ${availableSources[source] ? 'text-gray-700' : 'text-gray-400'}`}>
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={availableSources[source] && options.sources[source]}
+                disabled={!availableSources[source]}
+                onChange={(e) => toggleSource(source, e.target.checked)}
+              />
+              {REPORT_SOURCE_LABELS[source]}{!availableSources[source] && ' (sin APs en esta planta)'}
+            </label>
+          ))}
+          {includedSources.length === 0 && (
+            <p className="text-xs text-gray-500 mt-2">Sin diseños incluidos, el informe solo tendrá la portada, los parámetros y la lista de materiales.</p>
+          )}
+        </fieldset>
+      </div>
+      <p className="text-xs text-gray-500 mt-4">
+        El informe describe la planta activa; la lista de materiales suma todas las plantas. Incluye índice y números de página.
+      </p>
+    </div>
+  );
+};
+
+export default ReportBuilderPanel;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { getSignalColorBands } from '../utils/heatmapImage';
+
+interface SignalLegendProps {
+  thresholdDbm: number;
+}
+
+const SignalLegend: React.FC<SignalLegendProps> = ({ thresholdDbm }) => {
+  const bands = getSignalColorBands(thresholdDbm);
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-700" aria-label="Leyenda de intensidad de señal">
+      <span className="font-medium">RSSI:</span>
+      {bands.map(band => (
+        <span key={band.label} className="flex items-center">
+          <span className="inline-block w-3 h-3 mr-1 rounded-sm" style={{ backgroundColor: `rgb(${band.rgb.join(',')})` }} />
+          {band.label}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default SignalLegend;
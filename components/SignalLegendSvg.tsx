@@ -0,0 +1,34 @@
+import React from 'react';
+import { getSignalColorBands } from '../utils/heatmapImage';
+
+interface SignalLegendSvgProps {
+  thresholdDbm: number;
+  x: number;
+  y: number; // Top of the legend row
+  fontSize: number;
+}
+
+// SVG counterpart of SignalLegend, for exported images: one row of swatches and labels.
+const SignalLegendSvg: React.FC<SignalLegendSvgProps> = ({ thresholdDbm, x, y, fontSize }) => {
+  const bands = getSignalColorBands(thresholdDbm);
+  const swatch = fontSize;
+  const gap = fontSize * 1.5;
+  let cursor = x + fontSize * 3;
+  return (
+    <g fontFamily="sans-serif" fontSize={fontSize} fill="#374151">
+      <text x={x} y={y + swatch * 0.85} fontWeight="600">RSSI:</text>
+      {bands.map(band => {
+        const start = cursor;
+        cursor += swatch * 1.4 + band.label.length * fontSize * 0.55 + gap;
+        return (
+          <g key={band.label}>
+            <rect x={start} y={y} width={swatch} height={swatch} rx={swatch * 0.15} fill={`rgb(${band.rgb.join(',')})`} />
+            <text x={start + swatch * 1.4} y={y + swatch * 0.85}>{band.label}</text>
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+export default SignalLegendSvg;
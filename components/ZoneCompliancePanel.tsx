@@ -0,0 +1,70 @@
+import React from 'react';
+import type { PlanningZone, ZoneCompliance } from '../types';
+import { PLANNING_ZONE_KIND_LABELS } from '../services/planningZoneService';
+
+interface ZoneCompliancePanelProps {
+  compliance: ZoneCompliance[] | null;
+  zones: PlanningZone[]; // For the targets of priority zones
+}
+
+// What each zone requires, in words, for the compliance table and the report.
+export const zoneRequirement = (zone: Pick<PlanningZone, 'kind' | 'targetDbm' | 'targetCoveragePercent'>): string => {
+  switch (zone.kind) {
+    case 'noMount':
+      return 'Ningún AP dentro';
+    case 'noCoverage':
+      return 'Excluida del análisis';
+    case 'priority':
+      return `${zone.targetCoveragePercent} % del área a ${zone.targetDbm} dBm o más`;
+  }
+};
+
+const ZoneCompliancePanel: React.FC<ZoneCompliancePanelProps> = ({ compliance, zones }) => {
+  if (!compliance || compliance.length === 0) {
+    return null;
+  }
+
+  const failing = compliance.filter(entry => !entry.compliant).length;
+
+  return (
+    <div className="my-4 p-4 border border-gray-200 rounded-lg bg-gray-50">
+      <div className="flex justify-between items-baseline mb-2">
+        <h3 className="text-lg font-semibold text-gray-800">Cumplimiento por Zona</h3>
+        <span className={`text-sm font-semibold ${failing === 0 ? 'text-green-700' : 'text-red-700'}`}>
+          {failing === 0 ? 'Todas las zonas cumplen' : `${failing} de ${compliance.length} zonas no cumplen`}
+        </span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Zona</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tipo</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requisito</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">APs dentro</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cobertura</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Estado</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {compliance.map(entry => {
+              const zone = zones.find(z => z.id === entry.zoneId);
+              return (
+                <tr key={entry.zoneId}>
+                  <td className="px-4 py-1 whitespace-nowrap text-gray-900">{entry.name}</td>
+                  <td className="px-4 py-1 whitespace-nowrap text-gray-700">{PLANNING_ZONE_KIND_LABELS[entry.kind]}</td>
+                  <td className="px-4 py-1 whitespace-nowrap text-gray-700">{zone ? zoneRequirement(zone) : '—'}</td>
+                  <td className="px-4 py-1 whitespace-nowrap text-gray-700">{entry.apsInside}</td>
+                  <td className="px-4 py-1 whitespace-nowrap text-gray-700">{entry.coveragePercent === null ? '—' : `${entry.coveragePercent.toFixed(1)} %`}</td>
+                  <td className={`px-4 py-1 whitespace-nowrap font-medium ${entry.compliant ? 'text-green-700' : 'text-red-700'}`}>{entry.compliant ? 'Cumple' : 'No cumple'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ZoneCompliancePanel;
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { continuePlacementConversation, DEFAULT_AI_RESPONSE_OPTIONS, initialPlacementTurn, parseSuggestionText, validateSuggestions } from './aiPlacementService';
+import type { AiConversationTurn, AiPlacementProvider, AiPlacementRequest } from './aiPlacementService';
+import type { BuildingDimensions } from '../types';
+
+const building: BuildingDimensions = { length: 20, width: 10 };
+
+const request: AiPlacementRequest = { building, coverageArea: 50, planImageDataUrl: null, obstacles: [] };
+
+// Replies with `answers` in turn and records the conversation it was given each time.
+const scriptedProvider = (answers: string[]): AiPlacementProvider & { seen: AiConversationTurn[][] } => {
+  const seen: AiConversationTurn[][] = [];
+  return {
+    label: 'Guion',
+    seen,
+    generate: async (_request, conversation) => {
+      seen.push([...conversation]);
+      return answers[Math.min(seen.length - 1, answers.length - 1)];
+    },
+  };
+};
+
+describe('parseSuggestionText', () => {
+  it('accepts an {"aps": [...]} object inside a code fence', () => {
+    expect(parseSuggestionText('```json\n{"aps": [{"x": 1, "y": 2}]}\n```')).toEqual([{ x: 1, y: 2 }]);
+  });
+
+  it('accepts a bare array', () => {
+    expect(parseSuggestionText('[{"x": 1, "y": 2}]')).toEqual([{ x: 1, y: 2 }]);
+  });
+
+  it('rejects invalid JSON and objects without a list', () => {
+    expect(() => parseSuggestionText('{')).toThrow(/JSON/);
+    expect(() => parseSuggestionText('{"points": []}')).toThrow(/aps/);
+  });
+});
+
+describe('validateSuggestions', () => {
+  it('accepts, rounds and rejects points one by one', () => {
+    const { points, diagnostics } = validateSuggestions(
+      [{ x: 1.234, y: 2.345 }, 'foo', { x: '3', y: 4 }, { x: 25, y: 5 }, { x: 1.235, y: 2.345 }],
+      building,
+      DEFAULT_AI_RESPONSE_OPTIONS
+    );
+    expect(points).toEqual([{ x: 1.23, y: 2.35 }]);
+    expect(diagnostics.map(d => d.status)).toEqual(['accepted', 'rejected', 'rejected', 'rejected', 'rejected']);
+  });
+
+  it('snaps points just outside the building when allowed', () => {
+    const options = { ...DEFAULT_AI_RESPONSE_OPTIONS, outOfBounds: 'snap' as const, snapToleranceM: 1 };
+    const { points, diagnostics } = validateSuggestions([{ x: 20.5, y: 5 }, { x: 30, y: 5 }], building, options);
+    expect(points).toEqual([{ x: 20, y: 5 }]);
+    expect(diagnostics.map(d => d.status)).toEqual(['snapped', 'rejected']);
+  });
+});
+
+describe('continuePlacementConversation', () => {
+  it('retries a malformed answer with a corrective turn and keeps the diagnostics', async () => {
+    const provider = scriptedProvider(['{"aps": [', '{"aps": [{"x": 4, "y": 5}]}']);
+    const { result, conversation } = await continuePlacementConversation(provider, request, [initialPlacementTurn(request)]);
+
+    expect(result.coordinates).toEqual([{ x: 4, y: 5 }]);
+    expect(result.aiDiagnostics?.provider).toBe('Guion');
+    expect(result.aiDiagnostics?.attempts).toEqual([
+      { attempt: 1, error: expect.stringContaining('no es JSON válido') },
+      { attempt: 2, error: null },
+    ]);
+    const retry = provider.seen[1];
+    expect(retry.map(turn => turn.role)).toEqual(['user', 'assistant', 'user']);
+    expect(retry[1].text).toBe('{"aps": [');
+    expect(retry[2].text).toMatch(/^Tu respuesta anterior no se pudo usar: la respuesta no es JSON válido/);
+    expect(conversation).toHaveLength(4);
+  });
+
+  it('quotes rejected points in the corrective turn', async () => {
+    const provider = scriptedProvider(['{"aps": [{"x": 50, "y": 5}]}', '{"aps": [{"x": 4, "y": 5}]}']);
+    await continuePlacementConversation(provider, request, [initialPlacementTurn(request)]);
+    const corrective = provider.seen[1][2].text;
+    expect(corrective).toContain('ningún punto es válido');
+    expect(corrective).toContain('- elemento 1: fuera del edificio');
+  });
+
+  it('gives up after maxAttempts with the last problem', async () => {
+    const provider = scriptedProvider(['no hay JSON', '{"puntos": []}']);
+    const options = { ...DEFAULT_AI_RESPONSE_OPTIONS, maxAttempts: 2 };
+    const { result, conversation } = await continuePlacementConversation(provider, request, [initialPlacementTurn(request)], options);
+
+    expect(provider.seen).toHaveLength(2);
+    expect(result.nAP).toBe(0);
+    expect(result.aiDiagnostics?.attempts.map(a => a.attempt)).toEqual([1, 2]);
+    expect(result.message).toBe('La IA no devolvió ubicaciones válidas tras 2 intento(s). Último problema: el JSON no es un objeto con una lista "aps".');
+    expect(conversation[conversation.length - 1].role).toBe('user');
+  });
+
+  it('does not retry provider errors', async () => {
+    const provider: AiPlacementProvider = { label: 'Caído', generate: async () => { throw new Error('HTTP 500'); } };
+    await expect(continuePlacementConversation(provider, request, [initialPlacementTurn(request)])).rejects.toThrow('HTTP 500');
+  });
+});
@@ -0,0 +1,224 @@
+import type { AiAttemptDiagnostic, AiPointDiagnostic, AiResponseOptions, APCoordinate, BuildingDimensions, OptimizationResult, Wall } from '../types';
+import { formatVertexList, isInsideBuilding, isInsideOutline, snapInsideOutline } from '../utils/geometry';
+
+// Everything a provider may use to suggest placements. Coordinates are building meters.
+export interface AiPlacementRequest {
+  building: BuildingDimensions;
+  coverageArea: number; // m² per AP
+  planImageDataUrl: string | null;
+  obstacles: Wall[];
+}
+
+// One turn of the exchange with the model. Retries append the rejected answer and a corrective user turn.
+export interface AiConversationTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  imageDataUrl?: string; // Sent along with a user turn: the plan, or a drawing of a round's coverage
+}
+
+// A backend that suggests AP positions. It returns the model's raw text for the conversation so far;
+// parsing, validation and retries are shared.
+export interface AiPlacementProvider {
+  label: string;
+  generate: (request: AiPlacementRequest, conversation: AiConversationTurn[]) => Promise<string>;
+}
+
+export const DEFAULT_AI_RESPONSE_OPTIONS: AiResponseOptions = {
+  outOfBounds: 'reject',
+  snapToleranceM: 1,
+  maxAttempts: 3,
+};
+
+// JSON Schema of the expected answer. Providers that support structured output send it with the request.
+export const PLACEMENT_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    aps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { x: { type: 'number' }, y: { type: 'number' } },
+        required: ['x', 'y'],
+      },
+    },
+  },
+  required: ['aps'],
+};
+
+const DUPLICATE_DISTANCE_M = 0.05;
+
+export const buildPlacementPrompt = ({ building, coverageArea, planImageDataUrl, obstacles }: AiPlacementRequest): string => {
+  const { length, width, outline } = building;
+  let promptText = `Eres un experto en planificación de redes Wi-Fi. Para un edificio de ${length}m de largo por ${width}m de ancho, y donde cada AP cubre aproximadamente ${coverageArea}m², sugiere coordenadas X,Y óptimas para los Puntos de Acceso.
+El origen (0,0) es la esquina superior izquierda del edificio.
+Las coordenadas X deben estar entre 0 y ${length}.
+Las coordenadas Y deben estar entre 0 y ${width}.
+IMPORTANTE: Devuelve tu respuesta ÚNICAMENTE como un objeto JSON {"aps": [...]}, donde cada elemento es {"x": number, "y": number}. No incluyas ninguna otra explicación o texto fuera del JSON. Ejemplo: {"aps": [{"x": 10.5, "y": 20.0}, {"x": 30.2, "y": 15.7}]}`;
+
+  if (outline) {
+    promptText += `\nEl edificio NO es rectangular. Su planta es el polígono ${formatVertexList(outline.outer)} (vértices x,y en metros).`;
+    if (outline.holes.length > 0) {
+      promptText += ` Las siguientes zonas no forman parte del edificio (huecos, patios o atrios): ${outline.holes.map(hole => `[${formatVertexList(hole)}]`).join(', ')}.`;
+    }
+    promptText += ' Todas las coordenadas deben quedar dentro del polígono y fuera de los huecos.';
+  }
+
+  if (obstacles.length > 0) {
+    const obstacleLines = obstacles.map(wall =>
+      `- ${wall.kind} (${wall.material}, ${wall.lossDb} dB): ${wall.points.map(p => `(${p.x.toFixed(1)}, ${p.y.toFixed(1)})`).join(' -> ')}`
+    ).join('\n');
+    promptText += `\nObstáculos conocidos (polilíneas en metros, con su atenuación). Evita que los APs queden detrás de obstáculos de alta pérdida respecto a las zonas que deben cubrir:\n${obstacleLines}`;
+  }
+
+  if (planImageDataUrl) {
+    promptText += "\nSe proporciona una imagen del plano. Considera el diseño visual, los posibles obstáculos y los espacios abiertos para refinar las ubicaciones de los AP para una cobertura óptima y una interferencia mínima. Coloca los AP en ubicaciones sensatas según la información visual.";
+  }
+  return promptText;
+};
+
+// Splits a "data:<mime>;base64,<data>" URL, as the plan is stored, into what inline-image APIs expect.
+export const splitDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  const [header, data] = dataUrl.split(',');
+  const mimeMatch = header.match(/^data:([^;]+)/);
+  return { mimeType: mimeMatch ? mimeMatch[1] : 'image/png', data };
+};
+
+// Why an answer could not be used, phrased so it can be sent back to the model.
+class MalformedResponseError extends Error {}
+
+// Reads the JSON a text model was asked for, tolerating a Markdown code fence around it and a bare array
+// instead of the {"aps": [...]} object. Returns the raw list items; each is validated separately.
+export const parseSuggestionText = (text: string): unknown[] => {
+  let jsonStr = text.trim();
+  const match = jsonStr.match(/^```(?:json)?\s*\n?(.*?)\n?\s*```$/s);
+  if (match && match[1]) {
+    jsonStr = match[1].trim();
+  }
+  let parsedData: unknown;
+  try {
+    parsedData = JSON.parse(jsonStr);
+  } catch (e) {
+    throw new MalformedResponseError(`la respuesta no es JSON válido (${e instanceof Error ? e.message : String(e)})`);
+  }
+  if (Array.isArray(parsedData)) return parsedData;
+  if (typeof parsedData === 'object' && parsedData !== null && 'aps' in parsedData && Array.isArray(parsedData.aps)) return parsedData.aps;
+  throw new MalformedResponseError('el JSON no es un objeto con una lista "aps"');
+};
+
+const inBounds = (point: APCoordinate, building: BuildingDimensions): APCoordinate => {
+  if (building.outline) return snapInsideOutline(point, building.outline, 0.02); // Survives rounding to centimetres
+  return { x: Math.min(Math.max(point.x, 0), building.length), y: Math.min(Math.max(point.y, 0), building.width) };
+};
+
+const round = (point: APCoordinate): APCoordinate => ({ x: parseFloat(point.x.toFixed(2)), y: parseFloat(point.y.toFixed(2)) });
+
+// Decides every suggested point on its own and says why it was not taken as is. Out-of-bounds points are
+// clamped to the rectangle, or snapped across the nearest outline edge, when that moves them little enough.
+export const validateSuggestions = (items: unknown[], building: BuildingDimensions, options: AiResponseOptions): { points: APCoordinate[]; diagnostics: AiPointDiagnostic[] } => {
+  const points: APCoordinate[] = [];
+  const diagnostics = items.map((item, index): AiPointDiagnostic => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) return { index, status: 'rejected', reason: 'no es un objeto {x, y}' };
+    const raw = item as Record<string, unknown>;
+    if (typeof raw.x !== 'number' || typeof raw.y !== 'number' || !Number.isFinite(raw.x) || !Number.isFinite(raw.y)) {
+      return { index, status: 'rejected', reason: `x/y no son números finitos (x: ${JSON.stringify(raw.x)}, y: ${JSON.stringify(raw.y)})` };
+    }
+    const original = round({ x: raw.x, y: raw.y });
+    let point = original;
+    let diagnostic: AiPointDiagnostic = { index, status: 'accepted', original };
+    if (!isInsideBuilding(original, building)) {
+      const where = building.outline && isInsideOutline(original, { outer: building.outline.outer, holes: [] }) ? 'dentro de un hueco del edificio' : 'fuera del edificio';
+      const adjusted = round(inBounds(original, building));
+      const distance = Math.hypot(adjusted.x - original.x, adjusted.y - original.y);
+      if (options.outOfBounds !== 'snap') {
+        return { index, status: 'rejected', reason: `${where}, a ${distance.toFixed(2)} m del borde`, original };
+      }
+      if (distance > options.snapToleranceM || !isInsideBuilding(adjusted, building)) {
+        return { index, status: 'rejected', reason: `${where}, a ${distance.toFixed(2)} m del borde (tolerancia ${options.snapToleranceM} m)`, original };
+      }
+      point = adjusted;
+      diagnostic = { index, status: 'snapped', reason: `${where}, movido ${distance.toFixed(2)} m al borde`, original, adjusted };
+    }
+    const duplicateOf = points.findIndex(p => Math.hypot(p.x - point.x, p.y - point.y) < DUPLICATE_DISTANCE_M);
+    if (duplicateOf >= 0) {
+      return { index, status: 'rejected', reason: `duplica un punto ya aceptado (AP ${duplicateOf + 1})`, original };
+    }
+    points.push(point);
+    return diagnostic;
+  });
+  return { points, diagnostics };
+};
+
+const describeRejections = (diagnostics: AiPointDiagnostic[]): string =>
+  diagnostics.filter(d => d.status === 'rejected').slice(0, 10).map(d => `- elemento ${d.index + 1}: ${d.reason}`).join('\n');
+
+export const buildCorrectivePrompt = (error: string, diagnostics: AiPointDiagnostic[]): string => {
+  const details = describeRejections(diagnostics);
+  return `Tu respuesta anterior no se pudo usar: ${error}.${details ? `\n${details}` : ''}
+Corrígela y devuelve ÚNICAMENTE un objeto JSON {"aps": [{"x": number, "y": number}, ...]} con coordenadas en metros dentro del edificio, sin texto adicional.`;
+};
+
+export const initialPlacementTurn = (request: AiPlacementRequest): AiConversationTurn => ({
+  role: 'user',
+  text: buildPlacementPrompt(request),
+  imageDataUrl: request.planImageDataUrl ?? undefined,
+});
+
+// Asks the provider to answer `conversation` (which ends in a user turn), validates the answer and, while it is
+// unusable, retries with a corrective turn that quotes the problems. Provider errors (network, HTTP, auth) are
+// not retried. The returned conversation includes the answer, so a caller can keep talking to the model.
+export const continuePlacementConversation = async (
+  provider: AiPlacementProvider,
+  request: AiPlacementRequest,
+  conversation: AiConversationTurn[],
+  options: AiResponseOptions = DEFAULT_AI_RESPONSE_OPTIONS
+): Promise<{ result: OptimizationResult; conversation: AiConversationTurn[] }> => {
+  const turns = [...conversation];
+  const attempts: AiAttemptDiagnostic[] = [];
+  let pointDiagnostics: AiPointDiagnostic[] = [];
+
+  for (let attempt = 1; attempt <= Math.max(1, options.maxAttempts); attempt++) {
+    const text = await provider.generate(request, turns);
+    turns.push({ role: 'assistant', text });
+    let error: string;
+    try {
+      const items = parseSuggestionText(text);
+      const { points, diagnostics } = validateSuggestions(items, request.building, options);
+      pointDiagnostics = diagnostics;
+      if (points.length > 0) {
+        attempts.push({ attempt, error: null });
+        return {
+          result: {
+            nAP: points.length,
+            coordinates: points,
+            aiDiagnostics: { provider: provider.label, attempts, points: diagnostics, options },
+          },
+          conversation: turns,
+        };
+      }
+      error = items.length === 0 ? 'la lista "aps" está vacía' : 'ningún punto es válido';
+    } catch (e) {
+      if (!(e instanceof MalformedResponseError)) throw e;
+      error = e.message;
+      pointDiagnostics = [];
+    }
+    attempts.push({ attempt, error });
+    turns.push({ role: 'user', text: buildCorrectivePrompt(error, pointDiagnostics) });
+  }
+
+  return {
+    result: {
+      nAP: 0,
+      coordinates: [],
+      message: `La IA no devolvió ubicaciones válidas tras ${attempts.length} intento(s). Último problema: ${attempts[attempts.length - 1].error}.`,
+      aiDiagnostics: { provider: provider.label, attempts, points: pointDiagnostics, options },
+    },
+    conversation: turns,
+  };
+};
+
+export const getAiPlacementSuggestions = async (
+  provider: AiPlacementProvider,
+  request: AiPlacementRequest,
+  options: AiResponseOptions = DEFAULT_AI_RESPONSE_OPTIONS
+): Promise<OptimizationResult> =>
+  (await continuePlacementConversation(provider, request, [initialPlacementTurn(request)], options)).result;
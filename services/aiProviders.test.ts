@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createMockProvider } from './aiProviders';
+import { initialPlacementTurn, parseSuggestionText } from './aiPlacementService';
+import type { AiPlacementRequest } from './aiPlacementService';
+import { buildRefinementFeedback } from './aiRefinementService';
+import type { AiRefinementRound } from '../types';
+
+const request: AiPlacementRequest = { building: { length: 20, width: 10 }, coverageArea: 50, planImageDataUrl: null, obstacles: [] };
+
+const round: AiRefinementRound = {
+  round: 1,
+  coordinates: [{ x: 5, y: 5 }],
+  coveragePercent: 40,
+  uncoveredArea: 120,
+  meanOverlapDepth: 1,
+  holes: [
+    { cellCount: 80, area: 80, centroid: { x: 15.25, y: 4.5 }, bounds: { minX: 10, minY: 0, maxX: 20, maxY: 10 } },
+    { cellCount: 40, area: 40, centroid: { x: 1, y: 9 }, bounds: { minX: 0, minY: 8, maxX: 5, maxY: 10 } },
+  ],
+  clusters: [],
+  feedback: null,
+};
+
+describe('createMockProvider', () => {
+  it('answers the first prompt with a grid sized to the coverage area', async () => {
+    const text = await createMockProvider().generate(request, [initialPlacementTurn(request)]);
+    const points = parseSuggestionText(text);
+    expect(points).toHaveLength(6); // 3 columns of 20 / 3 m by 2 rows of 5 m
+    expect(points[0]).toEqual({ x: 20 / 6, y: 2.5 });
+  });
+
+  it('adds an AP at the largest hole the refinement feedback reports', async () => {
+    const text = await createMockProvider().generate(request, [
+      initialPlacementTurn(request),
+      { role: 'assistant', text: JSON.stringify({ aps: [{ x: 5, y: 5 }, 'no es un punto'] }) },
+      { role: 'user', text: buildRefinementFeedback(round, 95, 5, false) },
+    ]);
+    expect(parseSuggestionText(text)).toEqual([{ x: 5, y: 5 }, { x: 15.3, y: 4.5 }]);
+  });
+
+  it('gives the same answer to the same conversation', async () => {
+    const provider = createMockProvider();
+    const conversation = [initialPlacementTurn(request)];
+    expect(await provider.generate(request, conversation)).toBe(await provider.generate(request, conversation));
+  });
+});
@@ -0,0 +1,140 @@
+import { GoogleGenAI } from "@google/genai";
+import type { Schema, Type } from "@google/genai";
+import type { AiProviderKind, AiProviderSettings, APCoordinate } from '../types';
+import type { AiConversationTurn, AiPlacementProvider, AiPlacementRequest } from './aiPlacementService';
+import { DEFAULT_AI_RESPONSE_OPTIONS, PLACEMENT_RESPONSE_SCHEMA, parseSuggestionText, splitDataUrl, validateSuggestions } from './aiPlacementService';
+import { parseRefinementHoles } from './aiRefinementService';
+import { isInsideBuilding, outlineBounds } from '../utils/geometry';
+
+export const AI_PROVIDER_LABELS: Record<AiProviderKind, string> = {
+  gemini: 'Google Gemini',
+  openai: 'Servidor compatible con OpenAI',
+  mock: 'Simulado (sin conexión)',
+};
+
+export const DEFAULT_AI_MODELS: Record<AiProviderKind, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  mock: '',
+};
+
+// The Gemini key the app was built with, if any (see vite.config.ts).
+const BUILT_IN_GEMINI_KEY = process.env.API_KEY || '';
+
+export const DEFAULT_AI_PROVIDER_SETTINGS: AiProviderSettings = {
+  kind: BUILT_IN_GEMINI_KEY ? 'gemini' : 'mock',
+  model: BUILT_IN_GEMINI_KEY ? DEFAULT_AI_MODELS.gemini : '',
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+// The JSON Schema subset used by PLACEMENT_RESPONSE_SCHEMA, in Gemini's OpenAPI form (upper-case type names).
+const toGeminiSchema = (schema: Record<string, any>): Schema => ({
+  ...schema,
+  type: schema.type.toUpperCase() as Type,
+  ...(schema.properties ? { properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value as Record<string, any>)])) } : {}),
+  ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+});
+
+export const createGeminiProvider = (apiKey: string, model: string): AiPlacementProvider => ({
+  label: `Gemini (${model})`,
+  generate: async (_request: AiPlacementRequest, conversation: AiConversationTurn[]) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const contents = conversation.map(turn => ({
+      role: turn.role === 'assistant' ? 'model' : 'user',
+      parts: turn.imageDataUrl
+        ? [{ inlineData: splitDataUrl(turn.imageDataUrl) }, { text: turn.text }]
+        : [{ text: turn.text }],
+    }));
+    const response = await ai.models.generateContent({
+      model,
+      contents,
+      config: { responseMimeType: "application/json", responseSchema: toGeminiSchema(PLACEMENT_RESPONSE_SCHEMA) },
+    });
+    return response.text ?? '';
+  },
+});
+
+// Any server exposing POST /chat/completions (vLLM, Ollama, LM Studio, llama.cpp, OpenAI itself...).
+// Images go as image_url parts, which vision models read and text-only models ignore or reject.
+// The schema is sent as a json_schema response format; servers without structured output ignore it.
+export const createOpenAiCompatibleProvider = (baseUrl: string, model: string, apiKey: string): AiPlacementProvider => ({
+  label: `${model} @ ${baseUrl}`,
+  generate: async (_request: AiPlacementRequest, conversation: AiConversationTurn[]) => {
+    const messages = conversation.map(turn => ({
+      role: turn.role,
+      content: turn.imageDataUrl
+        ? [{ type: 'text', text: turn.text }, { type: 'image_url', image_url: { url: turn.imageDataUrl } }]
+        : turn.text,
+    }));
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: 0.2,
+        response_format: { type: 'json_schema', json_schema: { name: 'ap_placements', schema: PLACEMENT_RESPONSE_SCHEMA } },
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`El servidor de IA respondió ${response.status}: ${(await response.text()).substring(0, 300)}`);
+    }
+    const data = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    return typeof text === 'string' ? text : '';
+  },
+});
+
+// Deterministic stand-in: the centres of a square grid sized to the coverage area, kept inside the building.
+// Given refinement feedback, it repeats its previous answer plus an AP at the centre of the largest hole reported. Same input, same answer, with no network, for demos and tests.
+export const createMockProvider = (): AiPlacementProvider => ({
+  label: 'Simulado',
+  generate: async ({ building, coverageArea }: AiPlacementRequest, conversation: AiConversationTurn[]) => {
+    const previous = [...conversation].reverse().find(turn => turn.role === 'assistant');
+    const [largestHole] = parseRefinementHoles(conversation[conversation.length - 1].text);
+    if (previous && largestHole) {
+      const { points } = validateSuggestions(parseSuggestionText(previous.text), building, DEFAULT_AI_RESPONSE_OPTIONS);
+      return JSON.stringify({ aps: [...points, largestHole] });
+    }
+    const bounds = building.outline ? outlineBounds(building.outline) : { minX: 0, minY: 0, maxX: building.length, maxY: building.width };
+    const spacing = Math.sqrt(coverageArea); // Side of the square inscribed in a circle of R = sqrt(area / 2)
+    const cols = Math.max(1, Math.ceil((bounds.maxX - bounds.minX) / spacing));
+    const rows = Math.max(1, Math.ceil((bounds.maxY - bounds.minY) / spacing));
+    const stepX = (bounds.maxX - bounds.minX) / cols;
+    const stepY = (bounds.maxY - bounds.minY) / rows;
+    const points: APCoordinate[] = [];
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const point = { x: bounds.minX + (col + 0.5) * stepX, y: bounds.minY + (row + 0.5) * stepY };
+        if (isInsideBuilding(point, building)) points.push(point);
+      }
+    }
+    return JSON.stringify({ aps: points });
+  },
+});
+
+// Null when the settings are usable, otherwise what is missing.
+export const aiProviderSettingsError = (settings: AiProviderSettings): string | null => {
+  switch (settings.kind) {
+    case 'gemini':
+      if (!settings.apiKey && !BUILT_IN_GEMINI_KEY) return "Ingrese una clave API de Google Gemini; esta compilación no incluye ninguna.";
+      return settings.model.trim() ? null : "Indique el modelo de Gemini.";
+    case 'openai':
+      if (!/^https?:\/\//.test(settings.baseUrl.trim())) return "Indique la URL base del servidor (http:// o https://).";
+      return settings.model.trim() ? null : "Indique el modelo del servidor.";
+    case 'mock':
+      return null;
+  }
+};
+
+export const createAiProvider = (settings: AiProviderSettings): AiPlacementProvider => {
+  switch (settings.kind) {
+    case 'gemini':
+      return createGeminiProvider(settings.apiKey || BUILT_IN_GEMINI_KEY, settings.model.trim());
+    case 'openai':
+      return createOpenAiCompatibleProvider(settings.baseUrl.trim(), settings.model.trim(), settings.apiKey);
+    case 'mock':
+      return createMockProvider();
+  }
+};
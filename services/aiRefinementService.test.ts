@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { buildRefinementFeedback, DEFAULT_AI_REFINEMENT_SETTINGS, findDenseClusters, parseRefinementHoles, refineAiPlacements, resultForRound } from './aiRefinementService';
+import { DEFAULT_AI_RESPONSE_OPTIONS } from './aiPlacementService';
+import type { AiPlacementProvider, AiPlacementRequest } from './aiPlacementService';
+import { createMockProvider } from './aiProviders';
+import type { AiRefinementRound } from '../types';
+
+const request: AiPlacementRequest = { building: { length: 20, width: 10 }, coverageArea: 50, planImageDataUrl: null, obstacles: [] };
+
+const round: AiRefinementRound = {
+  round: 1,
+  coordinates: [{ x: 2, y: 2 }, { x: 3, y: 2 }, { x: 15, y: 5 }],
+  coveragePercent: 62.5,
+  uncoveredArea: 75,
+  meanOverlapDepth: 1.2,
+  holes: [
+    { cellCount: 50, area: 50, centroid: { x: 8.04, y: 7.5 }, bounds: { minX: 5, minY: 5, maxX: 11, maxY: 10 } },
+    { cellCount: 25, area: 25, centroid: { x: 18, y: 1 }, bounds: { minX: 16, minY: 0, maxX: 20, maxY: 2 } },
+  ],
+  clusters: [{ apIndices: [0, 1], centroid: { x: 2.5, y: 2 }, minSpacing: 1 }],
+  feedback: null,
+};
+
+describe('findDenseClusters', () => {
+  it('links APs closer than the radius transitively and sorts larger groups first', () => {
+    const aps = [{ x: 0, y: 0 }, { x: 3, y: 0 }, { x: 6, y: 0 }, { x: 20, y: 0 }, { x: 21, y: 0 }, { x: 40, y: 0 }];
+    expect(findDenseClusters(aps, 4)).toEqual([
+      { apIndices: [0, 1, 2], centroid: { x: 3, y: 0 }, minSpacing: 3 },
+      { apIndices: [3, 4], centroid: { x: 20.5, y: 0 }, minSpacing: 1 },
+    ]);
+  });
+});
+
+describe('buildRefinementFeedback', () => {
+  it('reports coverage, holes and crowded APs', () => {
+    const feedback = buildRefinementFeedback(round, 95, 5, false);
+    expect(feedback).toContain('cubre el 62.5 % del edificio (objetivo: 95 %)');
+    expect(feedback).toContain('- APs 1 (2.0, 2.0), 2 (3.0, 2.0); separación mínima 1.0 m');
+    expect(feedback).not.toContain('Se adjunta un dibujo');
+    expect(buildRefinementFeedback(round, 95, 5, true)).toContain('Se adjunta un dibujo');
+  });
+
+  it('lists the hole centres so they can be read back, largest first', () => {
+    expect(parseRefinementHoles(buildRefinementFeedback(round, 95, 5, false))).toEqual([{ x: 8, y: 7.5 }, { x: 18, y: 1 }]);
+    expect(parseRefinementHoles(buildRefinementFeedback({ ...round, holes: [] }, 95, 5, false))).toEqual([]);
+  });
+});
+
+describe('refineAiPlacements', () => {
+  const context = { coverageRadius: 3, coverageOptions: {} };
+
+  it('sends coverage feedback after each round and keeps the best one', async () => {
+    const settings = { ...DEFAULT_AI_REFINEMENT_SETTINGS, enabled: true, targetCoveragePercent: 100, maxRounds: 3 };
+    const seen: number[] = [];
+    const result = await refineAiPlacements(createMockProvider(), request, DEFAULT_AI_RESPONSE_OPTIONS, settings, { ...context, onRound: r => seen.push(r.round) });
+    const history = result.aiRefinement!;
+
+    expect(seen).toEqual([1, 2, 3]);
+    expect(history.stopReason).toBe('maxRounds');
+    expect(history.rounds[0].feedback).toContain('Zonas sin cobertura');
+    expect(history.rounds[2].feedback).toBeNull();
+    expect(history.rounds[1].coordinates).toHaveLength(history.rounds[0].coordinates.length + 1);
+    expect(history.rounds[1].coveragePercent).toBeGreaterThan(history.rounds[0].coveragePercent);
+    expect(result.coordinates).toEqual(history.rounds[history.selectedRound - 1].coordinates);
+  });
+
+  it('stops as soon as the target is reached', async () => {
+    const settings = { ...DEFAULT_AI_REFINEMENT_SETTINGS, enabled: true, targetCoveragePercent: 10, maxRounds: 4 };
+    const result = await refineAiPlacements(createMockProvider(), request, DEFAULT_AI_RESPONSE_OPTIONS, settings, context);
+    expect(result.aiRefinement?.rounds).toHaveLength(1);
+    expect(result.aiRefinement?.stopReason).toBe('target');
+  });
+
+  it('returns the failed answer when the first round has no usable layout', async () => {
+    const provider: AiPlacementProvider = { label: 'Vacío', generate: async () => '{"aps": []}' };
+    const settings = { ...DEFAULT_AI_REFINEMENT_SETTINGS, enabled: true };
+    const result = await refineAiPlacements(provider, request, { ...DEFAULT_AI_RESPONSE_OPTIONS, maxAttempts: 1 }, settings, context);
+    expect(result.nAP).toBe(0);
+    expect(result.message).toContain('la lista "aps" está vacía');
+  });
+
+  it('can select any earlier round as the result', async () => {
+    const settings = { ...DEFAULT_AI_REFINEMENT_SETTINGS, enabled: true, targetCoveragePercent: 100, maxRounds: 2 };
+    const result = await refineAiPlacements(createMockProvider(), request, DEFAULT_AI_RESPONSE_OPTIONS, settings, context);
+    const first = resultForRound(result.aiRefinement!, 1);
+    expect(first.aiRefinement?.selectedRound).toBe(1);
+    expect(first.coordinates).toEqual(result.aiRefinement!.rounds[0].coordinates);
+  });
+});
@@ -0,0 +1,173 @@
+import type { AiRefinementHistory, AiRefinementRound, AiRefinementSettings, AiResponseOptions, APCoordinate, CoverageMetrics, DenseCluster, OptimizationResult } from '../types';
+import type { AiConversationTurn, AiPlacementProvider, AiPlacementRequest } from './aiPlacementService';
+import { continuePlacementConversation, initialPlacementTurn } from './aiPlacementService';
+import type { CoverageAnalysisOptions } from './coverageAnalysisService';
+import { analyzeCoverage } from './coverageAnalysisService';
+
+export const DEFAULT_AI_REFINEMENT_SETTINGS: AiRefinementSettings = {
+  enabled: false,
+  targetCoveragePercent: 95,
+  maxRounds: 4,
+  sendCoverageImage: false,
+};
+
+const REPORTED_HOLES = 5;
+const REPORTED_CLUSTERS = 5;
+
+// Groups APs that are closer than `radius` to one another (transitively). Only groups of two or more are returned.
+export const findDenseClusters = (aps: APCoordinate[], radius: number): DenseCluster[] => {
+  const parent = aps.map((_, index) => index);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const spacing = new Map<number, number>();
+  for (let i = 0; i < aps.length; i++) {
+    for (let j = i + 1; j < aps.length; j++) {
+      const distance = Math.hypot(aps[i].x - aps[j].x, aps[i].y - aps[j].y);
+      if (distance >= radius) continue;
+      parent[find(i)] = find(j);
+      spacing.set(i, Math.min(spacing.get(i) ?? Infinity, distance));
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  aps.forEach((_, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), index]);
+  });
+  return [...groups.values()]
+    .filter(indices => indices.length > 1)
+    .map(apIndices => ({
+      apIndices,
+      centroid: {
+        x: apIndices.reduce((sum, i) => sum + aps[i].x, 0) / apIndices.length,
+        y: apIndices.reduce((sum, i) => sum + aps[i].y, 0) / apIndices.length,
+      },
+      minSpacing: Math.min(...apIndices.map(i => spacing.get(i) ?? Infinity)),
+    }))
+    .sort((a, b) => b.apIndices.length - a.apIndices.length || a.minSpacing - b.minSpacing);
+};
+
+const formatPoint = (point: APCoordinate) => `(${point.x.toFixed(1)}, ${point.y.toFixed(1)})`;
+
+// A hole line of the feedback starts with its centre; parseRefinementHoles reads it back.
+const HOLE_LINE_PATTERN = /^- zona \d+: centro \((-?[\d.]+), (-?[\d.]+)\)/gm;
+
+// What the model is told about its previous layout: how far it is from the target, where the biggest gaps are
+// and which APs crowd each other, then a request for a complete revised layout.
+export const buildRefinementFeedback = (round: AiRefinementRound, targetCoveragePercent: number, coverageRadius: number, withImage: boolean): string => {
+  const lines = [
+    `Analizamos la cobertura de tu propuesta de ${round.coordinates.length} APs con un radio de ${coverageRadius.toFixed(1)} m: cubre el ${round.coveragePercent.toFixed(1)} % del edificio (objetivo: ${targetCoveragePercent} %). Quedan ${round.uncoveredArea.toFixed(1)} m² sin cobertura y el solape medio es de ${round.meanOverlapDepth.toFixed(2)} APs por punto cubierto.`,
+  ];
+  if (round.holes.length > 0) {
+    lines.push('Zonas sin cobertura más grandes (centro, área y rectángulo que las contiene, en metros):');
+    round.holes.forEach((hole, index) => lines.push(
+      `- zona ${index + 1}: centro ${formatPoint(hole.centroid)}, ${hole.area.toFixed(1)} m², de x=${hole.bounds.minX.toFixed(1)} a x=${hole.bounds.maxX.toFixed(1)} y de y=${hole.bounds.minY.toFixed(1)} a y=${hole.bounds.maxY.toFixed(1)}`
+    ));
+  }
+  if (round.clusters.length > 0) {
+    lines.push(`APs demasiado próximos entre sí (a menos de ${coverageRadius.toFixed(1)} m), que podrían separarse o fusionarse:`);
+    round.clusters.forEach(cluster => lines.push(
+      `- APs ${cluster.apIndices.map(i => `${i + 1} ${formatPoint(round.coordinates[i])}`).join(', ')}; separación mínima ${cluster.minSpacing.toFixed(1)} m`
+    ));
+  }
+  if (withImage) {
+    lines.push('Se adjunta un dibujo de la cobertura actual: los círculos son el alcance de cada AP y las celdas marcadas, las zonas sin cobertura.');
+  }
+  lines.push('Devuelve la distribución COMPLETA revisada (todos los APs, no solo los cambios) en el mismo formato JSON {"aps": [{"x": number, "y": number}, ...]}, sin texto adicional. Cubre las zonas indicadas y evita APs redundantes.');
+  return lines.join('\n');
+};
+
+// Centres of the holes listed in feedback written by buildRefinementFeedback, largest first.
+export const parseRefinementHoles = (feedback: string): APCoordinate[] =>
+  [...feedback.matchAll(HOLE_LINE_PATTERN)].map(match => ({ x: parseFloat(match[1]), y: parseFloat(match[2]) }));
+
+export interface AiRefinementContext {
+  coverageRadius: number;
+  coverageOptions: CoverageAnalysisOptions;
+  // Draws a round's layout and coverage for the model; only called when the settings ask for the image.
+  renderCoverageImage?: (aps: APCoordinate[], coverage: CoverageMetrics) => Promise<string>;
+  onRound?: (round: AiRefinementRound) => void; // Progress, as each round is analysed
+}
+
+const toRound = (roundNumber: number, result: OptimizationResult, coverage: CoverageMetrics, coverageRadius: number): AiRefinementRound => ({
+  round: roundNumber,
+  coordinates: result.coordinates,
+  coveragePercent: coverage.coveragePercent,
+  uncoveredArea: coverage.uncoveredArea,
+  meanOverlapDepth: coverage.meanOverlapDepth,
+  holes: coverage.holes.slice(0, REPORTED_HOLES),
+  clusters: findDenseClusters(result.coordinates, coverageRadius).slice(0, REPORTED_CLUSTERS),
+  diagnostics: result.aiDiagnostics,
+  feedback: null,
+});
+
+// The round used as the result: best coverage, then fewest APs, then earliest.
+const bestRound = (rounds: AiRefinementRound[]): AiRefinementRound =>
+  rounds.reduce((best, round) => {
+    if (round.coveragePercent > best.coveragePercent + 1e-9) return round;
+    if (Math.abs(round.coveragePercent - best.coveragePercent) <= 1e-9 && round.coordinates.length < best.coordinates.length) return round;
+    return best;
+  });
+
+export const resultForRound = (history: AiRefinementHistory, roundNumber: number): OptimizationResult => {
+  const round = history.rounds.find(r => r.round === roundNumber) ?? history.rounds[history.rounds.length - 1];
+  return {
+    nAP: round.coordinates.length,
+    coordinates: round.coordinates,
+    aiDiagnostics: round.diagnostics,
+    aiRefinement: { ...history, selectedRound: round.round },
+  };
+};
+
+// Closed loop: ask for a layout, measure its coverage, send the measurements back and ask again, until the
+// coverage reaches the target or the rounds run out. Every round is kept; the best one is the result.
+export const refineAiPlacements = async (
+  provider: AiPlacementProvider,
+  request: AiPlacementRequest,
+  responseOptions: AiResponseOptions,
+  settings: AiRefinementSettings,
+  context: AiRefinementContext
+): Promise<OptimizationResult> => {
+  const rounds: AiRefinementRound[] = [];
+  let conversation: AiConversationTurn[] = [initialPlacementTurn(request)];
+  let stopReason: AiRefinementHistory['stopReason'] = 'maxRounds';
+  let failure: OptimizationResult | null = null;
+
+  for (let roundNumber = 1; roundNumber <= Math.max(1, settings.maxRounds); roundNumber++) {
+    const answer = await continuePlacementConversation(provider, request, conversation, responseOptions);
+    conversation = answer.conversation;
+    const coverage = answer.result.coordinates.length > 0
+      ? analyzeCoverage(request.building, answer.result.coordinates, context.coverageRadius, context.coverageOptions)
+      : null;
+    if (!coverage) {
+      stopReason = 'failed';
+      failure = answer.result;
+      break;
+    }
+
+    const round = toRound(roundNumber, answer.result, coverage, context.coverageRadius);
+    rounds.push(round);
+    context.onRound?.(round);
+    if (round.coveragePercent >= settings.targetCoveragePercent) {
+      stopReason = 'target';
+      break;
+    }
+    if (roundNumber === settings.maxRounds) break;
+
+    const imageDataUrl = settings.sendCoverageImage && context.renderCoverageImage
+      ? await context.renderCoverageImage(round.coordinates, coverage)
+      : undefined;
+    round.feedback = buildRefinementFeedback(round, settings.targetCoveragePercent, context.coverageRadius, Boolean(imageDataUrl));
+    conversation = [...conversation, { role: 'user', text: round.feedback, imageDataUrl }];
+  }
+
+  if (rounds.length === 0) {
+    return failure ?? { nAP: 0, coordinates: [], message: 'La IA no devolvió ubicaciones válidas.' };
+  }
+  const history: AiRefinementHistory = {
+    rounds,
+    targetCoveragePercent: settings.targetCoveragePercent,
+    selectedRound: bestRound(rounds).round,
+    stopReason,
+  };
+  return resultForRound(history, history.selectedRound);
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { applyApModel, carryApModels, DEFAULT_AP_CATALOG, modelCoverageRadii, modelEirp, modelPropagationSettings, parseApCatalog, resolveApModels, serializeApCatalog, setApModel, summarizeApBill } from './apCatalogService';
+import { DEFAULT_PROPAGATION_SETTINGS, thresholdDistance } from './propagationService';
+
+const [small, large, triBand] = DEFAULT_AP_CATALOG;
+
+describe('apCatalogService', () => {
+  it('derives the EIRP from the band power and the antenna gain', () => {
+    expect(modelEirp(small, '5')).toBe(26);
+    expect(modelEirp(small, '6')).toBe(24); // Falls back to the model's first band
+  });
+
+  it('gives a larger radius to a stronger model', () => {
+    const base = { ...DEFAULT_PROPAGATION_SETTINGS, band: '5' as const };
+    expect(thresholdDistance(applyApModel(base, large))).toBeGreaterThan(thresholdDistance(applyApModel(base, small)));
+    expect(applyApModel(base, null)).toBe(base);
+    expect(applyApModel({ ...base, band: '6' }, triBand).band).toBe('6');
+  });
+
+  it('derives the propagation settings and radius of every catalog model', () => {
+    const base = { ...DEFAULT_PROPAGATION_SETTINGS, band: '5' as const };
+    const settings = modelPropagationSettings({ models: DEFAULT_AP_CATALOG, defaultModelId: null }, base);
+    expect(Object.keys(settings)).toEqual(DEFAULT_AP_CATALOG.map(model => model.id));
+    expect(settings[large.id]).toEqual(applyApModel(base, large));
+    expect(modelCoverageRadii(settings)[large.id]).toBeCloseTo(thresholdDistance(applyApModel(base, large)));
+  });
+
+  it('round-trips the catalog through JSON and rejects bad entries', () => {
+    expect(parseApCatalog(serializeApCatalog(DEFAULT_AP_CATALOG))).toEqual(DEFAULT_AP_CATALOG);
+    expect(() => parseApCatalog('[{"id":"a","name":"x","bands":["7"]}]')).toThrow(/bands/);
+    expect(() => parseApCatalog(serializeApCatalog([small, small]))).toThrow(/repita/);
+  });
+
+  it('keeps each model on its AP, even when two APs share a position', () => {
+    const aps = setApModel([{ x: 1, y: 1 }, { x: 1, y: 1 }], 1, large.id);
+    expect(resolveApModels(aps, { models: DEFAULT_AP_CATALOG, defaultModelId: small.id })).toEqual([small, large]);
+    expect(setApModel(aps, 1, null)).toEqual([{ x: 1, y: 1 }, { x: 1, y: 1 }]);
+  });
+
+  it('hands models to the closest APs of another layout', () => {
+    const previous = [{ x: 0, y: 0, modelId: large.id }, { x: 10, y: 0 }, { x: 20, y: 0, modelId: triBand.id }];
+    const next = carryApModels(previous, [{ x: 19, y: 1 }, { x: 1, y: 0 }, { x: 10, y: 0 }]);
+    expect(next.map(ap => ap.modelId)).toEqual([triBand.id, large.id, undefined]);
+  });
+
+  it('totals units, cost and PoE budget per model', () => {
+    const bill = summarizeApBill([small, null, small, large]);
+    expect(bill.lines.map(line => [line.model?.id ?? null, line.count])).toEqual([[small.id, 2], [large.id, 1], [null, 1]]);
+    expect(bill.apCount).toBe(4);
+    expect(bill.totalCost).toBe(2 * small.unitPrice + large.unitPrice);
+    expect(bill.totalPoeW).toBeCloseTo(2 * 15.4 + 30);
+  });
+});
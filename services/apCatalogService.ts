@@ -0,0 +1,238 @@
+import type { APCoordinate, ApBill, ApBillLine, ApCatalogSettings, ApEnvironment, ApModel, FloorSnapshot, FrequencyBand, PlacementSource, PropagationSettings } from '../types';
+import { freeSpaceReferenceLoss, thresholdDistance } from './propagationService';
+import { createId } from '../utils/id';
+
+export const AP_ENVIRONMENT_LABELS: Record<ApEnvironment, string> = {
+  indoor: 'Interior',
+  outdoor: 'Exterior',
+};
+
+const FREQUENCY_BANDS: FrequencyBand[] = ['2.4', '5', '6'];
+
+// Maximum power a PSE port delivers per IEEE 802.3af/at/bt class, which is what the switch budget must cover.
+export const POE_CLASS_POWER_W: Record<number, number> = {
+  0: 15.4, 1: 4, 2: 7, 3: 15.4, 4: 30, 5: 45, 6: 60, 7: 75, 8: 90,
+};
+
+// Vendor-neutral starting points; real projects replace them with the datasheets of the hardware being bought.
+export const DEFAULT_AP_CATALOG: ApModel[] = [
+  {
+    id: 'generic-wifi6-indoor-2x2',
+    name: 'Wi-Fi 6 interior 2x2',
+    bands: ['2.4', '5'],
+    maxTxPowerDbm: { '2.4': 20, '5': 22 },
+    antennaGainDbi: 4,
+    environment: 'indoor',
+    poeClass: 3,
+    unitPrice: 250,
+  },
+  {
+    id: 'generic-wifi6-indoor-4x4',
+    name: 'Wi-Fi 6 interior 4x4',
+    bands: ['2.4', '5'],
+    maxTxPowerDbm: { '2.4': 23, '5': 25 },
+    antennaGainDbi: 5,
+    environment: 'indoor',
+    poeClass: 4,
+    unitPrice: 550,
+  },
+  {
+    id: 'generic-wifi6e-indoor',
+    name: 'Wi-Fi 6E interior tribanda',
+    bands: ['2.4', '5', '6'],
+    maxTxPowerDbm: { '2.4': 22, '5': 24, '6': 22 },
+    antennaGainDbi: 5,
+    environment: 'indoor',
+    poeClass: 5,
+    unitPrice: 800,
+  },
+  {
+    id: 'generic-wifi6-outdoor',
+    name: 'Wi-Fi 6 exterior',
+    bands: ['2.4', '5'],
+    maxTxPowerDbm: { '2.4': 25, '5': 26 },
+    antennaGainDbi: 6,
+    environment: 'outdoor',
+    poeClass: 4,
+    unitPrice: 700,
+  },
+];
+
+export const DEFAULT_AP_CATALOG_SETTINGS: ApCatalogSettings = {
+  models: DEFAULT_AP_CATALOG,
+  defaultModelId: null,
+};
+
+export const createApModel = (name: string): ApModel => ({
+  ...DEFAULT_AP_CATALOG[0],
+  id: createId('apmodel'),
+  name,
+});
+
+export const findApModel = (models: ApModel[], id: string | null | undefined): ApModel | null =>
+  (id ? models.find(model => model.id === id) ?? null : null);
+
+// The band the model radiates in: the requested one when it supports it, otherwise its first band.
+export const modelBand = (model: ApModel, band: FrequencyBand): FrequencyBand =>
+  (model.bands.includes(band) ? band : model.bands[0] ?? band);
+
+export const modelEirp = (model: ApModel, band: FrequencyBand): number => {
+  const used = modelBand(model, band);
+  return (model.maxTxPowerDbm[used] ?? 0) + model.antennaGainDbi;
+};
+
+// Propagation settings for APs of `model`: the model's EIRP in the chosen band always drives the radius.
+// Without a model the settings are returned unchanged.
+export const applyApModel = (settings: PropagationSettings, model: ApModel | null): PropagationSettings => {
+  if (!model) return settings;
+  const band = modelBand(model, settings.band);
+  return {
+    ...settings,
+    enabled: true,
+    band,
+    txPowerDbm: modelEirp(model, band),
+    referenceLossDb: band === settings.band ? settings.referenceLossDb : freeSpaceReferenceLoss(band),
+  };
+};
+
+// Propagation settings of every catalog model, by id, for APs that carry their own model.
+export const modelPropagationSettings = (catalog: ApCatalogSettings, settings: PropagationSettings): Record<string, PropagationSettings> =>
+  Object.fromEntries(catalog.models.map(model => [model.id, applyApModel(settings, model)]));
+
+// Coverage radius of every model in `settingsByModel`, by id.
+export const modelCoverageRadii = (settingsByModel: Record<string, PropagationSettings>): Record<string, number> =>
+  Object.fromEntries(Object.entries(settingsByModel).map(([id, settings]) => [id, thresholdDistance(settings)]));
+
+export const poeBudgetW = (model: ApModel): number => POE_CLASS_POWER_W[model.poeClass] ?? 0;
+
+// The model of each AP: its own when the catalog still has it, otherwise the default model.
+export const resolveApModels = (aps: APCoordinate[], catalog: ApCatalogSettings): (ApModel | null)[] => {
+  const fallback = findApModel(catalog.models, catalog.defaultModelId);
+  return aps.map(ap => findApModel(catalog.models, ap.modelId) ?? fallback);
+};
+
+// Models of the APs a floor keeps for `source`, as stored (manual APs need no plan transform for this).
+export const floorApModels = (floor: FloorSnapshot, source: PlacementSource, catalog: ApCatalogSettings): (ApModel | null)[] => {
+  const aps = source === 'algorithm' ? floor.results?.coordinates : source === 'ai' ? floor.aiResults?.coordinates : floor.manualAPs;
+  return resolveApModels(aps ?? [], catalog);
+};
+
+// Sets or, with null, clears the model of the AP at `index`.
+export const setApModel = (aps: APCoordinate[], index: number, modelId: string | null): APCoordinate[] =>
+  aps.map((ap, i) => {
+    if (i !== index) return ap;
+    const { modelId: _previous, ...position } = ap;
+    return modelId ? { ...position, modelId } : position;
+  });
+
+// Hands the models of `previous` to a different layout of the same design (another AI round): each model goes
+// to the closest AP of `next` still without one, closest pairs first. When `next` has fewer APs some models are
+// left over; APs of `next` that already have a model keep it.
+export const carryApModels = (previous: APCoordinate[], next: APCoordinate[]): APCoordinate[] => {
+  const pairs: { from: number; to: number; distance: number }[] = [];
+  previous.forEach((ap, from) => {
+    if (!ap.modelId) return;
+    next.forEach((candidate, to) => {
+      if (!candidate.modelId) pairs.push({ from, to, distance: Math.hypot(ap.x - candidate.x, ap.y - candidate.y) });
+    });
+  });
+  pairs.sort((a, b) => a.distance - b.distance);
+  const result = [...next];
+  const given = new Set<number>();
+  const taken = new Set<number>();
+  for (const { from, to } of pairs) {
+    if (given.has(from) || taken.has(to)) continue;
+    result[to] = { ...next[to], modelId: previous[from].modelId };
+    given.add(from);
+    taken.add(to);
+  }
+  return result;
+};
+
+// Units, cost and PoE budget per model, in order of first appearance, with APs without a model last.
+export const summarizeApBill = (models: (ApModel | null)[]): ApBill => {
+  const counts = new Map<ApModel | null, number>();
+  models.forEach(model => counts.set(model, (counts.get(model) ?? 0) + 1));
+  const lines: ApBillLine[] = [...counts.entries()]
+    .sort(([a], [b]) => (a === null ? 1 : 0) - (b === null ? 1 : 0))
+    .map(([model, count]) => ({
+      model,
+      count,
+      subtotal: model ? model.unitPrice * count : 0,
+      poeW: model ? poeBudgetW(model) * count : 0,
+    }));
+  return {
+    lines,
+    apCount: models.length,
+    totalCost: lines.reduce((sum, line) => sum + line.subtotal, 0),
+    totalPoeW: lines.reduce((sum, line) => sum + line.poeW, 0),
+  };
+};
+
+export const formatPrice = (value: number): string =>
+  value.toLocaleString('es', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const invalid = (path: string, expected: string): Error =>
+  new Error(`Catálogo de APs inválido: "${path}" debería ser ${expected}.`);
+
+const expectNumber = (value: unknown, path: string, min = -Infinity): number => {
+  if (typeof value !== 'number' || !isFinite(value) || value < min) throw invalid(path, min === -Infinity ? 'un número' : `un número mayor o igual que ${min}`);
+  return value;
+};
+
+const expectText = (value: unknown, path: string): string => {
+  if (typeof value !== 'string' || value.trim().length === 0) throw invalid(path, 'un texto no vacío');
+  return value;
+};
+
+// Checks a list of models as read from JSON. Throws an Error with a user-facing message on any problem.
+export const validateApModels = (value: unknown, path = 'modelos'): ApModel[] => {
+  if (!Array.isArray(value)) throw invalid(path, 'una lista');
+  const models = value.map((m, i): ApModel => {
+    const at = `${path}[${i}]`;
+    if (typeof m !== 'object' || m === null || Array.isArray(m)) throw invalid(at, 'un objeto');
+    const entry = m as Record<string, unknown>;
+    if (!Array.isArray(entry.bands) || entry.bands.length === 0 || entry.bands.some(band => !FREQUENCY_BANDS.includes(band))) {
+      throw invalid(`${at}.bands`, `una lista no vacía de: ${FREQUENCY_BANDS.join(', ')}`);
+    }
+    const bands = FREQUENCY_BANDS.filter(band => (entry.bands as unknown[]).includes(band));
+    const power = entry.maxTxPowerDbm;
+    if (typeof power !== 'object' || power === null) throw invalid(`${at}.maxTxPowerDbm`, 'un objeto con la potencia de cada banda');
+    const maxTxPowerDbm: Partial<Record<FrequencyBand, number>> = {};
+    bands.forEach(band => {
+      maxTxPowerDbm[band] = expectNumber((power as Record<string, unknown>)[band], `${at}.maxTxPowerDbm.${band}`);
+    });
+    if (entry.environment !== 'indoor' && entry.environment !== 'outdoor') throw invalid(`${at}.environment`, 'uno de: indoor, outdoor');
+    const poeClass = expectNumber(entry.poeClass, `${at}.poeClass`, 0);
+    if (!Number.isInteger(poeClass) || poeClass > 8) throw invalid(`${at}.poeClass`, 'una clase PoE entera de 0 a 8');
+    return {
+      id: expectText(entry.id, `${at}.id`),
+      name: expectText(entry.name, `${at}.name`),
+      bands,
+      maxTxPowerDbm,
+      antennaGainDbi: expectNumber(entry.antennaGainDbi, `${at}.antennaGainDbi`),
+      environment: entry.environment,
+      poeClass,
+      unitPrice: expectNumber(entry.unitPrice, `${at}.unitPrice`, 0),
+    };
+  });
+  const ids = new Set<string>();
+  models.forEach((model, i) => {
+    if (ids.has(model.id)) throw invalid(`${path}[${i}].id`, 'un identificador que no se repita');
+    ids.add(model.id);
+  });
+  return models;
+};
+
+export const serializeApCatalog = (models: ApModel[]): string => JSON.stringify(models, null, 2);
+
+// Reads a catalog exported by serializeApCatalog (a JSON list of models).
+export const parseApCatalog = (text: string): ApModel[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('El archivo no es un JSON válido.');
+  }
+  return validateApModels(data);
+};
@@ -0,0 +1,96 @@
+import type { ProjectFile, ProjectSettings, RecentProjectSummary } from '../types';
+import { parseProjectFile, serializeProject } from './projectFileService';
+
+const DB_NAME = 'ap-oua';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';       // id -> serialized ProjectFile, so stored sessions go through the same migrations as files
+const INDEX_STORE = 'recentProjects';    // id -> RecentProjectSummary, kept apart so listing never loads plan images
+
+export const MAX_RECENT_PROJECTS = 8;
+export const AUTOSAVE_DELAY_MS = 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('El almacenamiento del navegador (IndexedDB) no está disponible.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE);
+        if (!db.objectStoreNames.contains(INDEX_STORE)) db.createObjectStore(INDEX_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again (e.g. after the user allows storage).
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Nothing worth restoring: no dimensions, plan, placements or drawn elements on any floor.
+export const isEmptyProject = (project: ProjectFile): boolean =>
+  project.floors.every(floor =>
+    !floor.buildingLength && !floor.buildingWidth && !floor.planImageDataUrl &&
+    floor.manualAPs.length === 0 && floor.walls.length === 0 && floor.capacityZones.length === 0 && floor.planningZones.length === 0 && !floor.idfLocation &&
+    !floor.results && !floor.aiResults && !floor.designOfRecord
+  );
+
+// Most recent first.
+export const listRecentProjects = async (): Promise<RecentProjectSummary[]> => {
+  const db = await openDatabase();
+  const summaries = await requestResult(db.transaction(INDEX_STORE, 'readonly').objectStore(INDEX_STORE).getAll() as IDBRequest<RecentProjectSummary[]>);
+  return summaries.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const deleteRecentProjects = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, INDEX_STORE], 'readwrite');
+  ids.forEach(id => {
+    transaction.objectStore(PROJECTS_STORE).delete(id);
+    transaction.objectStore(INDEX_STORE).delete(id);
+  });
+  await transactionDone(transaction);
+};
+
+// Stores the project under `id` and drops the oldest entries beyond MAX_RECENT_PROJECTS. Returns the updated list.
+export const autosaveProject = async (id: string, name: string, project: ProjectFile): Promise<RecentProjectSummary[]> => {
+  const db = await openDatabase();
+  const summary: RecentProjectSummary = { id, name, savedAt: project.savedAt, floorCount: project.floors.length };
+  const transaction = db.transaction([PROJECTS_STORE, INDEX_STORE], 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).put(serializeProject(project), id);
+  transaction.objectStore(INDEX_STORE).put(summary);
+  await transactionDone(transaction);
+
+  const recent = await listRecentProjects();
+  await deleteRecentProjects(recent.slice(MAX_RECENT_PROJECTS).map(entry => entry.id));
+  return recent.slice(0, MAX_RECENT_PROJECTS);
+};
+
+export const loadRecentProject = async (id: string, defaults: ProjectSettings): Promise<ProjectFile> => {
+  const db = await openDatabase();
+  const text = await requestResult(db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE).get(id));
+  if (typeof text !== 'string') {
+    throw new Error('El proyecto ya no está guardado en este navegador.');
+  }
+  return parseProjectFile(text, defaults);
+};
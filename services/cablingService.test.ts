@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { estimateCableRuns, ETHERNET_MAX_RUN_M } from './cablingService';
+
+describe('estimateCableRuns', () => {
+  it('adds slack and the service loop to the Manhattan route', () => {
+    const summary = estimateCableRuns([{ x: 10, y: 5 }, { x: 0, y: 0 }], { x: 0, y: 0 }, { slackPercent: 10, serviceLoopM: 5 });
+    expect(summary.runs[0].routeM).toBe(15);
+    expect(summary.runs[0].lengthM).toBeCloseTo(21.5);
+    expect(summary.runs[1].lengthM).toBe(5);
+    expect(summary.totalM).toBeCloseTo(26.5);
+    expect(summary.longestM).toBeCloseTo(21.5);
+    expect(summary.overLimitCount).toBe(0);
+  });
+
+  it('flags runs over the Ethernet limit', () => {
+    const summary = estimateCableRuns([{ x: ETHERNET_MAX_RUN_M, y: 0 }], { x: 0, y: 0 }, { slackPercent: 0, serviceLoopM: 1 });
+    expect(summary.runs[0].overLimit).toBe(true);
+    expect(summary.overLimitCount).toBe(1);
+  });
+});
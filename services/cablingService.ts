@@ -0,0 +1,24 @@
+import type { APCoordinate, CableRunSummary, CablingSettings } from '../types';
+
+export const ETHERNET_MAX_RUN_M = 90; // Permanent link limit of twisted-pair Ethernet (TIA-568 / ISO 11801)
+
+export const DEFAULT_CABLING_SETTINGS: CablingSettings = {
+  slackPercent: 10,
+  serviceLoopM: 5,
+};
+
+// Cable runs follow the building axes (trays and corridors), so each is estimated as the Manhattan distance
+// from the comms room, plus a percentage for detours and a fixed length for the drops and service loop.
+export const estimateCableRuns = (aps: APCoordinate[], idf: APCoordinate, settings: CablingSettings): CableRunSummary => {
+  const runs = aps.map(ap => {
+    const routeM = Math.abs(ap.x - idf.x) + Math.abs(ap.y - idf.y);
+    const lengthM = routeM * (1 + settings.slackPercent / 100) + settings.serviceLoopM;
+    return { routeM, lengthM, overLimit: lengthM > ETHERNET_MAX_RUN_M };
+  });
+  return {
+    runs,
+    totalM: runs.reduce((sum, run) => sum + run.lengthM, 0),
+    longestM: runs.reduce((longest, run) => Math.max(longest, run.lengthM), 0),
+    overLimitCount: runs.filter(run => run.overLimit).length,
+  };
+};
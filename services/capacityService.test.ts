@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { applyCapacityZones, DEFAULT_CAPACITY_SETTINGS, evaluateCapacity, requiredAPsForClients, zoneClients } from './capacityService';
+import { pointInPolygon } from '../utils/geometry';
+import type { CapacityZone } from '../types';
+
+const SQUARE = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+
+const zone = (occupancyMode: CapacityZone['occupancyMode'], occupancy: number): CapacityZone =>
+  ({ id: 'z1', name: 'Auditorio', polygon: SQUARE, occupancyMode, occupancy });
+
+describe('capacity sizing', () => {
+  it('counts clients from a head count or a density', () => {
+    expect(zoneClients(zone('headcount', 100), DEFAULT_CAPACITY_SETTINGS)).toBe(150);
+    expect(zoneClients(zone('density', 0.5), DEFAULT_CAPACITY_SETTINGS)).toBe(75);
+  });
+
+  it('takes the stricter of the association and throughput limits', () => {
+    expect(requiredAPsForClients(0, DEFAULT_CAPACITY_SETTINGS)).toBe(0);
+    expect(requiredAPsForClients(120, DEFAULT_CAPACITY_SETTINGS)).toBe(3);
+    expect(requiredAPsForClients(120, { ...DEFAULT_CAPACITY_SETTINGS, perClientMbps: 20 })).toBe(6);
+  });
+
+  it('marks a zone capacity-bound when the coverage layout has too few APs inside it', () => {
+    const summary = evaluateCapacity([{ x: 5, y: 5 }], [zone('headcount', 100)], DEFAULT_CAPACITY_SETTINGS);
+    expect(summary.zones[0]).toMatchObject({ requiredAPs: 3, apsInside: 1, binding: 'capacity' });
+    expect(summary.binding).toBe('capacity');
+  });
+
+  it('adds the missing APs inside the zone', () => {
+    const result = applyCapacityZones({ nAP: 2, coordinates: [{ x: 5, y: 5 }, { x: 30, y: 5 }] }, [zone('headcount', 100)], DEFAULT_CAPACITY_SETTINGS);
+    expect(result.nAP).toBe(4);
+    const inside = result.coordinates.filter(ap => pointInPolygon(ap, SQUARE));
+    expect(inside).toHaveLength(3);
+    expect(result.capacity).toMatchObject({ coverageAPs: 2, extraAPs: 2, binding: 'capacity' });
+  });
+
+  it('leaves a layout that already serves every zone alone', () => {
+    const layout = { nAP: 1, coordinates: [{ x: 5, y: 5 }] };
+    const result = applyCapacityZones(layout, [zone('headcount', 10)], DEFAULT_CAPACITY_SETTINGS);
+    expect(result.coordinates).toEqual(layout.coordinates);
+    expect(result.capacity?.binding).toBe('coverage');
+  });
+});
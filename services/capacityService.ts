@@ -0,0 +1,154 @@
+import type { APCoordinate, CapacitySettings, CapacitySummary, CapacityZone, CapacityZoneDemand, OptimizationResult } from '../types';
+import { pointInPolygon, polygonArea } from '../utils/geometry';
+
+export const DEFAULT_CAPACITY_SETTINGS: CapacitySettings = {
+  devicesPerPerson: 1.5,
+  perClientMbps: 5,
+  maxClientsPerAP: 50,
+  apThroughputMbps: 400,
+};
+
+const MAX_ZONE_CANDIDATES = 2500;
+const LLOYD_ITERATIONS = 10;
+
+export const zoneClients = (zone: CapacityZone, settings: CapacitySettings): number => {
+  const people = zone.occupancyMode === 'density' ? zone.occupancy * polygonArea(zone.polygon) : zone.occupancy;
+  return Math.max(0, people * settings.devicesPerPerson);
+};
+
+// APs needed to serve `clients`: limited both by association count and by aggregate throughput.
+export const requiredAPsForClients = (clients: number, settings: CapacitySettings): number => {
+  if (clients <= 0) return 0;
+  const byClients = settings.maxClientsPerAP > 0 ? Math.ceil(clients / settings.maxClientsPerAP) : 0;
+  const byThroughput = settings.apThroughputMbps > 0 ? Math.ceil((clients * settings.perClientMbps) / settings.apThroughputMbps) : 0;
+  return Math.max(1, byClients, byThroughput);
+};
+
+// Compares every zone's capacity need with the APs of a layout that fall inside it. `coverageLayout` is the
+// layout the coverage sizing produced, before any capacity APs were added; a zone is capacity-bound when
+// that layout alone has fewer APs inside it than its clients need.
+export const evaluateCapacity = (
+  aps: APCoordinate[],
+  zones: CapacityZone[],
+  settings: CapacitySettings,
+  coverageLayout: APCoordinate[] = aps
+): CapacitySummary => {
+  const demands: CapacityZoneDemand[] = zones.map(zone => {
+    const clients = zoneClients(zone, settings);
+    const requiredAPs = requiredAPsForClients(clients, settings);
+    const apsInside = aps.filter(ap => pointInPolygon(ap, zone.polygon)).length;
+    const coverageInside = coverageLayout.filter(ap => pointInPolygon(ap, zone.polygon)).length;
+    return {
+      zoneId: zone.id,
+      name: zone.name,
+      area: polygonArea(zone.polygon),
+      clients,
+      requiredAPs,
+      apsInside,
+      binding: requiredAPs > coverageInside ? 'capacity' : 'coverage',
+    };
+  });
+  const extraAPs = Math.max(0, aps.length - coverageLayout.length);
+  return {
+    zones: demands,
+    coverageAPs: coverageLayout.length,
+    capacityAPs: demands.reduce((sum, zone) => sum + zone.requiredAPs, 0),
+    extraAPs,
+    binding: extraAPs > 0 || demands.some(zone => zone.binding === 'capacity') ? 'capacity' : 'coverage',
+  };
+};
+
+// Spreads `count` new APs inside the zone: farthest-point sampling on a fine grid seeds them away from the
+// APs already in the zone and from each other, then Lloyd relaxation evens out the share each one serves.
+const placeInsideZone = (zone: CapacityZone, existing: APCoordinate[], count: number): APCoordinate[] => {
+  const xs = zone.polygon.map(p => p.x);
+  const ys = zone.polygon.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const maxX = Math.max(...xs);
+  const maxY = Math.max(...ys);
+  const step = Math.max(Math.sqrt(((maxX - minX) * (maxY - minY)) / MAX_ZONE_CANDIDATES), 0.1);
+
+  const candidates: APCoordinate[] = [];
+  for (let y = minY + step / 2; y < maxY; y += step) {
+    for (let x = minX + step / 2; x < maxX; x += step) {
+      if (pointInPolygon({ x, y }, zone.polygon)) candidates.push({ x, y });
+    }
+  }
+  if (candidates.length === 0) return [];
+
+  const placed: APCoordinate[] = [];
+  const anchors = [...existing];
+  if (anchors.length === 0) {
+    // Start from the candidate closest to the zone's centre of mass.
+    const cx = candidates.reduce((sum, p) => sum + p.x, 0) / candidates.length;
+    const cy = candidates.reduce((sum, p) => sum + p.y, 0) / candidates.length;
+    const first = candidates.reduce((best, p) => (Math.hypot(p.x - cx, p.y - cy) < Math.hypot(best.x - cx, best.y - cy) ? p : best));
+    placed.push(first);
+    anchors.push(first);
+  }
+  while (placed.length < count) {
+    let best = candidates[0];
+    let bestDistance = -1;
+    for (const candidate of candidates) {
+      const distance = Math.min(...anchors.map(a => Math.hypot(a.x - candidate.x, a.y - candidate.y)));
+      if (distance > bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    placed.push(best);
+    anchors.push(best);
+  }
+
+  // A few Lloyd iterations pull the new APs from the zone's edges towards the centres of their own share of it.
+  const existingCount = existing.length;
+  for (let iteration = 0; iteration < LLOYD_ITERATIONS; iteration++) {
+    const sums = placed.map(() => ({ x: 0, y: 0, n: 0 }));
+    for (const candidate of candidates) {
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      anchors.forEach((a, index) => {
+        const distance = Math.hypot(a.x - candidate.x, a.y - candidate.y);
+        if (distance < nearestDistance) {
+          nearest = index;
+          nearestDistance = distance;
+        }
+      });
+      if (nearest >= existingCount) {
+        const sum = sums[nearest - existingCount];
+        sum.x += candidate.x;
+        sum.y += candidate.y;
+        sum.n++;
+      }
+    }
+    sums.forEach((sum, index) => {
+      if (sum.n === 0) return;
+      placed[index] = { x: sum.x / sum.n, y: sum.y / sum.n };
+      anchors[existingCount + index] = placed[index];
+    });
+  }
+  return placed;
+};
+
+// Sizes a coverage layout for capacity: each zone that needs more APs than the layout already has inside it
+// gets the missing ones placed inside it. The AP count becomes the larger of both needs per zone.
+export const applyCapacityZones = (result: OptimizationResult, zones: CapacityZone[], settings: CapacitySettings): OptimizationResult => {
+  if (zones.length === 0 || result.coordinates.length === 0) {
+    return result;
+  }
+  const coordinates = [...result.coordinates];
+  for (const zone of zones) {
+    const inside = coordinates.filter(ap => pointInPolygon(ap, zone.polygon));
+    const missing = requiredAPsForClients(zoneClients(zone, settings), settings) - inside.length;
+    if (missing > 0) {
+      coordinates.push(...placeInsideZone(zone, inside, missing).map(ap => ({ x: parseFloat(ap.x.toFixed(2)), y: parseFloat(ap.y.toFixed(2)) })));
+    }
+  }
+  return {
+    ...result,
+    nAP: coordinates.length,
+    coordinates,
+    capacity: evaluateCapacity(coordinates, zones, settings, result.coordinates),
+  };
+};
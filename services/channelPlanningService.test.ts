@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { assignChannels, buildInterferenceGraph, DEFAULT_CHANNEL_PLAN_SETTINGS, getChannelPool, isDfsChannel } from './channelPlanningService';
+import { DEFAULT_PROPAGATION_SETTINGS } from './propagationService';
+import type { APCoordinate } from '../types';
+
+describe('getChannelPool', () => {
+  it('uses the three non-overlapping 2.4 GHz channels', () => {
+    expect(getChannelPool({ ...DEFAULT_CHANNEL_PLAN_SETTINGS, band: '2.4' })).toEqual([1, 6, 11]);
+  });
+
+  it('adds DFS channels after the others only when allowed', () => {
+    const plain = getChannelPool({ ...DEFAULT_CHANNEL_PLAN_SETTINGS, channelWidthMhz: 80 });
+    expect(plain).toEqual([42, 155]);
+    expect(getChannelPool({ ...DEFAULT_CHANNEL_PLAN_SETTINGS, channelWidthMhz: 80, allowDfs: true })).toEqual([42, 155, 58, 106, 122, 138]);
+    expect(plain.some(channel => isDfsChannel(channel, '5'))).toBe(false);
+  });
+
+  it('keeps 6 GHz channels inside the band', () => {
+    const pool = getChannelPool({ ...DEFAULT_CHANNEL_PLAN_SETTINGS, band: '6', channelWidthMhz: 160 });
+    expect(pool).toEqual([15, 47, 79, 111, 143, 175, 207]);
+    expect(getChannelPool({ ...DEFAULT_CHANNEL_PLAN_SETTINGS, band: '6', channelWidthMhz: 20 })).toHaveLength(59);
+  });
+});
+
+describe('buildInterferenceGraph', () => {
+  const aps: APCoordinate[] = [{ x: 0, y: 0 }, { x: 15, y: 0 }, { x: 60, y: 0 }];
+
+  it('links APs whose coverage circles overlap', () => {
+    expect(buildInterferenceGraph(aps, 10)).toEqual([[1], [0], []]);
+  });
+
+  it('uses the radius of each AP\'s own model', () => {
+    const modelled: APCoordinate[] = [{ x: 0, y: 0, modelId: 'grande' }, { x: 15, y: 0 }, { x: 60, y: 0 }];
+    expect(buildInterferenceGraph(modelled, 5)).toEqual([[], [], []]);
+    expect(buildInterferenceGraph(modelled, 5, { modelRadii: { grande: 12 } })).toEqual([[1], [0], []]);
+  });
+
+  it('also links APs that hear each other above the CCA threshold', () => {
+    const graph = buildInterferenceGraph(aps, 10, { propagation: { ...DEFAULT_PROPAGATION_SETTINGS, enabled: true } });
+    expect(graph[2]).toContain(1);
+  });
+
+  it('links APs when only the stronger one is heard by the other', () => {
+    const quiet = { ...DEFAULT_PROPAGATION_SETTINGS, enabled: true, txPowerDbm: -20 };
+    const loud = { ...quiet, txPowerDbm: 30 };
+    const pair: APCoordinate[] = [{ x: 0, y: 0, modelId: 'potente' }, { x: 40, y: 0 }];
+    expect(buildInterferenceGraph(pair, 1, { propagation: quiet })).toEqual([[], []]);
+    expect(buildInterferenceGraph(pair, 1, { propagation: quiet, modelPropagation: { potente: loud } })).toEqual([[1], [0]]);
+  });
+});
+
+describe('assignChannels', () => {
+  it('needs APs and a non-empty pool', () => {
+    expect(assignChannels([], 10, DEFAULT_CHANNEL_PLAN_SETTINGS)).toBeNull();
+    expect(assignChannels([{ x: 0, y: 0 }], 10, { ...DEFAULT_CHANNEL_PLAN_SETTINGS, channelWidthMhz: 160 })).toBeNull();
+  });
+
+  it('gives overlapping APs different channels when the pool allows it', () => {
+    const triangle: APCoordinate[] = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 5, y: 8 }];
+    const plan = assignChannels(triangle, 10, { ...DEFAULT_CHANNEL_PLAN_SETTINGS, band: '2.4' })!;
+    expect(new Set(plan.channels).size).toBe(3);
+    expect(plan.coChannelNeighbours).toEqual([0, 0, 0]);
+  });
+
+  it('reuses the channel of the farthest neighbour once the pool runs out', () => {
+    const row: APCoordinate[] = [0, 8, 16, 24].map(x => ({ x, y: 0 }));
+    const plan = assignChannels(row, 30, { ...DEFAULT_CHANNEL_PLAN_SETTINGS, band: '2.4' })!;
+    expect(plan.channels[0]).toBe(plan.channels[3]);
+    expect(plan.coChannelNeighbours[0]).toBe(1);
+  });
+});
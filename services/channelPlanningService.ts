@@ -0,0 +1,148 @@
+import type { APCoordinate, ChannelAssignment, ChannelPlanSettings, ChannelWidth, PropagationSettings, Wall } from '../types';
+import { apCoverageRadius } from './coverageAnalysisService';
+import { apPropagationSettings, receivedSignalDbm } from './propagationService';
+
+// Signal level above which two APs on the same channel defer to each other (802.11 preamble detection).
+export const CO_CHANNEL_CCA_THRESHOLD_DBM = -82;
+
+export const DEFAULT_CHANNEL_PLAN_SETTINGS: ChannelPlanSettings = {
+  enabled: false,
+  band: '5',
+  channelWidthMhz: 20,
+  allowDfs: false,
+};
+
+// Non-overlapping 5 GHz channels (centre channel numbers) for each width, split by whether they need DFS.
+const FIVE_GHZ_CHANNELS: Record<ChannelWidth, { nonDfs: number[]; dfs: number[] }> = {
+  20: {
+    nonDfs: [36, 40, 44, 48, 149, 153, 157, 161, 165],
+    dfs: [52, 56, 60, 64, 100, 104, 108, 112, 116, 120, 124, 128, 132, 136, 140, 144],
+  },
+  40: { nonDfs: [38, 46, 151, 159], dfs: [54, 62, 102, 110, 118, 126, 134, 142] },
+  80: { nonDfs: [42, 155], dfs: [58, 106, 122, 138] },
+  160: { nonDfs: [], dfs: [50, 114] },
+};
+
+// 6 GHz centre channels follow a fixed raster: the first channel of each width and the step between them.
+const SIX_GHZ_RASTER: Record<ChannelWidth, { first: number; step: number }> = {
+  20: { first: 1, step: 4 },
+  40: { first: 3, step: 8 },
+  80: { first: 7, step: 16 },
+  160: { first: 15, step: 32 },
+};
+const SIX_GHZ_LAST_CHANNEL = 233;
+
+export const CHANNEL_WIDTHS: ChannelWidth[] = [20, 40, 80, 160];
+
+// Channels the plan may use, in preference order (non-DFS channels first).
+export const getChannelPool = (settings: ChannelPlanSettings): number[] => {
+  switch (settings.band) {
+    case '2.4':
+      return [1, 6, 11];
+    case '5': {
+      const channels = FIVE_GHZ_CHANNELS[settings.channelWidthMhz];
+      return settings.allowDfs ? [...channels.nonDfs, ...channels.dfs] : channels.nonDfs;
+    }
+    case '6': {
+      const { first, step } = SIX_GHZ_RASTER[settings.channelWidthMhz];
+      const pool: number[] = [];
+      // channel + (step - 4) / 2 is the highest 20 MHz sub-channel, which must stay within the band.
+      for (let channel = first; channel + (step - 4) / 2 <= SIX_GHZ_LAST_CHANNEL; channel += step) {
+        pool.push(channel);
+      }
+      return pool;
+    }
+  }
+};
+
+export const isDfsChannel = (channel: number, band: ChannelPlanSettings['band']): boolean => band === '5' && channel >= 50 && channel <= 144;
+
+// Distinct colour per channel, spread around the hue circle according to its position in the pool.
+export const channelColor = (channel: number, pool: number[]): string => {
+  const index = pool.indexOf(channel);
+  if (index < 0) return '#ef4444';
+  return `hsl(${Math.round((index * 360) / Math.max(pool.length, 1))}, 75%, 45%)`;
+};
+
+export interface InterferenceGraphOptions {
+  propagation?: PropagationSettings; // When enabled, APs that hear each other above the CCA threshold also interfere
+  walls?: Wall[];
+  modelRadii?: Record<string, number>; // Radius of APs that carry their own model, by model id
+  modelPropagation?: Record<string, PropagationSettings>; // Settings those APs transmit with, by model id
+}
+
+// Adjacency lists of the overlap/interference graph: two APs are neighbours when their coverage circles
+// overlap, or (with the propagation model) when either one receives the other above the CCA threshold.
+export const buildInterferenceGraph = (aps: APCoordinate[], coverageRadius: number, options: InterferenceGraphOptions = {}): number[][] => {
+  const { propagation, walls = [], modelRadii = {}, modelPropagation = {} } = options;
+  const radii = aps.map(ap => apCoverageRadius(ap, coverageRadius, modelRadii));
+  const transmit = propagation ? aps.map(ap => apPropagationSettings(ap, propagation, modelPropagation)) : [];
+  const hearsFrom = (from: number, to: number) =>
+    transmit[from]?.enabled === true && receivedSignalDbm(transmit[from], aps[from], aps[to], walls) >= CO_CHANNEL_CCA_THRESHOLD_DBM;
+  const neighbours: number[][] = aps.map(() => []);
+  for (let i = 0; i < aps.length; i++) {
+    for (let j = i + 1; j < aps.length; j++) {
+      const distance = Math.hypot(aps[i].x - aps[j].x, aps[i].y - aps[j].y);
+      const overlaps = distance < radii[i] + radii[j];
+      const hears = hearsFrom(i, j) || hearsFrom(j, i);
+      if (overlaps || hears) {
+        neighbours[i].push(j);
+        neighbours[j].push(i);
+      }
+    }
+  }
+  return neighbours;
+};
+
+// DSatur colouring of the interference graph with the channel pool as colours: the AP whose neighbours already
+// use the most distinct channels is assigned next, taking the first free channel. When every channel is taken
+// by a neighbour, the channel shared with the fewest neighbours (and then the farthest one) is reused.
+export const assignChannels = (
+  aps: APCoordinate[],
+  coverageRadius: number,
+  settings: ChannelPlanSettings,
+  options: InterferenceGraphOptions = {}
+): ChannelAssignment | null => {
+  const channelPool = getChannelPool(settings);
+  if (aps.length === 0 || channelPool.length === 0) {
+    return null;
+  }
+
+  const graph = buildInterferenceGraph(aps, coverageRadius, options);
+  const channels: number[] = aps.map(() => 0);
+  const assigned = aps.map(() => false);
+
+  for (let step = 0; step < aps.length; step++) {
+    let next = -1;
+    let bestSaturation = -1;
+    for (let i = 0; i < aps.length; i++) {
+      if (assigned[i]) continue;
+      const saturation = new Set(graph[i].filter(n => assigned[n]).map(n => channels[n])).size;
+      if (saturation > bestSaturation || (saturation === bestSaturation && graph[i].length > graph[next].length)) {
+        next = i;
+        bestSaturation = saturation;
+      }
+    }
+
+    let bestChannel = channelPool[0];
+    let bestConflicts = Infinity;
+    let bestNearest = -Infinity;
+    for (const channel of channelPool) {
+      const sharing = graph[next].filter(n => assigned[n] && channels[n] === channel);
+      const nearest = sharing.length === 0
+        ? Infinity
+        : Math.min(...sharing.map(n => Math.hypot(aps[n].x - aps[next].x, aps[n].y - aps[next].y)));
+      if (sharing.length < bestConflicts || (sharing.length === bestConflicts && nearest > bestNearest)) {
+        bestChannel = channel;
+        bestConflicts = sharing.length;
+        bestNearest = nearest;
+      }
+      if (sharing.length === 0) break;
+    }
+    channels[next] = bestChannel;
+    assigned[next] = true;
+  }
+
+  const coChannelNeighbours = graph.map((neighbours, i) => neighbours.filter(n => channels[n] === channels[i]).length);
+  return { channels, coChannelNeighbours, channelPool };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeCoverage } from './coverageAnalysisService';
+import type { BuildingOutline, Wall } from '../types';
+
+describe('analyzeCoverage', () => {
+  it('rejects non-positive dimensions and radii', () => {
+    expect(analyzeCoverage({ length: 0, width: 10 }, [], 5)).toBeNull();
+    expect(analyzeCoverage({ length: 10, width: 10 }, [], 0)).toBeNull();
+  });
+
+  it('reports full coverage when one AP reaches every cell', () => {
+    const metrics = analyzeCoverage({ length: 10, width: 10 }, [{ x: 5, y: 5 }], 10)!;
+    expect(metrics.coveragePercent).toBe(100);
+    expect(metrics.totalArea).toBeCloseTo(100);
+    expect(metrics.uncoveredArea).toBeCloseTo(0);
+    expect(metrics.holes).toEqual([]);
+    expect(metrics.largestHole).toBeNull();
+  });
+
+  it('groups uncovered cells into holes, largest first', () => {
+    // AP in the middle of a 30 m corridor leaves both ends uncovered; the right end is longer.
+    const metrics = analyzeCoverage({ length: 30, width: 2 }, [{ x: 12, y: 1 }], 5)!;
+    expect(metrics.holes).toHaveLength(2);
+    expect(metrics.holes[0].bounds.minX).toBeGreaterThan(12);
+    expect(metrics.holes[0].area).toBeGreaterThan(metrics.holes[1].area);
+    expect(metrics.largestHole).toBe(metrics.holes[0]);
+    expect(metrics.coveredArea + metrics.uncoveredArea).toBeCloseTo(metrics.totalArea);
+  });
+
+  it('counts overlap depth where APs share cells', () => {
+    const metrics = analyzeCoverage({ length: 10, width: 10 }, [{ x: 5, y: 5 }, { x: 5, y: 5 }], 10)!;
+    expect(metrics.meanOverlapDepth).toBe(2);
+    expect(metrics.maxOverlapDepth).toBe(2);
+  });
+
+  it('gives APs with their own model the radius of that model', () => {
+    const building = { length: 20, width: 2 };
+    const project = analyzeCoverage(building, [{ x: 1, y: 1, modelId: 'grande' }], 5)!;
+    const modelled = analyzeCoverage(building, [{ x: 1, y: 1, modelId: 'grande' }], 5, { modelRadii: { grande: 20 } })!;
+    const unknown = analyzeCoverage(building, [{ x: 1, y: 1, modelId: 'otro' }], 5, { modelRadii: { grande: 20 } })!;
+    expect(modelled.coveragePercent).toBe(100);
+    expect(project.coveragePercent).toBeLessThan(100);
+    expect(unknown.coveragePercent).toBe(project.coveragePercent);
+  });
+
+  it('shrinks the reach of an AP behind a wall', () => {
+    const wall: Wall = { id: 'w1', kind: 'wall', material: 'concrete', lossDb: 15, points: [{ x: 5, y: 0 }, { x: 5, y: 10 }] };
+    const open = analyzeCoverage({ length: 10, width: 10 }, [{ x: 2, y: 5 }], 9)!;
+    const walled = analyzeCoverage({ length: 10, width: 10 }, [{ x: 2, y: 5 }], 9, { walls: [wall] })!;
+    expect(walled.coveragePercent).toBeLessThan(open.coveragePercent);
+  });
+
+  it('leaves cells outside the outline and inside excluded areas out of the total', () => {
+    const outline: BuildingOutline = {
+      outer: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }],
+      holes: [[{ x: 0, y: 0 }, { x: 5, y: 0 }, { x: 5, y: 5 }, { x: 0, y: 5 }]],
+    };
+    const withHole = analyzeCoverage({ length: 10, width: 10, outline }, [{ x: 7, y: 7 }], 1)!;
+    expect(withHole.totalArea).toBeCloseTo(75);
+    const excluded = analyzeCoverage({ length: 10, width: 10 }, [{ x: 7, y: 7 }], 1, {
+      excludedAreas: [[{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 5 }, { x: 0, y: 5 }]],
+    })!;
+    expect(excluded.totalArea).toBeCloseTo(50);
+  });
+
+  it('counts APs on other floors within their slab-attenuated reach', () => {
+    const building = { length: 10, width: 10 };
+    const alone = analyzeCoverage(building, [], 8)!;
+    const withRemote = analyzeCoverage(building, [], 8, {
+      externalSources: [{ position: { x: 5, y: 5 }, verticalOffsetM: 3, extraLossDb: 0 }],
+    })!;
+    expect(alone.coveragePercent).toBe(0);
+    expect(withRemote.coveragePercent).toBe(100);
+  });
+});
@@ -0,0 +1,168 @@
+import type { APCoordinate, BuildingDimensions, CoverageMetrics, CoverageHole, RemoteAPSource, Wall } from '../types';
+import { wallLossBetween } from './obstacleService';
+import { attenuatedRadius } from './propagationService';
+import { isInsideOutline, pointInPolygon } from '../utils/geometry';
+
+export const DEFAULT_ANALYSIS_RESOLUTION = 1; // meters per raster cell
+const MAX_ANALYSIS_CELLS = 250000;
+
+export interface CoverageAnalysisOptions {
+  resolution?: number;
+  walls?: Wall[];            // Obstacles whose loss shrinks the reach of each AP
+  pathLossExponent?: number; // Converts wall loss into a reduced radius; defaults to 3
+  externalSources?: RemoteAPSource[]; // APs on adjacent floors that bleed through the slab
+  excludedAreas?: APCoordinate[][];   // Polygons that need no coverage; their cells are left out like holes
+  modelRadii?: Record<string, number>; // Radius of APs that carry their own model, by model id
+}
+
+// An AP's coverage radius: its own model's when `modelRadii` lists it, otherwise the design radius.
+export const apCoverageRadius = (ap: APCoordinate, coverageRadius: number, modelRadii: Record<string, number> = {}): number =>
+  (ap.modelId !== undefined ? modelRadii[ap.modelId] : undefined) ?? coverageRadius;
+
+// Groups 4-connected uncovered cells into coverage holes, largest first.
+const findHoles = (
+  uncovered: Uint8Array,
+  cols: number,
+  rows: number,
+  cellWidth: number,
+  cellHeight: number
+): CoverageHole[] => {
+  const visited = new Uint8Array(uncovered.length);
+  const holes: CoverageHole[] = [];
+
+  for (let start = 0; start < uncovered.length; start++) {
+    if (!uncovered[start] || visited[start]) continue;
+
+    const stack = [start];
+    visited[start] = 1;
+    let cellCount = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let minC = cols, maxC = 0, minR = rows, maxR = 0;
+
+    while (stack.length > 0) {
+      const idx = stack.pop()!;
+      const c = idx % cols;
+      const r = Math.floor(idx / cols);
+      cellCount++;
+      minC = Math.min(minC, c);
+      maxC = Math.max(maxC, c);
+      minR = Math.min(minR, r);
+      maxR = Math.max(maxR, r);
+      sumX += (c + 0.5) * cellWidth;
+      sumY += (r + 0.5) * cellHeight;
+
+      const neighbours = [
+        c > 0 ? idx - 1 : -1,
+        c < cols - 1 ? idx + 1 : -1,
+        r > 0 ? idx - cols : -1,
+        r < rows - 1 ? idx + cols : -1,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && uncovered[n] && !visited[n]) {
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+
+    holes.push({
+      cellCount,
+      area: cellCount * cellWidth * cellHeight,
+      centroid: { x: sumX / cellCount, y: sumY / cellCount },
+      bounds: { minX: minC * cellWidth, minY: minR * cellHeight, maxX: (maxC + 1) * cellWidth, maxY: (maxR + 1) * cellHeight },
+    });
+  }
+  return holes.sort((a, b) => b.cellCount - a.cellCount);
+};
+
+// Rasterizes the building into cells of roughly `resolution` meters and tests each cell centre
+// against every AP's coverage circle, sized by the AP's own model when it has one. When walls are given, the radius towards each cell is reduced
+// by the loss of the walls crossed on the way. For polygonal buildings, cells whose centre falls outside
+// the outline (or inside a hole) are ignored. APs on other floors count when the cell is within their
+// slab-attenuated radius, measured as a 3D distance.
+export const analyzeCoverage = (
+  building: BuildingDimensions,
+  aps: APCoordinate[],
+  coverageRadius: number,
+  options: CoverageAnalysisOptions = {}
+): CoverageMetrics | null => {
+  const { resolution = DEFAULT_ANALYSIS_RESOLUTION, walls = [], pathLossExponent = 3, externalSources = [], excludedAreas = [], modelRadii = {} } = options;
+  const { length, width } = building;
+  if (length <= 0 || width <= 0 || coverageRadius <= 0 || resolution <= 0) {
+    return null;
+  }
+
+  // Coarsen the raster if the requested resolution would produce too many cells.
+  let effectiveResolution = resolution;
+  while (Math.ceil(length / effectiveResolution) * Math.ceil(width / effectiveResolution) > MAX_ANALYSIS_CELLS) {
+    effectiveResolution *= 1.25;
+  }
+  const cols = Math.max(1, Math.ceil(length / effectiveResolution));
+  const rows = Math.max(1, Math.ceil(width / effectiveResolution));
+  const cellWidth = length / cols;
+  const cellHeight = width / rows;
+  const cellArea = cellWidth * cellHeight;
+  const apRadii = aps.map(ap => apCoverageRadius(ap, coverageRadius, modelRadii));
+  const remoteReaches = externalSources.map(source => attenuatedRadius(coverageRadius, source.extraLossDb, pathLossExponent));
+
+  const uncovered = new Uint8Array(cols * rows);
+  const uncoveredCells: APCoordinate[] = [];
+  let insideCount = 0;
+  let coveredCount = 0;
+  let depthSum = 0;
+  let maxDepth = 0;
+
+  for (let r = 0; r < rows; r++) {
+    const cy = (r + 0.5) * cellHeight;
+    for (let c = 0; c < cols; c++) {
+      const cx = (c + 0.5) * cellWidth;
+      if (building.outline && !isInsideOutline({ x: cx, y: cy }, building.outline)) continue;
+      if (excludedAreas.some(area => pointInPolygon({ x: cx, y: cy }, area))) continue;
+      insideCount++;
+      let depth = 0;
+      for (let i = 0; i < aps.length; i++) {
+        const ap = aps[i];
+        const dx = ap.x - cx;
+        const dy = ap.y - cy;
+        const distanceSquared = dx * dx + dy * dy;
+        if (distanceSquared > apRadii[i] * apRadii[i]) continue;
+        if (walls.length > 0) {
+          const reach = attenuatedRadius(apRadii[i], wallLossBetween(walls, ap, { x: cx, y: cy }), pathLossExponent);
+          if (distanceSquared > reach * reach) continue;
+        }
+        depth++;
+      }
+      externalSources.forEach((source, index) => {
+        const distance = Math.hypot(source.position.x - cx, source.position.y - cy, source.verticalOffsetM);
+        if (distance <= remoteReaches[index]) depth++;
+      });
+      if (depth > 0) {
+        coveredCount++;
+        depthSum += depth;
+        maxDepth = Math.max(maxDepth, depth);
+      } else {
+        uncovered[r * cols + c] = 1;
+        uncoveredCells.push({ x: c * cellWidth, y: r * cellHeight });
+      }
+    }
+  }
+
+  const coveredArea = coveredCount * cellArea;
+  const holes = findHoles(uncovered, cols, rows, cellWidth, cellHeight);
+  const totalArea = insideCount * cellArea;
+
+  return {
+    cellWidth,
+    cellHeight,
+    totalArea,
+    coveredArea,
+    uncoveredArea: totalArea - coveredArea,
+    coveragePercent: insideCount > 0 ? (coveredCount / insideCount) * 100 : 0,
+    meanOverlapDepth: coveredCount > 0 ? depthSum / coveredCount : 0,
+    maxOverlapDepth: maxDepth,
+    largestHole: holes[0] ?? null,
+    holes,
+    uncoveredCells,
+  };
+};
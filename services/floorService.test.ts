@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { createFloor, getAdjacentFloorSources, getFloorAPsInMeters } from './floorService';
+import type { FloorSnapshot } from '../types';
+
+const floorWithAPs = (name: string, heightM: number, slabDb: number, x: number): FloorSnapshot => ({
+  ...createFloor(name),
+  floorHeightM: heightM,
+  slabAttenuationDb: slabDb,
+  buildingLength: '20',
+  buildingWidth: '10',
+  results: { nAP: 1, coordinates: [{ x, y: 5 }] },
+});
+
+describe('createFloor', () => {
+  it('copies the dimensions and slab of a template floor', () => {
+    const floor = createFloor('Planta 1', { buildingLength: '30', buildingWidth: '15', floorHeightM: 4, slabAttenuationDb: 20 });
+    expect(floor).toMatchObject({ name: 'Planta 1', buildingLength: '30', buildingWidth: '15', floorHeightM: 4, slabAttenuationDb: 20 });
+    expect(floor.manualAPs).toEqual([]);
+    expect(createFloor('Otra').id).not.toBe(floor.id);
+  });
+});
+
+describe('getFloorAPsInMeters', () => {
+  it('returns null for manual APs without a plan to place them on', () => {
+    const floor = { ...createFloor('Planta baja'), manualAPs: [{ x: 10, y: 10 }] };
+    expect(getFloorAPsInMeters(floor, 'manual')).toBeNull();
+    expect(getFloorAPsInMeters(floor, 'algorithm')).toBeNull();
+  });
+
+  it('converts manual plan pixels with the floor plan scale', () => {
+    const floor: FloorSnapshot = {
+      ...createFloor('Planta baja'),
+      buildingLength: '20',
+      planNaturalDimensions: { width: 200, height: 100 },
+      manualAPs: [{ x: 50, y: 20 }],
+    };
+    expect(getFloorAPsInMeters(floor, 'manual')).toEqual([{ x: 5, y: 2 }]);
+  });
+});
+
+describe('getAdjacentFloorSources', () => {
+  const floors = [floorWithAPs('Sótano', 3, 12, 2), floorWithAPs('Planta baja', 4, 18, 10), floorWithAPs('Planta 1', 3.5, 15, 18)];
+
+  it('sees the floors directly below and above through the slab between them', () => {
+    expect(getAdjacentFloorSources(floors, 1, 'algorithm')).toEqual([
+      { position: { x: 2, y: 5 }, verticalOffsetM: 3, extraLossDb: 12 },
+      { position: { x: 18, y: 5 }, verticalOffsetM: 4, extraLossDb: 18 },
+    ]);
+  });
+
+  it('has only one neighbour at the bottom and top floors', () => {
+    expect(getAdjacentFloorSources(floors, 0, 'algorithm')).toHaveLength(1);
+    expect(getAdjacentFloorSources(floors, 2, 'algorithm')).toEqual([{ position: { x: 10, y: 5 }, verticalOffsetM: 4, extraLossDb: 18 }]);
+  });
+});
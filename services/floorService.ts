@@ -0,0 +1,62 @@
+import type { APCoordinate, FloorSnapshot, PlacementSource, RemoteAPSource } from '../types';
+import { createId } from '../utils/id';
+import { DEFAULT_CEILING_GRID_SPACING_M } from './mountingService';
+import { planPixelToMeters, resolvePlanTransform } from '../utils/planTransform';
+
+export const DEFAULT_FLOOR_HEIGHT_M = 3.5;
+export const DEFAULT_SLAB_ATTENUATION_DB = 15; // Typical reinforced concrete slab
+
+export const createFloor = (name: string, template?: Pick<FloorSnapshot, 'buildingLength' | 'buildingWidth' | 'floorHeightM' | 'slabAttenuationDb'>): FloorSnapshot => ({
+  id: createId('floor'),
+  name,
+  floorHeightM: template?.floorHeightM ?? DEFAULT_FLOOR_HEIGHT_M,
+  slabAttenuationDb: template?.slabAttenuationDb ?? DEFAULT_SLAB_ATTENUATION_DB,
+  buildingLength: template?.buildingLength ?? '',
+  buildingWidth: template?.buildingWidth ?? '',
+  outlineForm: { shape: 'rectangle', outer: '', holes: '' },
+  planImageDataUrl: null,
+  planNaturalDimensions: null,
+  planCalibration: null,
+  manualAPs: [],
+  walls: [],
+  capacityZones: [],
+  results: null,
+  aiResults: null,
+  designOfRecord: null,
+  planningZones: [],
+  mountingForm: { mode: 'free', gridSpacing: String(DEFAULT_CEILING_GRID_SPACING_M), gridOffsetX: '0', gridOffsetY: '0', points: '' },
+  idfLocation: null,
+});
+
+// APs of one floor in building meters. Manual APs need the floor's plan transform; without it they are unknown (null).
+export const getFloorAPsInMeters = (floor: FloorSnapshot, source: PlacementSource): APCoordinate[] | null => {
+  switch (source) {
+    case 'algorithm':
+      return floor.results ? floor.results.coordinates : null;
+    case 'ai':
+      return floor.aiResults ? floor.aiResults.coordinates : null;
+    case 'manual': {
+      const transform = floor.planNaturalDimensions
+        ? resolvePlanTransform(floor.planCalibration, floor.planNaturalDimensions.width, parseFloat(floor.buildingLength))
+        : null;
+      return transform ? floor.manualAPs.map(ap => planPixelToMeters(ap, transform)!) : null;
+    }
+  }
+};
+
+// APs on the floors directly below and above `index` (floors are ordered bottom to top), as seen from that floor.
+// Every floor shares the same origin, so plan coordinates are used unchanged. The height and slab attenuation
+// stored on a floor describe the gap to the floor above it.
+export const getAdjacentFloorSources = (floors: FloorSnapshot[], index: number, source: PlacementSource): RemoteAPSource[] => {
+  const sources: RemoteAPSource[] = [];
+  const addFloor = (neighbourIndex: number, gapOwner: FloorSnapshot) => {
+    const neighbour = floors[neighbourIndex];
+    if (!neighbour) return;
+    for (const position of getFloorAPsInMeters(neighbour, source) ?? []) {
+      sources.push({ position, verticalOffsetM: gapOwner.floorHeightM, extraLossDb: gapOwner.slabAttenuationDb });
+    }
+  };
+  if (index > 0) addFloor(index - 1, floors[index - 1]);
+  if (index < floors.length - 1) addFloor(index + 1, floors[index]);
+  return sources;
+};
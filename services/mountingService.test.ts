@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { countOffMount, DEFAULT_MOUNTING_SETTINGS, snapPlacement, snapResult, snapToMount } from './mountingService';
+import type { MountingSettings } from '../types';
+
+const grid: MountingSettings = { ...DEFAULT_MOUNTING_SETTINGS, mode: 'grid', gridSpacingM: 0.6 };
+
+describe('snapToMount', () => {
+  it('returns the point itself with mounting off', () => {
+    expect(snapToMount({ x: 1.23, y: 4.56 }, DEFAULT_MOUNTING_SETTINGS)).toEqual({ x: 1.23, y: 4.56 });
+  });
+
+  it('moves a point to the nearest grid node, honouring the offset', () => {
+    expect(snapToMount({ x: 1.25, y: 0.31 }, grid)).toEqual({ x: 1.2, y: 0.6 });
+    expect(snapToMount({ x: 1.25, y: 0.31 }, { ...grid, gridOffset: { x: 0.1, y: 0.1 } })).toEqual({ x: 1.3, y: 0.1 });
+  });
+
+  it('skips mounts that are not allowed', () => {
+    expect(snapToMount({ x: 1.2, y: 1.2 }, grid, mount => mount.x !== 1.2)).toEqual({ x: 0.6, y: 1.2 });
+  });
+});
+
+describe('snapPlacement', () => {
+  it('puts one AP per mount', () => {
+    const snapped = snapPlacement([{ x: 1.2, y: 1.2 }, { x: 1.25, y: 1.2 }], grid);
+    expect(snapped).toHaveLength(2);
+    expect(snapped[0]).toEqual({ x: 1.2, y: 1.2 });
+    expect(snapped[1]).not.toEqual(snapped[0]);
+  });
+
+  it('keeps the model of each AP it moves', () => {
+    expect(snapPlacement([{ x: 1.1, y: 1.3, modelId: 'm' }], grid)).toEqual([{ x: 1.2, y: 1.2, modelId: 'm' }]);
+  });
+
+  it('uses only the listed mount points', () => {
+    const points: MountingSettings = { ...DEFAULT_MOUNTING_SETTINGS, mode: 'points', points: [{ x: 0, y: 0 }, { x: 10, y: 0 }] };
+    expect(snapPlacement([{ x: 9, y: 1 }, { x: 1, y: 1 }], points)).toEqual([{ x: 10, y: 0 }, { x: 0, y: 0 }]);
+  });
+});
+
+describe('snapResult', () => {
+  it('counts the APs left without a mount', () => {
+    const points: MountingSettings = { ...DEFAULT_MOUNTING_SETTINGS, mode: 'points', points: [{ x: 0, y: 0 }] };
+    const snapped = snapResult({ nAP: 2, coordinates: [{ x: 1, y: 0 }, { x: 2, y: 0 }] }, points);
+    expect(snapped.coordinates).toEqual([{ x: 0, y: 0 }]);
+    expect(snapped.nAP).toBe(1);
+    expect(snapped.unmountedAPs).toBe(1);
+    expect(snapResult(snapped, points)).toEqual(snapped);
+  });
+});
+
+describe('countOffMount', () => {
+  it('counts the APs away from every mount', () => {
+    expect(countOffMount([{ x: 1.2, y: 0.6 }, { x: 1.3, y: 0.6 }], grid)).toBe(1);
+    expect(countOffMount([{ x: 1.3, y: 0.6 }], DEFAULT_MOUNTING_SETTINGS)).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+import type { APCoordinate, MountingSettings, OptimizationResult } from '../types';
+
+export const MOUNTING_MODE_LABELS: Record<MountingSettings['mode'], string> = {
+  free: 'Libre',
+  grid: 'Retícula del falso techo',
+  points: 'Puntos de montaje permitidos',
+};
+
+export const DEFAULT_CEILING_GRID_SPACING_M = 0.6; // Standard 600 mm ceiling tile
+
+export const DEFAULT_MOUNTING_SETTINGS: MountingSettings = {
+  mode: 'free',
+  gridSpacingM: DEFAULT_CEILING_GRID_SPACING_M,
+  gridOffset: { x: 0, y: 0 },
+  points: [],
+};
+
+const GRID_SEARCH_NODES = 4; // Grid nodes searched in each direction around the nearest one
+
+// Snapping only applies once there is something to snap to.
+export const isMountingActive = (settings: MountingSettings): boolean =>
+  settings.mode === 'grid' ? settings.gridSpacingM > 0 : settings.mode === 'points' && settings.points.length > 0;
+
+const distanceSquared = (a: APCoordinate, b: APCoordinate) => (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+
+const pointKey = (point: APCoordinate) => `${point.x.toFixed(3)},${point.y.toFixed(3)}`;
+
+// Mount points near `point`, closest first. For a grid, the nodes around the nearest one; for a list, all of it.
+const candidateMounts = (point: APCoordinate, settings: MountingSettings): APCoordinate[] => {
+  let candidates: APCoordinate[];
+  if (settings.mode === 'grid') {
+    const { gridSpacingM: spacing, gridOffset: offset } = settings;
+    const col = Math.round((point.x - offset.x) / spacing);
+    const row = Math.round((point.y - offset.y) / spacing);
+    candidates = [];
+    for (let dc = -GRID_SEARCH_NODES; dc <= GRID_SEARCH_NODES; dc++) {
+      for (let dr = -GRID_SEARCH_NODES; dr <= GRID_SEARCH_NODES; dr++) {
+        candidates.push({
+          x: parseFloat((offset.x + (col + dc) * spacing).toFixed(3)),
+          y: parseFloat((offset.y + (row + dr) * spacing).toFixed(3)),
+        });
+      }
+    }
+  } else {
+    candidates = [...settings.points];
+  }
+  return candidates.sort((a, b) => distanceSquared(a, point) - distanceSquared(b, point));
+};
+
+// The nearest mount point that passes `isAllowed` and is not in `taken`, or null when there is none nearby.
+// With mounting off the point itself is returned.
+export const snapToMount = (
+  point: APCoordinate,
+  settings: MountingSettings,
+  isAllowed: (mount: APCoordinate) => boolean = () => true,
+  taken: Set<string> = new Set()
+): APCoordinate | null => {
+  if (!isMountingActive(settings)) return point;
+  return candidateMounts(point, settings).find(mount => !taken.has(pointKey(mount)) && isAllowed(mount)) ?? null;
+};
+
+// APs of `aps` that are not on a mount point, e.g. because they were placed before the mounting settings changed.
+export const countOffMount = (aps: APCoordinate[], settings: MountingSettings): number => {
+  if (!isMountingActive(settings)) return 0;
+  return aps.filter(ap => {
+    const mount = snapToMount(ap, settings);
+    return !mount || distanceSquared(mount, ap) > 1e-6;
+  }).length;
+};
+
+// Places APs one at a time, each on the closest mount still free, keeping its model. Returns null for an AP
+// with no free allowed mount nearby. With mounting off every AP stays where it is.
+export const createMountAllocator = (settings: MountingSettings, isAllowed?: (mount: APCoordinate) => boolean) => {
+  const taken = new Set<string>();
+  return (ap: APCoordinate): APCoordinate | null => {
+    if (!isMountingActive(settings)) return ap;
+    const mount = snapToMount(ap, settings, isAllowed, taken);
+    if (!mount) return null;
+    taken.add(pointKey(mount));
+    return { ...ap, x: mount.x, y: mount.y };
+  };
+};
+
+// Moves every AP to a mount point, one AP per mount, in order; an AP with no free allowed mount nearby is dropped.
+export const snapPlacement = (aps: APCoordinate[], settings: MountingSettings, isAllowed?: (mount: APCoordinate) => boolean): APCoordinate[] => {
+  if (!isMountingActive(settings)) return aps;
+  const place = createMountAllocator(settings, isAllowed);
+  return aps.map(place).filter((ap): ap is APCoordinate => ap !== null);
+};
+
+// Snaps a result and counts the APs it had to drop in `unmountedAPs`.
+export const snapResult = (result: OptimizationResult, settings: MountingSettings, isAllowed?: (mount: APCoordinate) => boolean): OptimizationResult => {
+  if (!isMountingActive(settings) || result.coordinates.length === 0) return result;
+  const coordinates = snapPlacement(result.coordinates, settings, isAllowed);
+  const unmountedAPs = (result.unmountedAPs ?? 0) + result.coordinates.length - coordinates.length;
+  return { ...result, nAP: coordinates.length, coordinates, ...(unmountedAPs > 0 && { unmountedAPs }) };
+};
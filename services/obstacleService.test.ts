@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { wallLossBetween } from './obstacleService';
+import type { Wall } from '../types';
+
+const wall = (lossDb: number, points: Wall['points']): Wall => ({ id: `w${lossDb}`, kind: 'wall', material: 'drywall', lossDb, points });
+
+describe('wallLossBetween', () => {
+  it('is zero when nothing is in the way', () => {
+    expect(wallLossBetween([wall(3, [{ x: 5, y: 5 }, { x: 5, y: 10 }])], { x: 0, y: 0 }, { x: 10, y: 0 })).toBe(0);
+  });
+
+  it('adds the loss of every wall crossed', () => {
+    const walls = [wall(3, [{ x: 2, y: -1 }, { x: 2, y: 1 }]), wall(10, [{ x: 6, y: -1 }, { x: 6, y: 1 }])];
+    expect(wallLossBetween(walls, { x: 0, y: 0 }, { x: 10, y: 0 })).toBe(13);
+  });
+
+  it('counts each crossed segment of a polyline', () => {
+    const zigzag = wall(4, [{ x: 2, y: -1 }, { x: 2, y: 1 }, { x: 4, y: 1 }, { x: 4, y: -1 }]);
+    expect(wallLossBetween([zigzag], { x: 0, y: 0 }, { x: 10, y: 0 })).toBe(8);
+  });
+});
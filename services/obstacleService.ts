@@ -0,0 +1,53 @@
+import type { APCoordinate, ObstacleKind, Wall, WallMaterial } from '../types';
+import { segmentsIntersect } from '../utils/geometry';
+
+// Typical single-pass attenuation (dB) at 5 GHz.
+export const MATERIAL_LOSS_DB: Record<WallMaterial, number> = {
+  drywall: 3,
+  brick: 10,
+  concrete: 15,
+  glass: 4,
+  metal: 26,
+};
+
+export const MATERIAL_LABELS: Record<WallMaterial, string> = {
+  drywall: 'Tabique de yeso',
+  brick: 'Ladrillo',
+  concrete: 'Hormigón',
+  glass: 'Vidrio',
+  metal: 'Metal',
+};
+
+export const MATERIAL_COLORS: Record<WallMaterial, string> = {
+  drywall: '#a3a3a3',
+  brick: '#b45309',
+  concrete: '#4b5563',
+  glass: '#38bdf8',
+  metal: '#1e293b',
+};
+
+export const OBSTACLE_KIND_LABELS: Record<ObstacleKind, string> = {
+  wall: 'Muro',
+  door: 'Puerta',
+  window: 'Ventana',
+};
+
+// Material suggested when the user switches to drawing a given kind of obstacle.
+export const DEFAULT_MATERIAL_BY_KIND: Record<ObstacleKind, WallMaterial> = {
+  wall: 'drywall',
+  door: 'drywall',
+  window: 'glass',
+};
+
+// Total attenuation of every wall segment crossed by the straight path from `from` to `to`.
+export const wallLossBetween = (walls: Wall[], from: APCoordinate, to: APCoordinate): number => {
+  let loss = 0;
+  for (const wall of walls) {
+    for (let i = 0; i < wall.points.length - 1; i++) {
+      if (segmentsIntersect(from, to, wall.points[i], wall.points[i + 1])) {
+        loss += wall.lossDb;
+      }
+    }
+  }
+  return loss;
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { calculateAPPlacement } from './optimizationService';
+import { closestPointOnOutline, isInsideOutline } from '../utils/geometry';
+import type { APCoordinate, BuildingOutline } from '../types';
+
+const coversAll = (aps: APCoordinate[], radius: number, points: APCoordinate[]) =>
+  points.every(point => aps.some(ap => Math.hypot(ap.x - point.x, ap.y - point.y) <= radius + 0.01)); // Coordinates are rounded to centimetres
+
+const gridPoints = (length: number, width: number, step: number): APCoordinate[] => {
+  const points: APCoordinate[] = [];
+  for (let y = 0; y <= width + 1e-9; y += step) {
+    for (let x = 0; x <= length + 1e-9; x += step) points.push({ x, y });
+  }
+  return points;
+};
+
+// Lattice APs may sit on the building edge itself
+const onOrInside = (ap: APCoordinate, outline: BuildingOutline) => {
+  const boundary = closestPointOnOutline(ap, outline);
+  return isInsideOutline(ap, outline) || Math.hypot(boundary.x - ap.x, boundary.y - ap.y) < 0.01;
+};
+
+const L_SHAPE: BuildingOutline = {
+  outer: [{ x: 0, y: 0 }, { x: 40, y: 0 }, { x: 40, y: 12 }, { x: 12, y: 12 }, { x: 12, y: 40 }, { x: 0, y: 40 }],
+  holes: [],
+};
+
+describe('calculateAPPlacement', () => {
+  it('covers a whole rectangle with the hex lattice', () => {
+    const result = calculateAPPlacement(8, 50, 30, 'hex');
+    expect(result.nAP).toBe(result.coordinates.length);
+    expect(coversAll(result.coordinates, 8, gridPoints(50, 30, 1))).toBe(true);
+  });
+
+  it('runs the hex rows along whichever axis needs fewer APs', () => {
+    const lengthwise = calculateAPPlacement(8, 50, 30, 'hex');
+    const crosswise = calculateAPPlacement(8, 30, 50, 'hex');
+    expect(lengthwise.nAP).toBe(crosswise.nAP);
+  });
+
+  it('compares the hex lattice with the full square grid of a rectangle', () => {
+    const radius = 8;
+    const cell = Math.sqrt(2) * radius;
+    const result = calculateAPPlacement(radius, 50, 30, 'hex');
+    expect(result.latticeComparison).toEqual({
+      squareAPs: Math.ceil(50 / cell) * Math.ceil(30 / cell),
+      hexAPs: result.nAP,
+    });
+    expect(result.latticeComparison!.hexAPs).toBeLessThan(result.latticeComparison!.squareAPs);
+  });
+
+  it('reports the same comparison whichever lattice is placed', () => {
+    expect(calculateAPPlacement(8, 50, 30, 'square').latticeComparison)
+      .toEqual(calculateAPPlacement(8, 50, 30, 'hex').latticeComparison);
+  });
+
+  it('keeps hex APs inside a polygonal outline and covers it', () => {
+    const result = calculateAPPlacement(7, 40, 40, 'hex', L_SHAPE);
+    expect(result.coordinates.every(ap => onOrInside(ap, L_SHAPE))).toBe(true);
+    const inside = gridPoints(40, 40, 1).filter(point => isInsideOutline(point, L_SHAPE));
+    expect(coversAll(result.coordinates, 7, inside)).toBe(true);
+  });
+
+  it('rejects non-positive inputs', () => {
+    expect(calculateAPPlacement(8, 0, 30, 'hex').nAP).toBe(0);
+  });
+});
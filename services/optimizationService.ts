@@ -1,10 +1,100 @@
+import type { APCoordinate, OptimizationResult, GridLattice, BuildingOutline } from '../types';
+import { isInsideOutline, closestPointOnOutline, snapInsideOutline } from '../utils/geometry';
 
-import type { APCoordinate, OptimizationResult } from '../types';
+// Keeps lattice APs that lie inside the outline. An AP outside it (or inside a hole) whose cell still
+// reaches the building, i.e. the boundary is within `cellReach`, is moved just inside the nearest boundary.
+// Snapped APs that end up almost on top of another AP are dropped.
+export const clipToOutline = (positions: APCoordinate[], outline: BuildingOutline, cellReach: number): APCoordinate[] => {
+  const minSeparation = cellReach * 0.25;
+  const clipped: APCoordinate[] = [];
+  for (const position of positions) {
+    let placed = position;
+    if (!isInsideOutline(position, outline)) {
+      const boundary = closestPointOnOutline(position, outline);
+      if (Math.hypot(boundary.x - position.x, boundary.y - position.y) > cellReach) continue;
+      placed = snapInsideOutline(position, outline);
+      if (clipped.some(ap => Math.hypot(ap.x - placed.x, ap.y - placed.y) < minSeparation)) continue;
+    }
+    clipped.push(placed);
+  }
+  return clipped;
+};
+
+// Every cell centre of the square placement grid: the building is split into ceil(Largo / L_calc) columns
+// and ceil(Ancho / L_calc) rows, so each cell is at most L_calc wide and high.
+// For polygonal buildings only the cells touching the polygon are kept (see clipToOutline).
+const squareGridCells = (L_calc: number, Largo: number, Ancho: number, outline?: BuildingOutline): APCoordinate[] => {
+  // Determine the number of columns and rows for the placement grid
+  // This grid aims to tile the entire building with cells of size L_calc
+  const num_placement_cols = Math.max(1, Math.ceil(Largo / L_calc));
+  const num_placement_rows = Math.max(1, Math.ceil(Ancho / L_calc));
+
+  // Calculate the actual width/height of each cell in the placement grid
+  // This ensures APs are spread across the entire building dimension
+  const cell_placement_width = Largo / num_placement_cols;
+  const cell_placement_height = Ancho / num_placement_rows;
+
+  const cells: APCoordinate[] = [];
+  for (let r_idx = 0; r_idx < num_placement_rows; r_idx++) {
+    for (let c_idx = 0; c_idx < num_placement_cols; c_idx++) {
+      cells.push({ x: (c_idx + 0.5) * cell_placement_width, y: (r_idx + 0.5) * cell_placement_height });
+    }
+  }
+  return outline ? clipToOutline(cells, outline, Math.hypot(cell_placement_width, cell_placement_height) / 2) : cells;
+};
+
+// Square lattice: cells of side L_calc = sqrt(2) * R, filled row by row until ceil(Area_E / Area_C) APs are placed.
+// For polygonal buildings every cell touching the polygon is kept instead.
+const squareLatticePositions = (L_calc: number, Largo: number, Ancho: number, outline?: BuildingOutline): APCoordinate[] => {
+  const cells = squareGridCells(L_calc, Largo, Ancho, outline);
+  if (outline) return cells;
+
+  // Calculate target number of APs, ensuring at least 1 and enough to cover the area (ceiling).
+  const Area_C = L_calc * L_calc;
+  const nAP_target = Math.max(1, Math.ceil((Largo * Ancho) / Area_C));
+  return cells.slice(0, nAP_target);
+};
+
+// Hexagonal (offset-row) lattice: pointy-top hex cells of circumradius R.
+// Neighbouring APs in a row are sqrt(3) * R apart and rows are 1.5 * R apart, so each row fully covers
+// a band of +-R/2 around its centre line. The lattice is centred in the building, odd rows are shifted by
+// half a column, and APs that fall outside the rectangle are clamped onto its edge.
+const hexLatticePositions = (R: number, Largo: number, Ancho: number): APCoordinate[] => {
+  const colSpacing = Math.sqrt(3) * R;
+  const rowSpacing = 1.5 * R;
+
+  const num_cols = Math.max(1, Math.ceil(Largo / colSpacing));
+  const num_rows = Math.max(1, Math.ceil((Ancho - R) / rowSpacing) + 1);
+
+  const x0 = (Largo - (num_cols - 1) * colSpacing) / 2;
+  const y0 = (Ancho - (num_rows - 1) * rowSpacing) / 2;
+
+  const clamp = (value: number, max: number) => Math.max(0, Math.min(value, max));
+  const resultado: APCoordinate[] = [];
+
+  for (let r_idx = 0; r_idx < num_rows; r_idx++) {
+    const isOffsetRow = r_idx % 2 === 1;
+    const ap_y = clamp(y0 + r_idx * rowSpacing, Ancho);
+    const rowCount = isOffsetRow ? num_cols + 1 : num_cols;
+    const rowStart = isOffsetRow ? x0 - colSpacing / 2 : x0;
+
+    for (let c_idx = 0; c_idx < rowCount; c_idx++) {
+      const ap_x = clamp(rowStart + c_idx * colSpacing, Largo);
+      const isDuplicate = resultado.some(ap => Math.abs(ap.x - ap_x) < 1e-6 && Math.abs(ap.y - ap_y) < 1e-6);
+      if (!isDuplicate) {
+        resultado.push({ x: ap_x, y: ap_y });
+      }
+    }
+  }
+  return resultado;
+};
 
 export const calculateAPPlacement = (
   radius: number,
   buildingLength: number,
-  buildingWidth: number
+  buildingWidth: number,
+  lattice: GridLattice = 'square',
+  outline?: BuildingOutline
 ): OptimizationResult => {
   const R_param = radius;
   const Largo = buildingLength;
@@ -21,45 +111,23 @@ export const calculateAPPlacement = (
       return { nAP: 0, coordinates: [], message: "El radio de cobertura produce un área de celda inválida o demasiado pequeña."};
   }
 
-  const Area_C = L_calc * L_calc;
-  const Area_E = Largo * Ancho;
-  
-  // Calculate target number of APs, ensuring at least 1 and enough to cover the area (ceiling).
-  const nAP_target = Math.max(1, Math.ceil(Area_E / Area_C));
-
   let message: string | undefined = undefined;
   if (Largo < L_calc || Ancho < L_calc) {
     message = "Las dimensiones del edificio son más pequeñas que el tamaño de celda del AP (L_calc) en una o ambas direcciones. Los APs se colocarán centrados dentro del edificio para cubrirlo lo mejor posible con la configuración dada.";
   }
 
-  // Determine the number of columns and rows for the placement grid
-  // This grid aims to tile the entire building with cells of size L_calc
-  const num_placement_cols = Math.max(1, Math.ceil(Largo / L_calc));
-  const num_placement_rows = Math.max(1, Math.ceil(Ancho / L_calc));
+  // Both lattices are always computed so the caller can show how many APs the hex tiling saves.
+  // The hex rows can run along either building axis; keep whichever orientation needs fewer APs.
+  // The comparison counts complete tilings of the building on both sides, so the square side is the full
+  // grid rather than the area-capped placement.
+  const squarePositions = squareLatticePositions(L_calc, Largo, Ancho, outline);
+  const squareTiling = squareGridCells(L_calc, Largo, Ancho, outline);
+  const clipHex = (positions: APCoordinate[]) => (outline ? clipToOutline(positions, outline, R_param) : positions);
+  const hexAlongLength = clipHex(hexLatticePositions(R_param, Largo, Ancho));
+  const hexAlongWidth = clipHex(hexLatticePositions(R_param, Ancho, Largo).map(ap => ({ x: ap.y, y: ap.x })));
+  const hexPositions = hexAlongWidth.length < hexAlongLength.length ? hexAlongWidth : hexAlongLength;
+  const resultado = lattice === 'hex' ? hexPositions : squarePositions;
 
-  // Calculate the actual width/height of each cell in the placement grid
-  // This ensures APs are spread across the entire building dimension
-  const cell_placement_width = Largo / num_placement_cols;
-  const cell_placement_height = Ancho / num_placement_rows;
-  
-  const resultado: APCoordinate[] = [];
-
-  for (let r_idx = 0; r_idx < num_placement_rows; r_idx++) {
-    for (let c_idx = 0; c_idx < num_placement_cols; c_idx++) {
-      if (resultado.length >= nAP_target) {
-        break; // Stop if we have placed the target number of APs
-      }
-
-      const ap_x = (c_idx + 0.5) * cell_placement_width;
-      const ap_y = (r_idx + 0.5) * cell_placement_height;
-      
-      resultado.push({ x: ap_x, y: ap_y });
-    }
-    if (resultado.length >= nAP_target) {
-      break;
-    }
-  }
-  
   // Ensure all coordinates are valid numbers and formatted
   const finalCoordinates = resultado.map(ap => ({
     x: parseFloat(ap.x.toFixed(2)),
@@ -67,5 +135,10 @@ export const calculateAPPlacement = (
   }));
 
   // The number of APs returned is the actual number of coordinates generated.
-  return { nAP: finalCoordinates.length, coordinates: finalCoordinates, message };
+  return {
+    nAP: finalCoordinates.length,
+    coordinates: finalCoordinates,
+    message,
+    latticeComparison: { squareAPs: squareTiling.length, hexAPs: hexPositions.length },
+  };
 };
@@ -0,0 +1,75 @@
+import type { OptimizationJob, JobMessage, StartJobMessage } from './optimizationWorkerProtocol';
+import type { APCoordinate, OptimizationResult, SearchProgress } from '../types';
+import { calculateAPPlacement } from './optimizationService';
+import { calculateSetCoverAPPlacement } from './setCoverOptimizationService';
+import { applyCapacityZones } from './capacityService';
+import { refinePlacement } from './placementRefinementService';
+import { analyzeCoverage } from './coverageAnalysisService';
+import { applyPlanningZones, evaluateZoneCompliance, isMountAllowed, zonePolygons } from './planningZoneService';
+import { createMountAllocator, snapResult } from './mountingService';
+import { isInsideBuilding } from '../utils/geometry';
+
+// Entry point of the optimization Web Worker (see optimizationWorkerClient.ts).
+const ctx = self as unknown as Worker;
+const post = (message: JobMessage) => ctx.postMessage(message);
+
+const PROGRESS_INTERVAL_MS = 100;
+
+// Searches may report thousands of times; the main thread only needs a few updates per second, plus the last.
+const throttled = <T,>(send: (progress: SearchProgress<T>) => void) => {
+  let lastSent = 0;
+  return (progress: SearchProgress<T>) => {
+    const now = Date.now();
+    if (now - lastSent < PROGRESS_INTERVAL_MS && progress.iterations !== progress.totalIterations) return;
+    lastSent = now;
+    send(progress);
+  };
+};
+
+const runPlacement = (job: Extract<OptimizationJob, { kind: 'placement' }>): OptimizationResult => {
+  const { capacity, planning, mounting } = job;
+  const building = { length: job.length, width: job.width, outline: job.outline };
+  const canMount = (point: APCoordinate) => isInsideBuilding(point, building) && (!planning || isMountAllowed(point, planning.zones));
+  const finish = (result: OptimizationResult) => {
+    const withCapacity = capacity ? applyCapacityZones(result, capacity.zones, capacity.settings) : result;
+    // Zones snap their own APs so priority zones are measured on the final layout; the snap below then leaves
+    // those APs in place and covers layouts without zones.
+    const mount = mounting ? createMountAllocator(mounting, canMount) : undefined;
+    const withZones = planning ? applyPlanningZones(withCapacity, planning.zones, planning.context, mount) : withCapacity;
+    return mounting ? snapResult(withZones, mounting, canMount) : withZones;
+  };
+  const onProgress = throttled<OptimizationResult>(progress => post({
+    type: 'progress',
+    progress: { ...progress, best: progress.best && finish(progress.best) },
+  }));
+  const zones = planning && {
+    forbidden: zonePolygons(planning.zones, 'noMount'),
+    excluded: zonePolygons(planning.zones, 'noCoverage'),
+    priority: planning.zones.filter(zone => zone.kind === 'priority').map(zone => ({ polygon: zone.polygon, radius: planning.context.zoneRadii[zone.id] ?? job.radius })),
+  };
+  const coverage = job.algorithmMode === 'setCover'
+    ? calculateSetCoverAPPlacement(job.radius, job.length, job.width, job.outline, { onProgress, zones: zones ?? undefined })
+    : calculateAPPlacement(job.radius, job.length, job.width, job.gridLattice, job.outline);
+  return finish(coverage);
+};
+
+const runJob = async (job: OptimizationJob) => {
+  switch (job.kind) {
+    case 'placement':
+      return runPlacement(job);
+    case 'refinement':
+      return refinePlacement(job.initial, job.context, job.settings, throttled(progress => post({ type: 'progress', progress })));
+    case 'coverage':
+      return analyzeCoverage(job.building, job.aps, job.coverageRadius, job.options);
+    case 'zoneCompliance':
+      return evaluateZoneCompliance(job.zones, job.aps, job.context);
+  }
+};
+
+ctx.onmessage = async (event: MessageEvent<StartJobMessage>) => {
+  try {
+    post({ type: 'done', result: await runJob(event.data.job) });
+  } catch (e: any) {
+    post({ type: 'error', message: e?.message || String(e) });
+  }
+};
@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import type { APCoordinate, BuildingDimensions, CoverageMetrics, PlanningZone, SearchProgress, ZoneCompliance } from '../types';
+import type { CoverageAnalysisOptions } from './coverageAnalysisService';
+import type { PlanningZoneContext } from './planningZoneService';
+import type { JobMessage, OptimizationJob, OptimizationJobKind, OptimizationJobResults, StartJobMessage } from './optimizationWorkerProtocol';
+
+export interface JobOutcome<T> {
+  status: 'completed' | 'cancelled' | 'timedOut';
+  result: T | null; // When stopped early, the best result reported so far (null if none was)
+}
+
+export interface JobHandle<T> {
+  promise: Promise<JobOutcome<T>>; // Rejects only when the job itself fails
+  cancel: () => void;
+}
+
+export interface JobOptions<T> {
+  onProgress?: (progress: SearchProgress<T>) => void;
+  timeoutMs?: number;
+}
+
+// Runs one job in a fresh worker. Cancelling or timing out terminates the worker straight away, so a search
+// stuck in a long synchronous loop stops too; the outcome then carries the last best result it reported.
+export const startOptimizationJob = <K extends OptimizationJobKind>(
+  job: Extract<OptimizationJob, { kind: K }>,
+  options: JobOptions<OptimizationJobResults[K]> = {}
+): JobHandle<OptimizationJobResults[K]> => {
+  type Result = OptimizationJobResults[K];
+  const worker = new Worker(new URL('./optimizationWorker.ts', import.meta.url), { type: 'module' });
+  let best: Result | null = null;
+  let finished = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let resolve!: (outcome: JobOutcome<Result>) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<JobOutcome<Result>>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+
+  const finish = (settle: () => void) => {
+    if (finished) return;
+    finished = true;
+    clearTimeout(timer);
+    worker.terminate();
+    settle();
+  };
+
+  worker.onmessage = (event: MessageEvent<JobMessage<K>>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'progress':
+        if (message.progress.best !== null) best = message.progress.best;
+        options.onProgress?.(message.progress);
+        break;
+      case 'done':
+        finish(() => resolve({ status: 'completed', result: message.result }));
+        break;
+      case 'error':
+        finish(() => reject(new Error(message.message)));
+        break;
+    }
+  };
+  worker.onerror = (event) => finish(() => reject(new Error(event.message || 'El proceso de optimización falló.')));
+  if (options.timeoutMs) {
+    timer = setTimeout(() => finish(() => resolve({ status: 'timedOut', result: best })), options.timeoutMs);
+  }
+  worker.postMessage({ type: 'start', job } satisfies StartJobMessage);
+
+  return { promise, cancel: () => finish(() => resolve({ status: 'cancelled', result: best })) };
+};
+
+type AnalysisJob = Extract<OptimizationJob, { kind: 'coverage' | 'zoneCompliance' }>;
+
+interface AnalysisRequest {
+  job: AnalysisJob;
+  settle: (result: unknown, failed: boolean) => void;
+  cancelled: boolean;
+}
+
+// Analyses are short and frequent (every edit of any layout starts some), so they share one worker that lives
+// as long as the page instead of paying a worker start-up each. The worker gets one analysis at a time; the
+// others wait in `queuedAnalyses`, where cancelling one simply removes it, so an input that changes several
+// times while the worker is busy is analyzed once, with its latest value.
+let analysisWorker: Worker | null = null;
+let analysisInFlight: AnalysisRequest | null = null;
+const queuedAnalyses: AnalysisRequest[] = [];
+
+const sendNextAnalysis = () => {
+  if (analysisInFlight) return;
+  const request = queuedAnalyses.shift();
+  if (!request) return;
+  analysisInFlight = request;
+  if (!analysisWorker) {
+    const worker = new Worker(new URL('./optimizationWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<JobMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') return;
+      const done = analysisInFlight;
+      analysisInFlight = null;
+      if (done && !done.cancelled) done.settle(message.type === 'done' ? message.result : null, message.type === 'error');
+      sendNextAnalysis();
+    };
+    // A crashed worker is replaced on the next analysis.
+    worker.onerror = () => {
+      const failed = analysisInFlight;
+      analysisInFlight = null;
+      worker.terminate();
+      analysisWorker = null;
+      if (failed && !failed.cancelled) failed.settle(null, true);
+      sendNextAnalysis();
+    };
+    analysisWorker = worker;
+  }
+  analysisWorker.postMessage({ type: 'start', job: request.job } satisfies StartJobMessage);
+};
+
+// Queues an analysis on the shared worker. The callback runs once, unless the returned cancel runs first; an
+// analysis already being computed finishes, but its result is dropped.
+const requestAnalysis = <K extends AnalysisJob['kind']>(
+  job: Extract<AnalysisJob, { kind: K }>,
+  onResult: (result: OptimizationJobResults[K] | null, failed: boolean) => void
+): (() => void) => {
+  const request: AnalysisRequest = { job, settle: (result, failed) => onResult(result as OptimizationJobResults[K] | null, failed), cancelled: false };
+  queuedAnalyses.push(request);
+  sendNextAnalysis();
+  return () => {
+    request.cancelled = true;
+    const index = queuedAnalyses.indexOf(request);
+    if (index >= 0) queuedAnalyses.splice(index, 1);
+  };
+};
+
+// Coverage metrics for a layout, computed in the shared analysis worker. Changing any input drops the analysis
+// still waiting for it; until the new one arrives the previous metrics stay on screen. The inputs must be memoized.
+export const useCoverageAnalysis = (
+  building: BuildingDimensions,
+  aps: APCoordinate[] | null | undefined,
+  coverageRadius: number,
+  options: CoverageAnalysisOptions
+): CoverageMetrics | null => {
+  const [metrics, setMetrics] = useState<CoverageMetrics | null>(null);
+  useEffect(() => {
+    if (!aps || aps.length === 0) {
+      setMetrics(null);
+      return;
+    }
+    return requestAnalysis({ kind: 'coverage', building, aps, coverageRadius, options }, (result, failed) => setMetrics(failed ? null : result));
+  }, [building, aps, coverageRadius, options]);
+  return metrics;
+};
+
+// Per-zone compliance of a layout, computed in the analysis worker like the coverage metrics. The inputs must be memoized.
+export const useZoneCompliance = (
+  zones: PlanningZone[],
+  aps: APCoordinate[] | null | undefined,
+  context: PlanningZoneContext
+): ZoneCompliance[] | null => {
+  const [compliance, setCompliance] = useState<ZoneCompliance[] | null>(null);
+  useEffect(() => {
+    if (!aps || zones.length === 0) {
+      setCompliance(null);
+      return;
+    }
+    return requestAnalysis({ kind: 'zoneCompliance', zones, aps, context }, (result, failed) => setCompliance(failed ? null : result));
+  }, [zones, aps, context]);
+  return compliance;
+};
@@ -0,0 +1,45 @@
+import type { AlgorithmMode, APCoordinate, BuildingDimensions, BuildingOutline, CapacitySettings, CapacityZone, CoverageMetrics, GridLattice, MountingSettings, OptimizationResult, PlanningZone, RefinementOutcome, RefinementSettings, SearchProgress, ZoneCompliance } from '../types';
+import type { CoverageAnalysisOptions } from './coverageAnalysisService';
+import type { RefinementContext } from './placementRefinementService';
+import type { PlanningZoneContext } from './planningZoneService';
+
+// The work the optimization worker can do. Searches run in a worker of their own, so cancelling is terminating it;
+// coverage and zone-compliance analyses share one long-lived worker (see optimizationWorkerClient.ts).
+export type OptimizationJob =
+  | {
+      kind: 'placement';
+      algorithmMode: AlgorithmMode;
+      gridLattice: GridLattice;
+      radius: number;
+      length: number;
+      width: number;
+      outline?: BuildingOutline;
+      capacity: { zones: CapacityZone[]; settings: CapacitySettings } | null; // Applied after the coverage search
+      planning: { zones: PlanningZone[]; context: PlanningZoneContext } | null; // Respected by the search, enforced afterwards
+      mounting: MountingSettings | null; // Every AP ends on a mount point
+    }
+  | { kind: 'refinement'; initial: APCoordinate[]; context: RefinementContext; settings: RefinementSettings }
+  | { kind: 'coverage'; building: BuildingDimensions; aps: APCoordinate[]; coverageRadius: number; options: CoverageAnalysisOptions }
+  | { kind: 'zoneCompliance'; zones: PlanningZone[]; aps: APCoordinate[]; context: PlanningZoneContext };
+
+export type OptimizationJobKind = OptimizationJob['kind'];
+
+export interface OptimizationJobResults {
+  placement: OptimizationResult;
+  refinement: RefinementOutcome;
+  coverage: CoverageMetrics | null;
+  zoneCompliance: ZoneCompliance[];
+}
+
+// Main thread -> worker. Sent once to a search worker, right after it is created; the analysis worker gets one
+// per analysis, each after the answer to the previous one.
+export interface StartJobMessage {
+  type: 'start';
+  job: OptimizationJob;
+}
+
+// Worker -> main thread.
+export type JobMessage<K extends OptimizationJobKind = OptimizationJobKind> =
+  | { type: 'progress'; progress: SearchProgress<OptimizationJobResults[K]> }
+  | { type: 'done'; result: OptimizationJobResults[K] }
+  | { type: 'error'; message: string };
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { csvToPoints, geoJsonToPoints, guessCoordinateColumns, parseCsv, placementsToCsv } from './placementExchangeService';
+
+describe('parseCsv', () => {
+  it('reads quoted fields, escaped quotes and CRLF line ends', () => {
+    const table = parseCsv('name,x,y\r\n"AP ""1"", hall",1.5,2\r\n\r\nAP2,3,4\r\n');
+    expect(table.headers).toEqual(['name', 'x', 'y']);
+    expect(table.rows).toEqual([['AP "1", hall', '1.5', '2'], ['AP2', '3', '4']]);
+  });
+
+  it('detects a semicolon delimiter and decimal commas', () => {
+    const table = parseCsv('X;Y\n1,5;2,25\n');
+    const points = csvToPoints(table, guessCoordinateColumns(table));
+    expect(points).toEqual({ points: [{ x: 1.5, y: 2.25 }], errors: [] });
+  });
+
+  it('guesses the first numeric columns and reports bad rows', () => {
+    const table = parseCsv('id,este,norte\nA,1,2\nB,foo,3\n');
+    expect(guessCoordinateColumns(table)).toEqual({ x: 1, y: 2 });
+    expect(csvToPoints(table, { x: 1, y: 2 }).errors).toEqual(['Fila 3: coordenadas no numéricas.']);
+  });
+
+  it('reads back its own export', () => {
+    const csv = placementsToCsv([{ x: 1.25, y: 3.5 }], { floorName: 'P1', source: 'manual', geoAnchor: null });
+    const table = parseCsv(csv);
+    expect(csvToPoints(table, guessCoordinateColumns(table)).points).toEqual([{ x: 1.25, y: 3.5 }]);
+  });
+});
+
+describe('geoJsonToPoints', () => {
+  it('reads Point and MultiPoint features', () => {
+    const text = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [1, 2] } },
+        { type: 'Feature', geometry: { type: 'MultiPoint', coordinates: [[3, 4], ['a', 5]] } },
+        { type: 'Feature', geometry: { type: 'LineString', coordinates: [[0, 0], [1, 1]] } },
+      ],
+    });
+    const { points, errors } = geoJsonToPoints(text);
+    expect(points).toEqual([{ x: 1, y: 2 }, { x: 3, y: 4 }]);
+    expect(errors).toHaveLength(2);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => geoJsonToPoints('nope')).toThrow();
+  });
+
+  it('warns about files in another coordinate system', () => {
+    const point = (coordinates: number[]) => ({ type: 'Feature', geometry: { type: 'Point', coordinates } });
+    const lonLat = geoJsonToPoints(JSON.stringify({ type: 'FeatureCollection', features: [point([-3.703790, 40.416775])] }));
+    expect(lonLat.points).toHaveLength(1);
+    expect(lonLat.errors[0]).toMatch(/longitud\/latitud/);
+    const crs = geoJsonToPoints(JSON.stringify({ type: 'FeatureCollection', crs: { type: 'name', properties: { name: 'EPSG:25830' } }, features: [point([440000, 4474000])] }));
+    expect(crs.errors[0]).toMatch(/EPSG:25830/);
+    const local = geoJsonToPoints(JSON.stringify({ type: 'FeatureCollection', coordinateSystem: 'building-local-meters', features: [point([1.123456, 2.5])] }));
+    expect(local.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,261 @@
+import type { APCoordinate, BuildingDimensions, GeoAnchor, PlacementSource } from '../types';
+import { isInsideBuilding } from '../utils/geometry';
+
+const EARTH_RADIUS_M = 6378137;
+
+export const PLACEMENT_SOURCE_LABELS: Record<PlacementSource, string> = {
+  algorithm: 'algoritmo',
+  ai: 'ia',
+  manual: 'manual',
+};
+
+export interface PlacementExportMeta {
+  floorName: string;
+  source: PlacementSource;
+  geoAnchor: GeoAnchor | null;
+  channels?: number[]; // Channel of each AP, when a channel plan is assigned
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface CoordinateColumns {
+  x: number;
+  y: number;
+}
+
+export interface ImportedPoints {
+  points: APCoordinate[];
+  errors: string[]; // One message per skipped row or feature, after a warning about the coordinate system if any
+}
+
+const apId = (index: number) => `AP-${index + 1}`;
+
+// Local building meters to WGS84. Building Y points away from X the same way image rows do (90° clockwise
+// from X on the plan), and over a building's extent an equirectangular approximation is accurate enough.
+export const localToGeo = (point: APCoordinate, anchor: GeoAnchor): { latitude: number; longitude: number } => {
+  const bearing = (anchor.bearingDeg * Math.PI) / 180;
+  const east = point.x * Math.sin(bearing) + point.y * Math.cos(bearing);
+  const north = point.x * Math.cos(bearing) - point.y * Math.sin(bearing);
+  const latitude = anchor.latitude + (north / EARTH_RADIUS_M) * (180 / Math.PI);
+  const longitude = anchor.longitude + (east / (EARTH_RADIUS_M * Math.cos((anchor.latitude * Math.PI) / 180))) * (180 / Math.PI);
+  return { latitude, longitude };
+};
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const placementsToCsv = (aps: APCoordinate[], meta: PlacementExportMeta): string => {
+  const headers = ['id', 'x_m', 'y_m', 'planta', 'origen'];
+  if (meta.channels) headers.push('canal');
+  if (meta.geoAnchor) headers.push('lat', 'lon');
+  const lines = aps.map((ap, index) => {
+    const row: (string | number)[] = [apId(index), ap.x.toFixed(2), ap.y.toFixed(2), meta.floorName, PLACEMENT_SOURCE_LABELS[meta.source]];
+    if (meta.channels) row.push(meta.channels[index] ?? '');
+    if (meta.geoAnchor) {
+      const geo = localToGeo(ap, meta.geoAnchor);
+      row.push(geo.latitude.toFixed(7), geo.longitude.toFixed(7));
+    }
+    return row.map(csvField).join(',');
+  });
+  return [headers.join(','), ...lines].join('\n');
+};
+
+const LOCAL_COORDINATE_SYSTEM = 'building-local-meters';
+
+// Coordinates stay in building-local meters (not WGS84); the foreign `coordinateSystem` member says so.
+export const placementsToGeoJson = (aps: APCoordinate[], meta: PlacementExportMeta): string =>
+  JSON.stringify({
+    type: 'FeatureCollection',
+    coordinateSystem: LOCAL_COORDINATE_SYSTEM,
+    features: aps.map((ap, index) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [parseFloat(ap.x.toFixed(2)), parseFloat(ap.y.toFixed(2))] },
+      properties: {
+        id: apId(index),
+        floor: meta.floorName,
+        source: PLACEMENT_SOURCE_LABELS[meta.source],
+        ...(meta.channels && meta.channels[index] !== undefined ? { channel: meta.channels[index] } : {}),
+      },
+    })),
+  }, null, 2);
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const placementsToKml = (aps: APCoordinate[], meta: PlacementExportMeta & { geoAnchor: GeoAnchor }): string => {
+  const placemarks = aps.map((ap, index) => {
+    const geo = localToGeo(ap, meta.geoAnchor);
+    const channel = meta.channels?.[index];
+    return [
+      '    <Placemark>',
+      `      <name>${apId(index)}</name>`,
+      `      <description>${escapeXml(`${meta.floorName} · ${PLACEMENT_SOURCE_LABELS[meta.source]} · (${ap.x.toFixed(2)}, ${ap.y.toFixed(2)}) m${channel !== undefined ? ` · canal ${channel}` : ''}`)}</description>`,
+      `      <Point><coordinates>${geo.longitude.toFixed(7)},${geo.latitude.toFixed(7)},0</coordinates></Point>`,
+      '    </Placemark>',
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(`APs ${meta.floorName} (${PLACEMENT_SOURCE_LABELS[meta.source]})`)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+  ].join('\n');
+};
+
+// Minimal RFC 4180 reader. Spreadsheets with a decimal comma export ';'-separated files, so the delimiter
+// is whichever of ',', ';' or tab appears most in the header line.
+export const parseCsv = (text: string): CsvTable => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(value => value.trim() !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map(h => h.trim()), rows };
+};
+
+// Accepts both "12.5" and "12,5".
+const parseNumber = (value: string): number => {
+  const text = value.trim().replace(',', '.');
+  return text === '' ? NaN : Number(text);
+};
+
+// Best guess at which columns hold X and Y: common names first, then the first two numeric columns.
+export const guessCoordinateColumns = (table: CsvTable): CoordinateColumns => {
+  const find = (pattern: RegExp) => table.headers.findIndex(header => pattern.test(header));
+  let x = find(/^(x|x_m|x \(m\)|coord_?x|este|easting)$/i);
+  let y = find(/^(y|y_m|y \(m\)|coord_?y|norte|northing)$/i);
+  if (x < 0 || y < 0) {
+    const sample = table.rows[0] ?? [];
+    const numeric = table.headers.map((_, index) => index).filter(index => !isNaN(parseNumber(sample[index] ?? '')));
+    if (x < 0) x = numeric.find(index => index !== y) ?? 0;
+    if (y < 0) y = numeric.find(index => index !== x) ?? Math.min(1, table.headers.length - 1);
+  }
+  return { x, y };
+};
+
+export const csvToPoints = (table: CsvTable, columns: CoordinateColumns): ImportedPoints => {
+  const points: APCoordinate[] = [];
+  const errors: string[] = [];
+  table.rows.forEach((row, index) => {
+    const x = parseNumber(row[columns.x] ?? '');
+    const y = parseNumber(row[columns.y] ?? '');
+    if (isFinite(x) && isFinite(y)) {
+      points.push({ x, y });
+    } else {
+      errors.push(`Fila ${index + 2}: coordenadas no numéricas.`);
+    }
+  });
+  return { points, errors };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const decimals = (value: number) => (String(value).split('.')[1] ?? '').length;
+
+// Plain GeoJSON is WGS84 longitude/latitude, which this import cannot place on the building. Returns why the file
+// seems to be in another coordinate system, or null when it looks like building-local meters.
+const foreignCoordinateSystem = (data: Record<string, unknown>, points: APCoordinate[]): string | null => {
+  if (data.coordinateSystem !== undefined && data.coordinateSystem !== LOCAL_COORDINATE_SYSTEM) {
+    return `el archivo declara el sistema de coordenadas ${JSON.stringify(data.coordinateSystem)}`;
+  }
+  if (isRecord(data.crs)) {
+    const name = isRecord(data.crs.properties) && typeof data.crs.properties.name === 'string' ? data.crs.properties.name : 'sin nombre';
+    return `el archivo declara el sistema de coordenadas ${name} (crs)`;
+  }
+  // Degrees come with many decimals; meters from a plan rarely have more than a few.
+  const looksLikeDegrees = data.coordinateSystem === undefined && points.length > 0
+    && points.every(p => Math.abs(p.x) <= 180 && Math.abs(p.y) <= 90 && Math.max(decimals(p.x), decimals(p.y)) >= 5);
+  return looksLikeDegrees ? 'las coordenadas parecen longitud/latitud' : null;
+};
+
+// Reads Point and MultiPoint features (or bare geometries) whose coordinates are building-local meters. A file
+// that seems to use another coordinate system is still read, with a warning first in `errors`.
+export const geoJsonToPoints = (text: string): ImportedPoints => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('El archivo no es un GeoJSON válido.');
+  }
+  if (!isRecord(data)) throw new Error('El archivo no es un GeoJSON válido.');
+  const features: unknown[] = data.type === 'FeatureCollection' ? (Array.isArray(data.features) ? data.features : [])
+    : data.type === 'Feature' ? [data]
+    : [{ type: 'Feature', geometry: data }];
+
+  const points: APCoordinate[] = [];
+  const errors: string[] = [];
+  const readPosition = (position: unknown, label: string) => {
+    if (Array.isArray(position) && typeof position[0] === 'number' && typeof position[1] === 'number' && isFinite(position[0]) && isFinite(position[1])) {
+      points.push({ x: position[0], y: position[1] });
+    } else {
+      errors.push(`${label}: coordenadas no válidas.`);
+    }
+  };
+  features.forEach((feature, index) => {
+    const geometry = isRecord(feature) && isRecord(feature.geometry) ? feature.geometry : null;
+    const label = `Elemento ${index + 1}`;
+    if (geometry?.type === 'Point') {
+      readPosition(geometry.coordinates, label);
+    } else if (geometry?.type === 'MultiPoint' && Array.isArray(geometry.coordinates)) {
+      geometry.coordinates.forEach(position => readPosition(position, label));
+    } else {
+      errors.push(`${label}: solo se importan geometrías Point o MultiPoint.`);
+    }
+  });
+  const foreign = foreignCoordinateSystem(data, points);
+  if (foreign) errors.unshift(`Atención: ${foreign}; solo se importan metros locales del edificio, así que los puntos pueden quedar mal ubicados.`);
+  return { points, errors };
+};
+
+// Splits imported points into those inside the building and those outside it.
+export const partitionByBuilding = (points: APCoordinate[], building: BuildingDimensions): { inside: APCoordinate[]; outside: APCoordinate[] } => {
+  const inside: APCoordinate[] = [];
+  const outside: APCoordinate[] = [];
+  points.forEach(point => (isInsideBuilding(point, building) ? inside : outside).push(point));
+  return { inside, outside };
+};
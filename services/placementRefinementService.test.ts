@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REFINEMENT_SETTINGS, refinePlacement, scorePlacement } from './placementRefinementService';
+import type { RefinementContext } from './placementRefinementService';
+import { countOffMount, snapPlacement } from './mountingService';
+import { pointInPolygon } from '../utils/geometry';
+import type { APCoordinate, MountingSettings } from '../types';
+
+const SETTINGS = { ...DEFAULT_REFINEMENT_SETTINGS, iterations: 120 };
+
+const context: RefinementContext = { building: { length: 20, width: 10 }, coverageRadius: 4, coverageOptions: {} };
+
+// Bunched in one corner, so there is plenty to gain.
+const CROWDED: APCoordinate[] = [{ x: 2, y: 2 }, { x: 3, y: 2 }, { x: 2, y: 3 }, { x: 3, y: 3 }];
+
+describe('scorePlacement', () => {
+  it('rewards coverage and penalises APs and overlap beyond one', () => {
+    const objective = { coverageWeight: 1, apPenalty: 2, overlapPenalty: 5 };
+    const coverage = { coveragePercent: 90, meanOverlapDepth: 1.5 } as Parameters<typeof scorePlacement>[0];
+    expect(scorePlacement(coverage, 4, objective).score).toBeCloseTo(90 - 8 - 2.5);
+    expect(scorePlacement(null, 0, objective)).toEqual({ score: 0, apCount: 0, coveragePercent: 0, meanOverlapDepth: 0 });
+  });
+});
+
+describe('refinePlacement', () => {
+  it('improves a crowded layout and reports progress', async () => {
+    const frames: number[] = [];
+    const outcome = await refinePlacement(CROWDED, context, SETTINGS, progress => frames.push(progress.iterations));
+    expect(outcome.after.score).toBeGreaterThan(outcome.before.score);
+    expect(outcome.after.coveragePercent).toBeGreaterThan(outcome.before.coveragePercent);
+    expect(frames[frames.length - 1]).toBe(SETTINGS.iterations);
+  });
+
+  it('gives the same layout for the same seed', async () => {
+    const first = await refinePlacement(CROWDED, context, SETTINGS);
+    const second = await refinePlacement(CROWDED, context, SETTINGS);
+    expect(second.aps).toEqual(first.aps);
+  });
+
+  it('never moves an AP into a no-mount zone', async () => {
+    const forbidden = [{ x: 5, y: 0 }, { x: 15, y: 0 }, { x: 15, y: 10 }, { x: 5, y: 10 }];
+    const outcome = await refinePlacement(CROWDED, { ...context, forbiddenAreas: [forbidden] }, SETTINGS);
+    expect(outcome.aps.some(ap => pointInPolygon(ap, forbidden))).toBe(false);
+  });
+
+  it('keeps APs exactly on mount points whose coordinates need more than centimetres', async () => {
+    const mounting: MountingSettings = { mode: 'grid', gridSpacingM: 0.6, gridOffset: { x: 0.125, y: 0.125 }, points: [] };
+    const start = snapPlacement(CROWDED, mounting);
+    const outcome = await refinePlacement(start, { ...context, mounting }, SETTINGS);
+    expect(outcome.aps).not.toEqual(start);
+    expect(countOffMount(outcome.aps, mounting)).toBe(0);
+  });
+});
@@ -0,0 +1,148 @@
+import type { APCoordinate, BuildingDimensions, CoverageMetrics, MountingSettings, RefinementObjective, RefinementOutcome, RefinementScore, RefinementSettings, SearchProgress } from '../types';
+import type { CoverageAnalysisOptions } from './coverageAnalysisService';
+import { analyzeCoverage } from './coverageAnalysisService';
+import { createRandom } from '../utils/mathHelpers';
+import { snapToMount } from './mountingService';
+import { isInsideBuilding, pointInPolygon } from '../utils/geometry';
+
+export const DEFAULT_REFINEMENT_SETTINGS: RefinementSettings = {
+  objective: { coverageWeight: 1, apPenalty: 2, overlapPenalty: 5 },
+  iterations: 600,
+  allowAddRemove: true,
+  seed: 1,
+};
+
+const INITIAL_TEMPERATURE = 2;   // Score units: early on, losing ~2 points is accepted about a third of the time
+const FINAL_TEMPERATURE = 0.02;
+const FRAMES = 60;               // Progress reports per run, which is what the animation shows
+const MAX_PLACEMENT_TRIES = 8;   // Random positions tried before a move is given up as falling outside
+
+export const scorePlacement = (coverage: CoverageMetrics | null, apCount: number, objective: RefinementObjective): RefinementScore => {
+  const coveragePercent = coverage?.coveragePercent ?? 0;
+  const meanOverlapDepth = coverage?.meanOverlapDepth ?? 0;
+  return {
+    score: objective.coverageWeight * coveragePercent - objective.apPenalty * apCount - objective.overlapPenalty * Math.max(0, meanOverlapDepth - 1),
+    apCount,
+    coveragePercent,
+    meanOverlapDepth,
+  };
+};
+
+export interface RefinementContext {
+  building: BuildingDimensions;
+  coverageRadius: number;
+  coverageOptions: CoverageAnalysisOptions;
+  forbiddenAreas?: APCoordinate[][]; // No-mount zones: moves never put an AP inside one
+  mounting?: MountingSettings;       // Moves and additions land on mount points
+}
+
+const canMount = (point: APCoordinate, context: RefinementContext) =>
+  isInsideBuilding(point, context.building) && !(context.forbiddenAreas ?? []).some(area => pointInPolygon(point, area));
+
+// Where an AP aimed at `point` ends up: the point itself, or its mount point when mounting is constrained.
+// Null when that is not allowed or another AP is already there.
+const placeAt = (point: APCoordinate, aps: APCoordinate[], context: RefinementContext): APCoordinate | null => {
+  const placed = context.mounting ? snapToMount(point, context.mounting, mount => canMount(mount, context)) : point;
+  if (!placed || !canMount(placed, context)) return null;
+  return aps.some(ap => ap.x === placed.x && ap.y === placed.y) ? null : placed;
+};
+
+// The search evaluates hundreds of layouts, so it rasterizes no finer than a fifth of the radius; the
+// before/after scores are measured at the requested resolution.
+const searchOptions = ({ coverageRadius, coverageOptions }: RefinementContext): CoverageAnalysisOptions => ({
+  ...coverageOptions,
+  resolution: Math.max(coverageOptions.resolution ?? 1, coverageRadius / 5),
+});
+
+const randomPointNear = (center: APCoordinate, distance: number, random: () => number): APCoordinate => {
+  const angle = random() * 2 * Math.PI;
+  const r = Math.sqrt(random()) * distance;
+  return { x: center.x + r * Math.cos(angle), y: center.y + r * Math.sin(angle) };
+};
+
+// One random change to the layout: move an AP (most of the time), add one in an uncovered cell or remove one.
+// Returns null when the change would leave the building, land in a no-mount zone or has nothing to act on.
+const proposeMove = (aps: APCoordinate[], coverage: CoverageMetrics | null, context: RefinementContext, stepM: number, allowAddRemove: boolean, random: () => number): APCoordinate[] | null => {
+  const roll = random();
+  if (allowAddRemove && roll < 0.1) {
+    if (!coverage || coverage.uncoveredCells.length === 0) return null;
+    const cell = coverage.uncoveredCells[Math.floor(random() * coverage.uncoveredCells.length)];
+    const point = placeAt({ x: cell.x + coverage.cellWidth / 2, y: cell.y + coverage.cellHeight / 2 }, aps, context);
+    return point ? [...aps, point] : null;
+  }
+  if (allowAddRemove && roll < 0.2) {
+    if (aps.length <= 1) return null;
+    const index = Math.floor(random() * aps.length);
+    return aps.filter((_, i) => i !== index);
+  }
+  if (aps.length === 0) return null;
+  const index = Math.floor(random() * aps.length);
+  for (let tries = 0; tries < MAX_PLACEMENT_TRIES; tries++) {
+    const point = placeAt(randomPointNear(aps[index], stepM, random), aps, context);
+    if (point) return aps.map((ap, i) => (i === index ? { ...ap, x: point.x, y: point.y } : ap)); // The AP keeps its model
+  }
+  return null;
+};
+
+const nextFrame = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const roundPoint = (point: APCoordinate): APCoordinate => ({ ...point, x: parseFloat(point.x.toFixed(2)), y: parseFloat(point.y.toFixed(2)) });
+
+// Mount points are already exact; rounding could move an AP off its mount.
+const roundLayout = (aps: APCoordinate[], context: RefinementContext): APCoordinate[] => (context.mounting ? aps : aps.map(roundPoint));
+
+// Simulated annealing over AP positions (and, if allowed, the AP count) for any starting layout. Worse layouts
+// are accepted with a probability that falls as the temperature cools, so the search can leave local optima;
+// moves also shrink from half the radius to a twentieth. Yields to the event loop between progress reports
+// so the caller can animate the best layout so far; while running, its score is the coarse search estimate.
+export const refinePlacement = async (
+  initial: APCoordinate[],
+  context: RefinementContext,
+  settings: RefinementSettings,
+  onProgress?: (progress: SearchProgress<RefinementOutcome>) => void
+): Promise<RefinementOutcome> => {
+  const { objective, iterations, allowAddRemove } = settings;
+  const random = createRandom(settings.seed);
+  const options = searchOptions(context);
+  const evaluate = (aps: APCoordinate[]) => {
+    const coverage = analyzeCoverage(context.building, aps, context.coverageRadius, options);
+    return { aps, coverage, score: scorePlacement(coverage, aps.length, objective) };
+  };
+
+  const measure = (aps: APCoordinate[]) =>
+    scorePlacement(analyzeCoverage(context.building, aps, context.coverageRadius, context.coverageOptions), aps.length, objective);
+  const before = measure(initial);
+  let current = evaluate(initial);
+  let best = current;
+  const frameEvery = Math.max(1, Math.floor(iterations / FRAMES));
+
+  for (let iteration = 1; iteration <= iterations; iteration++) {
+    const progress = iteration / iterations;
+    const temperature = INITIAL_TEMPERATURE * Math.pow(FINAL_TEMPERATURE / INITIAL_TEMPERATURE, progress);
+    const stepM = context.coverageRadius * (0.5 - 0.45 * progress);
+    const proposal = proposeMove(current.aps, current.coverage, context, stepM, allowAddRemove, random);
+    if (proposal) {
+      const candidate = evaluate(proposal);
+      const delta = candidate.score.score - current.score.score;
+      if (delta >= 0 || random() < Math.exp(delta / temperature)) {
+        current = candidate;
+        if (current.score.score > best.score.score) best = current;
+      }
+    }
+    if (iteration % frameEvery === 0 || iteration === iterations) {
+      onProgress?.({
+        iterations: iteration,
+        totalIterations: iterations,
+        bestScore: best.score.score,
+        best: { aps: roundLayout(best.aps, context), before, after: best.score, iterations: iteration },
+      });
+      await nextFrame();
+    }
+  }
+
+  const after = measure(roundLayout(best.aps, context));
+  // The coarse search can mislead by a little; never hand back something worse than the start.
+  return after.score >= before.score
+    ? { aps: roundLayout(best.aps, context), before, after, iterations }
+    : { aps: initial, before, after: before, iterations };
+};
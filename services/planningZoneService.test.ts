@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { applyPlanningZones, createPlanningZone, evaluateZoneCompliance, priorityZoneRadius, rectangleFromCorners } from './planningZoneService';
+import type { PlanningZoneContext } from './planningZoneService';
+import { DEFAULT_PROPAGATION_SETTINGS, thresholdDistance } from './propagationService';
+import { pointInPolygon } from '../utils/geometry';
+import type { PlanningZone } from '../types';
+
+const context: PlanningZoneContext = { building: { length: 30, width: 10 }, coverageRadius: 6, zoneRadii: {}, coverageOptions: {} };
+
+const zone = (kind: PlanningZone['kind'], a: { x: number; y: number }, b: { x: number; y: number }): PlanningZone =>
+  createPlanningZone(kind, rectangleFromCorners(a, b), kind);
+
+describe('rectangleFromCorners', () => {
+  it('orders the corners whichever two opposite ones are given', () => {
+    expect(rectangleFromCorners({ x: 4, y: 1 }, { x: 1, y: 3 })).toEqual([{ x: 1, y: 1 }, { x: 4, y: 1 }, { x: 4, y: 3 }, { x: 1, y: 3 }]);
+  });
+});
+
+describe('priorityZoneRadius', () => {
+  it('is where the signal falls to the zone target, capped at the design radius', () => {
+    const priority = { ...zone('priority', { x: 0, y: 0 }, { x: 5, y: 5 }), targetDbm: -60 };
+    const expected = thresholdDistance({ ...DEFAULT_PROPAGATION_SETTINGS, thresholdDbm: -60 });
+    expect(priorityZoneRadius(priority, 100, DEFAULT_PROPAGATION_SETTINGS)).toBeCloseTo(expected);
+    expect(priorityZoneRadius(priority, 1, DEFAULT_PROPAGATION_SETTINGS)).toBe(1);
+  });
+});
+
+describe('applyPlanningZones', () => {
+  it('moves APs out of no-mount zones', () => {
+    const noMount = zone('noMount', { x: 10, y: 0 }, { x: 20, y: 10 });
+    const result = applyPlanningZones({ nAP: 2, coordinates: [{ x: 5, y: 5 }, { x: 14, y: 5 }] }, [noMount], context);
+    expect(result.coordinates).toHaveLength(2);
+    expect(result.coordinates.some(ap => pointInPolygon(ap, noMount.polygon))).toBe(false);
+    expect(result.coordinates[1].x).toBeCloseTo(9.9);
+  });
+
+  it('drops APs that only reach areas needing no coverage', () => {
+    const noCoverage = zone('noCoverage', { x: 15, y: -5 }, { x: 35, y: 15 });
+    const result = applyPlanningZones({ nAP: 2, coordinates: [{ x: 5, y: 5 }, { x: 27, y: 5 }] }, [noCoverage], context);
+    expect(result.coordinates).toEqual([{ x: 5, y: 5 }]);
+  });
+
+  it('adds APs to a priority zone until it meets its target', () => {
+    const priority = { ...zone('priority', { x: 20, y: 0 }, { x: 30, y: 10 }), targetCoveragePercent: 90 };
+    const zones = [priority];
+    const zoneContext = { ...context, zoneRadii: { [priority.id]: 4 } };
+    const start = { nAP: 1, coordinates: [{ x: 5, y: 5 }] };
+    expect(evaluateZoneCompliance(zones, start.coordinates, zoneContext)[0].compliant).toBe(false);
+
+    const result = applyPlanningZones(start, zones, zoneContext);
+    expect(result.nAP).toBeGreaterThan(1);
+    const [compliance] = evaluateZoneCompliance(zones, result.coordinates, zoneContext);
+    expect(compliance.compliant).toBe(true);
+    expect(compliance.coveragePercent).toBeGreaterThanOrEqual(90);
+    expect(new Set(result.coordinates.map(ap => `${ap.x},${ap.y}`)).size).toBe(result.nAP);
+  });
+
+  it('counts the APs that find no free mount', () => {
+    const noMount = zone('noMount', { x: 10, y: 0 }, { x: 20, y: 10 });
+    let free = 1;
+    const mount = (ap: { x: number; y: number }) => (free-- > 0 ? ap : null);
+    const result = applyPlanningZones({ nAP: 2, coordinates: [{ x: 5, y: 5 }, { x: 25, y: 5 }] }, [noMount], context, mount);
+    expect(result.coordinates).toEqual([{ x: 5, y: 5 }]);
+    expect(result.unmountedAPs).toBe(1);
+  });
+});
+
+describe('evaluateZoneCompliance', () => {
+  it('flags APs inside a no-mount zone', () => {
+    const noMount = zone('noMount', { x: 10, y: 0 }, { x: 20, y: 10 });
+    expect(evaluateZoneCompliance([noMount], [{ x: 15, y: 5 }], context)).toEqual([
+      { zoneId: noMount.id, name: 'noMount', kind: 'noMount', apsInside: 1, coveragePercent: null, compliant: false },
+    ]);
+  });
+
+  it('checks APs with their own model at that model\'s zone radius', () => {
+    const priority = { ...zone('priority', { x: 20, y: 0 }, { x: 30, y: 10 }), targetCoveragePercent: 90 };
+    const aps = [{ x: 25, y: 5, modelId: 'grande' }];
+    const zoneContext = { ...context, zoneRadii: { [priority.id]: 2 }, coverageOptions: { modelRadii: { grande: 20 } } };
+    expect(evaluateZoneCompliance([priority], aps, zoneContext)[0].compliant).toBe(false);
+    expect(evaluateZoneCompliance([priority], aps, { ...zoneContext, zoneModelRadii: { [priority.id]: { grande: 8 } } })[0].compliant).toBe(true);
+  });
+});
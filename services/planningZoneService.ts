@@ -0,0 +1,203 @@
+import type { APCoordinate, BuildingDimensions, CoverageMetrics, OptimizationResult, PlanningZone, PlanningZoneKind, PropagationSettings, ZoneCompliance } from '../types';
+import type { CoverageAnalysisOptions } from './coverageAnalysisService';
+import { analyzeCoverage } from './coverageAnalysisService';
+import { thresholdDistance } from './propagationService';
+import { closestPointOnOutline, isInsideBuilding, pointInPolygon, polygonArea } from '../utils/geometry';
+import { createId } from '../utils/id';
+
+export const PLANNING_ZONE_KIND_LABELS: Record<PlanningZoneKind, string> = {
+  noMount: 'Sin APs',
+  noCoverage: 'Sin cobertura necesaria',
+  priority: 'Prioritaria',
+};
+
+export const PLANNING_ZONE_COLORS: Record<PlanningZoneKind, string> = {
+  noMount: '#dc2626',
+  noCoverage: '#6b7280',
+  priority: '#16a34a',
+};
+
+export const DEFAULT_PRIORITY_TARGET_DBM = -65;
+export const DEFAULT_PRIORITY_COVERAGE_PERCENT = 95;
+
+const MAX_APS_ADDED_PER_ZONE = 10;
+const RELOCATION_DIRECTIONS = 16;
+const RELOCATION_STEPS = 8; // Rings searched, out to one coverage radius
+
+export const createPlanningZone = (name: string, polygon: APCoordinate[], kind: PlanningZoneKind): PlanningZone => ({
+  id: createId('pzone'),
+  name,
+  kind,
+  polygon,
+  targetDbm: DEFAULT_PRIORITY_TARGET_DBM,
+  targetCoveragePercent: DEFAULT_PRIORITY_COVERAGE_PERCENT,
+});
+
+// Axis-aligned rectangle (in building meters) with `a` and `b` as opposite corners.
+export const rectangleFromCorners = (a: APCoordinate, b: APCoordinate): APCoordinate[] => [
+  { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) },
+  { x: Math.max(a.x, b.x), y: Math.min(a.y, b.y) },
+  { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y) },
+  { x: Math.min(a.x, b.x), y: Math.max(a.y, b.y) },
+];
+
+export const zonePolygons = (zones: PlanningZone[], kind: PlanningZoneKind): APCoordinate[][] =>
+  zones.filter(zone => zone.kind === kind).map(zone => zone.polygon);
+
+export const isMountAllowed = (point: APCoordinate, zones: PlanningZone[]): boolean =>
+  !zones.some(zone => zone.kind === 'noMount' && pointInPolygon(point, zone.polygon));
+
+// A priority zone's signal target as a distance: where the propagation model's signal falls to the target.
+// The model's transmit power and exponent are used even when the design radius comes from the coverage area,
+// and the result never exceeds the design radius.
+export const priorityZoneRadius = (zone: PlanningZone, coverageRadius: number, propagation: PropagationSettings): number =>
+  Math.min(coverageRadius, thresholdDistance({ ...propagation, thresholdDbm: zone.targetDbm }));
+
+export const priorityZoneRadii = (zones: PlanningZone[], coverageRadius: number, propagation: PropagationSettings): Record<string, number> =>
+  Object.fromEntries(zones.filter(zone => zone.kind === 'priority').map(zone => [zone.id, priorityZoneRadius(zone, coverageRadius, propagation)]));
+
+// The same per priority zone for APs that carry their own model: zone id -> model id -> radius.
+export const priorityZoneModelRadii = (
+  zones: PlanningZone[],
+  modelRadii: Record<string, number>,
+  modelPropagation: Record<string, PropagationSettings>
+): Record<string, Record<string, number>> =>
+  Object.fromEntries(zones.filter(zone => zone.kind === 'priority').map(zone => [
+    zone.id,
+    Object.fromEntries(Object.entries(modelPropagation)
+      .filter(([id]) => modelRadii[id] !== undefined)
+      .map(([id, propagation]) => [id, priorityZoneRadius(zone, modelRadii[id], propagation)])),
+  ]));
+
+export interface PlanningZoneContext {
+  building: BuildingDimensions;
+  coverageRadius: number;
+  zoneRadii: Record<string, number>; // Priority zone id -> radius at which its target is met
+  zoneModelRadii?: Record<string, Record<string, number>>; // The same for APs with their own model
+  coverageOptions: CoverageAnalysisOptions;
+}
+
+// Coverage of a priority zone alone, at its own radius. Small zones are rasterized finer so they have cells.
+const priorityZoneCoverage = (zone: PlanningZone, aps: APCoordinate[], context: PlanningZoneContext) =>
+  analyzeCoverage(
+    { length: context.building.length, width: context.building.width, outline: { outer: zone.polygon, holes: [] } },
+    aps,
+    context.zoneRadii[zone.id] ?? context.coverageRadius,
+    {
+      ...context.coverageOptions,
+      modelRadii: context.zoneModelRadii?.[zone.id],
+      excludedAreas: [],
+      resolution: Math.min(context.coverageOptions.resolution ?? 1, Math.sqrt(polygonArea(zone.polygon)) / 4),
+    }
+  );
+
+export const evaluateZoneCompliance = (zones: PlanningZone[], aps: APCoordinate[], context: PlanningZoneContext): ZoneCompliance[] =>
+  zones.map(zone => {
+    const apsInside = aps.filter(ap => pointInPolygon(ap, zone.polygon)).length;
+    const base = { zoneId: zone.id, name: zone.name, kind: zone.kind, apsInside };
+    switch (zone.kind) {
+      case 'noMount':
+        return { ...base, coveragePercent: null, compliant: apsInside === 0 };
+      case 'noCoverage':
+        return { ...base, coveragePercent: null, compliant: true };
+      case 'priority': {
+        const coveragePercent = aps.length > 0 ? priorityZoneCoverage(zone, aps, context)?.coveragePercent ?? 0 : 0;
+        return { ...base, coveragePercent, compliant: coveragePercent >= zone.targetCoveragePercent };
+      }
+    }
+  });
+
+const usable = (point: APCoordinate, zones: PlanningZone[], building: BuildingDimensions) =>
+  isInsideBuilding(point, building) && isMountAllowed(point, zones);
+
+// Nearest place an AP may go: just across the edge of the no-mount zone it is in, or else the first allowed
+// point on rings of growing radius around it. Null when nothing within one coverage radius is allowed.
+const nearestMountPoint = (point: APCoordinate, zones: PlanningZone[], context: PlanningZoneContext): APCoordinate | null => {
+  if (usable(point, zones, context.building)) return point;
+  const blocking = zones.find(zone => zone.kind === 'noMount' && pointInPolygon(point, zone.polygon));
+  if (blocking) {
+    const edge = closestPointOnOutline(point, { outer: blocking.polygon, holes: [] });
+    const distance = Math.hypot(edge.x - point.x, edge.y - point.y);
+    if (distance > 0) {
+      const across = { x: edge.x + ((edge.x - point.x) / distance) * 0.1, y: edge.y + ((edge.y - point.y) / distance) * 0.1 };
+      if (usable(across, zones, context.building)) return across;
+    }
+  }
+  for (let step = 1; step <= RELOCATION_STEPS; step++) {
+    const reach = (context.coverageRadius * step) / RELOCATION_STEPS;
+    for (let d = 0; d < RELOCATION_DIRECTIONS; d++) {
+      const angle = (2 * Math.PI * d) / RELOCATION_DIRECTIONS;
+      const candidate = { x: point.x + reach * Math.cos(angle), y: point.y + reach * Math.sin(angle) };
+      if (usable(candidate, zones, context.building)) return candidate;
+    }
+  }
+  return null;
+};
+
+// True when some part of the AP's circle needs coverage (inside the building, outside every no-coverage zone).
+const servesRequiredArea = (ap: APCoordinate, zones: PlanningZone[], context: PlanningZoneContext): boolean => {
+  const excluded = zonePolygons(zones, 'noCoverage');
+  const step = context.coverageRadius / 4;
+  for (let dx = -context.coverageRadius; dx <= context.coverageRadius; dx += step) {
+    for (let dy = -context.coverageRadius; dy <= context.coverageRadius; dy += step) {
+      if (dx * dx + dy * dy > context.coverageRadius * context.coverageRadius) continue;
+      const sample = { x: ap.x + dx, y: ap.y + dy };
+      if (isInsideBuilding(sample, context.building) && !excluded.some(area => pointInPolygon(sample, area))) return true;
+    }
+  }
+  return false;
+};
+
+const roundPoint = (point: APCoordinate): APCoordinate => ({ x: parseFloat(point.x.toFixed(2)), y: parseFloat(point.y.toFixed(2)) });
+
+// Where to add an AP for the largest hole: its centroid, unless an AP already reaches it (a ring-shaped hole
+// around an AP), in which case the uncovered cell closest to the centroid.
+const holeTarget = (coverage: CoverageMetrics, aps: APCoordinate[], radius: number): APCoordinate => {
+  const { centroid } = coverage.largestHole!;
+  if (!aps.some(ap => Math.hypot(ap.x - centroid.x, ap.y - centroid.y) <= radius)) return centroid;
+  const cells = coverage.uncoveredCells.map(cell => ({ x: cell.x + coverage.cellWidth / 2, y: cell.y + coverage.cellHeight / 2 }));
+  return cells.reduce((best, cell) =>
+    (Math.hypot(cell.x - centroid.x, cell.y - centroid.y) < Math.hypot(best.x - centroid.x, best.y - centroid.y) ? cell : best), cells[0] ?? centroid);
+};
+
+// Makes an optimizer's layout respect the zones: APs in no-mount zones move to the nearest allowed spot (or
+// are dropped), APs that only reach no-coverage zones are dropped, and priority zones below target get APs
+// at their largest hole until they comply or the per-zone limit is reached. With `mount` (see
+// createMountAllocator) every AP goes on a mount point before the priority zones are measured, so the APs
+// added for them are judged by where they will really hang.
+export const applyPlanningZones = (
+  result: OptimizationResult,
+  zones: PlanningZone[],
+  context: PlanningZoneContext,
+  mount?: (ap: APCoordinate) => APCoordinate | null
+): OptimizationResult => {
+  if (zones.length === 0 || result.coordinates.length === 0) return result;
+
+  let coordinates = result.coordinates
+    .map(ap => nearestMountPoint(ap, zones, context))
+    .filter((ap): ap is APCoordinate => ap !== null);
+  let unmountedAPs = result.unmountedAPs ?? 0;
+  if (mount) {
+    const mounted = coordinates.map(mount).filter((ap): ap is APCoordinate => ap !== null);
+    unmountedAPs += coordinates.length - mounted.length;
+    coordinates = mounted;
+  }
+  if (zones.some(zone => zone.kind === 'noCoverage')) {
+    coordinates = coordinates.filter(ap => servesRequiredArea(ap, zones, context));
+  }
+
+  for (const zone of zones.filter(z => z.kind === 'priority')) {
+    for (let added = 0; added < MAX_APS_ADDED_PER_ZONE; added++) {
+      const coverage = priorityZoneCoverage(zone, coordinates, context);
+      if (!coverage || coverage.coveragePercent >= zone.targetCoveragePercent || !coverage.largestHole) break;
+      const allowed = nearestMountPoint(holeTarget(coverage, coordinates, context.zoneRadii[zone.id] ?? context.coverageRadius), zones, context);
+      const point = allowed && (mount ? mount(allowed) : allowed);
+      if (!point) break;
+      coordinates = [...coordinates, point];
+    }
+  }
+
+  // Mount points are already exact; rounding could move an AP off its mount.
+  const rounded = mount ? coordinates : coordinates.map(roundPoint);
+  return { ...result, nAP: rounded.length, coordinates: rounded, ...(unmountedAPs > 0 && { unmountedAPs }) };
+};
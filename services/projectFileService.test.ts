@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { createProjectFile, parseProjectFile, PROJECT_FILE_VERSION, serializeProject } from './projectFileService';
+import { DEFAULT_AP_CATALOG_SETTINGS } from './apCatalogService';
+import type { ProjectSettings } from '../types';
+
+const DEFAULTS: ProjectSettings = {
+  coverageArea: '100',
+  algorithmMode: 'grid',
+  gridLattice: 'square',
+  analysisResolution: '1',
+  propagation: { enabled: false, showHeatmap: false, txPowerDbm: '20', band: '5', pathLossExponent: '3', referenceLossDb: '46.4', thresholdDbm: '-67' },
+  channelPlan: { enabled: false, band: '5', channelWidthMhz: 20, allowDfs: false },
+  capacity: { enabled: false, devicesPerPerson: '1.5', perClientMbps: '5', maxClientsPerAP: '50', apThroughputMbps: '400' },
+  geoAnchor: { latitude: '', longitude: '', bearingDeg: '0' },
+  cabling: { slackPercent: '10', serviceLoopM: '5' },
+  apCatalog: DEFAULT_AP_CATALOG_SETTINGS,
+};
+
+// A project as saved by version 1 of the format, before designs of record, planning zones, mounting,
+// cabling and the AP catalog.
+const V1_PROJECT = {
+  format: 'ap-oua-project',
+  version: 1,
+  savedAt: '2024-01-01T00:00:00.000Z',
+  settings: {
+    coverageArea: '80',
+    algorithmMode: 'setCover',
+    gridLattice: 'hex',
+    analysisResolution: '0.5',
+    propagation: { enabled: true, showHeatmap: true, txPowerDbm: '17', band: '2.4', pathLossExponent: '3.5', referenceLossDb: '40', thresholdDbm: '-70' },
+    channelPlan: { enabled: true, band: '5', channelWidthMhz: 40, allowDfs: true },
+    capacity: { enabled: false, devicesPerPerson: '2', perClientMbps: '3', maxClientsPerAP: '40', apThroughputMbps: '300' },
+  },
+  floors: [{
+    id: 'floor-1',
+    name: 'Planta baja',
+    floorHeightM: 3,
+    slabAttenuationDb: 15,
+    buildingLength: '30',
+    buildingWidth: '20',
+    outlineForm: { shape: 'rectangle', outer: '', holes: '' },
+    planImageDataUrl: null,
+    planNaturalDimensions: null,
+    planCalibration: null,
+    manualAPs: [{ x: 5, y: 5 }],
+    walls: [],
+    capacityZones: [],
+    results: { nAP: 2, coordinates: [{ x: 7.5, y: 10 }, { x: 22.5, y: 10 }] },
+    aiResults: null,
+  }],
+  activeFloorId: 'floor-1',
+};
+
+describe('parseProjectFile', () => {
+  it('migrates a version 1 file, filling the fields added since', () => {
+    const project = parseProjectFile(JSON.stringify(V1_PROJECT), DEFAULTS);
+    expect(project.version).toBe(PROJECT_FILE_VERSION);
+    expect(project.settings.algorithmMode).toBe('setCover');
+    expect(project.settings.propagation.band).toBe('2.4');
+    expect(project.settings.channelPlan.channelWidthMhz).toBe(40);
+    expect(project.settings.geoAnchor).toEqual(DEFAULTS.geoAnchor);
+    expect(project.settings.cabling).toEqual(DEFAULTS.cabling);
+    expect(project.settings.apCatalog).toEqual(DEFAULTS.apCatalog);
+    const [floor] = project.floors;
+    expect(floor.results?.coordinates).toHaveLength(2);
+    expect(floor.designOfRecord).toBeNull();
+    expect(floor.planningZones).toEqual([]);
+    expect(floor.mountingForm.mode).toBe('free');
+    expect(floor.idfLocation).toBeNull();
+  });
+
+  it('reads back what it saves', () => {
+    const project = parseProjectFile(JSON.stringify(V1_PROJECT), DEFAULTS);
+    const saved = serializeProject(createProjectFile(project.settings, project.floors, project.activeFloorId));
+    const reread = parseProjectFile(saved, DEFAULTS);
+    expect(reread.settings).toEqual(project.settings);
+    expect(reread.floors).toEqual(project.floors);
+  });
+
+  it('rejects a settings field with an unknown value', () => {
+    const file = { ...V1_PROJECT, settings: { ...V1_PROJECT.settings, propagation: { ...V1_PROJECT.settings.propagation, band: '7' } } };
+    expect(() => parseProjectFile(JSON.stringify(file), DEFAULTS)).toThrow('settings.propagation.band');
+  });
+
+  it('rejects a settings field of the wrong type', () => {
+    const file = { ...V1_PROJECT, settings: { ...V1_PROJECT.settings, capacity: { ...V1_PROJECT.settings.capacity, enabled: 'sí' } } };
+    expect(() => parseProjectFile(JSON.stringify(file), DEFAULTS)).toThrow('settings.capacity.enabled');
+  });
+
+  it('rejects files from a newer version of the format', () => {
+    const file = { ...V1_PROJECT, version: PROJECT_FILE_VERSION + 1 };
+    expect(() => parseProjectFile(JSON.stringify(file), DEFAULTS)).toThrow('versión más reciente');
+  });
+});
@@ -0,0 +1,326 @@
+import type { APCoordinate, ApCatalogSettings, CablingFormState, CapacityFormState, ChannelPlanSettings, ChannelWidth, DesignOfRecord, FloorSnapshot, GeoAnchorFormState, MountingFormState, OptimizationResult, PlanningZone, ProjectFile, ProjectSettings, PropagationFormState } from '../types';
+import { DEFAULT_CEILING_GRID_SPACING_M } from './mountingService';
+import { validateApModels } from './apCatalogService';
+
+export const PROJECT_FILE_FORMAT = 'ap-oua-project';
+export const PROJECT_FILE_VERSION = 2;
+
+const DEFAULT_MOUNTING_FORM: MountingFormState = { mode: 'free', gridSpacing: String(DEFAULT_CEILING_GRID_SPACING_M), gridOffsetX: '0', gridOffsetY: '0', points: '' };
+
+// Upgrades a parsed file from one version to the next. The entry for N turns a version N file into N + 1.
+// Settings the file lacks are taken from `defaults`.
+const MIGRATIONS: Record<number, (data: Record<string, unknown>, defaults: ProjectSettings) => Record<string, unknown>> = {
+  // Version 2 added designs of record, planning zones, mounting and cabling, the geographic anchor and the AP catalog.
+  1: (data, defaults) => ({
+    ...data,
+    settings: {
+      ...(isObject(data.settings) ? data.settings : {}),
+      geoAnchor: defaults.geoAnchor,
+      cabling: defaults.cabling,
+      apCatalog: defaults.apCatalog,
+    },
+    floors: Array.isArray(data.floors)
+      ? data.floors.map(floor => (isObject(floor)
+        ? { ...floor, designOfRecord: null, planningZones: [], mountingForm: DEFAULT_MOUNTING_FORM, idfLocation: null }
+        : floor))
+      : data.floors,
+  }),
+};
+
+const WALL_KINDS = ['wall', 'door', 'window'];
+const WALL_MATERIALS = ['drywall', 'brick', 'concrete', 'glass', 'metal'];
+const OUTLINE_SHAPES = ['rectangle', 'polygon'];
+const OCCUPANCY_MODES = ['headcount', 'density'];
+const PLACEMENT_SOURCES = ['algorithm', 'ai', 'manual'];
+const PLANNING_ZONE_KINDS = ['noMount', 'noCoverage', 'priority'];
+const MOUNTING_MODES = ['free', 'grid', 'points'];
+const FREQUENCY_BANDS = ['2.4', '5', '6'];
+const CHANNEL_WIDTHS: ChannelWidth[] = [20, 40, 80, 160];
+
+const invalid = (path: string, expected: string): Error =>
+  new Error(`Archivo de proyecto inválido: "${path}" debería ser ${expected}.`);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectObject = (value: unknown, path: string): Record<string, unknown> => {
+  if (!isObject(value)) throw invalid(path, 'un objeto');
+  return value;
+};
+
+const expectArray = (value: unknown, path: string): unknown[] => {
+  if (!Array.isArray(value)) throw invalid(path, 'una lista');
+  return value;
+};
+
+const expectNumber = (value: unknown, path: string): number => {
+  if (typeof value !== 'number' || !isFinite(value)) throw invalid(path, 'un número');
+  return value;
+};
+
+const expectString = (value: unknown, path: string): string => {
+  if (typeof value !== 'string') throw invalid(path, 'un texto');
+  return value;
+};
+
+const expectOneOf = <T extends string>(value: unknown, options: string[], path: string): T => {
+  if (typeof value !== 'string' || !options.includes(value)) throw invalid(path, `uno de: ${options.join(', ')}`);
+  return value as T;
+};
+
+const expectPoint = (value: unknown, path: string): APCoordinate => {
+  const point = expectObject(value, path);
+  return { x: expectNumber(point.x, `${path}.x`), y: expectNumber(point.y, `${path}.y`) };
+};
+
+const expectPoints = (value: unknown, path: string, minLength = 0): APCoordinate[] => {
+  const points = expectArray(value, path).map((p, i) => expectPoint(p, `${path}[${i}]`));
+  if (points.length < minLength) throw invalid(path, `una lista de al menos ${minLength} puntos`);
+  return points;
+};
+
+// APs keep their model, if they have their own.
+const expectAps = (value: unknown, path: string): APCoordinate[] =>
+  expectArray(value, path).map((p, i) => {
+    const point = expectPoint(p, `${path}[${i}]`);
+    const { modelId } = expectObject(p, `${path}[${i}]`);
+    return modelId === undefined ? point : { ...point, modelId: expectString(modelId, `${path}[${i}].modelId`) };
+  });
+
+const expectResult = (value: unknown, path: string): OptimizationResult | null => {
+  if (value === null || value === undefined) return null;
+  const result = expectObject(value, path);
+  const coordinates = expectAps(result.coordinates, `${path}.coordinates`);
+  expectNumber(result.nAP, `${path}.nAP`);
+  if (result.message !== undefined) expectString(result.message, `${path}.message`);
+  // Derived fields (lattice comparison, capacity summary) are kept as saved.
+  return { ...(result as unknown as OptimizationResult), coordinates };
+};
+
+const expectPlanningZones = (value: unknown, path: string): PlanningZone[] =>
+  expectArray(value, path).map((z, i) => {
+    const zone = expectObject(z, `${path}[${i}]`);
+    return {
+      id: expectString(zone.id, `${path}[${i}].id`),
+      name: expectString(zone.name, `${path}[${i}].name`),
+      kind: expectOneOf(zone.kind, PLANNING_ZONE_KINDS, `${path}[${i}].kind`),
+      polygon: expectPoints(zone.polygon, `${path}[${i}].polygon`, 3),
+      targetDbm: expectNumber(zone.targetDbm, `${path}[${i}].targetDbm`),
+      targetCoveragePercent: expectNumber(zone.targetCoveragePercent, `${path}[${i}].targetCoveragePercent`),
+    };
+  });
+
+const expectMountingForm = (value: unknown, path: string): MountingFormState => {
+  const form = expectObject(value, path);
+  return {
+    mode: expectOneOf(form.mode, MOUNTING_MODES, `${path}.mode`),
+    gridSpacing: expectString(form.gridSpacing, `${path}.gridSpacing`),
+    gridOffsetX: expectString(form.gridOffsetX, `${path}.gridOffsetX`),
+    gridOffsetY: expectString(form.gridOffsetY, `${path}.gridOffsetY`),
+    points: expectString(form.points, `${path}.points`),
+  };
+};
+
+const expectDesignOfRecord = (value: unknown, path: string): DesignOfRecord | null => {
+  if (value === null) return null;
+  const design = expectObject(value, path);
+  return {
+    source: expectOneOf(design.source, PLACEMENT_SOURCES, `${path}.source`),
+    aps: expectAps(design.aps, `${path}.aps`),
+    promotedAt: expectString(design.promotedAt, `${path}.promotedAt`),
+  };
+};
+
+const expectApCatalog = (value: unknown): ApCatalogSettings => {
+  const catalog = expectObject(value, 'settings.apCatalog');
+  const models = validateApModels(catalog.models, 'settings.apCatalog.models');
+  const defaultModelId = catalog.defaultModelId === null ? null : expectString(catalog.defaultModelId, 'settings.apCatalog.defaultModelId');
+  return { models, defaultModelId: models.some(model => model.id === defaultModelId) ? defaultModelId : null };
+};
+
+const validateFloor = (value: unknown, path: string): FloorSnapshot => {
+  const floor = expectObject(value, path);
+  const outlineForm = expectObject(floor.outlineForm, `${path}.outlineForm`);
+  const planImageDataUrl = floor.planImageDataUrl === null ? null : expectString(floor.planImageDataUrl, `${path}.planImageDataUrl`);
+  if (planImageDataUrl !== null && !planImageDataUrl.startsWith('data:image/')) {
+    throw invalid(`${path}.planImageDataUrl`, 'una imagen incrustada (data:image/...)');
+  }
+  const natural = floor.planNaturalDimensions === null ? null : expectObject(floor.planNaturalDimensions, `${path}.planNaturalDimensions`);
+  const calibration = floor.planCalibration === null ? null : expectObject(floor.planCalibration, `${path}.planCalibration`);
+
+  return {
+    id: expectString(floor.id, `${path}.id`),
+    name: expectString(floor.name, `${path}.name`),
+    floorHeightM: expectNumber(floor.floorHeightM, `${path}.floorHeightM`),
+    slabAttenuationDb: expectNumber(floor.slabAttenuationDb, `${path}.slabAttenuationDb`),
+    buildingLength: expectString(floor.buildingLength, `${path}.buildingLength`),
+    buildingWidth: expectString(floor.buildingWidth, `${path}.buildingWidth`),
+    outlineForm: {
+      shape: expectOneOf(outlineForm.shape, OUTLINE_SHAPES, `${path}.outlineForm.shape`),
+      outer: expectString(outlineForm.outer, `${path}.outlineForm.outer`),
+      holes: expectString(outlineForm.holes, `${path}.outlineForm.holes`),
+    },
+    planImageDataUrl,
+    planNaturalDimensions: natural && {
+      width: expectNumber(natural.width, `${path}.planNaturalDimensions.width`),
+      height: expectNumber(natural.height, `${path}.planNaturalDimensions.height`),
+    },
+    planCalibration: calibration && {
+      pixelsPerMeter: expectNumber(calibration.pixelsPerMeter, `${path}.planCalibration.pixelsPerMeter`),
+      originPx: expectPoint(calibration.originPx, `${path}.planCalibration.originPx`),
+      rotationDeg: expectNumber(calibration.rotationDeg, `${path}.planCalibration.rotationDeg`),
+      calibrated: calibration.calibrated === true,
+    },
+    manualAPs: expectAps(floor.manualAPs, `${path}.manualAPs`),
+    walls: expectArray(floor.walls, `${path}.walls`).map((w, i) => {
+      const wall = expectObject(w, `${path}.walls[${i}]`);
+      return {
+        id: expectString(wall.id, `${path}.walls[${i}].id`),
+        kind: expectOneOf(wall.kind, WALL_KINDS, `${path}.walls[${i}].kind`),
+        material: expectOneOf(wall.material, WALL_MATERIALS, `${path}.walls[${i}].material`),
+        lossDb: expectNumber(wall.lossDb, `${path}.walls[${i}].lossDb`),
+        points: expectPoints(wall.points, `${path}.walls[${i}].points`, 2),
+      };
+    }),
+    capacityZones: expectArray(floor.capacityZones, `${path}.capacityZones`).map((z, i) => {
+      const zone = expectObject(z, `${path}.capacityZones[${i}]`);
+      return {
+        id: expectString(zone.id, `${path}.capacityZones[${i}].id`),
+        name: expectString(zone.name, `${path}.capacityZones[${i}].name`),
+        polygon: expectPoints(zone.polygon, `${path}.capacityZones[${i}].polygon`, 3),
+        occupancyMode: expectOneOf(zone.occupancyMode, OCCUPANCY_MODES, `${path}.capacityZones[${i}].occupancyMode`),
+        occupancy: expectNumber(zone.occupancy, `${path}.capacityZones[${i}].occupancy`),
+      };
+    }),
+    results: expectResult(floor.results, `${path}.results`),
+    aiResults: expectResult(floor.aiResults, `${path}.aiResults`),
+    designOfRecord: expectDesignOfRecord(floor.designOfRecord, `${path}.designOfRecord`),
+    planningZones: expectPlanningZones(floor.planningZones, `${path}.planningZones`),
+    mountingForm: expectMountingForm(floor.mountingForm, `${path}.mountingForm`),
+    idfLocation: floor.idfLocation === null ? null : expectPoint(floor.idfLocation, `${path}.idfLocation`),
+  };
+};
+
+const expectBoolean = (value: unknown, path: string): boolean => {
+  if (typeof value !== 'boolean') throw invalid(path, 'verdadero o falso');
+  return value;
+};
+
+const expectChannelWidth = (value: unknown, path: string): ChannelWidth => {
+  if (!CHANNEL_WIDTHS.includes(value as ChannelWidth)) throw invalid(path, `uno de: ${CHANNEL_WIDTHS.join(', ')}`);
+  return value as ChannelWidth;
+};
+
+// Settings are merged over the current defaults, field by field, so a file that lacks a setting still opens;
+// every setting it does have is checked.
+const validateSettings = (value: unknown, defaults: ProjectSettings): ProjectSettings => {
+  const settings = expectObject(value ?? {}, 'settings');
+  const setting = <T>(name: keyof ProjectSettings, expect: (value: unknown, path: string) => T): T =>
+    (settings[name] === undefined ? defaults[name] as T : expect(settings[name], `settings.${name}`));
+  // One section of form fields; `fields` gives the check of each field.
+  const section = <T extends object>(name: keyof ProjectSettings, fields: { [K in keyof T]: (value: unknown, path: string) => T[K] }): T => {
+    const fallback = defaults[name] as T;
+    if (settings[name] === undefined) return fallback;
+    const saved = expectObject(settings[name], `settings.${name}`);
+    const result = { ...fallback };
+    for (const key of Object.keys(fields) as (keyof T & string)[]) {
+      if (saved[key] !== undefined) result[key] = fields[key](saved[key], `settings.${name}.${key}`);
+    }
+    return result;
+  };
+  const band = (v: unknown, path: string) => expectOneOf<PropagationFormState['band']>(v, FREQUENCY_BANDS, path);
+
+  return {
+    coverageArea: setting('coverageArea', expectString),
+    algorithmMode: setting('algorithmMode', (v, path) => expectOneOf(v, ['grid', 'setCover'], path)),
+    gridLattice: setting('gridLattice', (v, path) => expectOneOf(v, ['square', 'hex'], path)),
+    analysisResolution: setting('analysisResolution', expectString),
+    propagation: section<PropagationFormState>('propagation', {
+      enabled: expectBoolean,
+      showHeatmap: expectBoolean,
+      txPowerDbm: expectString,
+      band,
+      pathLossExponent: expectString,
+      referenceLossDb: expectString,
+      thresholdDbm: expectString,
+    }),
+    channelPlan: section<ChannelPlanSettings>('channelPlan', {
+      enabled: expectBoolean,
+      band,
+      channelWidthMhz: expectChannelWidth,
+      allowDfs: expectBoolean,
+    }),
+    capacity: section<CapacityFormState>('capacity', {
+      enabled: expectBoolean,
+      devicesPerPerson: expectString,
+      perClientMbps: expectString,
+      maxClientsPerAP: expectString,
+      apThroughputMbps: expectString,
+    }),
+    geoAnchor: section<GeoAnchorFormState>('geoAnchor', {
+      latitude: expectString,
+      longitude: expectString,
+      bearingDeg: expectString,
+    }),
+    cabling: section<CablingFormState>('cabling', {
+      slackPercent: expectString,
+      serviceLoopM: expectString,
+    }),
+    apCatalog: setting('apCatalog', expectApCatalog),
+  };
+};
+
+export const createProjectFile = (settings: ProjectSettings, floors: FloorSnapshot[], activeFloorId: string): ProjectFile => ({
+  format: PROJECT_FILE_FORMAT,
+  version: PROJECT_FILE_VERSION,
+  savedAt: new Date().toISOString(),
+  settings,
+  floors,
+  activeFloorId,
+});
+
+export const serializeProject = (project: ProjectFile): string => JSON.stringify(project, null, 2);
+
+export const projectFileName = (projectName: string): string => {
+  const base = projectName.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_');
+  return `${base || 'proyecto_aps'}.json`;
+};
+
+// Parses, migrates and validates a project file. Throws an Error with a user-facing message on any problem.
+export const parseProjectFile = (text: string, defaults: ProjectSettings): ProjectFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('El archivo no es un JSON válido.');
+  }
+  let project = expectObject(data, 'proyecto');
+  if (project.format !== PROJECT_FILE_FORMAT) {
+    throw new Error('El archivo no es un proyecto de este optimizador de APs.');
+  }
+  let version = expectNumber(project.version, 'version');
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(`El proyecto fue guardado con una versión más reciente del formato (${version}). Esta aplicación lee hasta la versión ${PROJECT_FILE_VERSION}.`);
+  }
+  while (version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No se puede migrar un proyecto de la versión ${version} del formato.`);
+    project = migrate(project, defaults);
+    version++;
+  }
+
+  const floors = expectArray(project.floors, 'floors').map((floor, i) => validateFloor(floor, `floors[${i}]`));
+  if (floors.length === 0) throw invalid('floors', 'una lista con al menos una planta');
+  const activeFloorId = typeof project.activeFloorId === 'string' && floors.some(f => f.id === project.activeFloorId)
+    ? project.activeFloorId
+    : floors[0].id;
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: typeof project.savedAt === 'string' ? project.savedAt : '',
+    settings: validateSettings(project.settings, defaults),
+    floors,
+    activeFloorId,
+  };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  attenuatedRadius,
+  computeSignalHeatmap,
+  DEFAULT_PROPAGATION_SETTINGS,
+  freeSpaceReferenceLoss,
+  pathLossDb,
+  receivedSignalDbm,
+  thresholdDistance,
+} from './propagationService';
+import type { BuildingOutline, PropagationSettings, Wall } from '../types';
+
+const SETTINGS: PropagationSettings = { ...DEFAULT_PROPAGATION_SETTINGS, enabled: true };
+
+describe('propagation model', () => {
+  it('derives the 1 m free-space loss of each band', () => {
+    expect(freeSpaceReferenceLoss('2.4')).toBe(40.2);
+    expect(freeSpaceReferenceLoss('5')).toBe(47.2);
+  });
+
+  it('adds 10 n dB of loss per decade of distance and clamps below 1 m', () => {
+    expect(pathLossDb(SETTINGS, 10) - pathLossDb(SETTINGS, 1)).toBeCloseTo(10 * SETTINGS.pathLossExponent);
+    expect(pathLossDb(SETTINGS, 0.2)).toBe(SETTINGS.referenceLossDb);
+  });
+
+  it('reaches the threshold exactly at the threshold distance', () => {
+    const radius = thresholdDistance(SETTINGS);
+    expect(receivedSignalDbm(SETTINGS, { x: 0, y: 0 }, { x: radius, y: 0 })).toBeCloseTo(SETTINGS.thresholdDbm);
+  });
+
+  it('takes wall losses out of the received signal', () => {
+    const wall: Wall = { id: 'w1', kind: 'wall', material: 'brick', lossDb: 10, points: [{ x: 2, y: -5 }, { x: 2, y: 5 }] };
+    const clear = receivedSignalDbm(SETTINGS, { x: 0, y: 0 }, { x: 4, y: 0 });
+    expect(receivedSignalDbm(SETTINGS, { x: 0, y: 0 }, { x: 4, y: 0 }, [wall])).toBeCloseTo(clear - 10);
+  });
+
+  it('shrinks a radius by the same factor an extra loss shrinks the threshold distance', () => {
+    const radius = thresholdDistance(SETTINGS);
+    const attenuated = thresholdDistance({ ...SETTINGS, thresholdDbm: SETTINGS.thresholdDbm + 6 });
+    expect(attenuatedRadius(radius, 6, SETTINGS.pathLossExponent)).toBeCloseTo(attenuated);
+    expect(attenuatedRadius(radius, 0, SETTINGS.pathLossExponent)).toBe(radius);
+  });
+});
+
+describe('computeSignalHeatmap', () => {
+  it('needs at least one AP', () => {
+    expect(computeSignalHeatmap({ length: 10, width: 10 }, [], SETTINGS, 1)).toBeNull();
+  });
+
+  it('keeps the strongest signal in each cell', () => {
+    const heatmap = computeSignalHeatmap({ length: 10, width: 2 }, [{ x: 0, y: 1 }, { x: 10, y: 1 }], SETTINGS, 1)!;
+    expect(heatmap.cols).toBe(10);
+    expect(heatmap.rows).toBe(2);
+    const first = heatmap.values[0];
+    const last = heatmap.values[heatmap.cols - 1];
+    const middle = heatmap.values[4];
+    expect(first).toBeCloseTo(last);
+    expect(middle).toBeLessThan(first);
+  });
+
+  it('lets APs with their own model transmit with its settings', () => {
+    const aps = [{ x: 0, y: 1, modelId: 'potente' }];
+    const project = computeSignalHeatmap({ length: 10, width: 2 }, aps, SETTINGS, 1)!;
+    const modelled = computeSignalHeatmap({ length: 10, width: 2 }, aps, SETTINGS, 1, [], [], { potente: { ...SETTINGS, txPowerDbm: SETTINGS.txPowerDbm + 6 } })!;
+    expect(modelled.values[5]).toBeCloseTo(project.values[5] + 6);
+  });
+
+  it('marks cells outside a polygonal outline as NaN', () => {
+    const outline: BuildingOutline = { outer: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 10 }], holes: [] };
+    const heatmap = computeSignalHeatmap({ length: 10, width: 10, outline }, [{ x: 2, y: 2 }], SETTINGS, 1)!;
+    expect(Number.isNaN(heatmap.values[0])).toBe(false);
+    expect(Number.isNaN(heatmap.values[heatmap.values.length - 1])).toBe(true);
+  });
+});
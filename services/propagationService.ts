@@ -0,0 +1,104 @@
+import type { APCoordinate, BuildingDimensions, FrequencyBand, PropagationSettings, RemoteAPSource, SignalHeatmap, Wall } from '../types';
+import { wallLossBetween } from './obstacleService';
+import { isInsideOutline } from '../utils/geometry';
+
+// Representative centre frequency (MHz) used for each band.
+export const BAND_CENTER_FREQUENCY_MHZ: Record<FrequencyBand, number> = {
+  '2.4': 2437,
+  '5': 5500,
+  '6': 6525,
+};
+
+const REFERENCE_DISTANCE_M = 1;
+const MAX_HEATMAP_CELLS = 250000;
+
+// Free-space path loss at the 1 m reference distance: FSPL(dB) = 20 log10(f_MHz) + 20 log10(d_km) + 32.44.
+export const freeSpaceReferenceLoss = (band: FrequencyBand): number =>
+  parseFloat((20 * Math.log10(BAND_CENTER_FREQUENCY_MHZ[band]) + 20 * Math.log10(REFERENCE_DISTANCE_M / 1000) + 32.44).toFixed(1));
+
+export const DEFAULT_PROPAGATION_SETTINGS: PropagationSettings = {
+  enabled: false,
+  txPowerDbm: 20,
+  band: '5',
+  pathLossExponent: 3,
+  referenceLossDb: freeSpaceReferenceLoss('5'),
+  thresholdDbm: -67,
+};
+
+// Log-distance path loss. Distances below the reference distance are clamped to it.
+export const pathLossDb = (settings: PropagationSettings, distanceM: number): number =>
+  settings.referenceLossDb + 10 * settings.pathLossExponent * Math.log10(Math.max(distanceM, REFERENCE_DISTANCE_M) / REFERENCE_DISTANCE_M);
+
+export const receivedSignalDbm = (settings: PropagationSettings, ap: APCoordinate, point: APCoordinate, walls: Wall[] = []): number =>
+  settings.txPowerDbm - pathLossDb(settings, Math.hypot(ap.x - point.x, ap.y - point.y)) - wallLossBetween(walls, ap, point);
+
+// Distance at which the received signal drops to the threshold: the model's coverage radius.
+export const thresholdDistance = (settings: PropagationSettings): number => {
+  if (settings.pathLossExponent <= 0) return 0;
+  const linkBudget = settings.txPowerDbm - settings.referenceLossDb - settings.thresholdDbm;
+  return REFERENCE_DISTANCE_M * Math.pow(10, linkBudget / (10 * settings.pathLossExponent));
+};
+
+// Radius that remains once `extraLossDb` is taken out of the link budget: a loss of L dB
+// shrinks the reach by a factor of 10^(-L / (10 n)).
+export const attenuatedRadius = (radius: number, extraLossDb: number, pathLossExponent: number): number =>
+  extraLossDb <= 0 || pathLossExponent <= 0 ? radius : radius * Math.pow(10, -extraLossDb / (10 * pathLossExponent));
+
+// The propagation settings an AP transmits with: its own model's when `modelSettings` lists it, otherwise `settings`.
+export const apPropagationSettings = (ap: APCoordinate, settings: PropagationSettings, modelSettings: Record<string, PropagationSettings> = {}): PropagationSettings =>
+  (ap.modelId !== undefined ? modelSettings[ap.modelId] : undefined) ?? settings;
+
+// Signal from an AP on another floor: 3D distance plus the slab loss between both floors.
+export const remoteSignalDbm = (settings: PropagationSettings, source: RemoteAPSource, point: APCoordinate): number => {
+  const distance = Math.hypot(source.position.x - point.x, source.position.y - point.y, source.verticalOffsetM);
+  return settings.txPowerDbm - pathLossDb(settings, distance) - source.extraLossDb;
+};
+
+// Best RSSI from any AP at the centre of each raster cell, including wall losses and the
+// bleed-through of APs on adjacent floors. APs with their own model in `modelSettings` transmit with its
+// settings. Cells outside a polygonal outline are NaN.
+export const computeSignalHeatmap = (
+  building: BuildingDimensions,
+  aps: APCoordinate[],
+  settings: PropagationSettings,
+  resolution: number,
+  walls: Wall[] = [],
+  externalSources: RemoteAPSource[] = [],
+  modelSettings: Record<string, PropagationSettings> = {}
+): SignalHeatmap | null => {
+  const { length, width } = building;
+  if (length <= 0 || width <= 0 || resolution <= 0 || (aps.length === 0 && externalSources.length === 0)) {
+    return null;
+  }
+
+  let effectiveResolution = resolution;
+  while (Math.ceil(length / effectiveResolution) * Math.ceil(width / effectiveResolution) > MAX_HEATMAP_CELLS) {
+    effectiveResolution *= 1.25;
+  }
+  const cols = Math.max(1, Math.ceil(length / effectiveResolution));
+  const rows = Math.max(1, Math.ceil(width / effectiveResolution));
+  const cellWidth = length / cols;
+  const cellHeight = width / rows;
+  const values = new Float32Array(cols * rows);
+  const apSettings = aps.map(ap => apPropagationSettings(ap, settings, modelSettings));
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const point = { x: (c + 0.5) * cellWidth, y: (r + 0.5) * cellHeight };
+      if (building.outline && !isInsideOutline(point, building.outline)) {
+        values[r * cols + c] = NaN;
+        continue;
+      }
+      let best = -Infinity;
+      aps.forEach((ap, index) => {
+        best = Math.max(best, receivedSignalDbm(apSettings[index], ap, point, walls));
+      });
+      for (const source of externalSources) {
+        best = Math.max(best, remoteSignalDbm(settings, source, point));
+      }
+      values[r * cols + c] = best;
+    }
+  }
+
+  return { cols, rows, cellWidth, cellHeight, values };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { buildBillOfMaterials } from './reportService';
+import { createFloor } from './floorService';
+import { DEFAULT_AP_CATALOG_SETTINGS, formatPrice } from './apCatalogService';
+import type { ApCatalogSettings, FloorSnapshot } from '../types';
+
+const CATALOG: ApCatalogSettings = { ...DEFAULT_AP_CATALOG_SETTINGS, defaultModelId: 'generic-wifi6-indoor-2x2' };
+const NO_SLACK = { slackPercent: 0, serviceLoopM: 0 };
+
+const floor = (name: string, overrides: Partial<FloorSnapshot>): FloorSnapshot => ({ ...createFloor(name), buildingLength: '30', buildingWidth: '20', ...overrides });
+
+const rowsOf = (body: (string | number)[][], design: string) => body.filter(row => row[1] === design);
+
+describe('buildBillOfMaterials', () => {
+  const ground = floor('Planta baja', {
+    results: { nAP: 2, coordinates: [{ x: 10, y: 5 }, { x: 20, y: 5, modelId: 'generic-wifi6-outdoor' }] },
+    idfLocation: { x: 0, y: 0 },
+  });
+  const first = floor('Planta 1', { results: { nAP: 1, coordinates: [{ x: 15, y: 10 }] } });
+
+  it('lists each model of a design per floor, priced, with the design totals', () => {
+    const { head, body } = buildBillOfMaterials([ground, first], ['algorithm'], NO_SLACK, CATALOG);
+    expect(head).toHaveLength(6);
+    const rows = rowsOf(body, 'Algoritmo');
+    expect(rows).toContainEqual(['Wi-Fi 6 interior 2x2', 'Algoritmo', 'Planta baja', 1, formatPrice(250), formatPrice(250)]);
+    expect(rows).toContainEqual(['Wi-Fi 6 exterior', 'Algoritmo', 'Planta baja', 1, formatPrice(700), formatPrice(700)]);
+    expect(rows).toContainEqual(['Wi-Fi 6 interior 2x2', 'Algoritmo', 'Planta 1', 1, formatPrice(250), formatPrice(250)]);
+    expect(rows).toContainEqual(['Total APs', 'Algoritmo', 'Todas', 3, '-', formatPrice(1200)]);
+  });
+
+  it('adds the cable of floors with a comms room', () => {
+    const { body } = buildBillOfMaterials([ground, first], ['algorithm'], NO_SLACK, CATALOG);
+    expect(rowsOf(body, 'Algoritmo')).toContainEqual(['Cable de red (m)', 'Algoritmo', 'Planta baja', 40, '-', '-']);
+    expect(body.some(row => row[0] === 'Cable de red (m)' && row[2] === 'Planta 1')).toBe(false);
+  });
+
+  it('puts the designs of record first and skips sources without APs', () => {
+    const promoted = { ...first, designOfRecord: { source: 'algorithm' as const, aps: [{ x: 1, y: 1 }], promotedAt: '2024-01-01T00:00:00.000Z' } };
+    const { body } = buildBillOfMaterials([ground, promoted], ['algorithm', 'ai'], NO_SLACK, CATALOG);
+    expect(body[0][1]).toBe('Referencia');
+    expect(rowsOf(body, 'Referencia')).toContainEqual(['Total APs', 'Referencia', 'Planta 1', 1, '-', formatPrice(250)]);
+    expect(rowsOf(body, 'IA')).toEqual([]);
+  });
+
+  it('leaves prices out when no model is chosen', () => {
+    const { body } = buildBillOfMaterials([first], ['algorithm'], NO_SLACK, DEFAULT_AP_CATALOG_SETTINGS);
+    expect(body).toContainEqual(['Punto de acceso Wi-Fi', 'Algoritmo', 'Planta 1', 1, '-', '-']);
+    expect(body).toContainEqual(['Total APs', 'Algoritmo', 'Planta 1', 1, '-', '-']);
+  });
+});
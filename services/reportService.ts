@@ -0,0 +1,411 @@
+import type { APCoordinate, ApCatalogSettings, ApModel, CableRunSummary, CablingSettings, CapacitySummary, CoverageMetrics, FloorSnapshot, PlacementSource, ZoneCompliance } from '../types';
+import { PLANNING_ZONE_KIND_LABELS } from './planningZoneService';
+import { estimateCableRuns, ETHERNET_MAX_RUN_M } from './cablingService';
+import { getFloorAPsInMeters } from './floorService';
+import { floorApModels, formatPrice, resolveApModels, summarizeApBill } from './apCatalogService';
+
+export type ReportSectionId = 'cover' | 'parameters' | 'placements' | 'coverage' | 'billOfMaterials';
+
+export const REPORT_SECTION_ORDER: ReportSectionId[] = ['cover', 'parameters', 'placements', 'coverage', 'billOfMaterials'];
+
+export const REPORT_SECTION_LABELS: Record<ReportSectionId, string> = {
+  cover: 'Portada e información del sitio',
+  parameters: 'Parámetros de entrada',
+  placements: 'Ubicaciones de APs (tabla e imagen)',
+  coverage: 'Estadísticas de cobertura',
+  billOfMaterials: 'Lista de materiales',
+};
+
+export const REPORT_SOURCE_LABELS: Record<PlacementSource, string> = {
+  algorithm: 'Algoritmo',
+  ai: 'IA',
+  manual: 'Manual',
+};
+
+export interface ReportOptions {
+  sections: Record<ReportSectionId, boolean>;
+  sources: Record<PlacementSource, boolean>; // Placement sources with a section of their own
+}
+
+export const DEFAULT_REPORT_OPTIONS: ReportOptions = {
+  sections: { cover: true, parameters: true, placements: true, coverage: true, billOfMaterials: true },
+  sources: { algorithm: true, ai: true, manual: true },
+};
+
+export interface ReportTable {
+  head: string[];
+  body: (string | number)[][];
+}
+
+export interface ReportImage {
+  dataUrl: string; // PNG
+  width: number;   // Only the aspect ratio matters, the image is fitted to the page
+  height: number;
+}
+
+export interface ReportZoneCompliance extends ZoneCompliance {
+  requirement: string; // What the zone asks for, in words
+}
+
+export interface ReportPlacement {
+  source: PlacementSource;
+  apCount: number;
+  summary: string[];
+  table: ReportTable;
+  image: ReportImage | null;
+  imageCaption: string;
+  coverage: CoverageMetrics | null;
+  capacity: CapacitySummary | null;
+  zoneCompliance: ReportZoneCompliance[] | null;
+  cabling: CableRunSummary | null; // Null without a comms room
+}
+
+export interface ReportContent {
+  projectName: string;
+  generatedAt: Date;
+  site: [string, string][];
+  parameters: [string, string][];
+  placements: ReportPlacement[];
+  billOfMaterials: ReportTable;
+}
+
+interface TocEntry {
+  title: string;
+  level: 1 | 2;
+  page: number;
+}
+
+// The part of jsPDF (loaded from a script tag, with the autoTable plugin) that the report uses. Units are mm.
+export interface JsPdfDoc {
+  text: (text: string | string[], x: number, y: number, options?: { align?: 'left' | 'center' | 'right' }) => void;
+  splitTextToSize: (text: string, maxWidth: number) => string[];
+  setFont: (fontName: string, fontStyle: 'normal' | 'bold') => void;
+  setFontSize: (size: number) => void;
+  setTextColor: (gray: number) => void;
+  addImage: (dataUrl: string, format: 'PNG', x: number, y: number, width: number, height: number) => void;
+  link: (x: number, y: number, width: number, height: number, options: { pageNumber: number }) => void;
+  addPage: () => void;
+  insertPage: (beforePage: number) => void;
+  setPage: (page: number) => void;
+  getNumberOfPages: () => number;
+  autoTable: (options: {
+    head?: (string | number)[][];
+    body: (string | number)[][];
+    startY: number;
+    theme: 'grid' | 'plain';
+    styles: { fontSize: number };
+    headStyles: { fillColor: [number, number, number] };
+    margin: { top: number; right: number; bottom: number; left: number };
+  }) => void;
+  lastAutoTable: { finalY: number };
+  internal: { pageSize: { getWidth: () => number; getHeight: () => number } };
+  save: (fileName: string) => void;
+}
+
+// Where the next element goes. Every writer below moves `y` past what it drew and breaks pages as needed.
+interface ReportWriter {
+  doc: JsPdfDoc;
+  y: number;
+  toc: TocEntry[];
+}
+
+const MARGIN = 14;      // mm, left and right
+const TOP = 20;         // mm
+const BOTTOM = 20;      // mm, the footer sits inside it
+const LINE_HEIGHT = 5;  // mm, at 10 pt
+const TOC_LINE_HEIGHT = 7;
+
+const SOURCE_COLORS: Record<PlacementSource, [number, number, number]> = {
+  algorithm: [22, 160, 133],
+  ai: [67, 56, 202],
+  manual: [34, 197, 94],
+};
+const NEUTRAL_COLOR: [number, number, number] = [75, 85, 99];
+
+const pageHeight = (doc: JsPdfDoc): number => doc.internal.pageSize.getHeight();
+const contentWidth = (doc: JsPdfDoc): number => doc.internal.pageSize.getWidth() - 2 * MARGIN;
+
+const newPage = (writer: ReportWriter) => {
+  writer.doc.addPage();
+  writer.y = TOP;
+};
+
+// Starts a new page when `height` mm no longer fit under the cursor.
+const ensureSpace = (writer: ReportWriter, height: number) => {
+  if (writer.y + height > pageHeight(writer.doc) - BOTTOM && writer.y > TOP) newPage(writer);
+};
+
+// Level 1 headings open a page; level 2 headings keep at least a few lines of content below them.
+const heading = (writer: ReportWriter, title: string, level: 1 | 2) => {
+  const { doc } = writer;
+  if (level === 1 && writer.y > TOP) newPage(writer);
+  if (level === 2) ensureSpace(writer, 30);
+  writer.toc.push({ title, level, page: doc.getNumberOfPages() });
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(level === 1 ? 16 : 12);
+  doc.setTextColor(0);
+  writer.y += level === 1 ? 2 : 0;
+  doc.text(title, MARGIN, writer.y);
+  writer.y += level === 1 ? 10 : 7;
+  doc.setFont('helvetica', 'normal');
+};
+
+const paragraph = (writer: ReportWriter, lines: string[]) => {
+  const { doc } = writer;
+  doc.setFontSize(10);
+  doc.setTextColor(0);
+  for (const line of lines) {
+    for (const wrapped of doc.splitTextToSize(line, contentWidth(doc)) as string[]) {
+      ensureSpace(writer, LINE_HEIGHT);
+      doc.text(wrapped, MARGIN, writer.y);
+      writer.y += LINE_HEIGHT;
+    }
+  }
+  writer.y += 3;
+};
+
+// autoTable breaks long tables across pages by itself; the margins keep them clear of the footer.
+const table = (writer: ReportWriter, content: ReportTable, color: [number, number, number], theme: 'grid' | 'plain' = 'grid') => {
+  const { doc } = writer;
+  ensureSpace(writer, 20);
+  doc.autoTable({
+    head: content.head.length > 0 ? [content.head] : undefined,
+    body: content.body,
+    startY: writer.y,
+    theme,
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: color },
+    margin: { top: TOP, right: MARGIN, bottom: BOTTOM, left: MARGIN },
+  });
+  writer.y = doc.lastAutoTable.finalY + 8;
+};
+
+const keyValueTable = (writer: ReportWriter, rows: [string, string][]) => {
+  table(writer, { head: [], body: rows }, NEUTRAL_COLOR, 'plain');
+};
+
+// Fits the image to the text width, or to a full page when it is taller than that.
+const image = (writer: ReportWriter, content: ReportImage, caption: string) => {
+  const { doc } = writer;
+  const maxHeight = pageHeight(doc) - TOP - BOTTOM - 8;
+  let width = contentWidth(doc);
+  let height = (content.height * width) / content.width;
+  if (height > maxHeight) {
+    height = maxHeight;
+    width = (content.width * height) / content.height;
+  }
+  ensureSpace(writer, height + 8);
+  doc.setFontSize(10);
+  doc.setTextColor(80);
+  doc.text(caption, MARGIN, writer.y);
+  writer.y += 3;
+  doc.addImage(content.dataUrl, 'PNG', MARGIN + (contentWidth(doc) - width) / 2, writer.y, width, height);
+  writer.y += height + 8;
+};
+
+const writeCover = (writer: ReportWriter, content: ReportContent) => {
+  const { doc } = writer;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(24);
+  doc.setTextColor(0);
+  doc.text('Informe de Diseño Wi-Fi', MARGIN, 60);
+  doc.setFontSize(16);
+  doc.text(doc.splitTextToSize(content.projectName, contentWidth(doc)), MARGIN, 75);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(100);
+  doc.text(`Fecha de generación: ${content.generatedAt.toLocaleDateString('es')}`, MARGIN, 90);
+  writer.y = 105;
+  keyValueTable(writer, content.site);
+};
+
+const writePlacement = (writer: ReportWriter, placement: ReportPlacement) => {
+  heading(writer, `Diseño: ${REPORT_SOURCE_LABELS[placement.source]}`, 2);
+  paragraph(writer, placement.summary);
+  table(writer, placement.table, SOURCE_COLORS[placement.source]);
+  if (placement.image) image(writer, placement.image, placement.imageCaption);
+};
+
+const formatArea = (value: number) => `${value.toFixed(1)} m²`;
+
+const writeCoverage = (writer: ReportWriter, placements: ReportPlacement[]) => {
+  const analysed = placements.filter(placement => placement.coverage);
+  if (analysed.length === 0) {
+    paragraph(writer, ['No hay análisis de cobertura para los diseños incluidos.']);
+  } else {
+    table(writer, {
+      head: ['Diseño', 'APs', 'Cobertura', 'Área cubierta', 'Sin cubrir', 'Solape medio', 'Solape máx.', 'Mayor hueco'],
+      body: analysed.map(({ source, apCount, coverage }) => [
+        REPORT_SOURCE_LABELS[source],
+        apCount,
+        `${coverage!.coveragePercent.toFixed(1)} %`,
+        formatArea(coverage!.coveredArea),
+        formatArea(coverage!.uncoveredArea),
+        coverage!.meanOverlapDepth.toFixed(2),
+        coverage!.maxOverlapDepth,
+        coverage!.largestHole ? formatArea(coverage!.largestHole.area) : '-',
+      ]),
+    }, NEUTRAL_COLOR);
+  }
+  for (const placement of placements) {
+    if (!placement.capacity || placement.capacity.zones.length === 0) continue;
+    heading(writer, `Capacidad: ${REPORT_SOURCE_LABELS[placement.source]}`, 2);
+    const { coverageAPs, capacityAPs, extraAPs, binding } = placement.capacity;
+    paragraph(writer, [`APs por cobertura: ${coverageAPs}. APs requeridos por las zonas: ${capacityAPs}. APs añadidos: ${extraAPs}. Determina: ${binding === 'capacity' ? 'capacidad' : 'cobertura'}.`]);
+    table(writer, {
+      head: ['Zona', 'Área', 'Clientes', 'APs requeridos', 'APs dentro', 'Determina'],
+      body: placement.capacity.zones.map(zone => [
+        zone.name,
+        formatArea(zone.area),
+        Math.round(zone.clients),
+        zone.requiredAPs,
+        zone.apsInside,
+        zone.binding === 'capacity' ? 'Capacidad' : 'Cobertura',
+      ]),
+    }, SOURCE_COLORS[placement.source]);
+  }
+  const cabled = placements.filter(placement => placement.cabling && placement.cabling.runs.length > 0);
+  if (cabled.length > 0) {
+    heading(writer, 'Cableado', 2);
+    table(writer, {
+      head: ['Diseño', 'APs', 'Cable total', 'Tramo más largo', `Tramos > ${ETHERNET_MAX_RUN_M} m`],
+      body: cabled.map(({ source, apCount, cabling }) => [
+        REPORT_SOURCE_LABELS[source],
+        apCount,
+        `${cabling!.totalM.toFixed(0)} m`,
+        `${cabling!.longestM.toFixed(1)} m`,
+        cabling!.overLimitCount,
+      ]),
+    }, NEUTRAL_COLOR);
+  }
+  for (const placement of placements) {
+    if (!placement.zoneCompliance || placement.zoneCompliance.length === 0) continue;
+    heading(writer, `Zonas de planificación: ${REPORT_SOURCE_LABELS[placement.source]}`, 2);
+    const failing = placement.zoneCompliance.filter(zone => !zone.compliant).length;
+    paragraph(writer, [failing === 0 ? 'Todas las zonas cumplen.' : `${failing} de ${placement.zoneCompliance.length} zonas no cumplen.`]);
+    table(writer, {
+      head: ['Zona', 'Tipo', 'Requisito', 'APs dentro', 'Cobertura', 'Estado'],
+      body: placement.zoneCompliance.map(zone => [
+        zone.name,
+        PLANNING_ZONE_KIND_LABELS[zone.kind],
+        zone.requirement,
+        zone.apsInside,
+        zone.coveragePercent === null ? '-' : `${zone.coveragePercent.toFixed(1)} %`,
+        zone.compliant ? 'Cumple' : 'No cumple',
+      ]),
+    }, SOURCE_COLORS[placement.source]);
+  }
+};
+
+// Table of contents on pages inserted after the cover (or first), once the page of every heading is known.
+const writeTableOfContents = (writer: ReportWriter, afterPage: number) => {
+  const { doc } = writer;
+  const perPage = Math.floor((pageHeight(doc) - TOP - BOTTOM - 12) / TOC_LINE_HEIGHT);
+  const tocPages = Math.max(1, Math.ceil(writer.toc.length / perPage));
+  for (let i = 0; i < tocPages; i++) doc.insertPage(afterPage + 1 + i);
+  const right = doc.internal.pageSize.getWidth() - MARGIN;
+
+  writer.toc.forEach((entry, index) => {
+    const pageIndex = Math.floor(index / perPage);
+    doc.setPage(afterPage + 1 + pageIndex);
+    let y = TOP + (index % perPage) * TOC_LINE_HEIGHT;
+    if (index % perPage === 0) {
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(16);
+      doc.setTextColor(0);
+      doc.text(pageIndex === 0 ? 'Índice' : 'Índice (cont.)', MARGIN, TOP);
+    }
+    y += 12;
+    const page = entry.page + tocPages;
+    const x = MARGIN + (entry.level === 2 ? 6 : 0);
+    doc.setFont('helvetica', entry.level === 1 ? 'bold' : 'normal');
+    doc.setFontSize(entry.level === 1 ? 11 : 10);
+    doc.text(entry.title, x, y);
+    doc.text(String(page), right, y, { align: 'right' });
+    doc.link(x, y - 4, right - x, TOC_LINE_HEIGHT - 1, { pageNumber: page });
+  });
+  doc.setFont('helvetica', 'normal');
+};
+
+const writePageNumbers = (writer: ReportWriter, projectName: string, skipFirst: boolean) => {
+  const { doc } = writer;
+  const total = doc.getNumberOfPages();
+  doc.setFontSize(8);
+  doc.setTextColor(120);
+  for (let page = skipFirst ? 2 : 1; page <= total; page++) {
+    doc.setPage(page);
+    const footerY = pageHeight(doc) - 10;
+    doc.text(projectName, MARGIN, footerY);
+    doc.text(`Página ${page} de ${total}`, doc.internal.pageSize.getWidth() - MARGIN, footerY, { align: 'right' });
+  }
+};
+
+// Assembles the selected sections into one A4 document. Images must already be rasterized, so this is synchronous.
+export const buildReportPdf = (content: ReportContent, options: ReportOptions): JsPdfDoc => {
+  const doc: JsPdfDoc = new window.jspdf.jsPDF();
+  const writer: ReportWriter = { doc, y: TOP, toc: [] };
+  const { sections } = options;
+  const placements = content.placements.filter(placement => options.sources[placement.source]);
+
+  // jsPDF starts with one blank page: the cover goes there, otherwise the first heading does
+  if (sections.cover) writeCover(writer, content);
+
+  if (sections.parameters) {
+    heading(writer, 'Parámetros de entrada', 1);
+    keyValueTable(writer, content.parameters);
+  }
+  if (sections.placements && placements.length > 0) {
+    heading(writer, 'Ubicaciones de APs', 1);
+    placements.forEach(placement => writePlacement(writer, placement));
+  }
+  if (sections.coverage && placements.length > 0) {
+    heading(writer, 'Estadísticas de cobertura', 1);
+    writeCoverage(writer, placements);
+  }
+  if (sections.billOfMaterials) {
+    heading(writer, 'Lista de materiales', 1);
+    if (content.billOfMaterials.body.length > 0) {
+      table(writer, content.billOfMaterials, NEUTRAL_COLOR);
+    } else {
+      paragraph(writer, ['Ninguna planta tiene APs en los diseños incluidos.']);
+    }
+  }
+
+  if (writer.toc.length > 1) writeTableOfContents(writer, sections.cover ? 1 : 0);
+  writePageNumbers(writer, content.projectName, sections.cover);
+  return doc;
+};
+
+// Per design (the designs of record, then every included placement source): the APs of each floor by model,
+// the cable of floors with a comms room, and the design's totals of APs, cost and PoE budget.
+export const buildBillOfMaterials = (floors: FloorSnapshot[], sources: PlacementSource[], cabling: CablingSettings, catalog: ApCatalogSettings): ReportTable => {
+  const body: (string | number)[][] = [];
+  const cableOf = (floor: FloorSnapshot, aps: APCoordinate[] | null): number =>
+    floor.idfLocation && aps ? Math.round(estimateCableRuns(aps, floor.idfLocation, cabling).totalM) : 0;
+  const pushDesign = (label: string, entries: { floor: FloorSnapshot; models: (ApModel | null)[]; aps: APCoordinate[] | null }[]) => {
+    const used = entries.filter(entry => entry.models.length > 0);
+    if (used.length === 0) return;
+    used.forEach(({ floor, models }) => summarizeApBill(models).lines.forEach(line => body.push([
+      line.model ? line.model.name : 'Punto de acceso Wi-Fi',
+      label,
+      floor.name,
+      line.count,
+      line.model ? formatPrice(line.model.unitPrice) : '-',
+      line.model ? formatPrice(line.subtotal) : '-',
+    ])));
+    const cabled = used.map(({ floor, aps }) => ({ floor, meters: cableOf(floor, aps) })).filter(entry => entry.meters > 0);
+    cabled.forEach(({ floor, meters }) => body.push(['Cable de red (m)', label, floor.name, meters, '-', '-']));
+    const total = summarizeApBill(used.flatMap(entry => entry.models));
+    body.push(['Total APs', label, used.length > 1 ? 'Todas' : used[0].floor.name, total.apCount, '-', total.lines.some(line => line.model) ? formatPrice(total.totalCost) : '-']);
+    if (total.totalPoeW > 0) body.push(['Presupuesto PoE (W)', label, used.length > 1 ? 'Todas' : used[0].floor.name, total.totalPoeW.toFixed(1), '-', '-']);
+    if (cabled.length > 1) body.push(['Total cable (m)', label, 'Todas', cabled.reduce((sum, entry) => sum + entry.meters, 0), '-', '-']);
+  };
+
+  pushDesign('Referencia', floors
+    .filter(floor => floor.designOfRecord)
+    .map(floor => ({ floor, models: resolveApModels(floor.designOfRecord!.aps, catalog), aps: floor.designOfRecord!.aps })));
+  for (const source of sources) {
+    pushDesign(REPORT_SOURCE_LABELS[source], floors.map(floor => ({ floor, models: floorApModels(floor, source, catalog), aps: getFloorAPsInMeters(floor, source) })));
+  }
+  return { head: ['Artículo', 'Diseño', 'Planta', 'Cantidad', 'Precio unitario', 'Importe'], body };
+};
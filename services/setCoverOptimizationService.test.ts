@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSetCoverAPPlacement } from './setCoverOptimizationService';
+import { isInsideOutline } from '../utils/geometry';
+import type { APCoordinate, BuildingOutline } from '../types';
+
+const coversAll = (aps: APCoordinate[], radius: number, points: APCoordinate[]) =>
+  points.every(point => aps.some(ap => Math.hypot(ap.x - point.x, ap.y - point.y) <= radius + 0.01)); // Coordinates are rounded to centimetres
+
+const gridPoints = (length: number, width: number, step: number): APCoordinate[] => {
+  const points: APCoordinate[] = [];
+  for (let y = 0; y <= width + 1e-9; y += step) {
+    for (let x = 0; x <= length + 1e-9; x += step) points.push({ x, y });
+  }
+  return points;
+};
+
+describe('calculateSetCoverAPPlacement', () => {
+  it('rejects non-positive inputs', () => {
+    expect(calculateSetCoverAPPlacement(0, 10, 10).nAP).toBe(0);
+  });
+
+  it('covers every corner and sample of a rectangle', () => {
+    const result = calculateSetCoverAPPlacement(8, 30, 20);
+    expect(result.nAP).toBe(result.coordinates.length);
+    expect(result.nAP).toBeGreaterThan(0);
+    expect(coversAll(result.coordinates, 8, [{ x: 0, y: 0 }, { x: 30, y: 0 }, { x: 0, y: 20 }, { x: 30, y: 20 }])).toBe(true);
+  });
+
+  it('samples a rectangle every R / 2 by default', () => {
+    expect(calculateSetCoverAPPlacement(8, 30, 20)).toEqual(calculateSetCoverAPPlacement(8, 30, 20, undefined, { sampleSpacing: 4 }));
+  });
+
+  it('needs a single AP when one radius reaches the whole building', () => {
+    expect(calculateSetCoverAPPlacement(10, 6, 6).nAP).toBe(1);
+  });
+
+  it('keeps APs inside an L-shaped outline and covers it', () => {
+    const outline: BuildingOutline = {
+      outer: [{ x: 0, y: 0 }, { x: 30, y: 0 }, { x: 30, y: 10 }, { x: 10, y: 10 }, { x: 10, y: 30 }, { x: 0, y: 30 }],
+      holes: [],
+    };
+    const result = calculateSetCoverAPPlacement(7, 30, 30, outline);
+    expect(result.coordinates.every(ap => isInsideOutline(ap, outline))).toBe(true);
+    const inside = gridPoints(30, 30, 2).filter(point => isInsideOutline(point, outline));
+    expect(coversAll(result.coordinates, 7, inside)).toBe(true);
+  });
+});
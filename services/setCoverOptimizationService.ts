@@ -0,0 +1,255 @@
+import type { APCoordinate, OptimizationResult, BuildingOutline, SearchProgress } from '../types';
+import { nchoosek, nchoosekCount, heaviside } from '../utils/mathHelpers';
+import { isInsideOutline, pointInPolygon } from '../utils/geometry';
+import { clipToOutline } from './optimizationService';
+
+export interface SetCoverOptions {
+  sampleSpacing?: number;    // Distance between test points (m). Defaults to R / 2, or R / 4 for a polygonal outline.
+  candidateSpacing?: number; // Distance between candidate AP positions (m). Defaults to R / 2.
+  maxTestPoints?: number;
+  maxCandidates?: number;
+  maxCombinations?: number;  // Above this many k-combinations, switch to greedy + branch-and-bound.
+  maxSearchNodes?: number;   // Node budget for the branch-and-bound search.
+  onProgress?: (progress: SearchProgress<OptimizationResult>) => void; // Called as the search advances; bestScore is the AP count
+  zones?: SetCoverZones;
+}
+
+// Planning zones as the search sees them: where candidates may not go, where no test points are needed, and
+// where test points need an AP closer than R.
+export interface SetCoverZones {
+  forbidden: APCoordinate[][];
+  excluded: APCoordinate[][];
+  priority: { polygon: APCoordinate[]; radius: number }[];
+}
+
+const DEFAULT_OPTIONS: Required<Omit<SetCoverOptions, 'sampleSpacing' | 'candidateSpacing' | 'onProgress' | 'zones'>> = {
+  maxTestPoints: 900,
+  maxCandidates: 400,
+  maxCombinations: 20000,
+  maxSearchNodes: 50000,
+};
+const PROGRESS_INTERVAL_NODES = 2000; // Branch-and-bound nodes between progress reports
+
+// Evenly spaced positions from 0 to `extent` (both ends included), at most `spacing` apart.
+const samplePositions = (extent: number, spacing: number): number[] => {
+  const count = Math.max(2, Math.ceil(extent / spacing) + 1);
+  return Array.from({ length: count }, (_, i) => (i * extent) / (count - 1));
+};
+
+// Cell-centre positions of a grid with cells at most `spacing` wide.
+const centerPositions = (extent: number, spacing: number): number[] => {
+  const count = Math.max(1, Math.ceil(extent / spacing));
+  return Array.from({ length: count }, (_, i) => ((i + 0.5) * extent) / count);
+};
+
+// Grows the spacing until the resulting grid has at most `maxPoints` points.
+const fitSpacing = (length: number, width: number, spacing: number, maxPoints: number, countFn: (l: number, s: number) => number): number => {
+  let s = spacing;
+  while (countFn(length, s) * countFn(width, s) > maxPoints) {
+    s *= 1.1;
+  }
+  return s;
+};
+
+export const calculateSetCoverAPPlacement = (
+  radius: number,
+  buildingLength: number,
+  buildingWidth: number,
+  outline?: BuildingOutline,
+  options: SetCoverOptions = {}
+): OptimizationResult => {
+  const R = radius;
+  const Largo = buildingLength;
+  const Ancho = buildingWidth;
+
+  if (R <= 0 || Largo <= 0 || Ancho <= 0) {
+    return { nAP: 0, coordinates: [], message: "Todos los valores de entrada deben ser positivos." };
+  }
+
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const zones = options.zones;
+  const inAny = (point: APCoordinate, areas: APCoordinate[][] | undefined) => Boolean(areas?.some(area => pointInPolygon(point, area)));
+
+  // 1. Sample the building into test points (boundary included, so corners must be covered too).
+  // For polygonal buildings only the samples inside the outline are kept, on a finer grid so that narrow
+  // wings and the strips beside holes still get test points.
+  const sampleSpacing = fitSpacing(Largo, Ancho, options.sampleSpacing ?? (outline ? R / 4 : R / 2), opts.maxTestPoints,
+    (extent, s) => Math.max(2, Math.ceil(extent / s) + 1));
+  let testPoints: APCoordinate[] = [];
+  for (const y of samplePositions(Ancho, sampleSpacing)) {
+    for (const x of samplePositions(Largo, sampleSpacing)) {
+      if ((!outline || isInsideOutline({ x, y }, outline)) && !inAny({ x, y }, zones?.excluded)) {
+        testPoints.push({ x, y });
+      }
+    }
+  }
+  if (testPoints.length === 0) {
+    return { nAP: 0, coordinates: [], message: "El contorno del edificio no contiene puntos de prueba. Revise los vértices del polígono." };
+  }
+  // Each test point needs an AP within its own reach: R, or less inside a priority zone.
+  let reach = testPoints.map(point => Math.min(R, ...(zones?.priority ?? []).filter(zone => pointInPolygon(point, zone.polygon)).map(zone => zone.radius)));
+
+  // 2. Candidate AP grid. Spacing is capped below R * sqrt(2) so every test point has a covering candidate.
+  const candidateSpacing = Math.min(
+    fitSpacing(Largo, Ancho, options.candidateSpacing ?? R / 2, opts.maxCandidates, (extent, s) => Math.max(1, Math.ceil(extent / s))),
+    R * Math.SQRT2 * 0.95
+  );
+  const gridCandidates: APCoordinate[] = [];
+  for (const y of centerPositions(Ancho, candidateSpacing)) {
+    for (const x of centerPositions(Largo, candidateSpacing)) {
+      gridCandidates.push({ x, y });
+    }
+  }
+  const candidates = (outline ? clipToOutline(gridCandidates, outline, candidateSpacing) : gridCandidates)
+    .filter(c => !inAny(c, zones?.forbidden));
+  if (outline || zones) {
+    // Concave corners, no-mount zones and the shorter reach in priority zones can leave test points out of
+    // reach of every candidate; those points become candidates themselves so a cover exists where allowed.
+    testPoints.forEach((point, i) => {
+      if (!candidates.some(c => Math.hypot(c.x - point.x, c.y - point.y) <= reach[i]) && !inAny(point, zones?.forbidden)) {
+        candidates.push(point);
+      }
+    });
+  }
+  if (zones) {
+    // Deep inside a large no-mount zone nothing may reach; those points are left to the zone compliance report.
+    const reachable = testPoints.map((point, i) => candidates.some(c => Math.hypot(c.x - point.x, c.y - point.y) <= reach[i]));
+    testPoints = testPoints.filter((_, i) => reachable[i]);
+    reach = reach.filter((_, i) => reachable[i]);
+    if (testPoints.length === 0) {
+      return { nAP: 0, coordinates: [], message: "Las zonas sin APs impiden cubrir cualquier punto del edificio." };
+    }
+  }
+
+  // 3. Coverage indicator: H(R - d) is 1 when the test point lies within the AP radius.
+  const coverage: Uint8Array[] = candidates.map(c => {
+    const row = new Uint8Array(testPoints.length);
+    testPoints.forEach((p, i) => {
+      row[i] = heaviside(reach[i] - Math.hypot(c.x - p.x, c.y - p.y) + 1e-9);
+    });
+    return row;
+  });
+  const coveredCounts = coverage.map(row => row.reduce((sum, v) => sum + v, 0));
+  const maxCoverPerCandidate = Math.max(...coveredCounts);
+  const pointCoverers: number[][] = testPoints.map((_, i) =>
+    candidates.map((_, c) => c).filter(c => coverage[c][i] === 1)
+  );
+
+  if (pointCoverers.some(list => list.length === 0)) {
+    return { nAP: 0, coordinates: [], message: "No fue posible generar candidatos que cubran todos los puntos de prueba." };
+  }
+
+  const coversAll = (combo: number[]): boolean =>
+    testPoints.every((_, i) => heaviside(combo.reduce((sum, c) => sum + coverage[c][i], 0) - 1) === 1);
+
+  const toResult = (indices: number[], message?: string): OptimizationResult => {
+    const coordinates = indices.map(c => ({
+      x: parseFloat(candidates[c].x.toFixed(2)),
+      y: parseFloat(candidates[c].y.toFixed(2)),
+    }));
+    return { nAP: coordinates.length, coordinates, message };
+  };
+
+  // 4. Exhaustive search for the smallest k while the number of combinations stays manageable.
+  const report = (iterations: number, bestIndices: number[] | null) => options.onProgress?.({
+    iterations,
+    totalIterations: null,
+    bestScore: bestIndices ? bestIndices.length : null,
+    best: bestIndices ? toResult(bestIndices) : null,
+  });
+  let examined = 0;
+  const candidateIndices = candidates.map((_, c) => c);
+  const lowerBound = Math.max(1, Math.ceil(testPoints.length / maxCoverPerCandidate));
+  for (let k = 1; k <= candidates.length; k++) {
+    if (k < lowerBound) {
+      continue; // No k-combination can reach every test point.
+    }
+    if (nchoosekCount(candidates.length, k) > opts.maxCombinations) {
+      break;
+    }
+    const solution = nchoosek(candidateIndices, k).find(coversAll);
+    examined += nchoosekCount(candidates.length, k);
+    if (solution) {
+      return toResult(solution);
+    }
+    report(examined, null);
+  }
+
+  // 5. Fallback: greedy upper bound refined by branch-and-bound.
+  const greedy: number[] = [];
+  const greedyCovered = new Uint8Array(testPoints.length);
+  let remaining = testPoints.length;
+  while (remaining > 0) {
+    let bestCandidate = -1;
+    let bestGain = 0;
+    coverage.forEach((row, c) => {
+      let gain = 0;
+      for (let i = 0; i < row.length; i++) {
+        if (row[i] === 1 && greedyCovered[i] === 0) gain++;
+      }
+      if (gain > bestGain) {
+        bestGain = gain;
+        bestCandidate = c;
+      }
+    });
+    greedy.push(bestCandidate);
+    coverage[bestCandidate].forEach((v, i) => {
+      if (v === 1 && greedyCovered[i] === 0) {
+        greedyCovered[i] = 1;
+        remaining--;
+      }
+    });
+  }
+
+  let best = greedy;
+  let nodes = 0;
+  report(examined, best);
+  let aborted = false;
+  const coverCount = new Uint16Array(testPoints.length);
+  const chosen: number[] = [];
+
+  const search = (uncovered: number): void => {
+    if (aborted) return;
+    if (++nodes > opts.maxSearchNodes) {
+      aborted = true;
+      return;
+    }
+    if (nodes % PROGRESS_INTERVAL_NODES === 0) report(examined + nodes, best);
+    if (uncovered === 0) {
+      if (chosen.length < best.length) {
+        best = [...chosen];
+        report(examined + nodes, best);
+      }
+      return;
+    }
+    if (chosen.length + Math.ceil(uncovered / maxCoverPerCandidate) >= best.length) {
+      return;
+    }
+    // Branch on the uncovered point with the fewest covering candidates.
+    let pivot = -1;
+    for (let i = 0; i < testPoints.length; i++) {
+      if (coverCount[i] === 0 && (pivot === -1 || pointCoverers[i].length < pointCoverers[pivot].length)) {
+        pivot = i;
+      }
+    }
+    for (const c of pointCoverers[pivot]) {
+      let newlyCovered = 0;
+      coverage[c].forEach((v, i) => {
+        if (v === 1 && coverCount[i]++ === 0) newlyCovered++;
+      });
+      chosen.push(c);
+      search(uncovered - newlyCovered);
+      chosen.pop();
+      coverage[c].forEach((v, i) => {
+        if (v === 1) coverCount[i]--;
+      });
+      if (aborted) return;
+    }
+  };
+  search(testPoints.length);
+
+  const message = aborted
+    ? `El número de combinaciones era demasiado grande para la búsqueda exhaustiva. Se usó una búsqueda voraz con ramificación y acotamiento (límite de ${opts.maxSearchNodes} nodos alcanzado); la solución cubre todos los puntos de prueba pero podría no ser mínima.`
+    : undefined;
+  return toResult(best, message);
+};
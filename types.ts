@@ -2,16 +2,481 @@
 export interface APCoordinate {
   x: number;
   y: number;
+  modelId?: string; // On an AP, its catalog model when it differs from the project model; moves with the AP
+}
+
+export interface LatticeComparison {
+  squareAPs: number;
+  hexAPs: number;
 }
 
 export interface OptimizationResult {
   nAP: number;
   coordinates: APCoordinate[];
   message?: string;
+  latticeComparison?: LatticeComparison; // AP counts of complete square and hex tilings (grid mode only)
+  capacity?: CapacitySummary;            // Present when capacity zones were taken into account
+  aiDiagnostics?: AiResponseDiagnostics; // How an AI response was parsed, retried and validated (AI results only)
+  aiRefinement?: AiRefinementHistory;    // Every round of an iterative AI run (AI results only)
+  unmountedAPs?: number;                 // APs left out because no free mount point was near enough
+}
+
+export interface BuildingOutline {
+  outer: APCoordinate[];     // Polygon vertices in building meters
+  holes: APCoordinate[][];   // Atriums, courtyards or other areas that are not part of the floor
 }
 
 export interface BuildingDimensions {
   length: number;
   width: number;
+  outline?: BuildingOutline; // When set, only the area inside the polygon (minus holes) belongs to the building
+}
+    
+export type AlgorithmMode = 'grid' | 'setCover';
+
+export type GridLattice = 'square' | 'hex';
+
+export interface CoverageHole {
+  area: number;          // m²
+  centroid: APCoordinate; // m
+  cellCount: number;
+  bounds: { minX: number; minY: number; maxX: number; maxY: number }; // m
+}
+
+export interface CoverageMetrics {
+  cellWidth: number;  // m
+  cellHeight: number; // m
+  totalArea: number;      // m²
+  coveredArea: number;    // m²
+  uncoveredArea: number;  // m²
+  coveragePercent: number;
+  meanOverlapDepth: number; // Average number of APs reaching a covered cell
+  maxOverlapDepth: number;
+  largestHole: CoverageHole | null;
+  holes: CoverageHole[]; // Every hole, largest first
+  uncoveredCells: APCoordinate[]; // Top-left corner of each uncovered cell, in meters
+}
+
+export type FrequencyBand = '2.4' | '5' | '6';
+
+// Raw propagation form values, kept as strings like the rest of the configuration form.
+export interface PropagationFormState {
+  enabled: boolean;
+  showHeatmap: boolean;
+  txPowerDbm: string;
+  band: FrequencyBand;
+  pathLossExponent: string;
+  referenceLossDb: string;
+  thresholdDbm: string;
+}
+
+export interface PropagationSettings {
+  enabled: boolean;          // When true, the coverage radius is the model's threshold distance
+  txPowerDbm: number;        // EIRP of each AP
+  band: FrequencyBand;
+  pathLossExponent: number;  // n in PL(d) = PL(d0) + 10 n log10(d / d0)
+  referenceLossDb: number;   // PL(d0) at d0 = 1 m
+  thresholdDbm: number;      // Minimum RSSI considered as covered (e.g. -67 dBm for voice)
+}
+
+export interface SignalHeatmap {
+  cols: number;
+  rows: number;
+  cellWidth: number;  // m
+  cellHeight: number; // m
+  values: Float32Array; // Best RSSI (dBm) per cell, row-major
+}
+
+export type WallMaterial = 'drywall' | 'brick' | 'concrete' | 'glass' | 'metal';
+
+export type ObstacleKind = 'wall' | 'door' | 'window';
+
+export interface Wall {
+  id: string;
+  kind: ObstacleKind;
+  material: WallMaterial;
+  lossDb: number;          // Attenuation applied each time a signal path crosses one of its segments
+  points: APCoordinate[];  // Polyline vertices in building meters
+}
+
+export type OutlineShape = 'rectangle' | 'polygon';
+
+// Raw outline form values: the outer ring as "x,y; x,y; ..." and one hole per line in the same format.
+export interface OutlineFormState {
+  shape: OutlineShape;
+  outer: string;
+  holes: string;
+}
+
+// An AP on another floor, seen from the floor being analyzed.
+export interface RemoteAPSource {
+  position: APCoordinate;  // Plan position in meters (floors share the same origin)
+  verticalOffsetM: number; // Height difference between the two floors
+  extraLossDb: number;     // Slab attenuation accumulated between the two floors
+}
+
+// Everything that belongs to a single floor. Inputs are kept as the raw strings of the form.
+export interface FloorSnapshot {
+  id: string;
+  name: string;
+  floorHeightM: number;       // Floor-to-floor height up to the next floor
+  slabAttenuationDb: number;  // Loss through the slab between this floor and the next one up
+  buildingLength: string;
+  buildingWidth: string;
+  outlineForm: OutlineFormState;
+  planImageDataUrl: string | null;
+  planNaturalDimensions: { width: number; height: number } | null;
+  planCalibration: PlanCalibration | null; // Null until the plan is calibrated
+  manualAPs: APCoordinate[]; // Original image pixels
+  walls: Wall[];
+  capacityZones: CapacityZone[];
+  results: OptimizationResult | null;
+  aiResults: OptimizationResult | null;
+  designOfRecord: DesignOfRecord | null; // The variant chosen for deployment, if any
+  planningZones: PlanningZone[];
+  mountingForm: MountingFormState;
+  idfLocation: APCoordinate | null; // Comms room the AP cables run to, in building meters
+}
+
+// Which set of APs of a floor is being looked at. Bleed-through is only combined between sets of the same kind.
+export type PlacementSource = 'algorithm' | 'ai' | 'manual';
+
+// A placement frozen when it was promoted, so re-running the optimizers does not change what was chosen.
+export interface DesignOfRecord {
+  source: PlacementSource;
+  aps: APCoordinate[]; // Building meters
+  promotedAt: string;  // ISO timestamp
+}
+
+// One set of APs drawn in its own colour, for overlaying several placements on one drawing.
+export interface ApLayer {
+  id: string;
+  aps: APCoordinate[]; // Building meters
+  color: string;
+  labelPrefix: string; // AP labels read `${labelPrefix}${n}`
+}
+
+export type ChannelWidth = 20 | 40 | 80 | 160;
+
+export interface ChannelPlanSettings {
+  enabled: boolean;
+  band: FrequencyBand;
+  channelWidthMhz: ChannelWidth; // 2.4 GHz is always planned at 20 MHz
+  allowDfs: boolean;             // Only relevant at 5 GHz
+}
+
+// Result of a channel plan: one entry per AP, in the same order as the AP list.
+export interface ChannelAssignment {
+  channels: number[];
+  coChannelNeighbours: number[]; // Interfering neighbours that ended up on the same channel
+  channelPool: number[];         // Channels that were available to the plan
+}
+
+export type OccupancyMode = 'headcount' | 'density';
+
+// Areas that constrain the design: no AP may be mounted in a no-mount zone, a no-coverage zone does not need
+// signal (and does not count as a hole), and a priority zone must reach its own signal target.
+export type PlanningZoneKind = 'noMount' | 'noCoverage' | 'priority';
+
+export interface PlanningZone {
+  id: string;
+  name: string;
+  kind: PlanningZoneKind;
+  polygon: APCoordinate[];       // Vertices in building meters; rectangles are stored as their four corners
+  targetDbm: number;             // Priority zones: signal a point needs to count as covered
+  targetCoveragePercent: number; // Priority zones: share of the zone that must reach targetDbm
+}
+
+export interface ZoneCompliance {
+  zoneId: string;
+  name: string;
+  kind: PlanningZoneKind;
+  apsInside: number;
+  coveragePercent: number | null; // Priority zones only
+  compliant: boolean;
+}
+
+// A high-density area (auditorium, open office, ...) whose clients must be served by the APs inside it.
+export interface CapacityZone {
+  id: string;
+  name: string;
+  polygon: APCoordinate[]; // Vertices in building meters
+  occupancyMode: OccupancyMode;
+  occupancy: number;       // People, or people per m² in density mode
+}
+
+// Raw capacity form values, kept as strings like the rest of the configuration form.
+export interface CapacityFormState {
+  enabled: boolean;
+  devicesPerPerson: string;
+  perClientMbps: string;
+  maxClientsPerAP: string;
+  apThroughputMbps: string;
+}
+
+export interface CapacitySettings {
+  devicesPerPerson: number;
+  perClientMbps: number;    // Throughput each client should get
+  maxClientsPerAP: number;
+  apThroughputMbps: number; // Usable aggregate throughput of one AP
+}
+
+export interface CapacityZoneDemand {
+  zoneId: string;
+  name: string;
+  area: number;
+  clients: number;
+  requiredAPs: number;       // APs the zone needs for its clients
+  apsInside: number;         // APs of the layout that fall inside the zone
+  binding: 'coverage' | 'capacity';
+}
+
+export interface CapacitySummary {
+  zones: CapacityZoneDemand[];
+  coverageAPs: number; // APs needed for coverage alone
+  capacityAPs: number; // APs all zones need for their clients
+  extraAPs: number;    // APs added inside zones on top of the coverage layout
+  binding: 'coverage' | 'capacity';
+}
+
+// Where an AP can physically go: anywhere, on the nodes of a ceiling grid, or only at listed points (existing drops).
+export type MountingMode = 'free' | 'grid' | 'points';
+
+// Raw mounting form values; mount points are "x,y; x,y; ..." in building meters.
+export interface MountingFormState {
+  mode: MountingMode;
+  gridSpacing: string;
+  gridOffsetX: string;
+  gridOffsetY: string;
+  points: string;
+}
+
+export interface MountingSettings {
+  mode: MountingMode;
+  gridSpacingM: number;
+  gridOffset: APCoordinate; // A grid node; the others are whole multiples of the spacing away
+  points: APCoordinate[];
+}
+
+export interface CablingFormState {
+  slackPercent: string;
+  serviceLoopM: string;
+}
+
+export interface CablingSettings {
+  slackPercent: number; // Added to the Manhattan distance for detours around the route
+  serviceLoopM: number; // Fixed length per run: drops at both ends and the service loop
+}
+
+// One AP's cable to the comms room, in the same order as the AP list.
+export interface CableRun {
+  routeM: number;   // Manhattan distance from the comms room
+  lengthM: number;  // With slack and service loop
+  overLimit: boolean;
+}
+
+export interface CableRunSummary {
+  runs: CableRun[];
+  totalM: number;
+  longestM: number;
+  overLimitCount: number;
+}
+
+export type ApEnvironment = 'indoor' | 'outdoor';
+
+// An access point model of the hardware catalog.
+export interface ApModel {
+  id: string;
+  name: string;
+  bands: FrequencyBand[];
+  maxTxPowerDbm: Partial<Record<FrequencyBand, number>>; // Conducted power per supported band
+  antennaGainDbi: number;
+  environment: ApEnvironment;
+  poeClass: number;  // IEEE 802.3af/at/bt class, 0-8
+  unitPrice: number;
+}
+
+// The project's AP catalog and the model deployed by default.
+export interface ApCatalogSettings {
+  models: ApModel[];
+  defaultModelId: string | null; // Null keeps the propagation form as entered
+}
+
+// One model line of a bill of materials.
+export interface ApBillLine {
+  model: ApModel | null; // Null for APs without a model
+  count: number;
+  subtotal: number;
+  poeW: number;
+}
+
+export interface ApBill {
+  lines: ApBillLine[];
+  apCount: number;
+  totalCost: number;
+  totalPoeW: number; // PoE budget the switches must supply
+}
+
+// Maps uploaded-plan pixels to building meters. Building X runs along `rotationDeg` (clockwise in the image,
+// since image Y points down) from `originPx`, and Y is perpendicular to it.
+export interface PlanCalibration {
+  pixelsPerMeter: number;
+  originPx: APCoordinate;
+  rotationDeg: number;
+  calibrated: boolean; // False for the fallback that assumes the image width spans the building length
+}
+
+// Places the building on the globe: the latitude/longitude of the (0,0) corner and the compass bearing of
+// the building's X axis (degrees clockwise from north).
+export interface GeoAnchor {
+  latitude: number;
+  longitude: number;
+  bearingDeg: number;
+}
+
+export interface GeoAnchorFormState {
+  latitude: string;
+  longitude: string;
+  bearingDeg: string;
+}
+
+// Building-wide configuration saved with a project (per-floor data lives in FloorSnapshot).
+export interface ProjectSettings {
+  coverageArea: string;
+  algorithmMode: AlgorithmMode;
+  gridLattice: GridLattice;
+  analysisResolution: string;
+  propagation: PropagationFormState;
+  channelPlan: ChannelPlanSettings;
+  capacity: CapacityFormState;
+  geoAnchor: GeoAnchorFormState;
+  cabling: CablingFormState;
+  apCatalog: ApCatalogSettings;
+}
+
+// A saved design. Plan images are embedded as data URLs; each floor keeps its algorithm, AI and manual
+// placements apart, so every AP keeps its source.
+export interface ProjectFile {
+  format: 'ap-oua-project';
+  version: number;
+  savedAt: string; // ISO date
+  settings: ProjectSettings;
+  floors: FloorSnapshot[];
+  activeFloorId: string;
+}
+
+// Index entry for a project autosaved in the browser.
+export interface RecentProjectSummary {
+  id: string;
+  name: string;
+  savedAt: string; // ISO date
+  floorCount: number;
+}
+
+export type AiProviderKind = 'gemini' | 'openai' | 'mock';
+
+// Which backend answers "Optimizar con IA". Not saved with projects, since it may hold an API key.
+export interface AiProviderSettings {
+  kind: AiProviderKind;
+  model: string;
+  baseUrl: string; // OpenAI-compatible servers only, e.g. http://localhost:11434/v1
+  apiKey: string;  // Empty falls back to the key the app was built with (Gemini) or no auth header
+}
+
+// What happens to a suggested AP that falls outside the building.
+export type OutOfBoundsMode = 'reject' | 'snap';
+
+export interface AiResponseOptions {
+  outOfBounds: OutOfBoundsMode;
+  snapToleranceM: number; // Points further out than this are rejected even when snapping
+  maxAttempts: number;    // Requests sent in total, the first one included
+}
+
+export interface AiPointDiagnostic {
+  index: number;    // Position in the AI's list
+  status: 'accepted' | 'snapped' | 'rejected';
+  reason?: string;  // Why it was snapped or rejected
+  original?: APCoordinate;
+  adjusted?: APCoordinate; // Where a snapped point ended up
+}
+
+export interface AiAttemptDiagnostic {
+  attempt: number;       // 1-based
+  error: string | null;  // Why the answer was not usable; null for the accepted one
+}
+
+export interface AiResponseDiagnostics {
+  provider: string;
+  attempts: AiAttemptDiagnostic[];
+  points: AiPointDiagnostic[]; // For the answer that was used
+  options: AiResponseOptions;
+}
+
+export interface AiRefinementSettings {
+  enabled: boolean;
+  targetCoveragePercent: number;
+  maxRounds: number;          // The first suggestion included
+  sendCoverageImage: boolean; // Attach a drawing of each round's coverage to the feedback
+}
+
+// APs closer together than the coverage radius, linked transitively.
+export interface DenseCluster {
+  apIndices: number[]; // 0-based, into the round's coordinates
+  centroid: APCoordinate;
+  minSpacing: number;  // m
+}
+
+export interface AiRefinementRound {
+  round: number; // 1-based
+  coordinates: APCoordinate[];
+  coveragePercent: number;
+  uncoveredArea: number; // m²
+  meanOverlapDepth: number;
+  holes: CoverageHole[]; // The largest ones, as reported to the model
+  clusters: DenseCluster[];
+  diagnostics?: AiResponseDiagnostics;
+  feedback: string | null; // What was sent back after this round; null when the run stopped here
+}
+
+export interface AiRefinementHistory {
+  rounds: AiRefinementRound[];
+  targetCoveragePercent: number;
+  selectedRound: number; // The round whose layout is the result
+  stopReason: 'target' | 'maxRounds' | 'failed';
+}
+
+// Score = coverage % × coverageWeight − apPenalty × APs − overlapPenalty × (mean overlap depth − 1).
+export interface RefinementObjective {
+  coverageWeight: number;
+  apPenalty: number;      // Coverage points an extra AP must buy to be worth it
+  overlapPenalty: number; // Per AP of mean overlap beyond the first
+}
+
+export interface RefinementSettings {
+  objective: RefinementObjective;
+  iterations: number;
+  allowAddRemove: boolean; // Otherwise APs are only moved
+  seed: number;            // Same seed, same run
+}
+
+export interface RefinementScore {
+  score: number;
+  apCount: number;
+  coveragePercent: number;
+  meanOverlapDepth: number;
+}
+
+export interface RefinementOutcome {
+  aps: APCoordinate[];
+  before: RefinementScore;
+  after: RefinementScore;
+  iterations: number;
+}
+
+// How far a long-running search has got. `best` is the best complete answer so far, when there is one.
+export interface SearchProgress<T> {
+  iterations: number;
+  totalIterations: number | null; // Null when the search cannot tell in advance
+  bestScore: number | null;
+  best: T | null;
 }
-    
\ No newline at end of file
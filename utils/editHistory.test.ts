@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_HISTORY, MAX_HISTORY_ENTRIES, MERGE_WINDOW_MS, pushCommand, stepBack, stepForward } from './editHistory';
+import type { EditCommand } from './editHistory';
+
+const command = (label: string, timestamp: number, mergeKey?: string): EditCommand => ({ label, mergeKey, timestamp, undo: () => {}, redo: () => {} });
+
+describe('editHistory', () => {
+  it('merges a burst of edits with the same key, keeping the oldest undo', () => {
+    const first = command('a', 0, 'field');
+    const second = command('b', MERGE_WINDOW_MS, 'field');
+    const history = pushCommand(pushCommand(EMPTY_HISTORY, first), second);
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0].undo).toBe(first.undo);
+    expect(history.past[0].redo).toBe(second.redo);
+  });
+
+  it('does not merge across the window, different keys or keyless commands', () => {
+    let history = pushCommand(EMPTY_HISTORY, command('a', 0, 'field'));
+    history = pushCommand(history, command('b', MERGE_WINDOW_MS + 1, 'field'));
+    history = pushCommand(history, command('c', MERGE_WINDOW_MS + 2, 'other'));
+    history = pushCommand(history, command('d', MERGE_WINDOW_MS + 3));
+    history = pushCommand(history, command('e', MERGE_WINDOW_MS + 4));
+    expect(history.past.map(c => c.label)).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('does not merge into an entry that was undone and redone', () => {
+    let history = pushCommand(EMPTY_HISTORY, command('a', 0, 'field'));
+    history = pushCommand(stepBack(history), command('b', 1, 'field'));
+    expect(history.past.map(c => c.label)).toEqual(['b']);
+    expect(history.future).toEqual([]);
+  });
+
+  it('moves commands between the stacks and drops the redo branch on a new edit', () => {
+    let history = pushCommand(pushCommand(EMPTY_HISTORY, command('a', 0)), command('b', 1));
+    history = stepBack(history);
+    expect(history.future.map(c => c.label)).toEqual(['b']);
+    expect(stepForward(history).past.map(c => c.label)).toEqual(['a', 'b']);
+    expect(pushCommand(history, command('c', 2)).future).toEqual([]);
+  });
+
+  it('keeps at most MAX_HISTORY_ENTRIES commands', () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) history = pushCommand(history, command(String(i), i));
+    expect(history.past).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.past[0].label).toBe('5');
+  });
+});
@@ -0,0 +1,42 @@
+// Undo/redo history of reversible edit commands. Commands carry their own undo/redo actions; the functions
+// here only move them between the two stacks and never run them.
+
+export interface EditCommand {
+  label: string;     // Shown on the undo/redo buttons
+  mergeKey?: string; // Consecutive commands with the same key (typing in one field) collapse into one entry
+  timestamp: number;
+  undo: () => void;
+  redo: () => void;
+}
+
+export interface EditHistory {
+  past: EditCommand[];
+  future: EditCommand[];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+export const MAX_HISTORY_ENTRIES = 100;
+export const MERGE_WINDOW_MS = 1500;
+
+// Records a command that has just been applied. Any redo branch is dropped.
+export const pushCommand = (history: EditHistory, command: EditCommand): EditHistory => {
+  const last = history.past[history.past.length - 1];
+  if (last && history.future.length === 0 && command.mergeKey && last.mergeKey === command.mergeKey && command.timestamp - last.timestamp <= MERGE_WINDOW_MS) {
+    // Keep the oldest undo and the newest redo, so the merged entry spans the whole burst of edits.
+    const merged: EditCommand = { ...command, undo: last.undo };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+  return { past: [...history.past, command].slice(-MAX_HISTORY_ENTRIES), future: [] };
+};
+
+export const stepBack = (history: EditHistory): EditHistory => {
+  if (history.past.length === 0) return history;
+  const command = history.past[history.past.length - 1];
+  return { past: history.past.slice(0, -1), future: [command, ...history.future] };
+};
+
+export const stepForward = (history: EditHistory): EditHistory => {
+  if (history.future.length === 0) return history;
+  const [command, ...future] = history.future;
+  return { past: [...history.past, command], future };
+};
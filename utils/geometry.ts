@@ -0,0 +1,148 @@
+import type { APCoordinate, BuildingDimensions, BuildingOutline } from '../types';
+
+// Signed area of the triangle (a, b, c); positive when counter-clockwise.
+const orientation = (a: APCoordinate, b: APCoordinate, c: APCoordinate): number =>
+  (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+
+const onSegment = (a: APCoordinate, b: APCoordinate, p: APCoordinate): boolean =>
+  Math.min(a.x, b.x) - 1e-9 <= p.x && p.x <= Math.max(a.x, b.x) + 1e-9 &&
+  Math.min(a.y, b.y) - 1e-9 <= p.y && p.y <= Math.max(a.y, b.y) + 1e-9;
+
+// True when segment p1-p2 touches or crosses segment q1-q2.
+export const segmentsIntersect = (p1: APCoordinate, p2: APCoordinate, q1: APCoordinate, q2: APCoordinate): boolean => {
+  const d1 = orientation(q1, q2, p1);
+  const d2 = orientation(q1, q2, p2);
+  const d3 = orientation(p1, p2, q1);
+  const d4 = orientation(p1, p2, q2);
+
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+    return true;
+  }
+  return (
+    (Math.abs(d1) < 1e-12 && onSegment(q1, q2, p1)) ||
+    (Math.abs(d2) < 1e-12 && onSegment(q1, q2, p2)) ||
+    (Math.abs(d3) < 1e-12 && onSegment(p1, p2, q1)) ||
+    (Math.abs(d4) < 1e-12 && onSegment(p1, p2, q2))
+  );
+};
+
+// Ray-casting point-in-polygon test. The polygon is implicitly closed.
+export const pointInPolygon = (point: APCoordinate, polygon: APCoordinate[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isInsideOutline = (point: APCoordinate, outline: BuildingOutline): boolean =>
+  pointInPolygon(point, outline.outer) && !outline.holes.some(hole => pointInPolygon(point, hole));
+
+// True when the point belongs to the building: inside its outline, or inside the length x width rectangle.
+export const isInsideBuilding = (point: APCoordinate, building: BuildingDimensions): boolean =>
+  building.outline
+    ? isInsideOutline(point, building.outline)
+    : point.x >= 0 && point.x <= building.length && point.y >= 0 && point.y <= building.width;
+
+// Shoelace formula; always positive.
+export const polygonArea = (polygon: APCoordinate[]): number => {
+  let sum = 0;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    sum += (polygon[j].x + polygon[i].x) * (polygon[j].y - polygon[i].y);
+  }
+  return Math.abs(sum) / 2;
+};
+
+// Smallest distance between any two points; null with fewer than two. Pairwise, which is fine for AP counts.
+export const minimumSpacing = (points: APCoordinate[]): number | null => {
+  let min = Infinity;
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      min = Math.min(min, Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y));
+    }
+  }
+  return Number.isFinite(min) ? min : null;
+};
+
+export const outlineArea = (outline: BuildingOutline): number =>
+  polygonArea(outline.outer) - outline.holes.reduce((sum, hole) => sum + polygonArea(hole), 0);
+
+export const rectangleOutline = (length: number, width: number): BuildingOutline => ({
+  outer: [{ x: 0, y: 0 }, { x: length, y: 0 }, { x: length, y: width }, { x: 0, y: width }],
+  holes: [],
+});
+
+export const outlineBounds = (outline: BuildingOutline): { minX: number; minY: number; maxX: number; maxY: number } => ({
+  minX: Math.min(...outline.outer.map(p => p.x)),
+  minY: Math.min(...outline.outer.map(p => p.y)),
+  maxX: Math.max(...outline.outer.map(p => p.x)),
+  maxY: Math.max(...outline.outer.map(p => p.y)),
+});
+
+export const closestPointOnSegment = (point: APCoordinate, a: APCoordinate, b: APCoordinate): APCoordinate => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return { ...a };
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return { x: a.x + t * dx, y: a.y + t * dy };
+};
+
+// Nearest point on any ring (outer boundary or hole) of the outline.
+export const closestPointOnOutline = (point: APCoordinate, outline: BuildingOutline): APCoordinate => {
+  let best = outline.outer[0];
+  let bestDistance = Infinity;
+  for (const ring of [outline.outer, ...outline.holes]) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const candidate = closestPointOnSegment(point, ring[j], ring[i]);
+      const distance = Math.hypot(candidate.x - point.x, candidate.y - point.y);
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+  }
+  return best;
+};
+
+// Moves a point that lies outside the outline (or inside a hole) just across the nearest boundary.
+export const snapInsideOutline = (point: APCoordinate, outline: BuildingOutline, inset: number = 0.01): APCoordinate => {
+  if (isInsideOutline(point, outline)) return point;
+  const boundary = closestPointOnOutline(point, outline);
+  const distance = Math.hypot(boundary.x - point.x, boundary.y - point.y);
+  if (distance === 0) return boundary;
+  return {
+    x: boundary.x + ((boundary.x - point.x) / distance) * inset,
+    y: boundary.y + ((boundary.y - point.y) / distance) * inset,
+  };
+};
+
+// Parses "x,y; x,y; ..." into vertices. Returns null when any pair is malformed.
+export const parseVertexList = (text: string): APCoordinate[] | null => {
+  const pairs = text.split(';').map(pair => pair.trim()).filter(pair => pair.length > 0);
+  const vertices: APCoordinate[] = [];
+  for (const pair of pairs) {
+    const [xText, yText, ...rest] = pair.split(',').map(v => v.trim());
+    const x = parseFloat(xText);
+    const y = parseFloat(yText);
+    if (rest.length > 0 || isNaN(x) || isNaN(y)) return null;
+    vertices.push({ x, y });
+  }
+  return vertices;
+};
+
+export const formatVertexList = (vertices: APCoordinate[]): string =>
+  vertices.map(p => `${parseFloat(p.x.toFixed(2))},${parseFloat(p.y.toFixed(2))}`).join('; ');
+
+// SVG path for the outline with one closed sub-path per ring; render with fillRule="evenodd" so holes stay empty.
+export const outlineToSvgPath = (outline: BuildingOutline, toSvg: (p: APCoordinate) => APCoordinate): string =>
+  [outline.outer, ...outline.holes]
+    .map(ring => ring.map((p, i) => {
+      const q = toSvg(p);
+      return `${i === 0 ? 'M' : 'L'}${q.x},${q.y}`;
+    }).join(' ') + ' Z')
+    .join(' ');
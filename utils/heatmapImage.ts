@@ -0,0 +1,55 @@
+import type { SignalHeatmap } from '../types';
+
+export interface SignalColorBand {
+  minDbm: number; // Lower bound (inclusive) of the band
+  rgb: [number, number, number];
+  label: string;
+}
+
+const HEATMAP_ALPHA = 150; // 0-255
+
+// Discrete colour bands relative to the coverage threshold: greens/yellow above it, orange/red below it.
+export const getSignalColorBands = (thresholdDbm: number): SignalColorBand[] => {
+  const stops: { minDbm: number; rgb: [number, number, number] }[] = [];
+  if (thresholdDbm < -50) stops.push({ minDbm: -50, rgb: [21, 128, 61] });
+  if (thresholdDbm < -60) stops.push({ minDbm: -60, rgb: [34, 197, 94] });
+  stops.push({ minDbm: thresholdDbm, rgb: [250, 204, 21] });
+  stops.push({ minDbm: thresholdDbm - 10, rgb: [249, 115, 22] });
+  stops.push({ minDbm: -Infinity, rgb: [220, 38, 38] });
+
+  return stops.map((stop, i) => {
+    const upper = i > 0 ? stops[i - 1].minDbm : null;
+    let label: string;
+    if (upper === null) label = `≥ ${stop.minDbm} dBm`;
+    else if (stop.minDbm === -Infinity) label = `< ${upper} dBm`;
+    else label = `${stop.minDbm} a ${upper} dBm`;
+    if (stop.minDbm === thresholdDbm) label += ' (umbral)';
+    return { ...stop, label };
+  });
+};
+
+export const signalColor = (valueDbm: number, bands: SignalColorBand[]): [number, number, number] =>
+  (bands.find(band => valueDbm >= band.minDbm) ?? bands[bands.length - 1]).rgb;
+
+// Paints one pixel per heatmap cell and returns it as a PNG data URL, to be stretched over the building.
+// NaN cells (outside the building outline) stay transparent.
+export const renderHeatmapDataUrl = (heatmap: SignalHeatmap, thresholdDbm: number): string | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = heatmap.cols;
+  canvas.height = heatmap.rows;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const bands = getSignalColorBands(thresholdDbm);
+  const image = ctx.createImageData(heatmap.cols, heatmap.rows);
+  heatmap.values.forEach((value, i) => {
+    if (isNaN(value)) return;
+    const [r, g, b] = signalColor(value, bands);
+    image.data[i * 4] = r;
+    image.data[i * 4 + 1] = g;
+    image.data[i * 4 + 2] = b;
+    image.data[i * 4 + 3] = HEATMAP_ALPHA;
+  });
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
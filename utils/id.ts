@@ -0,0 +1,7 @@
+let idCounter = 0;
+
+// Short unique id for user-drawn plan elements (walls, zones, ...).
+export const createId = (prefix: string): string => {
+  idCounter += 1;
+  return `${prefix}-${Date.now().toString(36)}-${idCounter}`;
+};
@@ -61,4 +61,28 @@ export const nchoosek = <T,>(arr: T[], k: number): T[][] => {
 
 // heaviside: Heaviside step function. Returns 1 if x >= 0, else 0.
 export const heaviside = (x: number): number => (x >= 0 ? 1 : 0);
-    
\ No newline at end of file
+    
+// nchoosekCount: Number of k-combinations of n elements (binomial coefficient), without enumerating them.
+export const nchoosekCount = (n: number, k: number): number => {
+  if (k < 0 || k > n) {
+    return 0;
+  }
+  const kk = Math.min(k, n - k);
+  let count = 1;
+  for (let i = 1; i <= kk; i++) {
+    count = (count * (n - kk + i)) / i;
+  }
+  return Math.round(count);
+};
+
+// createRandom: Seeded pseudo-random generator (mulberry32) returning floats in [0, 1), for reproducible searches.
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
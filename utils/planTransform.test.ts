@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { metersToPlanPixel, pixelsPerMeterFromPoints, planPixelToMeters, resolvePlanTransform, rotationFromPoints } from './planTransform';
+import type { PlanCalibration } from '../types';
+
+describe('planTransform', () => {
+  const calibration: PlanCalibration = { pixelsPerMeter: 20, originPx: { x: 100, y: 50 }, rotationDeg: 30, calibrated: true };
+
+  it('round-trips meters through plan pixels', () => {
+    const meters = { x: 12.5, y: 7.25 };
+    const back = planPixelToMeters(metersToPlanPixel(meters, calibration), calibration)!;
+    expect(back.x).toBeCloseTo(meters.x, 9);
+    expect(back.y).toBeCloseTo(meters.y, 9);
+  });
+
+  it('falls back to the image width spanning the building length', () => {
+    const transform = resolvePlanTransform(null, 2000, 40)!;
+    expect(transform.pixelsPerMeter).toBe(50);
+    expect(transform.calibrated).toBe(false);
+    expect(planPixelToMeters({ x: 500, y: 250 }, transform)).toEqual({ x: 10, y: 5 });
+  });
+
+  it('has no transform without a scale', () => {
+    expect(resolvePlanTransform(null, 0, 40)).toBeNull();
+    expect(planPixelToMeters({ x: 1, y: 1 }, null)).toBeNull();
+  });
+
+  it('measures scale and rotation from two points', () => {
+    expect(pixelsPerMeterFromPoints({ x: 0, y: 0 }, { x: 30, y: 40 }, 5)).toBe(10);
+    expect(rotationFromPoints({ x: 0, y: 0 }, { x: 0, y: 10 })).toBe(90);
+  });
+});
@@ -0,0 +1,60 @@
+import type { APCoordinate, PlanCalibration } from '../types';
+
+// Pixels per meter of an uploaded plan, assuming the image width spans the building length.
+export const getPlanPixelsPerMeter = (naturalWidth: number, buildingLengthMeters: number): number =>
+  naturalWidth > 0 && buildingLengthMeters > 0 ? naturalWidth / buildingLengthMeters : 0;
+
+// The transform to use for a plan: the measured calibration if it has a scale, otherwise the width-equals-length
+// assumption (keeping any origin and rotation already set). Returns null when the scale is unknown.
+export const resolvePlanTransform = (
+  calibration: PlanCalibration | null,
+  naturalWidth: number,
+  buildingLengthMeters: number
+): PlanCalibration | null => {
+  if (calibration && calibration.pixelsPerMeter > 0) return calibration;
+  const pixelsPerMeter = getPlanPixelsPerMeter(naturalWidth, buildingLengthMeters);
+  if (pixelsPerMeter <= 0) return null;
+  return {
+    pixelsPerMeter,
+    originPx: calibration ? calibration.originPx : { x: 0, y: 0 },
+    rotationDeg: calibration ? calibration.rotationDeg : 0,
+    calibrated: false,
+  };
+};
+
+// Scale from two points clicked on the plan and the real distance between them.
+export const pixelsPerMeterFromPoints = (a: APCoordinate, b: APCoordinate, distanceMeters: number): number =>
+  distanceMeters > 0 ? Math.hypot(b.x - a.x, b.y - a.y) / distanceMeters : 0;
+
+// Angle of the line a -> b in the image, in degrees clockwise from the image X axis.
+export const rotationFromPoints = (a: APCoordinate, b: APCoordinate): number =>
+  (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI;
+
+// Converts a point in original-image pixels to building meters. Returns null when the scale is unknown.
+// Both conversions keep the point's other fields, so an AP keeps its model.
+export const planPixelToMeters = (point: APCoordinate, transform: PlanCalibration | null): APCoordinate | null => {
+  if (!transform || transform.pixelsPerMeter <= 0) return null;
+  const angle = (transform.rotationDeg * Math.PI) / 180;
+  const dx = point.x - transform.originPx.x;
+  const dy = point.y - transform.originPx.y;
+  return {
+    ...point,
+    x: (dx * Math.cos(angle) + dy * Math.sin(angle)) / transform.pixelsPerMeter,
+    y: (-dx * Math.sin(angle) + dy * Math.cos(angle)) / transform.pixelsPerMeter,
+  };
+};
+
+export const metersToPlanPixel = (point: APCoordinate, transform: PlanCalibration): APCoordinate => {
+  const angle = (transform.rotationDeg * Math.PI) / 180;
+  const x = point.x * transform.pixelsPerMeter;
+  const y = point.y * transform.pixelsPerMeter;
+  return {
+    ...point,
+    x: transform.originPx.x + x * Math.cos(angle) - y * Math.sin(angle),
+    y: transform.originPx.y + x * Math.sin(angle) + y * Math.cos(angle),
+  };
+};
+
+// SVG transform that maps building meters onto original-image pixels, for drawing meter-based overlays on the plan.
+export const metersToPixelsSvgTransform = (transform: PlanCalibration): string =>
+  `translate(${transform.originPx.x} ${transform.originPx.y}) rotate(${transform.rotationDeg}) scale(${transform.pixelsPerMeter})`;
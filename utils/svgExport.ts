@@ -0,0 +1,96 @@
+// Standalone SVG markup of a visualization. Width and height are its size in SVG user units (the viewBox).
+export interface SvgImage {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+export const EXPORT_DPI_OPTIONS = [96, 150, 300, 600];
+export const DEFAULT_EXPORT_DPI = 300;
+// Printed width the DPI refers to: the usable width of an A4 page with 15 mm margins.
+export const EXPORT_PRINT_WIDTH_MM = 180;
+const MAX_RASTER_PIXELS = 36_000_000; // Keeps large DPI choices inside browser canvas limits
+
+export const toStandaloneSvg = (image: SvgImage): string =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n${image.markup}`;
+
+export const rasterSizeForDpi = (image: SvgImage, dpi: number): { width: number; height: number } => {
+  let width = Math.round((EXPORT_PRINT_WIDTH_MM / 25.4) * dpi);
+  let height = Math.round((width * image.height) / image.width);
+  const excess = Math.sqrt((width * height) / MAX_RASTER_PIXELS);
+  if (excess > 1) {
+    width = Math.floor(width / excess);
+    height = Math.floor(height / excess);
+  }
+  return { width, height };
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Canvas PNGs carry no resolution, so a pHYs chunk is inserted right after IHDR; print and layout tools
+// then size the image at the chosen DPI.
+const withPngDpi = (pngDataUrl: string, dpi: number): string => {
+  const binary = atob(pngDataUrl.slice(pngDataUrl.indexOf(',') + 1));
+  const png = Uint8Array.from(binary, char => char.charCodeAt(0));
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // Unit: meter
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  const ihdrEnd = 8 + 25; // Signature, then the 13-byte IHDR chunk with its length, type and CRC
+  const result = new Uint8Array(png.length + chunk.length);
+  result.set(png.subarray(0, ihdrEnd), 0);
+  result.set(chunk, ihdrEnd);
+  result.set(png.subarray(ihdrEnd), ihdrEnd + chunk.length);
+
+  let encoded = '';
+  for (let i = 0; i < result.length; i += 0x8000) {
+    encoded += String.fromCharCode(...result.subarray(i, i + 0x8000));
+  }
+  return `data:image/png;base64,${btoa(encoded)}`;
+};
+
+// Draws the SVG onto a canvas at the size the DPI implies and returns a PNG data URL. Every image inside the
+// SVG is a data URL, so the canvas is never tainted.
+export const rasterizeSvg = (image: SvgImage, dpi: number, background: string = '#ffffff'): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const { width, height } = rasterSizeForDpi(image, dpi);
+    const url = URL.createObjectURL(new Blob([image.markup], { type: 'image/svg+xml' }));
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('El navegador no permite dibujar en un canvas.'));
+        return;
+      }
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, width, height);
+      ctx.drawImage(img, 0, 0, width, height);
+      resolve(withPngDpi(canvas.toDataURL('image/png'), dpi));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('No se pudo convertir la visualización a PNG.'));
+    };
+    img.src = url;
+  });